@@ -0,0 +1,21 @@
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var AnimationClip = (function () {
+        function AnimationClip(name, tracks) {
+            this.duration = 0;
+            this.name = name;
+            this.tracks = tracks;
+            for (var i = 0; i < tracks.length; i++) {
+                this.duration = Math.max(this.duration, tracks[i].getDuration());
+            }
+        }
+        AnimationClip.prototype.apply = function (time) {
+            for (var i = 0; i < this.tracks.length; i++) {
+                this.tracks[i].apply(time);
+            }
+            return this;
+        };
+        return AnimationClip;
+    }());
+    exports.AnimationClip = AnimationClip;
+});
@@ -0,0 +1,54 @@
+import {KeyframeTrack} from "./KeyframeTrack";
+
+/**
+ * A named set of keyframe tracks that play together, like a walk cycle.
+ *
+ * <h4>Example</h4>
+ *
+ *      var walk = loader.getAnimation('walk');
+ *      walk.apply(time % walk.duration);
+ *
+ * @class AnimationClip
+ * @param {string} name
+ * @param {Array<KeyframeTrack>} tracks
+ */
+export class AnimationClip
+{
+	public name:string;
+	public tracks:Array<KeyframeTrack>;
+
+	/**
+	 * time of the last keyframe of all tracks
+	 * @property duration
+	 * @type {number}
+	 */
+	public duration:number = 0;
+
+	constructor(name:string, tracks:Array<KeyframeTrack>)
+	{
+		this.name = name;
+		this.tracks = tracks;
+
+		for(var i = 0; i < tracks.length; i++)
+		{
+			this.duration = Math.max(this.duration, tracks[i].getDuration());
+		}
+	}
+
+	/**
+	 * Sets every animated property to its value at time.
+	 *
+	 * @method apply
+	 * @param {number} time in seconds
+	 * @returns {AnimationClip}
+	 */
+	public apply(time:number):this
+	{
+		for(var i = 0; i < this.tracks.length; i++)
+		{
+			this.tracks[i].apply(time);
+		}
+
+		return this;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,122 @@
+define(["require", "exports", "../math/Quaternion"], function (require, exports, Quaternion_1) {
+    "use strict";
+    var KeyframeTrack = (function () {
+        function KeyframeTrack(target, path, times, values, interpolation) {
+            if (interpolation === void 0) { interpolation = KeyframeTrack.LINEAR; }
+            this._value = [];
+            if (path != KeyframeTrack.TRANSLATION && path != KeyframeTrack.ROTATION && path != KeyframeTrack.SCALE) {
+                throw new TypeError('can not animate "' + path + '", the path has to be translation, rotation or scale');
+            }
+            if (interpolation != KeyframeTrack.LINEAR && interpolation != KeyframeTrack.STEP && interpolation != KeyframeTrack.CUBICSPLINE) {
+                throw new TypeError('unknown interpolation "' + interpolation + '"');
+            }
+            this.target = target;
+            this.path = path;
+            this.times = times;
+            this.values = values;
+            this.interpolation = interpolation;
+            if (values.length != times.length * this.getValueSize() * (interpolation == KeyframeTrack.CUBICSPLINE ? 3 : 1)) {
+                throw new RangeError('track "' + path + '" has ' + values.length + ' values for ' + times.length + ' keyframes');
+            }
+        }
+        KeyframeTrack.prototype.getValueSize = function () {
+            return this.path == KeyframeTrack.ROTATION ? 4 : 3;
+        };
+        KeyframeTrack.prototype.getDuration = function () {
+            return this.times.length > 0 ? this.times[this.times.length - 1] : 0;
+        };
+        KeyframeTrack.prototype.evaluate = function (time, out) {
+            if (out === void 0) { out = []; }
+            var times = this.times;
+            var size = this.getValueSize();
+            var last = times.length - 1;
+            if (last < 0) {
+                return out;
+            }
+            if (time <= times[0] || last == 0) {
+                return this.getKeyframe(0, out);
+            }
+            if (time >= times[last]) {
+                return this.getKeyframe(last, out);
+            }
+            var low = 0;
+            var high = last;
+            while (high - low > 1) {
+                var middle = (low + high) >> 1;
+                if (times[middle] <= time) {
+                    low = middle;
+                }
+                else {
+                    high = middle;
+                }
+            }
+            var duration = times[high] - times[low];
+            var t = (time - times[low]) / duration;
+            if (this.interpolation == KeyframeTrack.STEP) {
+                return this.getKeyframe(low, out);
+            }
+            if (this.interpolation == KeyframeTrack.CUBICSPLINE) {
+                var values = this.values;
+                var t2 = t * t;
+                var t3 = t2 * t;
+                var stride = size * 3;
+                for (var i = 0; i < size; i++) {
+                    var p0 = values[low * stride + size + i];
+                    var m0 = values[low * stride + size * 2 + i] * duration;
+                    var p1 = values[high * stride + size + i];
+                    var m1 = values[high * stride + i] * duration;
+                    out[i] = (2 * t3 - 3 * t2 + 1) * p0 + (t3 - 2 * t2 + t) * m0 + (-2 * t3 + 3 * t2) * p1 + (t3 - t2) * m1;
+                }
+                return this.path == KeyframeTrack.ROTATION ? KeyframeTrack.normalize(out) : out;
+            }
+            if (this.path == KeyframeTrack.ROTATION) {
+                KeyframeTrack._qa.fromArray(this.values, low * 4).slerp(KeyframeTrack._qb.fromArray(this.values, high * 4), t).toArray(out, 0);
+                return out;
+            }
+            for (var i = 0; i < size; i++) {
+                out[i] = this.values[low * size + i] + (this.values[high * size + i] - this.values[low * size + i]) * t;
+            }
+            return out;
+        };
+        KeyframeTrack.prototype.apply = function (time) {
+            var value = this.evaluate(time, this._value);
+            switch (this.path) {
+                case KeyframeTrack.TRANSLATION:
+                    this.target.position.fromArray(value, 0);
+                    break;
+                case KeyframeTrack.ROTATION:
+                    this.target.quaternion.fromArray(value, 0);
+                    break;
+                case KeyframeTrack.SCALE:
+                    this.target.scale.fromArray(value, 0);
+                    break;
+            }
+            return this;
+        };
+        KeyframeTrack.prototype.getKeyframe = function (index, out) {
+            var size = this.getValueSize();
+            var offset = this.interpolation == KeyframeTrack.CUBICSPLINE ? index * size * 3 + size : index * size;
+            for (var i = 0; i < size; i++) {
+                out[i] = this.values[offset + i];
+            }
+            return out;
+        };
+        KeyframeTrack.normalize = function (quaternion) {
+            var length = Math.sqrt(quaternion[0] * quaternion[0] + quaternion[1] * quaternion[1] + quaternion[2] * quaternion[2] + quaternion[3] * quaternion[3]) || 1;
+            for (var i = 0; i < 4; i++) {
+                quaternion[i] /= length;
+            }
+            return quaternion;
+        };
+        KeyframeTrack.TRANSLATION = 'translation';
+        KeyframeTrack.ROTATION = 'rotation';
+        KeyframeTrack.SCALE = 'scale';
+        KeyframeTrack.LINEAR = 'LINEAR';
+        KeyframeTrack.STEP = 'STEP';
+        KeyframeTrack.CUBICSPLINE = 'CUBICSPLINE';
+        KeyframeTrack._qa = new Quaternion_1.Quaternion();
+        KeyframeTrack._qb = new Quaternion_1.Quaternion();
+        return KeyframeTrack;
+    }());
+    exports.KeyframeTrack = KeyframeTrack;
+});
@@ -0,0 +1,223 @@
+import {Object3D} from "../math/Object3D";
+import {Quaternion} from "../math/Quaternion";
+
+/**
+ * Values of one property of an Object3D over time, the position, the rotation or the scale. Values between two
+ * keyframes are interpolated, rotations are interpolated along the shortest arc.
+ *
+ * <h4>Example</h4>
+ *
+ *      var bounce = new KeyframeTrack(ball, KeyframeTrack.TRANSLATION,
+ *          new Float32Array([0, 0.5, 1]),
+ *          new Float32Array([0, 0, 0, 0, 2, 0, 0, 0, 0]));
+ *
+ *      bounce.apply(0.25); // ball.position is (0, 1, 0)
+ *
+ * @class KeyframeTrack
+ * @param {Object3D} target
+ * @param {string} path KeyframeTrack.TRANSLATION, ROTATION or SCALE
+ * @param {Float32Array} times in seconds, ascending
+ * @param {Float32Array} values a value per time, for CUBICSPLINE an in tangent, a value and an out tangent per time
+ * @param {string} [interpolation=KeyframeTrack.LINEAR]
+ */
+export class KeyframeTrack
+{
+	public static TRANSLATION:string = 'translation';
+	public static ROTATION:string = 'rotation';
+	public static SCALE:string = 'scale';
+
+	public static LINEAR:string = 'LINEAR';
+	public static STEP:string = 'STEP';
+	public static CUBICSPLINE:string = 'CUBICSPLINE';
+
+	private static _qa:Quaternion = new Quaternion();
+	private static _qb:Quaternion = new Quaternion();
+
+	public target:Object3D;
+	public path:string;
+	public times:Float32Array;
+	public values:Float32Array;
+	public interpolation:string;
+
+	protected _value:Array<number> = [];
+
+	constructor(target:Object3D, path:string, times:Float32Array, values:Float32Array, interpolation:string = KeyframeTrack.LINEAR)
+	{
+		if(path != KeyframeTrack.TRANSLATION && path != KeyframeTrack.ROTATION && path != KeyframeTrack.SCALE)
+		{
+			throw new TypeError('can not animate "' + path + '", the path has to be translation, rotation or scale');
+		}
+
+		if(interpolation != KeyframeTrack.LINEAR && interpolation != KeyframeTrack.STEP && interpolation != KeyframeTrack.CUBICSPLINE)
+		{
+			throw new TypeError('unknown interpolation "' + interpolation + '"');
+		}
+
+		this.target = target;
+		this.path = path;
+		this.times = times;
+		this.values = values;
+		this.interpolation = interpolation;
+
+		if(values.length != times.length * this.getValueSize() * (interpolation == KeyframeTrack.CUBICSPLINE ? 3 : 1))
+		{
+			throw new RangeError('track "' + path + '" has ' + values.length + ' values for ' + times.length + ' keyframes');
+		}
+	}
+
+	/**
+	 * @method getValueSize
+	 * @returns {number} 4 for rotations, 3 otherwise
+	 */
+	public getValueSize():number
+	{
+		return this.path == KeyframeTrack.ROTATION ? 4 : 3;
+	}
+
+	/**
+	 * @method getDuration
+	 * @returns {number} time of the last keyframe
+	 */
+	public getDuration():number
+	{
+		return this.times.length > 0 ? this.times[this.times.length - 1] : 0;
+	}
+
+	/**
+	 * The value at time, before the first keyframe it is the first value and after the last keyframe the last.
+	 *
+	 * @method evaluate
+	 * @param {number} time in seconds
+	 * @param {Array<number>} [out]
+	 * @returns {Array<number>}
+	 */
+	public evaluate(time:number, out:Array<number> = []):Array<number>
+	{
+		var times = this.times;
+		var size = this.getValueSize();
+		var last = times.length - 1;
+
+		if(last < 0)
+		{
+			return out;
+		}
+
+		if(time <= times[0] || last == 0)
+		{
+			return this.getKeyframe(0, out);
+		}
+
+		if(time >= times[last])
+		{
+			return this.getKeyframe(last, out);
+		}
+
+		// binary search for the keyframe before time
+		var low = 0;
+		var high = last;
+
+		while(high - low > 1)
+		{
+			var middle = (low + high) >> 1;
+
+			if(times[middle] <= time)
+			{
+				low = middle;
+			}
+			else
+			{
+				high = middle;
+			}
+		}
+
+		var duration = times[high] - times[low];
+		var t = (time - times[low]) / duration;
+
+		if(this.interpolation == KeyframeTrack.STEP)
+		{
+			return this.getKeyframe(low, out);
+		}
+
+		if(this.interpolation == KeyframeTrack.CUBICSPLINE)
+		{
+			var values = this.values;
+			var t2 = t * t;
+			var t3 = t2 * t;
+			var stride = size * 3;
+
+			// Hermite spline, the tangents are scaled by the time between the keyframes
+			for(var i = 0; i < size; i++)
+			{
+				var p0 = values[low * stride + size + i];
+				var m0 = values[low * stride + size * 2 + i] * duration;
+				var p1 = values[high * stride + size + i];
+				var m1 = values[high * stride + i] * duration;
+
+				out[i] = (2 * t3 - 3 * t2 + 1) * p0 + (t3 - 2 * t2 + t) * m0 + (-2 * t3 + 3 * t2) * p1 + (t3 - t2) * m1;
+			}
+
+			return this.path == KeyframeTrack.ROTATION ? KeyframeTrack.normalize(out) : out;
+		}
+
+		if(this.path == KeyframeTrack.ROTATION)
+		{
+			KeyframeTrack._qa.fromArray(this.values, low * 4).slerp(KeyframeTrack._qb.fromArray(this.values, high * 4), t).toArray(out, 0);
+			return out;
+		}
+
+		for(var i = 0; i < size; i++)
+		{
+			out[i] = this.values[low * size + i] + (this.values[high * size + i] - this.values[low * size + i]) * t;
+		}
+
+		return out;
+	}
+
+	/**
+	 * Sets the property of the target to the value at time.
+	 *
+	 * @method apply
+	 * @param {number} time in seconds
+	 * @returns {KeyframeTrack}
+	 */
+	public apply(time:number):this
+	{
+		var value = this.evaluate(time, this._value);
+
+		switch(this.path)
+		{
+			case KeyframeTrack.TRANSLATION: this.target.position.fromArray(value, 0); break;
+			case KeyframeTrack.ROTATION: this.target.quaternion.fromArray(value, 0); break;
+			case KeyframeTrack.SCALE: this.target.scale.fromArray(value, 0); break;
+		}
+
+		return this;
+	}
+
+	protected getKeyframe(index:number, out:Array<number>):Array<number>
+	{
+		var size = this.getValueSize();
+
+		// the value sits between the tangents
+		var offset = this.interpolation == KeyframeTrack.CUBICSPLINE ? index * size * 3 + size : index * size;
+
+		for(var i = 0; i < size; i++)
+		{
+			out[i] = this.values[offset + i];
+		}
+
+		return out;
+	}
+
+	protected static normalize(quaternion:Array<number>):Array<number>
+	{
+		var length = Math.sqrt(quaternion[0] * quaternion[0] + quaternion[1] * quaternion[1] + quaternion[2] * quaternion[2] + quaternion[3] * quaternion[3]) || 1;
+
+		for(var i = 0; i < 4; i++)
+		{
+			quaternion[i] /= length;
+		}
+
+		return quaternion;
+	}
+}
\ No newline at end of file
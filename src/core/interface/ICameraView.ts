@@ -0,0 +1,17 @@
+/**
+ * The part of a larger view a camera renders, for drawing one image in tiles or over several screens. Sizes and
+ * offsets are in pixels of the full view.
+ *
+ * @interface ICameraView
+ */
+interface ICameraView
+{
+	fullWidth:number;
+	fullHeight:number;
+	offsetX:number;
+	offsetY:number;
+	width:number;
+	height:number;
+}
+
+export default ICameraView;
\ No newline at end of file
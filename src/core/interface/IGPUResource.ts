@@ -0,0 +1,17 @@
+/**
+ * Object that owns handles of a WebGL context, it recreates them after the context was lost and restored.
+ *
+ * @interface IGPUResource
+ */
+interface IGPUResource
+{
+	/**
+	 * Recreates the handles, the old handles are dead and must not be deleted.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	restore(gl:WebGLRenderingContext):void;
+}
+
+export default IGPUResource;
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * Values of one vertex attribute of a Geometry, like the positions or the normals.
+ *
+ * @interface IGeometryAttribute
+ */
+interface IGeometryAttribute
+{
+	/**
+	 * amount of components per vertex, 1 - 4
+	 * @property size
+	 * @type {number}
+	 */
+	size:number;
+
+	/**
+	 * size values per vertex
+	 * @property array
+	 * @type {Float32Array}
+	 */
+	array:Float32Array;
+}
+
+export default IGeometryAttribute;
\ No newline at end of file
@@ -0,0 +1,53 @@
+import {Texture} from "../../visual/display/Texture";
+
+/**
+ * A metallic roughness material read from a glTF file. Colors are from 0 to 1, maps are null when the material does
+ * not use a texture for them.
+ *
+ * @interface IGltfMaterial
+ */
+interface IGltfMaterial
+{
+	name:string;
+
+	/**
+	 * base color, rgba
+	 * @property color
+	 * @type {Array<number>}
+	 */
+	color:Array<number>;
+
+	metallic:number;
+	roughness:number;
+
+	/**
+	 * rgb
+	 * @property emissive
+	 * @type {Array<number>}
+	 */
+	emissive:Array<number>;
+
+	/**
+	 * OPAQUE, MASK or BLEND
+	 * @property alphaMode
+	 * @type {string}
+	 */
+	alphaMode:string;
+
+	/**
+	 * for alphaMode MASK, fragments with a lower alpha are discarded
+	 * @property alphaCutoff
+	 * @type {number}
+	 */
+	alphaCutoff:number;
+
+	doubleSided:boolean;
+
+	map:Texture;
+	metallicRoughnessMap:Texture;
+	normalMap:Texture;
+	occlusionMap:Texture;
+	emissiveMap:Texture;
+}
+
+export default IGltfMaterial;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import {Vector3} from "../math/Vector3";
+import {Object3D} from "../math/Object3D";
+import IVector2 from "./IVector2";
+
+/**
+ * Where a ray of a Raycaster hits an object.
+ *
+ * @interface IIntersection
+ */
+interface IIntersection
+{
+	/**
+	 * distance from the origin of the ray to point, in world space
+	 * @property distance
+	 * @type {number}
+	 */
+	distance:number;
+
+	/**
+	 * the hit in world space
+	 * @property point
+	 * @type {Vector3}
+	 */
+	point:Vector3;
+
+	object:Object3D;
+
+	/**
+	 * the triangle that was hit, the index of its first corner divided by 3
+	 * @property faceIndex
+	 * @type {number}
+	 */
+	faceIndex:number;
+
+	/**
+	 * texture coordinate at point, null when the geometry has no uv attribute
+	 * @property uv
+	 * @type {IVector2}
+	 */
+	uv:IVector2;
+}
+
+export default IIntersection;
\ No newline at end of file
@@ -0,0 +1,61 @@
+import {Texture} from "../../visual/display/Texture";
+
+/**
+ * A material read from a Wavefront .mtl file. Colors are rgb from 0 to 1, maps are null when the file does not
+ * name a texture for them.
+ *
+ * @interface IMtlMaterial
+ */
+interface IMtlMaterial
+{
+	name:string;
+
+	/**
+	 * diffuse color, Kd
+	 * @property color
+	 * @type {Array<number>}
+	 */
+	color:Array<number>;
+
+	/**
+	 * Ka
+	 * @property ambient
+	 * @type {Array<number>}
+	 */
+	ambient:Array<number>;
+
+	/**
+	 * Ks
+	 * @property specular
+	 * @type {Array<number>}
+	 */
+	specular:Array<number>;
+
+	/**
+	 * Ke
+	 * @property emissive
+	 * @type {Array<number>}
+	 */
+	emissive:Array<number>;
+
+	/**
+	 * specular exponent, Ns
+	 * @property shininess
+	 * @type {number}
+	 */
+	shininess:number;
+
+	/**
+	 * d, or 1 - Tr
+	 * @property opacity
+	 * @type {number}
+	 */
+	opacity:number;
+
+	map:Texture;
+	specularMap:Texture;
+	normalMap:Texture;
+	alphaMap:Texture;
+}
+
+export default IMtlMaterial;
\ No newline at end of file
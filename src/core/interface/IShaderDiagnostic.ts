@@ -0,0 +1,39 @@
+/**
+ * One message of the info log of a shader compiler.
+ *
+ * @interface IShaderDiagnostic
+ */
+interface IShaderDiagnostic
+{
+	/**
+	 * shader or chunk the message is about
+	 * @property file
+	 * @type {string}
+	 */
+	file:string;
+
+	/**
+	 * 1 based line number in file, 0 when the driver did not report a line
+	 * @property line
+	 * @type {number}
+	 */
+	line:number;
+
+	/**
+	 * 1 based column, 0 when the driver did not report a column
+	 * @property column
+	 * @type {number}
+	 */
+	column:number;
+
+	/**
+	 * 'error' or 'warning'
+	 * @property severity
+	 * @type {string}
+	 */
+	severity:string;
+
+	message:string;
+}
+
+export default IShaderDiagnostic;
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * Position in a shader file or chunk, used to map the lines of preprocessed glsl back to where they came from.
+ *
+ * @interface ISourceLocation
+ */
+interface ISourceLocation
+{
+	/**
+	 * name of the shader or chunk
+	 * @property file
+	 * @type {string}
+	 */
+	file:string;
+
+	/**
+	 * 1 based line number
+	 * @property line
+	 * @type {number}
+	 */
+	line:number;
+}
+
+export default ISourceLocation;
\ No newline at end of file
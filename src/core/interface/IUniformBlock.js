@@ -0,0 +1,3 @@
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+});
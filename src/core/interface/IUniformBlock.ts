@@ -0,0 +1,47 @@
+import IHashMap from "./IHashMap";
+import IUniformBlockMember from "./IUniformBlockMember";
+
+/**
+ * A uniform block of a linked program, the values of its members come from a UniformBuffer.
+ *
+ * @interface IUniformBlock
+ */
+interface IUniformBlock
+{
+	/**
+	 * name of the block in the shader
+	 * @property name
+	 * @type {string}
+	 */
+	name:string;
+
+	/**
+	 * index of the block in the program
+	 * @property index
+	 * @type {number}
+	 */
+	index:number;
+
+	/**
+	 * uniform buffer binding point the block reads from
+	 * @property binding
+	 * @type {number}
+	 */
+	binding:number;
+
+	/**
+	 * size of the buffer in bytes
+	 * @property size
+	 * @type {number}
+	 */
+	size:number;
+
+	/**
+	 * members by name, without the instance name and without [0] for arrays
+	 * @property members
+	 * @type {IHashMap<IUniformBlockMember>}
+	 */
+	members:IHashMap<IUniformBlockMember>;
+}
+
+export default IUniformBlock;
\ No newline at end of file
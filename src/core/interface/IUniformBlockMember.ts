@@ -0,0 +1,44 @@
+/**
+ * Where a uniform of a uniform block is stored in the buffer, as reported by the program.
+ *
+ * @interface IUniformBlockMember
+ */
+interface IUniformBlockMember
+{
+	/**
+	 * glsl type, like gl.FLOAT_VEC4
+	 * @property type
+	 * @type {number}
+	 */
+	type:number;
+
+	/**
+	 * amount of elements when the member is an array, 1 otherwise
+	 * @property size
+	 * @type {number}
+	 */
+	size:number;
+
+	/**
+	 * byte offset in the buffer
+	 * @property offset
+	 * @type {number}
+	 */
+	offset:number;
+
+	/**
+	 * bytes between the elements of an array
+	 * @property arrayStride
+	 * @type {number}
+	 */
+	arrayStride:number;
+
+	/**
+	 * bytes between the columns of a matrix
+	 * @property matrixStride
+	 * @type {number}
+	 */
+	matrixStride:number;
+}
+
+export default IUniformBlockMember;
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * One attribute of an interleaved vertex buffer.
+ *
+ * @interface IVertexElement
+ */
+interface IVertexElement
+{
+	/**
+	 * name of the attribute in the shader
+	 * @property name
+	 * @type {string}
+	 */
+	name:string;
+
+	/**
+	 * amount of components, 1 - 4
+	 * @property size
+	 * @type {number}
+	 */
+	size:number;
+
+	/**
+	 * component type, defaults to gl.FLOAT
+	 * @property type
+	 * @type {number}
+	 */
+	type?:number;
+
+	/**
+	 * whether integer components are mapped to 0 - 1 or -1 - 1
+	 * @property normalized
+	 * @type {boolean}
+	 */
+	normalized?:boolean;
+}
+
+export default IVertexElement;
\ No newline at end of file
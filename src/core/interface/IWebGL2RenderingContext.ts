@@ -0,0 +1,45 @@
+/**
+ * The part of a WebGL 2 context that is used here and is not in the typings of WebGLRenderingContext. Only cast a
+ * context to this after GLCapabilities.isWebGL2Context said it is one.
+ *
+ * @interface IWebGL2RenderingContext
+ */
+interface IWebGL2RenderingContext extends WebGLRenderingContext
+{
+	ACTIVE_UNIFORM_BLOCKS:number;
+	UNIFORM_BLOCK_DATA_SIZE:number;
+	UNIFORM_BLOCK_INDEX:number;
+	UNIFORM_OFFSET:number;
+	UNIFORM_ARRAY_STRIDE:number;
+	UNIFORM_MATRIX_STRIDE:number;
+
+	// vertex arrays and instancing
+	createVertexArray():any;
+	bindVertexArray(vertexArray:any):void;
+	deleteVertexArray(vertexArray:any):void;
+	vertexAttribDivisor(index:number, divisor:number):void;
+	drawArraysInstanced(mode:number, first:number, count:number, instanceCount:number):void;
+	drawElementsInstanced(mode:number, count:number, type:number, offset:number, instanceCount:number):void;
+
+	// uniform blocks
+	bindBufferBase(target:number, index:number, buffer:WebGLBuffer):void;
+	getActiveUniformBlockName(program:WebGLProgram, index:number):string;
+	getActiveUniformBlockParameter(program:WebGLProgram, index:number, pname:number):any;
+	getActiveUniforms(program:WebGLProgram, indices:Array<number>, pname:number):any;
+	uniformBlockBinding(program:WebGLProgram, index:number, binding:number):void;
+
+	// uniforms of the types WebGL 1 does not have
+	uniform1ui(location:WebGLUniformLocation, value:number):void;
+	uniform1uiv(location:WebGLUniformLocation, value:Array<number>|Uint32Array):void;
+	uniform2uiv(location:WebGLUniformLocation, value:Array<number>|Uint32Array):void;
+	uniform3uiv(location:WebGLUniformLocation, value:Array<number>|Uint32Array):void;
+	uniform4uiv(location:WebGLUniformLocation, value:Array<number>|Uint32Array):void;
+	uniformMatrix2x3fv(location:WebGLUniformLocation, transpose:boolean, value:Array<number>|Float32Array):void;
+	uniformMatrix2x4fv(location:WebGLUniformLocation, transpose:boolean, value:Array<number>|Float32Array):void;
+	uniformMatrix3x2fv(location:WebGLUniformLocation, transpose:boolean, value:Array<number>|Float32Array):void;
+	uniformMatrix3x4fv(location:WebGLUniformLocation, transpose:boolean, value:Array<number>|Float32Array):void;
+	uniformMatrix4x2fv(location:WebGLUniformLocation, transpose:boolean, value:Array<number>|Float32Array):void;
+	uniformMatrix4x3fv(location:WebGLUniformLocation, transpose:boolean, value:Array<number>|Float32Array):void;
+}
+
+export default IWebGL2RenderingContext;
\ No newline at end of file
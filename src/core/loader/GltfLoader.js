@@ -0,0 +1,412 @@
+define(["require", "exports", "../net/HttpRequest", "../util/Promise", "../util/PromiseUtil", "../math/Object3D", "../math/Mesh3D", "../math/Matrix4", "../webgl/Geometry", "../webgl/GeometryUtil", "../webgl/material/PhongMaterial", "../animation/KeyframeTrack", "../animation/AnimationClip", "../../visual/display/Texture"], function (require, exports, HttpRequest_1, Promise_1, PromiseUtil_1, Object3D_1, Mesh3D_1, Matrix4_1, Geometry_1, GeometryUtil_1, PhongMaterial_1, KeyframeTrack_1, AnimationClip_1, Texture_1) {
+    "use strict";
+    var GltfLoader = (function () {
+        function GltfLoader(path) {
+            this.data = null;
+            this.json = null;
+            this.scenes = [];
+            this.nodes = [];
+            this.animations = [];
+            this.textures = [];
+            this.materials = [];
+            this.skippedPrimitives = [];
+            this._buffers = [];
+            this._materials = [];
+            this._defaultMaterial = null;
+            this._primitives = [];
+            this._promise = null;
+            this._hasLoaded = false;
+            this.path = path;
+        }
+        GltfLoader.isGlb = function (data) {
+            return data.byteLength >= 12 && new DataView(data).getUint32(0, true) == GltfLoader.GLB_MAGIC;
+        };
+        GltfLoader.parseGlb = function (data) {
+            var view = new DataView(data);
+            var version = view.getUint32(4, true);
+            var length = Math.min(view.getUint32(8, true), data.byteLength);
+            var json = null;
+            var bin = null;
+            if (version != 2) {
+                throw new Error('glb version ' + version + ' is not supported, only glTF 2.0 can be loaded');
+            }
+            for (var offset = 12; offset + 8 <= length;) {
+                var chunkLength = view.getUint32(offset, true);
+                var chunkType = view.getUint32(offset + 4, true);
+                var start = offset + 8;
+                if (chunkType == GltfLoader.CHUNK_JSON) {
+                    json = JSON.parse(GltfLoader.decodeText(new Uint8Array(data, start, chunkLength)));
+                }
+                else if (chunkType == GltfLoader.CHUNK_BIN && !bin) {
+                    bin = data.slice(start, start + chunkLength);
+                }
+                offset = start + chunkLength;
+            }
+            if (!json) {
+                throw new Error('glb has no json chunk');
+            }
+            return { json: json, bin: bin };
+        };
+        GltfLoader.decodeText = function (bytes) {
+            var codes = [];
+            var text = '';
+            for (var i = 0; i < bytes.length;) {
+                var byte = bytes[i++];
+                var code = byte;
+                if (byte >= 0xf0) {
+                    code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+                    code -= 0x10000;
+                    codes.push(0xd800 + (code >> 10));
+                    code = 0xdc00 + (code & 0x3ff);
+                }
+                else if (byte >= 0xe0) {
+                    code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+                }
+                else if (byte >= 0xc0) {
+                    code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+                }
+                codes.push(code);
+                if (codes.length >= 0x4000 || i >= bytes.length) {
+                    text += String.fromCharCode.apply(null, codes);
+                    codes.length = 0;
+                }
+            }
+            return text;
+        };
+        GltfLoader.prototype.hasLoaded = function () {
+            return this._hasLoaded;
+        };
+        GltfLoader.prototype.load = function (onProgress) {
+            var _this = this;
+            var progress = function (value) {
+                if (onProgress)
+                    onProgress(value);
+            };
+            if (this._hasLoaded) {
+                progress(1);
+                return Promise_1.Promise.resolve(this.data);
+            }
+            if (!this._promise) {
+                this._promise = HttpRequest_1.HttpRequest.getArrayBuffer(this.path, null).then(function (data) {
+                    var bin = null;
+                    if (GltfLoader.isGlb(data)) {
+                        var glb = GltfLoader.parseGlb(data);
+                        _this.json = glb.json;
+                        bin = glb.bin;
+                    }
+                    else {
+                        _this.json = JSON.parse(GltfLoader.decodeText(new Uint8Array(data)));
+                    }
+                    var version = _this.json.asset && _this.json.asset.version;
+                    if (!version || version.charAt(0) != '2') {
+                        throw new Error('glTF version ' + version + ' is not supported, only glTF 2.0 can be loaded');
+                    }
+                    progress(1 / 3);
+                    return _this.loadBuffers(bin, function (value) { return progress((1 + value) / 3); });
+                }).then(function (buffers) {
+                    _this._buffers = buffers;
+                    _this.textures = _this.createTextures();
+                    return PromiseUtil_1.PromiseUtil.loadLoadable(_this.textures, function (value) { return progress((2 + value) / 3); });
+                }).then(function () {
+                    _this.build();
+                    _this._hasLoaded = true;
+                    progress(1);
+                    return _this.data;
+                });
+            }
+            return this._promise;
+        };
+        GltfLoader.prototype.getAnimation = function (name) {
+            for (var i = 0; i < this.animations.length; i++) {
+                if (this.animations[i].name == name) {
+                    return this.animations[i];
+                }
+            }
+            return null;
+        };
+        GltfLoader.prototype.loadBuffers = function (bin, onProgress) {
+            var _this = this;
+            var buffers = this.json.buffers || [];
+            if (buffers.length == 0) {
+                onProgress(1);
+                return Promise_1.Promise.resolve([]);
+            }
+            return PromiseUtil_1.PromiseUtil.allWithProgress(buffers.map(function (buffer, index) {
+                if (buffer.uri === void 0) {
+                    if (index != 0 || !bin) {
+                        throw new Error('buffer ' + index + ' has no uri');
+                    }
+                    return Promise_1.Promise.resolve(bin);
+                }
+                return HttpRequest_1.HttpRequest.getArrayBuffer(_this.resolveUri(buffer.uri), null);
+            }), onProgress);
+        };
+        GltfLoader.prototype.createTextures = function () {
+            var _this = this;
+            var images = [];
+            return (this.json.textures || []).map(function (texture, index) {
+                if (texture.source === void 0) {
+                    throw new Error('texture ' + index + ' has no image');
+                }
+                if (!images[texture.source]) {
+                    var image = _this.json.images[texture.source];
+                    var url;
+                    if (image.uri !== void 0) {
+                        url = _this.resolveUri(image.uri);
+                    }
+                    else {
+                        var view = _this.json.bufferViews[image.bufferView];
+                        url = URL.createObjectURL(new Blob([new Uint8Array(_this._buffers[view.buffer], view.byteOffset || 0, view.byteLength)], { type: image.mimeType }));
+                    }
+                    images[texture.source] = Texture_1.Texture.createFromUrl(url);
+                }
+                return images[texture.source];
+            });
+        };
+        GltfLoader.prototype.build = function () {
+            var _this = this;
+            var json = this.json;
+            this.materials = (json.materials || []).map(function (material, index) { return _this.createMaterial(index); });
+            this._materials = this.materials.map(function (material) { return PhongMaterial_1.PhongMaterial.createFromGltf(material); });
+            this.nodes = (json.nodes || []).map(function (node, index) { return _this.createNode(index); });
+            for (var i = 0; i < this.nodes.length; i++) {
+                var children = json.nodes[i].children || [];
+                for (var c = 0; c < children.length; c++) {
+                    this.nodes[i].add(this.nodes[children[c]]);
+                }
+            }
+            this.scenes = (json.scenes || []).map(function (scene) {
+                var root = new Object3D_1.Object3D();
+                var nodes = scene.nodes || [];
+                root.name = scene.name || '';
+                for (var i = 0; i < nodes.length; i++) {
+                    var node = _this.nodes[nodes[i]];
+                    root.add(node.parent ? node.clone(true) : node);
+                }
+                return root;
+            });
+            if (this.scenes.length > 0) {
+                this.data = this.scenes[json.scene || 0];
+            }
+            else {
+                this.data = new Object3D_1.Object3D();
+                for (var i = 0; i < this.nodes.length; i++) {
+                    if (!this.nodes[i].parent) {
+                        this.data.add(this.nodes[i]);
+                    }
+                }
+            }
+            this.animations = (json.animations || []).map(function (animation, index) { return _this.createAnimation(index); });
+        };
+        GltfLoader.prototype.createNode = function (index) {
+            var node = this.json.nodes[index];
+            var object;
+            if (node.mesh !== void 0) {
+                var primitives = this.getPrimitives(node.mesh);
+                if (primitives.length == 1) {
+                    object = primitives[0].clone(false);
+                }
+                else {
+                    object = new Object3D_1.Object3D();
+                    for (var i = 0; i < primitives.length; i++) {
+                        object.add(primitives[i].clone(false));
+                    }
+                }
+            }
+            else {
+                object = new Object3D_1.Object3D();
+            }
+            object.name = node.name || '';
+            if (node.matrix) {
+                new Matrix4_1.Matrix4().fromArray(node.matrix).decompose(object.position, object.quaternion, object.scale);
+            }
+            else {
+                if (node.translation)
+                    object.position.fromArray(node.translation, 0);
+                if (node.rotation)
+                    object.quaternion.fromArray(node.rotation, 0);
+                if (node.scale)
+                    object.scale.fromArray(node.scale, 0);
+            }
+            return object;
+        };
+        GltfLoader.prototype.getPrimitives = function (index) {
+            if (this._primitives[index]) {
+                return this._primitives[index];
+            }
+            var mesh = this.json.meshes[index];
+            var meshes = [];
+            for (var p = 0; p < mesh.primitives.length; p++) {
+                var primitive = mesh.primitives[p];
+                if (primitive.mode !== void 0 && primitive.mode != 4) {
+                    this.skippedPrimitives.push({ mesh: index, primitive: p, mode: primitive.mode });
+                    continue;
+                }
+                var geometry = new Geometry_1.Geometry();
+                for (var name in primitive.attributes) {
+                    var attribute = this.readAccessor(primitive.attributes[name], true);
+                    geometry.setAttribute(GltfLoader.ATTRIBUTES[name] || name, attribute.array, attribute.size);
+                }
+                if (primitive.indices !== void 0) {
+                    var indices = this.readAccessor(primitive.indices, false).array;
+                    geometry.setIndex(indices instanceof Uint8Array ? new Uint16Array(indices) : indices);
+                }
+                else {
+                    var sequence = [];
+                    for (var i = 0; i < geometry.getVertexCount(); i++) {
+                        sequence.push(i);
+                    }
+                    geometry.setIndex(sequence);
+                }
+                if (!geometry.hasAttribute(Geometry_1.Geometry.NORMAL)) {
+                    GeometryUtil_1.GeometryUtil.computeNormals(geometry, true);
+                }
+                geometry.name = mesh.name || '';
+                var object = new Mesh3D_1.Mesh3D(geometry, primitive.material !== void 0 ? this._materials[primitive.material] : this.getDefaultMaterial());
+                object.name = mesh.name || '';
+                meshes.push(object);
+            }
+            return this._primitives[index] = meshes;
+        };
+        GltfLoader.prototype.getDefaultMaterial = function () {
+            if (!this._defaultMaterial) {
+                this._defaultMaterial = PhongMaterial_1.PhongMaterial.createFromGltf({
+                    name: '', color: [1, 1, 1, 1], metallic: 1, roughness: 1, emissive: [0, 0, 0],
+                    alphaMode: 'OPAQUE', alphaCutoff: 0.5, doubleSided: false,
+                    map: null, metallicRoughnessMap: null, normalMap: null, occlusionMap: null, emissiveMap: null
+                });
+            }
+            return this._defaultMaterial;
+        };
+        GltfLoader.prototype.createMaterial = function (index) {
+            var _this = this;
+            var material = this.json.materials[index];
+            var pbr = material.pbrMetallicRoughness || {};
+            var texture = function (info) {
+                return info ? _this.textures[info.index] : null;
+            };
+            return {
+                name: material.name || '',
+                color: pbr.baseColorFactor || [1, 1, 1, 1],
+                metallic: pbr.metallicFactor !== void 0 ? pbr.metallicFactor : 1,
+                roughness: pbr.roughnessFactor !== void 0 ? pbr.roughnessFactor : 1,
+                emissive: material.emissiveFactor || [0, 0, 0],
+                alphaMode: material.alphaMode || 'OPAQUE',
+                alphaCutoff: material.alphaCutoff !== void 0 ? material.alphaCutoff : 0.5,
+                doubleSided: !!material.doubleSided,
+                map: texture(pbr.baseColorTexture),
+                metallicRoughnessMap: texture(pbr.metallicRoughnessTexture),
+                normalMap: texture(material.normalTexture),
+                occlusionMap: texture(material.occlusionTexture),
+                emissiveMap: texture(material.emissiveTexture)
+            };
+        };
+        GltfLoader.prototype.createAnimation = function (index) {
+            var animation = this.json.animations[index];
+            var tracks = [];
+            for (var i = 0; i < animation.channels.length; i++) {
+                var channel = animation.channels[i];
+                var sampler = animation.samplers[channel.sampler];
+                if (channel.target.node === void 0 || channel.target.path == 'weights') {
+                    continue;
+                }
+                tracks.push(new KeyframeTrack_1.KeyframeTrack(this.nodes[channel.target.node], channel.target.path, this.readAccessor(sampler.input, true).array, this.readAccessor(sampler.output, true).array, sampler.interpolation || KeyframeTrack_1.KeyframeTrack.LINEAR));
+            }
+            return new AnimationClip_1.AnimationClip(animation.name || 'animation' + index, tracks);
+        };
+        GltfLoader.prototype.readAccessor = function (index, asFloat) {
+            var accessor = this.json.accessors[index];
+            var size = GltfLoader.TYPE_SIZES[accessor.type];
+            var ArrayType = GltfLoader.getArrayType(accessor.componentType);
+            var array = new ArrayType(accessor.count * size);
+            if (accessor.bufferView !== void 0) {
+                this.readBufferView(accessor.bufferView, accessor.byteOffset || 0, ArrayType, size, array);
+            }
+            if (accessor.sparse) {
+                var sparse = accessor.sparse;
+                var indices = new (GltfLoader.getArrayType(sparse.indices.componentType))(sparse.count);
+                var values = new ArrayType(sparse.count * size);
+                this.readBufferView(sparse.indices.bufferView, sparse.indices.byteOffset || 0, GltfLoader.getArrayType(sparse.indices.componentType), 1, indices);
+                this.readBufferView(sparse.values.bufferView, sparse.values.byteOffset || 0, ArrayType, size, values);
+                for (var i = 0; i < sparse.count; i++) {
+                    for (var c = 0; c < size; c++) {
+                        array[indices[i] * size + c] = values[i * size + c];
+                    }
+                }
+            }
+            if (asFloat && !(array instanceof Float32Array)) {
+                var floats = new Float32Array(array.length);
+                if (accessor.normalized) {
+                    var max = GltfLoader.getMaxValue(accessor.componentType);
+                    for (var i = 0; i < array.length; i++) {
+                        floats[i] = Math.max(array[i] / max, -1);
+                    }
+                }
+                else {
+                    floats.set(array);
+                }
+                array = floats;
+            }
+            return { array: array, size: size };
+        };
+        GltfLoader.prototype.readBufferView = function (index, byteOffset, ArrayType, size, target) {
+            var view = this.json.bufferViews[index];
+            var buffer = this._buffers[view.buffer];
+            var bytes = ArrayType.BYTES_PER_ELEMENT;
+            var stride = view.byteStride ? view.byteStride / bytes : size;
+            var count = target.length / size;
+            var start = (view.byteOffset || 0) + byteOffset;
+            if (stride == size) {
+                target.set(new ArrayType(buffer, start, target.length));
+                return;
+            }
+            var source = new ArrayType(buffer, start, (count - 1) * stride + size);
+            for (var i = 0; i < count; i++) {
+                for (var c = 0; c < size; c++) {
+                    target[i * size + c] = source[i * stride + c];
+                }
+            }
+        };
+        GltfLoader.prototype.resolveUri = function (uri) {
+            if (/^(data:|blob:|[a-z]+:\/\/|\/)/i.test(uri)) {
+                return uri;
+            }
+            return this.path.substring(0, this.path.lastIndexOf('/') + 1) + uri;
+        };
+        GltfLoader.getArrayType = function (componentType) {
+            switch (componentType) {
+                case 5120: return Int8Array;
+                case 5121: return Uint8Array;
+                case 5122: return Int16Array;
+                case 5123: return Uint16Array;
+                case 5125: return Uint32Array;
+                case 5126: return Float32Array;
+            }
+            throw new TypeError('unknown accessor component type ' + componentType);
+        };
+        GltfLoader.getMaxValue = function (componentType) {
+            switch (componentType) {
+                case 5120: return 127;
+                case 5121: return 255;
+                case 5122: return 32767;
+                case 5123: return 65535;
+                case 5125: return 4294967295;
+            }
+            return 1;
+        };
+        GltfLoader.ATTRIBUTES = {
+            POSITION: Geometry_1.Geometry.POSITION,
+            NORMAL: Geometry_1.Geometry.NORMAL,
+            TANGENT: Geometry_1.Geometry.TANGENT,
+            TEXCOORD_0: Geometry_1.Geometry.UV,
+            TEXCOORD_1: 'aTexcoord1',
+            COLOR_0: 'aVertexColor'
+        };
+        GltfLoader.GLB_MAGIC = 0x46546C67;
+        GltfLoader.CHUNK_JSON = 0x4E4F534A;
+        GltfLoader.CHUNK_BIN = 0x004E4942;
+        GltfLoader.TYPE_SIZES = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+        return GltfLoader;
+    }());
+    exports.GltfLoader = GltfLoader;
+});
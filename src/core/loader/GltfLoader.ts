@@ -0,0 +1,750 @@
+import {HttpRequest} from "../net/HttpRequest";
+import {Promise} from "../util/Promise";
+import {PromiseUtil} from "../util/PromiseUtil";
+import {ILoadable} from "../interface/ILoadable";
+import IHashMap from "../interface/IHashMap";
+import IGltfMaterial from "../interface/IGltfMaterial";
+import {Object3D} from "../math/Object3D";
+import {Mesh3D} from "../math/Mesh3D";
+import {Matrix4} from "../math/Matrix4";
+import {Geometry} from "../webgl/Geometry";
+import {GeometryUtil} from "../webgl/GeometryUtil";
+import {Material} from "../webgl/material/Material";
+import {PhongMaterial} from "../webgl/material/PhongMaterial";
+import {KeyframeTrack} from "../animation/KeyframeTrack";
+import {AnimationClip} from "../animation/AnimationClip";
+import {Texture} from "../../visual/display/Texture";
+
+/**
+ * Loads a glTF 2.0 asset, a .gltf file with its buffers and images or a binary .glb. Nodes become Object3D nodes,
+ * a node with a mesh of one primitive is a Mesh3D, a mesh of several primitives adds a Mesh3D child per
+ * primitive. Meshes used by several nodes share their geometry. A node that is in several scenes is cloned for
+ * every scene after the first, nodes and animations refer to the node in the first scene. Images are loaded as
+ * Texture and animations become AnimationClips with a KeyframeTrack per channel. Meshes are drawn with a
+ * PhongMaterial that approximates their metallic roughness material. Primitives that are not triangles are left
+ * out and listed in skippedPrimitives.
+ *
+ * Progress is a third for the asset, a third for the buffers and a third for the images.
+ *
+ * <h4>Example</h4>
+ *
+ *      var robot = new GltfLoader('models/robot.glb');
+ *
+ *      PromiseUtil.loadLoadable([robot], onProgress).then(() => {
+ *          scene.add(robot.data);
+ *          walk = robot.getAnimation('walk');
+ *      });
+ *
+ * @class GltfLoader
+ * @param {string} path url of the .gltf or .glb, buffers and images are relative to it
+ */
+export class GltfLoader implements ILoadable<Object3D>
+{
+	/**
+	 * Names of the glTF attributes in the shader, attributes that are not listed keep their glTF name.
+	 * @property ATTRIBUTES
+	 * @type {IHashMap<string>}
+	 * @static
+	 */
+	public static ATTRIBUTES:IHashMap<string> = {
+		POSITION: Geometry.POSITION,
+		NORMAL: Geometry.NORMAL,
+		TANGENT: Geometry.TANGENT,
+		TEXCOORD_0: Geometry.UV,
+		TEXCOORD_1: 'aTexcoord1',
+		COLOR_0: 'aVertexColor'
+	};
+
+	private static GLB_MAGIC:number = 0x46546C67;
+	private static CHUNK_JSON:number = 0x4E4F534A;
+	private static CHUNK_BIN:number = 0x004E4942;
+
+	private static TYPE_SIZES:IHashMap<number> = {SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16};
+
+	/**
+	 * @method isGlb
+	 * @param {ArrayBuffer} data
+	 * @returns {boolean} whether data starts with the magic of a binary glTF
+	 * @static
+	 */
+	public static isGlb(data:ArrayBuffer):boolean
+	{
+		return data.byteLength >= 12 && new DataView(data).getUint32(0, true) == GltfLoader.GLB_MAGIC;
+	}
+
+	/**
+	 * Splits a .glb in the json and the binary chunk.
+	 *
+	 * @method parseGlb
+	 * @param {ArrayBuffer} data
+	 * @returns {{json:any, bin:ArrayBuffer}} bin is null when the file has no binary chunk
+	 * @static
+	 */
+	public static parseGlb(data:ArrayBuffer):{json:any, bin:ArrayBuffer}
+	{
+		var view = new DataView(data);
+		var version = view.getUint32(4, true);
+		var length = Math.min(view.getUint32(8, true), data.byteLength);
+		var json = null;
+		var bin = null;
+
+		if(version != 2)
+		{
+			throw new Error('glb version ' + version + ' is not supported, only glTF 2.0 can be loaded');
+		}
+
+		for(var offset = 12; offset + 8 <= length;)
+		{
+			var chunkLength = view.getUint32(offset, true);
+			var chunkType = view.getUint32(offset + 4, true);
+			var start = offset + 8;
+
+			if(chunkType == GltfLoader.CHUNK_JSON)
+			{
+				json = JSON.parse(GltfLoader.decodeText(new Uint8Array(data, start, chunkLength)));
+			}
+			else if(chunkType == GltfLoader.CHUNK_BIN && !bin)
+			{
+				// a copy, so typed arrays over it are aligned to the start of the chunk
+				bin = data.slice(start, start + chunkLength);
+			}
+
+			offset = start + chunkLength;
+		}
+
+		if(!json)
+		{
+			throw new Error('glb has no json chunk');
+		}
+
+		return {json: json, bin: bin};
+	}
+
+	/**
+	 * @method decodeText
+	 * @param {Uint8Array} bytes utf-8
+	 * @returns {string}
+	 * @static
+	 */
+	public static decodeText(bytes:Uint8Array):string
+	{
+		var codes:Array<number> = [];
+		var text = '';
+
+		for(var i = 0; i < bytes.length;)
+		{
+			var byte = bytes[i++];
+			var code = byte;
+
+			if(byte >= 0xf0)
+			{
+				code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+
+				// outside the basic plane, a surrogate pair
+				code -= 0x10000;
+				codes.push(0xd800 + (code >> 10));
+				code = 0xdc00 + (code & 0x3ff);
+			}
+			else if(byte >= 0xe0)
+			{
+				code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+			}
+			else if(byte >= 0xc0)
+			{
+				code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+			}
+
+			codes.push(code);
+
+			// in parts, apply has a limit on the amount of arguments
+			if(codes.length >= 0x4000 || i >= bytes.length)
+			{
+				text += String.fromCharCode.apply(null, codes);
+				codes.length = 0;
+			}
+		}
+
+		return text;
+	}
+
+	/**
+	 * url of the asset
+	 * @property path
+	 * @type {string}
+	 */
+	public path:string;
+
+	/**
+	 * the default scene, available once the asset has loaded
+	 * @property data
+	 * @type {Object3D}
+	 */
+	public data:Object3D = null;
+
+	/**
+	 * the json of the asset
+	 * @property json
+	 * @type {any}
+	 */
+	public json:any = null;
+
+	public scenes:Array<Object3D> = [];
+	public nodes:Array<Object3D> = [];
+	public animations:Array<AnimationClip> = [];
+	public textures:Array<Texture> = [];
+	/**
+	 * the materials as they are described in the asset, the meshes are drawn with a PhongMaterial made from them
+	 * @property materials
+	 * @type {Array<IGltfMaterial>}
+	 */
+	public materials:Array<IGltfMaterial> = [];
+
+	/**
+	 * the primitives that were left out because they are not triangles, by index of their mesh and of the primitive
+	 * in the mesh
+	 * @property skippedPrimitives
+	 * @type {Array<{mesh:number, primitive:number, mode:number}>}
+	 */
+	public skippedPrimitives:Array<{mesh:number, primitive:number, mode:number}> = [];
+
+	protected _buffers:Array<ArrayBuffer> = [];
+	protected _materials:Array<Material> = [];
+	protected _defaultMaterial:Material = null;
+	protected _primitives:Array<Array<Mesh3D>> = [];
+	protected _promise:Promise<Object3D> = null;
+	protected _hasLoaded:boolean = false;
+
+	constructor(path:string)
+	{
+		this.path = path;
+	}
+
+	public hasLoaded():boolean
+	{
+		return this._hasLoaded;
+	}
+
+	/**
+	 * Loads the asset, its buffers and its images.
+	 *
+	 * @method load
+	 * @param {(progress:number) => any} [onProgress]
+	 * @returns {Promise<Object3D>} the default scene
+	 */
+	public load(onProgress?:(progress:number)=>any):Promise<Object3D>
+	{
+		var progress = (value:number) => {
+			if(onProgress) onProgress(value);
+		};
+
+		if(this._hasLoaded)
+		{
+			progress(1);
+			return Promise.resolve<Object3D>(this.data);
+		}
+
+		if(!this._promise)
+		{
+			this._promise = HttpRequest.getArrayBuffer(this.path, null).then((data:ArrayBuffer) => {
+				var bin = null;
+
+				if(GltfLoader.isGlb(data))
+				{
+					var glb = GltfLoader.parseGlb(data);
+
+					this.json = glb.json;
+					bin = glb.bin;
+				}
+				else
+				{
+					this.json = JSON.parse(GltfLoader.decodeText(new Uint8Array(data)));
+				}
+
+				var version = this.json.asset && this.json.asset.version;
+
+				if(!version || version.charAt(0) != '2')
+				{
+					throw new Error('glTF version ' + version + ' is not supported, only glTF 2.0 can be loaded');
+				}
+
+				progress(1 / 3);
+
+				return this.loadBuffers(bin, (value:number) => progress((1 + value) / 3));
+			}).then((buffers:Array<ArrayBuffer>) => {
+				this._buffers = buffers;
+				this.textures = this.createTextures();
+
+				return PromiseUtil.loadLoadable<Texture>(this.textures, (value:number) => progress((2 + value) / 3));
+			}).then(() => {
+				this.build();
+				this._hasLoaded = true;
+
+				progress(1);
+
+				return this.data;
+			});
+		}
+
+		return this._promise;
+	}
+
+	/**
+	 * @method getAnimation
+	 * @param {string} name
+	 * @returns {AnimationClip} null when the asset has no animation with name
+	 */
+	public getAnimation(name:string):AnimationClip
+	{
+		for(var i = 0; i < this.animations.length; i++)
+		{
+			if(this.animations[i].name == name)
+			{
+				return this.animations[i];
+			}
+		}
+
+		return null;
+	}
+
+	protected loadBuffers(bin:ArrayBuffer, onProgress:(progress:number)=>any):Promise<Array<ArrayBuffer>>
+	{
+		var buffers = this.json.buffers || [];
+
+		if(buffers.length == 0)
+		{
+			onProgress(1);
+			return Promise.resolve<Array<ArrayBuffer>>([]);
+		}
+
+		return PromiseUtil.allWithProgress<ArrayBuffer>(buffers.map((buffer:any, index:number) => {
+			// the first buffer of a glb without an uri is the binary chunk
+			if(buffer.uri === void 0)
+			{
+				if(index != 0 || !bin)
+				{
+					throw new Error('buffer ' + index + ' has no uri');
+				}
+
+				return Promise.resolve<ArrayBuffer>(bin);
+			}
+
+			return HttpRequest.getArrayBuffer(this.resolveUri(buffer.uri), null);
+		}), onProgress);
+	}
+
+	protected createTextures():Array<Texture>
+	{
+		var images:Array<Texture> = [];
+
+		return (this.json.textures || []).map((texture:any, index:number) => {
+			if(texture.source === void 0)
+			{
+				throw new Error('texture ' + index + ' has no image');
+			}
+
+			if(!images[texture.source])
+			{
+				var image = this.json.images[texture.source];
+				var url;
+
+				if(image.uri !== void 0)
+				{
+					url = this.resolveUri(image.uri);
+				}
+				else
+				{
+					var view = this.json.bufferViews[image.bufferView];
+
+					url = URL.createObjectURL(new Blob([new Uint8Array(this._buffers[view.buffer], view.byteOffset || 0, view.byteLength)], {type: image.mimeType}));
+				}
+
+				images[texture.source] = Texture.createFromUrl(url);
+			}
+
+			return images[texture.source];
+		});
+	}
+
+	protected build():void
+	{
+		var json = this.json;
+
+		this.materials = (json.materials || []).map((material:any, index:number) => this.createMaterial(index));
+		this._materials = this.materials.map((material:IGltfMaterial) => PhongMaterial.createFromGltf(material));
+		this.nodes = (json.nodes || []).map((node:any, index:number) => this.createNode(index));
+
+		for(var i = 0; i < this.nodes.length; i++)
+		{
+			var children = json.nodes[i].children || [];
+
+			for(var c = 0; c < children.length; c++)
+			{
+				this.nodes[i].add(this.nodes[children[c]]);
+			}
+		}
+
+		this.scenes = (json.scenes || []).map((scene:any) => {
+			var root = new Object3D();
+			var nodes = scene.nodes || [];
+
+			root.name = scene.name || '';
+
+			for(var i = 0; i < nodes.length; i++)
+			{
+				var node = this.nodes[nodes[i]];
+
+				// an object has one parent, an earlier scene already holds this node
+				root.add(node.parent ? node.clone(true) : node);
+			}
+
+			return root;
+		});
+
+		if(this.scenes.length > 0)
+		{
+			this.data = this.scenes[json.scene || 0];
+		}
+		else
+		{
+			// an asset without scenes is a library, all nodes without a parent are shown
+			this.data = new Object3D();
+
+			for(var i = 0; i < this.nodes.length; i++)
+			{
+				if(!this.nodes[i].parent)
+				{
+					this.data.add(this.nodes[i]);
+				}
+			}
+		}
+
+		this.animations = (json.animations || []).map((animation:any, index:number) => this.createAnimation(index));
+	}
+
+	protected createNode(index:number):Object3D
+	{
+		var node = this.json.nodes[index];
+		var object:Object3D;
+
+		if(node.mesh !== void 0)
+		{
+			var primitives = this.getPrimitives(node.mesh);
+
+			if(primitives.length == 1)
+			{
+				object = primitives[0].clone(false);
+			}
+			else
+			{
+				object = new Object3D();
+
+				for(var i = 0; i < primitives.length; i++)
+				{
+					object.add(primitives[i].clone(false));
+				}
+			}
+		}
+		else
+		{
+			object = new Object3D();
+		}
+
+		object.name = node.name || '';
+
+		if(node.matrix)
+		{
+			new Matrix4().fromArray(node.matrix).decompose(object.position, object.quaternion, object.scale);
+		}
+		else
+		{
+			if(node.translation) object.position.fromArray(node.translation, 0);
+			if(node.rotation) object.quaternion.fromArray(node.rotation, 0);
+			if(node.scale) object.scale.fromArray(node.scale, 0);
+		}
+
+		return object;
+	}
+
+	/**
+	 * A Mesh3D for every triangle primitive of a mesh, created once and cloned for every node that uses it.
+	 *
+	 * @method getPrimitives
+	 * @param {number} index
+	 * @returns {Array<Mesh3D>}
+	 */
+	protected getPrimitives(index:number):Array<Mesh3D>
+	{
+		if(this._primitives[index])
+		{
+			return this._primitives[index];
+		}
+
+		var mesh = this.json.meshes[index];
+		var meshes:Array<Mesh3D> = [];
+
+		for(var p = 0; p < mesh.primitives.length; p++)
+		{
+			var primitive = mesh.primitives[p];
+
+			// TRIANGLES is the only mode a Mesh3D can draw
+			if(primitive.mode !== void 0 && primitive.mode != 4)
+			{
+				this.skippedPrimitives.push({mesh: index, primitive: p, mode: primitive.mode});
+				continue;
+			}
+
+			var geometry = new Geometry();
+
+			for(var name in primitive.attributes)
+			{
+				var attribute = this.readAccessor(primitive.attributes[name], true);
+				geometry.setAttribute(GltfLoader.ATTRIBUTES[name] || name, attribute.array, attribute.size);
+			}
+
+			if(primitive.indices !== void 0)
+			{
+				var indices = this.readAccessor(primitive.indices, false).array;
+				geometry.setIndex(indices instanceof Uint8Array ? new Uint16Array(indices) : indices);
+			}
+			else
+			{
+				var sequence = [];
+
+				for(var i = 0; i < geometry.getVertexCount(); i++)
+				{
+					sequence.push(i);
+				}
+
+				geometry.setIndex(sequence);
+			}
+
+			// glTF asks for flat normals when a primitive has none
+			if(!geometry.hasAttribute(Geometry.NORMAL))
+			{
+				GeometryUtil.computeNormals(geometry, true);
+			}
+
+			geometry.name = mesh.name || '';
+
+			var object = new Mesh3D(geometry, primitive.material !== void 0 ? this._materials[primitive.material] : this.getDefaultMaterial());
+			object.name = mesh.name || '';
+
+			meshes.push(object);
+		}
+
+		return this._primitives[index] = meshes;
+	}
+
+	/**
+	 * The material glTF prescribes for primitives without one, white, fully metallic and fully rough.
+	 *
+	 * @method getDefaultMaterial
+	 * @returns {Material}
+	 */
+	protected getDefaultMaterial():Material
+	{
+		if(!this._defaultMaterial)
+		{
+			this._defaultMaterial = PhongMaterial.createFromGltf({
+				name: '', color: [1, 1, 1, 1], metallic: 1, roughness: 1, emissive: [0, 0, 0],
+				alphaMode: 'OPAQUE', alphaCutoff: 0.5, doubleSided: false,
+				map: null, metallicRoughnessMap: null, normalMap: null, occlusionMap: null, emissiveMap: null
+			});
+		}
+
+		return this._defaultMaterial;
+	}
+
+	protected createMaterial(index:number):IGltfMaterial
+	{
+		var material = this.json.materials[index];
+		var pbr = material.pbrMetallicRoughness || {};
+
+		var texture = (info:any):Texture => {
+			return info ? this.textures[info.index] : null;
+		};
+
+		return {
+			name: material.name || '',
+			color: pbr.baseColorFactor || [1, 1, 1, 1],
+			metallic: pbr.metallicFactor !== void 0 ? pbr.metallicFactor : 1,
+			roughness: pbr.roughnessFactor !== void 0 ? pbr.roughnessFactor : 1,
+			emissive: material.emissiveFactor || [0, 0, 0],
+			alphaMode: material.alphaMode || 'OPAQUE',
+			alphaCutoff: material.alphaCutoff !== void 0 ? material.alphaCutoff : 0.5,
+			doubleSided: !!material.doubleSided,
+			map: texture(pbr.baseColorTexture),
+			metallicRoughnessMap: texture(pbr.metallicRoughnessTexture),
+			normalMap: texture(material.normalTexture),
+			occlusionMap: texture(material.occlusionTexture),
+			emissiveMap: texture(material.emissiveTexture)
+		};
+	}
+
+	protected createAnimation(index:number):AnimationClip
+	{
+		var animation = this.json.animations[index];
+		var tracks:Array<KeyframeTrack> = [];
+
+		for(var i = 0; i < animation.channels.length; i++)
+		{
+			var channel = animation.channels[i];
+			var sampler = animation.samplers[channel.sampler];
+
+			// morph target weights are not supported, a channel without a node is meant for an extension
+			if(channel.target.node === void 0 || channel.target.path == 'weights')
+			{
+				continue;
+			}
+
+			tracks.push(new KeyframeTrack(
+				this.nodes[channel.target.node],
+				channel.target.path,
+				this.readAccessor(sampler.input, true).array,
+				this.readAccessor(sampler.output, true).array,
+				sampler.interpolation || KeyframeTrack.LINEAR
+			));
+		}
+
+		return new AnimationClip(animation.name || 'animation' + index, tracks);
+	}
+
+	/**
+	 * Copies the elements of an accessor out of its buffer view, including the sparse substitutions.
+	 *
+	 * @method readAccessor
+	 * @param {number} index
+	 * @param {boolean} asFloat converts the values to a Float32Array, normalized integers to 0 - 1 or -1 - 1
+	 * @returns {{array:any, size:number}} array is the typed array of the component type when asFloat is false
+	 */
+	protected readAccessor(index:number, asFloat:boolean):{array:any, size:number}
+	{
+		var accessor = this.json.accessors[index];
+		var size = GltfLoader.TYPE_SIZES[accessor.type];
+		var ArrayType = GltfLoader.getArrayType(accessor.componentType);
+		var array = new ArrayType(accessor.count * size);
+
+		// an accessor without a buffer view is all zeros, only sparse values are set
+		if(accessor.bufferView !== void 0)
+		{
+			this.readBufferView(accessor.bufferView, accessor.byteOffset || 0, ArrayType, size, array);
+		}
+
+		if(accessor.sparse)
+		{
+			var sparse = accessor.sparse;
+			var indices = new (GltfLoader.getArrayType(sparse.indices.componentType))(sparse.count);
+			var values = new ArrayType(sparse.count * size);
+
+			this.readBufferView(sparse.indices.bufferView, sparse.indices.byteOffset || 0, GltfLoader.getArrayType(sparse.indices.componentType), 1, indices);
+			this.readBufferView(sparse.values.bufferView, sparse.values.byteOffset || 0, ArrayType, size, values);
+
+			for(var i = 0; i < sparse.count; i++)
+			{
+				for(var c = 0; c < size; c++)
+				{
+					array[indices[i] * size + c] = values[i * size + c];
+				}
+			}
+		}
+
+		if(asFloat && !(array instanceof Float32Array))
+		{
+			var floats = new Float32Array(array.length);
+			if(accessor.normalized)
+			{
+				var max = GltfLoader.getMaxValue(accessor.componentType);
+
+				// the lowest signed value is below -1 when divided, it is clamped
+				for(var i = 0; i < array.length; i++)
+				{
+					floats[i] = Math.max(array[i] / max, -1);
+				}
+			}
+			else
+			{
+				floats.set(array);
+			}
+
+			array = floats;
+		}
+
+		return {array: array, size: size};
+	}
+
+	/**
+	 * Copies count elements of size components from a buffer view into target, skipping the byte stride between
+	 * interleaved elements.
+	 *
+	 * @method readBufferView
+	 */
+	protected readBufferView(index:number, byteOffset:number, ArrayType:any, size:number, target:any):void
+	{
+		var view = this.json.bufferViews[index];
+		var buffer = this._buffers[view.buffer];
+		var bytes = ArrayType.BYTES_PER_ELEMENT;
+		var stride = view.byteStride ? view.byteStride / bytes : size;
+		var count = target.length / size;
+		var start = (view.byteOffset || 0) + byteOffset;
+
+		if(stride == size)
+		{
+			target.set(new ArrayType(buffer, start, target.length));
+			return;
+		}
+
+		var source = new ArrayType(buffer, start, (count - 1) * stride + size);
+
+		for(var i = 0; i < count; i++)
+		{
+			for(var c = 0; c < size; c++)
+			{
+				target[i * size + c] = source[i * stride + c];
+			}
+		}
+	}
+
+	protected resolveUri(uri:string):string
+	{
+		if(/^(data:|blob:|[a-z]+:\/\/|\/)/i.test(uri))
+		{
+			return uri;
+		}
+
+		return this.path.substring(0, this.path.lastIndexOf('/') + 1) + uri;
+	}
+
+	protected static getArrayType(componentType:number):any
+	{
+		switch(componentType)
+		{
+			case 5120: return Int8Array;
+			case 5121: return Uint8Array;
+			case 5122: return Int16Array;
+			case 5123: return Uint16Array;
+			case 5125: return Uint32Array;
+			case 5126: return Float32Array;
+		}
+
+		throw new TypeError('unknown accessor component type ' + componentType);
+	}
+
+	/**
+	 * @method getMaxValue
+	 * @returns {number} the value that is 1 for a normalized component type
+	 * @static
+	 */
+	protected static getMaxValue(componentType:number):number
+	{
+		switch(componentType)
+		{
+			case 5120: return 127;
+			case 5121: return 255;
+			case 5122: return 32767;
+			case 5123: return 65535;
+			case 5125: return 4294967295;
+		}
+
+		return 1;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,311 @@
+define(["require", "exports", "../net/HttpRequest", "../util/Promise", "../util/PromiseUtil", "../math/Object3D", "../math/Mesh3D", "../webgl/Geometry", "../webgl/GeometryUtil", "../webgl/material/PhongMaterial", "../../visual/display/Texture"], function (require, exports, HttpRequest_1, Promise_1, PromiseUtil_1, Object3D_1, Mesh3D_1, Geometry_1, GeometryUtil_1, PhongMaterial_1, Texture_1) {
+    "use strict";
+    var ObjLoader = (function () {
+        function ObjLoader(path) {
+            this.data = null;
+            this.materials = {};
+            this._promise = null;
+            this._hasLoaded = false;
+            this.path = path;
+        }
+        ObjLoader.parse = function (source, materials) {
+            if (materials === void 0) { materials = {}; }
+            var root = new Object3D_1.Object3D();
+            var positions = [];
+            var normals = [];
+            var uvs = [];
+            var groups = [];
+            var group = null;
+            var groupName = '';
+            var mesh = null;
+            var material = '';
+            var lines = source.split(/\r?\n/);
+            for (var l = 0; l < lines.length; l++) {
+                var line = lines[l].trim();
+                if (line.length == 0 || line.charAt(0) == '#') {
+                    continue;
+                }
+                var parts = line.split(/\s+/);
+                var keyword = parts[0];
+                switch (keyword) {
+                    case 'v':
+                        {
+                            positions.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+                            break;
+                        }
+                    case 'vn':
+                        {
+                            normals.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+                            break;
+                        }
+                    case 'vt':
+                        {
+                            uvs.push(parseFloat(parts[1]), parts.length > 2 ? parseFloat(parts[2]) : 0);
+                            break;
+                        }
+                    case 'o':
+                    case 'g':
+                        {
+                            groupName = parts.slice(1).join(' ');
+                            group = null;
+                            mesh = null;
+                            break;
+                        }
+                    case 'usemtl':
+                        {
+                            material = parts.slice(1).join(' ');
+                            mesh = null;
+                            break;
+                        }
+                    case 'f':
+                        {
+                            if (parts.length < 4) {
+                                throw new Error('face on line ' + (l + 1) + ' has less than 3 vertices');
+                            }
+                            if (!group) {
+                                group = { name: groupName, meshes: [] };
+                                groups.push(group);
+                            }
+                            if (!mesh) {
+                                mesh = ObjLoader.getMeshData(group.meshes, material);
+                            }
+                            var face = [];
+                            for (var i = 1; i < parts.length; i++) {
+                                face.push(ObjLoader.addVertex(mesh, parts[i], positions, normals, uvs, l + 1));
+                            }
+                            for (var i = 1; i + 1 < face.length; i++) {
+                                mesh.index.push(face[0], face[i], face[i + 1]);
+                            }
+                            break;
+                        }
+                }
+            }
+            var phong = {};
+            var fallback = new PhongMaterial_1.PhongMaterial();
+            for (var name in materials) {
+                phong[name] = PhongMaterial_1.PhongMaterial.createFromMtl(materials[name]);
+            }
+            for (var g = 0; g < groups.length; g++) {
+                var meshes = groups[g].meshes;
+                var node;
+                if (meshes.length == 1) {
+                    node = ObjLoader.createMesh(meshes[0], phong[meshes[0].material] || fallback);
+                }
+                else {
+                    node = new Object3D_1.Object3D();
+                    for (var m = 0; m < meshes.length; m++) {
+                        var child = ObjLoader.createMesh(meshes[m], phong[meshes[m].material] || fallback);
+                        child.name = meshes[m].material;
+                        node.add(child);
+                    }
+                }
+                node.name = groups[g].name;
+                root.add(node);
+            }
+            return root;
+        };
+        ObjLoader.parseMtl = function (source, path, textures) {
+            if (path === void 0) { path = ''; }
+            if (textures === void 0) { textures = {}; }
+            var materials = {};
+            var material = null;
+            var lines = source.split(/\r?\n/);
+            for (var l = 0; l < lines.length; l++) {
+                var line = lines[l].trim();
+                if (line.length == 0 || line.charAt(0) == '#') {
+                    continue;
+                }
+                var parts = line.split(/\s+/);
+                var keyword = parts[0].toLowerCase();
+                if (keyword == 'newmtl') {
+                    material = materials[parts.slice(1).join(' ')] = {
+                        name: parts.slice(1).join(' '),
+                        color: [1, 1, 1],
+                        ambient: [0, 0, 0],
+                        specular: [0, 0, 0],
+                        emissive: [0, 0, 0],
+                        shininess: 0,
+                        opacity: 1,
+                        map: null,
+                        specularMap: null,
+                        normalMap: null,
+                        alphaMap: null
+                    };
+                    continue;
+                }
+                if (!material) {
+                    throw new Error('"' + parts[0] + '" on line ' + (l + 1) + ' comes before the first newmtl');
+                }
+                switch (keyword) {
+                    case 'kd':
+                        material.color = ObjLoader.parseColor(parts);
+                        break;
+                    case 'ka':
+                        material.ambient = ObjLoader.parseColor(parts);
+                        break;
+                    case 'ks':
+                        material.specular = ObjLoader.parseColor(parts);
+                        break;
+                    case 'ke':
+                        material.emissive = ObjLoader.parseColor(parts);
+                        break;
+                    case 'ns':
+                        material.shininess = parseFloat(parts[1]);
+                        break;
+                    case 'd':
+                        material.opacity = parseFloat(parts[1]);
+                        break;
+                    case 'tr':
+                        material.opacity = 1 - parseFloat(parts[1]);
+                        break;
+                    case 'map_kd':
+                        material.map = ObjLoader.getTexture(parts, path, textures);
+                        break;
+                    case 'map_ks':
+                        material.specularMap = ObjLoader.getTexture(parts, path, textures);
+                        break;
+                    case 'map_d':
+                        material.alphaMap = ObjLoader.getTexture(parts, path, textures);
+                        break;
+                    case 'map_bump':
+                    case 'bump':
+                    case 'norm':
+                        material.normalMap = ObjLoader.getTexture(parts, path, textures);
+                        break;
+                }
+            }
+            return materials;
+        };
+        ObjLoader.getMaterialLibraries = function (source) {
+            var libraries = [];
+            var regexp = /^[ \t]*mtllib[ \t]+(.+?)[ \t]*$/gm;
+            var match;
+            while (match = regexp.exec(source)) {
+                libraries.push(match[1]);
+            }
+            return libraries;
+        };
+        ObjLoader.getMeshData = function (meshes, material) {
+            for (var i = 0; i < meshes.length; i++) {
+                if (meshes[i].material == material) {
+                    return meshes[i];
+                }
+            }
+            var mesh = {
+                material: material,
+                positions: [],
+                normals: [],
+                uvs: [],
+                index: [],
+                vertices: {},
+                hasNormals: true,
+                hasUvs: false
+            };
+            meshes.push(mesh);
+            return mesh;
+        };
+        ObjLoader.addVertex = function (mesh, vertex, positions, normals, uvs, line) {
+            var indices = vertex.split('/');
+            var p = ObjLoader.resolveIndex(indices[0], positions.length / 3, line);
+            var t = indices.length > 1 && indices[1] != '' ? ObjLoader.resolveIndex(indices[1], uvs.length / 2, line) : -1;
+            var n = indices.length > 2 && indices[2] != '' ? ObjLoader.resolveIndex(indices[2], normals.length / 3, line) : -1;
+            var key = p + '/' + t + '/' + n;
+            if (mesh.vertices[key] !== void 0) {
+                return mesh.vertices[key];
+            }
+            mesh.positions.push(positions[p * 3], positions[p * 3 + 1], positions[p * 3 + 2]);
+            if (n > -1) {
+                mesh.normals.push(normals[n * 3], normals[n * 3 + 1], normals[n * 3 + 2]);
+            }
+            else {
+                mesh.normals.push(0, 0, 0);
+                mesh.hasNormals = false;
+            }
+            if (t > -1) {
+                mesh.uvs.push(uvs[t * 2], uvs[t * 2 + 1]);
+                mesh.hasUvs = true;
+            }
+            else {
+                mesh.uvs.push(0, 0);
+            }
+            return mesh.vertices[key] = mesh.positions.length / 3 - 1;
+        };
+        ObjLoader.resolveIndex = function (value, count, line) {
+            var index = parseInt(value, 10);
+            var resolved = index < 0 ? count + index : index - 1;
+            if (isNaN(index) || resolved < 0 || resolved >= count) {
+                throw new RangeError('index ' + value + ' on line ' + line + ' is out of range, there are ' + count + ' elements');
+            }
+            return resolved;
+        };
+        ObjLoader.createMesh = function (mesh, material) {
+            var geometry = new Geometry_1.Geometry().setAttribute(Geometry_1.Geometry.POSITION, mesh.positions, 3);
+            geometry.setAttribute(Geometry_1.Geometry.NORMAL, mesh.normals, 3);
+            if (mesh.hasUvs) {
+                geometry.setAttribute(Geometry_1.Geometry.UV, mesh.uvs, 2);
+            }
+            geometry.setIndex(mesh.index);
+            if (!mesh.hasNormals) {
+                GeometryUtil_1.GeometryUtil.computeNormals(geometry);
+            }
+            return new Mesh3D_1.Mesh3D(geometry, material);
+        };
+        ObjLoader.parseColor = function (parts) {
+            var r = parseFloat(parts[1]);
+            return parts.length < 4 ? [r, r, r] : [r, parseFloat(parts[2]), parseFloat(parts[3])];
+        };
+        ObjLoader.getTexture = function (parts, path, textures) {
+            var file = parts[parts.length - 1].replace(/\\/g, '/');
+            var url = /^(\/|[a-z]+:)/i.test(file) ? file : path + file;
+            return textures[url] || (textures[url] = Texture_1.Texture.createFromUrl(url));
+        };
+        ObjLoader.getDirectory = function (url) {
+            return url.substring(0, url.lastIndexOf('/') + 1);
+        };
+        ObjLoader.prototype.hasLoaded = function () {
+            return this._hasLoaded;
+        };
+        ObjLoader.prototype.load = function (onProgress) {
+            var _this = this;
+            var progress = function (value) {
+                if (onProgress)
+                    onProgress(value);
+            };
+            if (this._hasLoaded) {
+                progress(1);
+                return Promise_1.Promise.resolve(this.data);
+            }
+            if (!this._promise) {
+                var directory = ObjLoader.getDirectory(this.path);
+                var textures = {};
+                var source;
+                this._promise = new HttpRequest_1.HttpRequest(this.path, null).load().then(function (data) {
+                    progress(1 / 3);
+                    source = data;
+                    var libraries = ObjLoader.getMaterialLibraries(source).map(function (name) { return new HttpRequest_1.HttpRequest(directory + name, null); });
+                    return PromiseUtil_1.PromiseUtil.loadLoadable(libraries, function (value) { return progress((1 + value) / 3); }).then(function (sources) {
+                        for (var i = 0; i < sources.length; i++) {
+                            var materials = ObjLoader.parseMtl(sources[i], ObjLoader.getDirectory(libraries[i].path), textures);
+                            for (var name in materials) {
+                                _this.materials[name] = materials[name];
+                            }
+                        }
+                        var list = [];
+                        for (var url in textures) {
+                            list.push(textures[url]);
+                        }
+                        return PromiseUtil_1.PromiseUtil.loadLoadable(list, function (value) { return progress((2 + value) / 3); });
+                    });
+                }).then(function () {
+                    _this.data = ObjLoader.parse(source, _this.materials);
+                    _this._hasLoaded = true;
+                    progress(1);
+                    return _this.data;
+                });
+            }
+            return this._promise;
+        };
+        return ObjLoader;
+    }());
+    exports.ObjLoader = ObjLoader;
+});
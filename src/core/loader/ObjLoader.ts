@@ -0,0 +1,525 @@
+import {HttpRequest} from "../net/HttpRequest";
+import {Promise} from "../util/Promise";
+import {PromiseUtil} from "../util/PromiseUtil";
+import {ILoadable} from "../interface/ILoadable";
+import IHashMap from "../interface/IHashMap";
+import IMtlMaterial from "../interface/IMtlMaterial";
+import {Object3D} from "../math/Object3D";
+import {Mesh3D} from "../math/Mesh3D";
+import {Geometry} from "../webgl/Geometry";
+import {GeometryUtil} from "../webgl/GeometryUtil";
+import {PhongMaterial} from "../webgl/material/PhongMaterial";
+import {Texture} from "../../visual/display/Texture";
+
+/**
+ * Vertices of one material in one group while the file is parsed.
+ */
+interface IObjMeshData
+{
+	material:string;
+	positions:Array<number>;
+	normals:Array<number>;
+	uvs:Array<number>;
+	index:Array<number>;
+	vertices:IHashMap<number>;
+	hasNormals:boolean;
+	hasUvs:boolean;
+}
+
+/**
+ * Loads a Wavefront .obj model and the .mtl material libraries it uses. Every object or group in the file becomes
+ * a node under the returned Object3D, a group with one material is a Mesh3D, a group with several materials gets a
+ * Mesh3D child per material. Polygons are split into triangles, a mesh with faces without normals gets calculated
+ * normals. The meshes are drawn with a PhongMaterial made from their .mtl material, or a white one when the
+ * material is not known.
+ *
+ * Progress is a third for the model, a third for the material libraries and a third for the textures.
+ *
+ * <h4>Example</h4>
+ *
+ *      var chair = new ObjLoader('models/chair.obj');
+ *
+ *      PromiseUtil.loadLoadable([chair], (progress:number) => bar.setProgress(progress))
+ *          .then((models:Array<Object3D>) => scene.add(models[0]));
+ *
+ * @class ObjLoader
+ * @param {string} path url of the .obj, material libraries and textures are relative to it
+ */
+export class ObjLoader implements ILoadable<Object3D>
+{
+	/**
+	 * Creates the nodes of a model from the source of an .obj file.
+	 *
+	 * @method parse
+	 * @param {string} source
+	 * @param {IHashMap<IMtlMaterial>} [materials] materials by name, for usemtl
+	 * @returns {Object3D}
+	 * @static
+	 */
+	public static parse(source:string, materials:IHashMap<IMtlMaterial> = {}):Object3D
+	{
+		var root = new Object3D();
+		var positions:Array<number> = [];
+		var normals:Array<number> = [];
+		var uvs:Array<number> = [];
+
+		var groups:Array<{name:string, meshes:Array<IObjMeshData>}> = [];
+		var group:{name:string, meshes:Array<IObjMeshData>} = null;
+		var groupName = '';
+		var mesh:IObjMeshData = null;
+		var material = '';
+
+		var lines = source.split(/\r?\n/);
+
+		for(var l = 0; l < lines.length; l++)
+		{
+			var line = lines[l].trim();
+
+			if(line.length == 0 || line.charAt(0) == '#')
+			{
+				continue;
+			}
+
+			var parts = line.split(/\s+/);
+			var keyword = parts[0];
+
+			switch(keyword)
+			{
+				case 'v':
+				{
+					positions.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+					break;
+				}
+
+				case 'vn':
+				{
+					normals.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+					break;
+				}
+
+				case 'vt':
+				{
+					uvs.push(parseFloat(parts[1]), parts.length > 2 ? parseFloat(parts[2]) : 0);
+					break;
+				}
+
+				case 'o':
+				case 'g':
+				{
+					// the group is created with its first face, so names without faces do not leave empty nodes
+					groupName = parts.slice(1).join(' ');
+					group = null;
+					mesh = null;
+					break;
+				}
+
+				case 'usemtl':
+				{
+					material = parts.slice(1).join(' ');
+					mesh = null;
+					break;
+				}
+
+				case 'f':
+				{
+					if(parts.length < 4)
+					{
+						throw new Error('face on line ' + (l + 1) + ' has less than 3 vertices');
+					}
+
+					if(!group)
+					{
+						group = {name: groupName, meshes: []};
+						groups.push(group);
+					}
+
+					if(!mesh)
+					{
+						mesh = ObjLoader.getMeshData(group.meshes, material);
+					}
+
+					var face:Array<number> = [];
+
+					for(var i = 1; i < parts.length; i++)
+					{
+						face.push(ObjLoader.addVertex(mesh, parts[i], positions, normals, uvs, l + 1));
+					}
+
+					// a fan of triangles around the first vertex, polygons in .obj files are convex
+					for(var i = 1; i + 1 < face.length; i++)
+					{
+						mesh.index.push(face[0], face[i], face[i + 1]);
+					}
+
+					break;
+				}
+			}
+		}
+
+		var phong:IHashMap<PhongMaterial> = {};
+		var fallback = new PhongMaterial();
+
+		for(var name in materials)
+		{
+			phong[name] = PhongMaterial.createFromMtl(materials[name]);
+		}
+
+		for(var g = 0; g < groups.length; g++)
+		{
+			var meshes = groups[g].meshes;
+			var node:Object3D;
+
+			if(meshes.length == 1)
+			{
+				node = ObjLoader.createMesh(meshes[0], phong[meshes[0].material] || fallback);
+			}
+			else
+			{
+				node = new Object3D();
+
+				for(var m = 0; m < meshes.length; m++)
+				{
+					var child = ObjLoader.createMesh(meshes[m], phong[meshes[m].material] || fallback);
+					child.name = meshes[m].material;
+					node.add(child);
+				}
+			}
+
+			node.name = groups[g].name;
+			root.add(node);
+		}
+
+		return root;
+	}
+
+	/**
+	 * Reads the materials from the source of an .mtl file, the textures start loading right away.
+	 *
+	 * @method parseMtl
+	 * @param {string} source
+	 * @param {string} [path] directory the texture urls are relative to, with a trailing slash
+	 * @param {IHashMap<Texture>} [textures] textures by url, shared so a texture used twice is loaded once
+	 * @returns {IHashMap<IMtlMaterial>} materials by name
+	 * @static
+	 */
+	public static parseMtl(source:string, path:string = '', textures:IHashMap<Texture> = {}):IHashMap<IMtlMaterial>
+	{
+		var materials:IHashMap<IMtlMaterial> = {};
+		var material:IMtlMaterial = null;
+		var lines = source.split(/\r?\n/);
+
+		for(var l = 0; l < lines.length; l++)
+		{
+			var line = lines[l].trim();
+
+			if(line.length == 0 || line.charAt(0) == '#')
+			{
+				continue;
+			}
+
+			var parts = line.split(/\s+/);
+			var keyword = parts[0].toLowerCase();
+
+			if(keyword == 'newmtl')
+			{
+				material = materials[parts.slice(1).join(' ')] = {
+					name: parts.slice(1).join(' '),
+					color: [1, 1, 1],
+					ambient: [0, 0, 0],
+					specular: [0, 0, 0],
+					emissive: [0, 0, 0],
+					shininess: 0,
+					opacity: 1,
+					map: null,
+					specularMap: null,
+					normalMap: null,
+					alphaMap: null
+				};
+
+				continue;
+			}
+
+			if(!material)
+			{
+				throw new Error('"' + parts[0] + '" on line ' + (l + 1) + ' comes before the first newmtl');
+			}
+
+			switch(keyword)
+			{
+				case 'kd': material.color = ObjLoader.parseColor(parts); break;
+				case 'ka': material.ambient = ObjLoader.parseColor(parts); break;
+				case 'ks': material.specular = ObjLoader.parseColor(parts); break;
+				case 'ke': material.emissive = ObjLoader.parseColor(parts); break;
+				case 'ns': material.shininess = parseFloat(parts[1]); break;
+				case 'd': material.opacity = parseFloat(parts[1]); break;
+				case 'tr': material.opacity = 1 - parseFloat(parts[1]); break;
+				case 'map_kd': material.map = ObjLoader.getTexture(parts, path, textures); break;
+				case 'map_ks': material.specularMap = ObjLoader.getTexture(parts, path, textures); break;
+				case 'map_d': material.alphaMap = ObjLoader.getTexture(parts, path, textures); break;
+				case 'map_bump':
+				case 'bump':
+				case 'norm': material.normalMap = ObjLoader.getTexture(parts, path, textures); break;
+			}
+		}
+
+		return materials;
+	}
+
+	/**
+	 * @method getMaterialLibraries
+	 * @param {string} source source of an .obj file
+	 * @returns {Array<string>} the .mtl files named by mtllib
+	 * @static
+	 */
+	public static getMaterialLibraries(source:string):Array<string>
+	{
+		var libraries = [];
+		var regexp = /^[ \t]*mtllib[ \t]+(.+?)[ \t]*$/gm;
+		var match;
+
+		while(match = regexp.exec(source))
+		{
+			libraries.push(match[1]);
+		}
+
+		return libraries;
+	}
+
+	protected static getMeshData(meshes:Array<IObjMeshData>, material:string):IObjMeshData
+	{
+		for(var i = 0; i < meshes.length; i++)
+		{
+			if(meshes[i].material == material)
+			{
+				return meshes[i];
+			}
+		}
+
+		var mesh:IObjMeshData = {
+			material: material,
+			positions: [],
+			normals: [],
+			uvs: [],
+			index: [],
+			vertices: {},
+			hasNormals: true,
+			hasUvs: false
+		};
+
+		meshes.push(mesh);
+
+		return mesh;
+	}
+
+	/**
+	 * Adds a vertex of a face like "1/2/3", "1//3" or "-1" to mesh, vertices with the same indices are shared.
+	 *
+	 * @method addVertex
+	 * @returns {number} index of the vertex in mesh
+	 * @static
+	 */
+	protected static addVertex(mesh:IObjMeshData, vertex:string, positions:Array<number>, normals:Array<number>, uvs:Array<number>, line:number):number
+	{
+		var indices = vertex.split('/');
+		var p = ObjLoader.resolveIndex(indices[0], positions.length / 3, line);
+		var t = indices.length > 1 && indices[1] != '' ? ObjLoader.resolveIndex(indices[1], uvs.length / 2, line) : -1;
+		var n = indices.length > 2 && indices[2] != '' ? ObjLoader.resolveIndex(indices[2], normals.length / 3, line) : -1;
+		var key = p + '/' + t + '/' + n;
+
+		if(mesh.vertices[key] !== void 0)
+		{
+			return mesh.vertices[key];
+		}
+
+		mesh.positions.push(positions[p * 3], positions[p * 3 + 1], positions[p * 3 + 2]);
+
+		if(n > -1)
+		{
+			mesh.normals.push(normals[n * 3], normals[n * 3 + 1], normals[n * 3 + 2]);
+		}
+		else
+		{
+			mesh.normals.push(0, 0, 0);
+			mesh.hasNormals = false;
+		}
+
+		if(t > -1)
+		{
+			mesh.uvs.push(uvs[t * 2], uvs[t * 2 + 1]);
+			mesh.hasUvs = true;
+		}
+		else
+		{
+			mesh.uvs.push(0, 0);
+		}
+
+		return mesh.vertices[key] = mesh.positions.length / 3 - 1;
+	}
+
+	/**
+	 * Indices in .obj files start at 1, negative indices count back from the last element read so far.
+	 *
+	 * @method resolveIndex
+	 * @returns {number} index starting at 0
+	 * @static
+	 */
+	protected static resolveIndex(value:string, count:number, line:number):number
+	{
+		var index = parseInt(value, 10);
+		var resolved = index < 0 ? count + index : index - 1;
+
+		if(isNaN(index) || resolved < 0 || resolved >= count)
+		{
+			throw new RangeError('index ' + value + ' on line ' + line + ' is out of range, there are ' + count + ' elements');
+		}
+
+		return resolved;
+	}
+
+	protected static createMesh(mesh:IObjMeshData, material:PhongMaterial):Mesh3D
+	{
+		var geometry = new Geometry().setAttribute(Geometry.POSITION, mesh.positions, 3);
+
+		geometry.setAttribute(Geometry.NORMAL, mesh.normals, 3);
+
+		if(mesh.hasUvs)
+		{
+			geometry.setAttribute(Geometry.UV, mesh.uvs, 2);
+		}
+
+		geometry.setIndex(mesh.index);
+
+		if(!mesh.hasNormals)
+		{
+			GeometryUtil.computeNormals(geometry);
+		}
+
+		return new Mesh3D(geometry, material);
+	}
+
+	protected static parseColor(parts:Array<string>):Array<number>
+	{
+		var r = parseFloat(parts[1]);
+
+		// a single value is a gray
+		return parts.length < 4 ? [r, r, r] : [r, parseFloat(parts[2]), parseFloat(parts[3])];
+	}
+
+	/**
+	 * The file name is the last part of a map statement, options like -bm 0.5 come before it.
+	 *
+	 * @method getTexture
+	 * @returns {Texture}
+	 * @static
+	 */
+	protected static getTexture(parts:Array<string>, path:string, textures:IHashMap<Texture>):Texture
+	{
+		var file = parts[parts.length - 1].replace(/\\/g, '/');
+		var url = /^(\/|[a-z]+:)/i.test(file) ? file : path + file;
+
+		return textures[url] || (textures[url] = Texture.createFromUrl(url));
+	}
+
+	protected static getDirectory(url:string):string
+	{
+		return url.substring(0, url.lastIndexOf('/') + 1);
+	}
+
+	/**
+	 * url of the .obj
+	 * @property path
+	 * @type {string}
+	 */
+	public path:string;
+
+	/**
+	 * the model, available once it has loaded
+	 * @property data
+	 * @type {Object3D}
+	 */
+	public data:Object3D = null;
+
+	/**
+	 * the materials of all material libraries by name
+	 * @property materials
+	 * @type {IHashMap<IMtlMaterial>}
+	 */
+	public materials:IHashMap<IMtlMaterial> = {};
+
+	protected _promise:Promise<Object3D> = null;
+	protected _hasLoaded:boolean = false;
+
+	constructor(path:string)
+	{
+		this.path = path;
+	}
+
+	public hasLoaded():boolean
+	{
+		return this._hasLoaded;
+	}
+
+	/**
+	 * Loads the model, its material libraries and the textures they use.
+	 *
+	 * @method load
+	 * @param {(progress:number) => any} [onProgress]
+	 * @returns {Promise<Object3D>}
+	 */
+	public load(onProgress?:(progress:number)=>any):Promise<Object3D>
+	{
+		var progress = (value:number) => {
+			if(onProgress) onProgress(value);
+		};
+
+		if(this._hasLoaded)
+		{
+			progress(1);
+			return Promise.resolve<Object3D>(this.data);
+		}
+
+		if(!this._promise)
+		{
+			var directory = ObjLoader.getDirectory(this.path);
+			var textures:IHashMap<Texture> = {};
+			var source:string;
+
+			this._promise = new HttpRequest<string>(this.path, null).load().then((data:string) => {
+				progress(1 / 3);
+				source = data;
+
+				var libraries = ObjLoader.getMaterialLibraries(source).map((name:string) => new HttpRequest<string>(directory + name, null));
+
+				return PromiseUtil.loadLoadable<string>(libraries, (value:number) => progress((1 + value) / 3)).then((sources:Array<string>) => {
+					for(var i = 0; i < sources.length; i++)
+					{
+						var materials = ObjLoader.parseMtl(sources[i], ObjLoader.getDirectory(libraries[i].path), textures);
+
+						for(var name in materials)
+						{
+							this.materials[name] = materials[name];
+						}
+					}
+
+					var list:Array<Texture> = [];
+
+					for(var url in textures)
+					{
+						list.push(textures[url]);
+					}
+
+					return PromiseUtil.loadLoadable<Texture>(list, (value:number) => progress((2 + value) / 3));
+				});
+			}).then(() => {
+				this.data = ObjLoader.parse(source, this.materials);
+				this._hasLoaded = true;
+
+				progress(1);
+
+				return this.data;
+			});
+		}
+
+		return this._promise;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+define(["require", "exports", "./Vector3"], function (require, exports, Vector3_1) {
+    "use strict";
+    var Box3 = (function () {
+        function Box3(min, max) {
+            if (min === void 0) { min = new Vector3_1.Vector3(Infinity, Infinity, Infinity); }
+            if (max === void 0) { max = new Vector3_1.Vector3(-Infinity, -Infinity, -Infinity); }
+            this.min = min;
+            this.max = max;
+        }
+        Box3.prototype.set = function (min, max) {
+            this.min.copy(min);
+            this.max.copy(max);
+            return this;
+        };
+        Box3.prototype.setFromArray = function (array, stride, offset) {
+            if (stride === void 0) { stride = 3; }
+            if (offset === void 0) { offset = 0; }
+            var minX = Infinity, minY = Infinity, minZ = Infinity;
+            var maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+            for (var i = offset; i + 2 < array.length; i += stride) {
+                var x = array[i], y = array[i + 1], z = array[i + 2];
+                if (x < minX)
+                    minX = x;
+                if (y < minY)
+                    minY = y;
+                if (z < minZ)
+                    minZ = z;
+                if (x > maxX)
+                    maxX = x;
+                if (y > maxY)
+                    maxY = y;
+                if (z > maxZ)
+                    maxZ = z;
+            }
+            this.min.set(minX, minY, minZ);
+            this.max.set(maxX, maxY, maxZ);
+            return this;
+        };
+        Box3.prototype.makeEmpty = function () {
+            this.min.set(Infinity, Infinity, Infinity);
+            this.max.set(-Infinity, -Infinity, -Infinity);
+            return this;
+        };
+        Box3.prototype.isEmpty = function () {
+            return this.max.x < this.min.x || this.max.y < this.min.y || this.max.z < this.min.z;
+        };
+        Box3.prototype.expandByPoint = function (point) {
+            this.min.min(point);
+            this.max.max(point);
+            return this;
+        };
+        Box3.prototype.getCenter = function (target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            return target.addVectors(this.min, this.max).multiplyScalar(0.5);
+        };
+        Box3.prototype.getSize = function (target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            return this.isEmpty() ? target.set(0, 0, 0) : target.subVectors(this.max, this.min);
+        };
+        Box3.prototype.containsPoint = function (point) {
+            return point.x >= this.min.x && point.x <= this.max.x &&
+                point.y >= this.min.y && point.y <= this.max.y &&
+                point.z >= this.min.z && point.z <= this.max.z;
+        };
+        Box3.prototype.containsBox = function (box) {
+            return this.min.x <= box.min.x && box.max.x <= this.max.x &&
+                this.min.y <= box.min.y && box.max.y <= this.max.y &&
+                this.min.z <= box.min.z && box.max.z <= this.max.z;
+        };
+        Box3.prototype.intersectsBox = function (box) {
+            return box.max.x >= this.min.x && box.min.x <= this.max.x &&
+                box.max.y >= this.min.y && box.min.y <= this.max.y &&
+                box.max.z >= this.min.z && box.min.z <= this.max.z;
+        };
+        Box3.prototype.intersectsSphere = function (sphere) {
+            return !this.isEmpty() && !sphere.isEmpty() && this.distanceToPoint(sphere.center) <= sphere.radius;
+        };
+        Box3.prototype.clampPoint = function (point, target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            return target.copy(point).clamp(this.min, this.max);
+        };
+        Box3.prototype.distanceToPoint = function (point) {
+            var dx = Math.max(this.min.x - point.x, 0, point.x - this.max.x);
+            var dy = Math.max(this.min.y - point.y, 0, point.y - this.max.y);
+            var dz = Math.max(this.min.z - point.z, 0, point.z - this.max.z);
+            return Math.sqrt(dx * dx + dy * dy + dz * dz);
+        };
+        Box3.prototype.union = function (box) {
+            this.min.min(box.min);
+            this.max.max(box.max);
+            return this;
+        };
+        Box3.prototype.translate = function (offset) {
+            this.min.add(offset);
+            this.max.add(offset);
+            return this;
+        };
+        Box3.prototype.applyMatrix4 = function (matrix) {
+            if (this.isEmpty()) {
+                return this;
+            }
+            var e = matrix.elements;
+            var min = this.min, max = this.max;
+            var minX = Infinity, minY = Infinity, minZ = Infinity;
+            var maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+            for (var i = 0; i < 8; i++) {
+                var x = i & 1 ? max.x : min.x;
+                var y = i & 2 ? max.y : min.y;
+                var z = i & 4 ? max.z : min.z;
+                var tx = e[0] * x + e[4] * y + e[8] * z + e[12];
+                var ty = e[1] * x + e[5] * y + e[9] * z + e[13];
+                var tz = e[2] * x + e[6] * y + e[10] * z + e[14];
+                if (tx < minX)
+                    minX = tx;
+                if (ty < minY)
+                    minY = ty;
+                if (tz < minZ)
+                    minZ = tz;
+                if (tx > maxX)
+                    maxX = tx;
+                if (ty > maxY)
+                    maxY = ty;
+                if (tz > maxZ)
+                    maxZ = tz;
+            }
+            min.set(minX, minY, minZ);
+            max.set(maxX, maxY, maxZ);
+            return this;
+        };
+        Box3.prototype.equals = function (box) {
+            return this.min.equals(box.min) && this.max.equals(box.max);
+        };
+        Box3.prototype.copy = function (box) {
+            this.min.copy(box.min);
+            this.max.copy(box.max);
+            return this;
+        };
+        Box3.prototype.clone = function () {
+            return new Box3().copy(this);
+        };
+        return Box3;
+    }());
+    exports.Box3 = Box3;
+});
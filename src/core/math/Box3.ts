@@ -0,0 +1,227 @@
+import {Vector3} from "./Vector3";
+import {Matrix4} from "./Matrix4";
+import {Sphere} from "./Sphere";
+
+/**
+ * Axis aligned box between min and max. A new box is empty, min is larger than max until a point is added.
+ *
+ * @class Box3
+ * @param {Vector3} [min]
+ * @param {Vector3} [max]
+ */
+export class Box3
+{
+	public min:Vector3;
+	public max:Vector3;
+
+	constructor(min:Vector3 = new Vector3(Infinity, Infinity, Infinity), max:Vector3 = new Vector3(-Infinity, -Infinity, -Infinity))
+	{
+		this.min = min;
+		this.max = max;
+	}
+
+	public set(min:Vector3, max:Vector3):this
+	{
+		this.min.copy(min);
+		this.max.copy(max);
+
+		return this;
+	}
+
+	/**
+	 * Makes the box contain the points in array.
+	 *
+	 * @method setFromArray
+	 * @param {ArrayLike<number>} array x, y and z of every point
+	 * @param {number} [stride=3] amount of values per point
+	 * @param {number} [offset=0] position of x in the values of a point
+	 * @returns {Box3}
+	 */
+	public setFromArray(array:any, stride:number = 3, offset:number = 0):this
+	{
+		var minX = Infinity, minY = Infinity, minZ = Infinity;
+		var maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+
+		for(var i = offset; i + 2 < array.length; i += stride)
+		{
+			var x = array[i], y = array[i + 1], z = array[i + 2];
+
+			if(x < minX) minX = x;
+			if(y < minY) minY = y;
+			if(z < minZ) minZ = z;
+			if(x > maxX) maxX = x;
+			if(y > maxY) maxY = y;
+			if(z > maxZ) maxZ = z;
+		}
+
+		this.min.set(minX, minY, minZ);
+		this.max.set(maxX, maxY, maxZ);
+
+		return this;
+	}
+
+	public makeEmpty():this
+	{
+		this.min.set(Infinity, Infinity, Infinity);
+		this.max.set(-Infinity, -Infinity, -Infinity);
+
+		return this;
+	}
+
+	public isEmpty():boolean
+	{
+		return this.max.x < this.min.x || this.max.y < this.min.y || this.max.z < this.min.z;
+	}
+
+	public expandByPoint(point:Vector3):this
+	{
+		this.min.min(point);
+		this.max.max(point);
+
+		return this;
+	}
+
+	public getCenter(target:Vector3 = new Vector3()):Vector3
+	{
+		return target.addVectors(this.min, this.max).multiplyScalar(0.5);
+	}
+
+	public getSize(target:Vector3 = new Vector3()):Vector3
+	{
+		return this.isEmpty() ? target.set(0, 0, 0) : target.subVectors(this.max, this.min);
+	}
+
+	public containsPoint(point:Vector3):boolean
+	{
+		return point.x >= this.min.x && point.x <= this.max.x &&
+			point.y >= this.min.y && point.y <= this.max.y &&
+			point.z >= this.min.z && point.z <= this.max.z;
+	}
+
+	public containsBox(box:Box3):boolean
+	{
+		return this.min.x <= box.min.x && box.max.x <= this.max.x &&
+			this.min.y <= box.min.y && box.max.y <= this.max.y &&
+			this.min.z <= box.min.z && box.max.z <= this.max.z;
+	}
+
+	public intersectsBox(box:Box3):boolean
+	{
+		return box.max.x >= this.min.x && box.min.x <= this.max.x &&
+			box.max.y >= this.min.y && box.min.y <= this.max.y &&
+			box.max.z >= this.min.z && box.min.z <= this.max.z;
+	}
+
+	public intersectsSphere(sphere:Sphere):boolean
+	{
+		return !this.isEmpty() && !sphere.isEmpty() && this.distanceToPoint(sphere.center) <= sphere.radius;
+	}
+
+	/**
+	 * The point in the box that is closest to point.
+	 *
+	 * @method clampPoint
+	 * @param {Vector3} point
+	 * @param {Vector3} [target]
+	 * @returns {Vector3}
+	 */
+	public clampPoint(point:Vector3, target:Vector3 = new Vector3()):Vector3
+	{
+		return target.copy(point).clamp(this.min, this.max);
+	}
+
+	/**
+	 * Distance from point to the box, 0 for points inside it.
+	 *
+	 * @method distanceToPoint
+	 * @param {Vector3} point
+	 * @returns {number}
+	 */
+	public distanceToPoint(point:Vector3):number
+	{
+		var dx = Math.max(this.min.x - point.x, 0, point.x - this.max.x);
+		var dy = Math.max(this.min.y - point.y, 0, point.y - this.max.y);
+		var dz = Math.max(this.min.z - point.z, 0, point.z - this.max.z);
+
+		return Math.sqrt(dx * dx + dy * dy + dz * dz);
+	}
+
+	public union(box:Box3):this
+	{
+		this.min.min(box.min);
+		this.max.max(box.max);
+
+		return this;
+	}
+
+	public translate(offset:Vector3):this
+	{
+		this.min.add(offset);
+		this.max.add(offset);
+
+		return this;
+	}
+
+	/**
+	 * Transforms the box and makes it the axis aligned box around the result, the box may grow when the matrix
+	 * rotates.
+	 *
+	 * @method applyMatrix4
+	 * @param {Matrix4} matrix
+	 * @returns {Box3}
+	 */
+	public applyMatrix4(matrix:Matrix4):this
+	{
+		if(this.isEmpty())
+		{
+			return this;
+		}
+
+		var e = matrix.elements;
+		var min = this.min, max = this.max;
+		var minX = Infinity, minY = Infinity, minZ = Infinity;
+		var maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+
+		// the transformed box contains the 8 transformed corners
+		for(var i = 0; i < 8; i++)
+		{
+			var x = i & 1 ? max.x : min.x;
+			var y = i & 2 ? max.y : min.y;
+			var z = i & 4 ? max.z : min.z;
+
+			var tx = e[0] * x + e[4] * y + e[8] * z + e[12];
+			var ty = e[1] * x + e[5] * y + e[9] * z + e[13];
+			var tz = e[2] * x + e[6] * y + e[10] * z + e[14];
+
+			if(tx < minX) minX = tx;
+			if(ty < minY) minY = ty;
+			if(tz < minZ) minZ = tz;
+			if(tx > maxX) maxX = tx;
+			if(ty > maxY) maxY = ty;
+			if(tz > maxZ) maxZ = tz;
+		}
+
+		min.set(minX, minY, minZ);
+		max.set(maxX, maxY, maxZ);
+
+		return this;
+	}
+
+	public equals(box:Box3):boolean
+	{
+		return this.min.equals(box.min) && this.max.equals(box.max);
+	}
+
+	public copy(box:Box3):this
+	{
+		this.min.copy(box.min);
+		this.max.copy(box.max);
+
+		return this;
+	}
+
+	public clone():Box3
+	{
+		return new Box3().copy(this);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+define(["require", "exports", "./Plane", "./Sphere", "./Matrix4"], function (require, exports, Plane_1, Sphere_1, Matrix4_1) {
+    "use strict";
+    var Frustum = (function () {
+        function Frustum(planes) {
+            if (planes === void 0) { planes = null; }
+            this._sphere = new Sphere_1.Sphere();
+            this._matrix = new Matrix4_1.Matrix4();
+            this.planes = [];
+            for (var i = 0; i < 6; i++) {
+                this.planes.push(planes && planes[i] ? planes[i] : new Plane_1.Plane());
+            }
+        }
+        Frustum.prototype.setFromMatrix = function (matrix) {
+            var planes = this.planes;
+            var e = matrix.elements;
+            var e0 = e[0], e1 = e[1], e2 = e[2], e3 = e[3];
+            var e4 = e[4], e5 = e[5], e6 = e[6], e7 = e[7];
+            var e8 = e[8], e9 = e[9], e10 = e[10], e11 = e[11];
+            var e12 = e[12], e13 = e[13], e14 = e[14], e15 = e[15];
+            planes[0].setComponents(e3 + e0, e7 + e4, e11 + e8, e15 + e12).normalize();
+            planes[1].setComponents(e3 - e0, e7 - e4, e11 - e8, e15 - e12).normalize();
+            planes[2].setComponents(e3 + e1, e7 + e5, e11 + e9, e15 + e13).normalize();
+            planes[3].setComponents(e3 - e1, e7 - e5, e11 - e9, e15 - e13).normalize();
+            planes[4].setComponents(e3 + e2, e7 + e6, e11 + e10, e15 + e14).normalize();
+            planes[5].setComponents(e3 - e2, e7 - e6, e11 - e10, e15 - e14).normalize();
+            return this;
+        };
+        Frustum.prototype.setFromCamera = function (camera) {
+            return this.setFromMatrix(this._matrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse));
+        };
+        Frustum.prototype.containsPoint = function (point) {
+            for (var i = 0; i < 6; i++) {
+                if (this.planes[i].distanceToPoint(point) < 0) {
+                    return false;
+                }
+            }
+            return true;
+        };
+        Frustum.prototype.intersectsSphere = function (sphere) {
+            for (var i = 0; i < 6; i++) {
+                if (this.planes[i].distanceToPoint(sphere.center) < -sphere.radius) {
+                    return false;
+                }
+            }
+            return true;
+        };
+        Frustum.prototype.intersectsBox = function (box) {
+            for (var i = 0; i < 6; i++) {
+                var plane = this.planes[i];
+                var normal = plane.normal;
+                var x = normal.x > 0 ? box.max.x : box.min.x;
+                var y = normal.y > 0 ? box.max.y : box.min.y;
+                var z = normal.z > 0 ? box.max.z : box.min.z;
+                if (normal.x * x + normal.y * y + normal.z * z + plane.constant < 0) {
+                    return false;
+                }
+            }
+            return true;
+        };
+        Frustum.prototype.intersectsObject = function (object) {
+            var geometry = object['geometry'];
+            if (!geometry) {
+                return true;
+            }
+            var sphere = this._sphere.copy(geometry.getBoundingSphere());
+            if (sphere.isEmpty()) {
+                return false;
+            }
+            return this.intersectsSphere(sphere.applyMatrix4(object.matrixWorld));
+        };
+        Frustum.prototype.copy = function (frustum) {
+            for (var i = 0; i < 6; i++) {
+                this.planes[i].copy(frustum.planes[i]);
+            }
+            return this;
+        };
+        Frustum.prototype.clone = function () {
+            return new Frustum().copy(this);
+        };
+        return Frustum;
+    }());
+    exports.Frustum = Frustum;
+});
@@ -0,0 +1,177 @@
+import {Plane} from "./Plane";
+import {Sphere} from "./Sphere";
+import {Box3} from "./Box3";
+import {Vector3} from "./Vector3";
+import {Matrix4} from "./Matrix4";
+import {Object3D} from "./Object3D";
+import Camera from "./camera/Camera";
+
+/**
+ * The space a camera sees, six planes with their normals pointing inwards. Things outside any of the planes are
+ * not visible.
+ *
+ * <h4>Example</h4>
+ *
+ *      var frustum = new Frustum().setFromCamera(camera);
+ *
+ *      if(!frustum.intersectsObject(mesh))
+ *      {
+ *          // mesh is off screen
+ *      }
+ *
+ * @class Frustum
+ * @param {Array<Plane>} [planes] left, right, bottom, top, near and far
+ */
+export class Frustum
+{
+	public planes:Array<Plane>;
+
+	protected _sphere:Sphere = new Sphere();
+	protected _matrix:Matrix4 = new Matrix4();
+
+	constructor(planes:Array<Plane> = null)
+	{
+		this.planes = [];
+
+		for(var i = 0; i < 6; i++)
+		{
+			this.planes.push(planes && planes[i] ? planes[i] : new Plane());
+		}
+	}
+
+	/**
+	 * Extracts the planes from a projection matrix, or a projection matrix multiplied with a view matrix for a
+	 * frustum in world space.
+	 *
+	 * @method setFromMatrix
+	 * @param {Matrix4} matrix
+	 * @returns {Frustum}
+	 */
+	public setFromMatrix(matrix:Matrix4):this
+	{
+		var planes = this.planes;
+		var e = matrix.elements;
+		var e0 = e[0], e1 = e[1], e2 = e[2], e3 = e[3];
+		var e4 = e[4], e5 = e[5], e6 = e[6], e7 = e[7];
+		var e8 = e[8], e9 = e[9], e10 = e[10], e11 = e[11];
+		var e12 = e[12], e13 = e[13], e14 = e[14], e15 = e[15];
+
+		planes[0].setComponents(e3 + e0, e7 + e4, e11 + e8, e15 + e12).normalize();
+		planes[1].setComponents(e3 - e0, e7 - e4, e11 - e8, e15 - e12).normalize();
+		planes[2].setComponents(e3 + e1, e7 + e5, e11 + e9, e15 + e13).normalize();
+		planes[3].setComponents(e3 - e1, e7 - e5, e11 - e9, e15 - e13).normalize();
+		planes[4].setComponents(e3 + e2, e7 + e6, e11 + e10, e15 + e14).normalize();
+		planes[5].setComponents(e3 - e2, e7 - e6, e11 - e10, e15 - e14).normalize();
+
+		return this;
+	}
+
+	/**
+	 * The frustum of a camera in world space, from its projection matrix and matrixWorldInverse.
+	 *
+	 * @method setFromCamera
+	 * @param {Camera} camera
+	 * @returns {Frustum}
+	 */
+	public setFromCamera(camera:Camera):this
+	{
+		return this.setFromMatrix(this._matrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse));
+	}
+
+	public containsPoint(point:Vector3):boolean
+	{
+		for(var i = 0; i < 6; i++)
+		{
+			if(this.planes[i].distanceToPoint(point) < 0)
+			{
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Whether a part of the sphere may be inside. Spheres near a corner of the frustum can pass while they are
+	 * outside, that is fine for culling.
+	 *
+	 * @method intersectsSphere
+	 * @param {Sphere} sphere
+	 * @returns {boolean}
+	 */
+	public intersectsSphere(sphere:Sphere):boolean
+	{
+		for(var i = 0; i < 6; i++)
+		{
+			if(this.planes[i].distanceToPoint(sphere.center) < -sphere.radius)
+			{
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	public intersectsBox(box:Box3):boolean
+	{
+		for(var i = 0; i < 6; i++)
+		{
+			var plane = this.planes[i];
+			var normal = plane.normal;
+
+			// the corner furthest along the normal is the last one to leave the plane
+			var x = normal.x > 0 ? box.max.x : box.min.x;
+			var y = normal.y > 0 ? box.max.y : box.min.y;
+			var z = normal.z > 0 ? box.max.z : box.min.z;
+
+			if(normal.x * x + normal.y * y + normal.z * z + plane.constant < 0)
+			{
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Whether the world bounding sphere of the geometry of an object may be inside. Objects without a geometry
+	 * always intersect, objects with an empty geometry never do.
+	 *
+	 * @method intersectsObject
+	 * @param {Object3D} object
+	 * @returns {boolean}
+	 */
+	public intersectsObject(object:Object3D):boolean
+	{
+		var geometry = object['geometry'];
+
+		if(!geometry)
+		{
+			return true;
+		}
+
+		var sphere = this._sphere.copy(geometry.getBoundingSphere());
+
+		if(sphere.isEmpty())
+		{
+			return false;
+		}
+
+		return this.intersectsSphere(sphere.applyMatrix4(object.matrixWorld));
+	}
+
+	public copy(frustum:Frustum):this
+	{
+		for(var i = 0; i < 6; i++)
+		{
+			this.planes[i].copy(frustum.planes[i]);
+		}
+
+		return this;
+	}
+
+	public clone():Frustum
+	{
+		return new Frustum().copy(this);
+	}
+}
\ No newline at end of file
@@ -72,7 +72,7 @@ export default class Matrix3
 
 	private __v0:Vector3 = null;
 
-	public applyToVector3Array(array:number[], offset:number, length:number):number[]
+	public applyToVector3Array(array:Array<number>|Float32Array, offset:number, length:number):Array<number>|Float32Array
 	{
 		if(!this.__v0){
 			this.__v0 = new Vector3(0, 0, 0);
@@ -475,11 +475,11 @@ export class Matrix4
 
 	}
 
-	public applyToVector3Array = function():(array:Array<number>, offset?:number, length?:number) => Array<number>
+	public applyToVector3Array = function():(array:Array<number>|Float32Array, offset?:number, length?:number) => Array<number>|Float32Array
 	{
 		var v1;
 
-		return function ( array:number[], offset:number = 0, length:number = array.length ) {
+		return function ( array:Array<number>|Float32Array, offset:number = 0, length:number = array.length ) {
 
 			if ( v1 === undefined ) v1 = new Vector3();
 			if ( offset === undefined ) offset = 0;
@@ -0,0 +1,99 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./Object3D", "../webgl/Geometry", "../webgl/material/Material", "./Vector3", "./Matrix4", "./Sphere", "./Ray"], function (require, exports, Object3D_1, Geometry_1, Material_1, Vector3_1, Matrix4_1, Sphere_1, Ray_1) {
+    "use strict";
+    var Mesh3D = (function (_super) {
+        __extends(Mesh3D, _super);
+        function Mesh3D(geometry, material) {
+            if (geometry === void 0) { geometry = new Geometry_1.Geometry(); }
+            if (material === void 0) { material = null; }
+            _super.call(this);
+            this.type = 'Mesh';
+            this.geometry = geometry;
+            this.material = material;
+        }
+        Mesh3D.getUV = function (point, a, b, c, uvs, ia, ib, ic) {
+            var v0x = c.x - a.x, v0y = c.y - a.y, v0z = c.z - a.z;
+            var v1x = b.x - a.x, v1y = b.y - a.y, v1z = b.z - a.z;
+            var v2x = point.x - a.x, v2y = point.y - a.y, v2z = point.z - a.z;
+            var dot00 = v0x * v0x + v0y * v0y + v0z * v0z;
+            var dot01 = v0x * v1x + v0y * v1y + v0z * v1z;
+            var dot02 = v0x * v2x + v0y * v2y + v0z * v2z;
+            var dot11 = v1x * v1x + v1y * v1y + v1z * v1z;
+            var dot12 = v1x * v2x + v1y * v2y + v1z * v2z;
+            var denominator = dot00 * dot11 - dot01 * dot01;
+            if (denominator === 0) {
+                return { x: uvs[ia * 2], y: uvs[ia * 2 + 1] };
+            }
+            var u = (dot11 * dot02 - dot01 * dot12) / denominator;
+            var v = (dot00 * dot12 - dot01 * dot02) / denominator;
+            var w = 1 - u - v;
+            return {
+                x: uvs[ia * 2] * w + uvs[ib * 2] * v + uvs[ic * 2] * u,
+                y: uvs[ia * 2 + 1] * w + uvs[ib * 2 + 1] * v + uvs[ic * 2 + 1] * u
+            };
+        };
+        Mesh3D.prototype.raycast = function (raycaster, intersects) {
+            var geometry = this.geometry;
+            var position = geometry.getAttribute(Geometry_1.Geometry.POSITION);
+            if (!position) {
+                return;
+            }
+            var sphere = Mesh3D._sphere.copy(geometry.getBoundingSphere()).applyMatrix4(this.matrixWorld);
+            if (!raycaster.ray.intersectsSphere(sphere)) {
+                return;
+            }
+            var ray = Mesh3D._ray.copy(raycaster.ray).applyMatrix4(Mesh3D._inverse.getInverse(this.matrixWorld));
+            if (!ray.intersectsBox(geometry.getBoundingBox())) {
+                return;
+            }
+            var cullFace = this.material ? this.material.cullFace : Material_1.Material.CULL_NONE;
+            var cullBack = cullFace == Material_1.Material.CULL_BACK || cullFace == Material_1.Material.CULL_FRONT_AND_BACK;
+            var cullFront = cullFace == Material_1.Material.CULL_FRONT || cullFace == Material_1.Material.CULL_FRONT_AND_BACK;
+            var uv = geometry.getAttribute(Geometry_1.Geometry.UV);
+            var positions = position.array;
+            var stride = position.size;
+            var index = geometry.length > 0 ? geometry.index : null;
+            var count = index ? index.length : geometry.getVertexCount();
+            var a = Mesh3D._a, b = Mesh3D._b, c = Mesh3D._c, point = Mesh3D._point;
+            for (var i = 0; i + 2 < count; i += 3) {
+                var ia = index ? index[i] : i;
+                var ib = index ? index[i + 1] : i + 1;
+                var ic = index ? index[i + 2] : i + 2;
+                a.set(positions[ia * stride], positions[ia * stride + 1], positions[ia * stride + 2]);
+                b.set(positions[ib * stride], positions[ib * stride + 1], positions[ib * stride + 2]);
+                c.set(positions[ic * stride], positions[ic * stride + 1], positions[ic * stride + 2]);
+                if (!ray.intersectTriangle(a, b, c, cullBack, cullFront, point)) {
+                    continue;
+                }
+                var world = point.clone().applyMatrix4(this.matrixWorld);
+                var distance = raycaster.ray.origin.distanceTo(world);
+                if (distance < raycaster.near || distance > raycaster.far) {
+                    continue;
+                }
+                intersects.push({
+                    distance: distance,
+                    point: world,
+                    object: this,
+                    faceIndex: i / 3,
+                    uv: uv ? Mesh3D.getUV(point, a, b, c, uv.array, ia, ib, ic) : null
+                });
+            }
+        };
+        Mesh3D.prototype.clone = function (recursive) {
+            return new Mesh3D(this.geometry, this.material).copy(this, recursive);
+        };
+        Mesh3D._inverse = new Matrix4_1.Matrix4();
+        Mesh3D._ray = new Ray_1.Ray();
+        Mesh3D._sphere = new Sphere_1.Sphere();
+        Mesh3D._a = new Vector3_1.Vector3();
+        Mesh3D._b = new Vector3_1.Vector3();
+        Mesh3D._c = new Vector3_1.Vector3();
+        Mesh3D._point = new Vector3_1.Vector3();
+        return Mesh3D;
+    }(Object3D_1.Object3D));
+    exports.Mesh3D = Mesh3D;
+});
@@ -0,0 +1,175 @@
+import {Object3D} from "./Object3D";
+import {Geometry} from "../webgl/Geometry";
+import {Material} from "../webgl/material/Material";
+import {Vector3} from "./Vector3";
+import {Matrix4} from "./Matrix4";
+import {Sphere} from "./Sphere";
+import {Ray} from "./Ray";
+import {Raycaster} from "./Raycaster";
+import IIntersection from "../interface/IIntersection";
+import IVector2 from "../interface/IVector2";
+
+/**
+ * A node in the scene graph that has a shape, the geometry is drawn with the transformation of the node.
+ *
+ * <h4>Example</h4>
+ *
+ *      var box = new Mesh3D(Primitives.createBox(1, 1, 1), material);
+ *      box.position.set(0, 0.5, 0);
+ *      scene.add(box);
+ *
+ * @class Mesh3D
+ * @extends Object3D
+ * @param {Geometry} [geometry]
+ * @param {Material} [material] meshes without a material are not drawn
+ */
+export class Mesh3D extends Object3D
+{
+	// scratch objects of raycast
+	protected static _inverse:Matrix4 = new Matrix4();
+	protected static _ray:Ray = new Ray();
+	protected static _sphere:Sphere = new Sphere();
+	protected static _a:Vector3 = new Vector3();
+	protected static _b:Vector3 = new Vector3();
+	protected static _c:Vector3 = new Vector3();
+	protected static _point:Vector3 = new Vector3();
+
+	/**
+	 * Texture coordinate at point in the triangle a, b, c, from the uvs of the corners ia, ib and ic.
+	 *
+	 * @method getUV
+	 * @param {Vector3} point
+	 * @param {Vector3} a
+	 * @param {Vector3} b
+	 * @param {Vector3} c
+	 * @param {Float32Array} uvs
+	 * @param {number} ia
+	 * @param {number} ib
+	 * @param {number} ic
+	 * @returns {IVector2}
+	 * @static
+	 */
+	public static getUV(point:Vector3, a:Vector3, b:Vector3, c:Vector3, uvs:Float32Array, ia:number, ib:number, ic:number):IVector2
+	{
+		var v0x = c.x - a.x, v0y = c.y - a.y, v0z = c.z - a.z;
+		var v1x = b.x - a.x, v1y = b.y - a.y, v1z = b.z - a.z;
+		var v2x = point.x - a.x, v2y = point.y - a.y, v2z = point.z - a.z;
+
+		var dot00 = v0x * v0x + v0y * v0y + v0z * v0z;
+		var dot01 = v0x * v1x + v0y * v1y + v0z * v1z;
+		var dot02 = v0x * v2x + v0y * v2y + v0z * v2z;
+		var dot11 = v1x * v1x + v1y * v1y + v1z * v1z;
+		var dot12 = v1x * v2x + v1y * v2y + v1z * v2z;
+		var denominator = dot00 * dot11 - dot01 * dot01;
+
+		// a triangle without area has no barycentric coordinates, take the uv of a
+		if(denominator === 0)
+		{
+			return {x: uvs[ia * 2], y: uvs[ia * 2 + 1]};
+		}
+
+		// weights of c and b, a gets the rest
+		var u = (dot11 * dot02 - dot01 * dot12) / denominator;
+		var v = (dot00 * dot12 - dot01 * dot02) / denominator;
+		var w = 1 - u - v;
+
+		return {
+			x: uvs[ia * 2] * w + uvs[ib * 2] * v + uvs[ic * 2] * u,
+			y: uvs[ia * 2 + 1] * w + uvs[ib * 2 + 1] * v + uvs[ic * 2 + 1] * u
+		};
+	}
+
+	public type = 'Mesh';
+
+	public geometry:Geometry;
+	public material:Material;
+
+	constructor(geometry:Geometry = new Geometry(), material:Material = null)
+	{
+		super();
+
+		this.geometry = geometry;
+		this.material = material;
+	}
+
+	/**
+	 * Tests the ray against the world bounding sphere, then against the bounding box and the triangles in the space
+	 * of the geometry. Faces the material culls are not hit.
+	 *
+	 * @method raycast
+	 * @param {Raycaster} raycaster
+	 * @param {Array<IIntersection>} intersects
+	 */
+	public raycast(raycaster:Raycaster, intersects:Array<IIntersection>):void
+	{
+		var geometry = this.geometry;
+		var position = geometry.getAttribute(Geometry.POSITION);
+
+		if(!position)
+		{
+			return;
+		}
+
+		var sphere = Mesh3D._sphere.copy(geometry.getBoundingSphere()).applyMatrix4(this.matrixWorld);
+
+		if(!raycaster.ray.intersectsSphere(sphere))
+		{
+			return;
+		}
+
+		var ray = Mesh3D._ray.copy(raycaster.ray).applyMatrix4(Mesh3D._inverse.getInverse(this.matrixWorld));
+
+		if(!ray.intersectsBox(geometry.getBoundingBox()))
+		{
+			return;
+		}
+
+		var cullFace = this.material ? this.material.cullFace : Material.CULL_NONE;
+		var cullBack = cullFace == Material.CULL_BACK || cullFace == Material.CULL_FRONT_AND_BACK;
+		var cullFront = cullFace == Material.CULL_FRONT || cullFace == Material.CULL_FRONT_AND_BACK;
+
+		var uv = geometry.getAttribute(Geometry.UV);
+		var positions = position.array;
+		var stride = position.size;
+		var index = geometry.length > 0 ? geometry.index : null;
+		var count = index ? index.length : geometry.getVertexCount();
+		var a = Mesh3D._a, b = Mesh3D._b, c = Mesh3D._c, point = Mesh3D._point;
+
+		for(var i = 0; i + 2 < count; i += 3)
+		{
+			var ia = index ? index[i] : i;
+			var ib = index ? index[i + 1] : i + 1;
+			var ic = index ? index[i + 2] : i + 2;
+
+			a.set(positions[ia * stride], positions[ia * stride + 1], positions[ia * stride + 2]);
+			b.set(positions[ib * stride], positions[ib * stride + 1], positions[ib * stride + 2]);
+			c.set(positions[ic * stride], positions[ic * stride + 1], positions[ic * stride + 2]);
+
+			if(!ray.intersectTriangle(a, b, c, cullBack, cullFront, point))
+			{
+				continue;
+			}
+
+			var world = point.clone().applyMatrix4(this.matrixWorld);
+			var distance = raycaster.ray.origin.distanceTo(world);
+
+			if(distance < raycaster.near || distance > raycaster.far)
+			{
+				continue;
+			}
+
+			intersects.push({
+				distance: distance,
+				point: world,
+				object: this,
+				faceIndex: i / 3,
+				uv: uv ? Mesh3D.getUV(point, a, b, c, uv.array, ia, ib, ic) : null
+			});
+		}
+	}
+
+	clone(recursive)
+	{
+		return new Mesh3D(this.geometry, this.material).copy(this, recursive);
+	}
+}
\ No newline at end of file
@@ -1,7 +1,14 @@
-define(["require", "exports", "./Vector3", "./Euler", "./Quaternion", "./Matrix3", "./Matrix4", "../util/UID"], function (require, exports, Vector3_1, Euler_1, Quaternion_1, Matrix3_1, Matrix4_1, UID_1) {
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./Vector3", "./Euler", "./Quaternion", "./Matrix3", "./Matrix4", "../util/UID", "../event/EventDispatcher"], function (require, exports, Vector3_1, Euler_1, Quaternion_1, Matrix3_1, Matrix4_1, UID_1, EventDispatcher_1) {
     "use strict";
-    var Object3D = (function () {
+    var Object3D = (function (_super) {
+        __extends(Object3D, _super);
         function Object3D() {
+            _super.call(this);
             this.id = Object3D.Object3DIdCount++;
             this.name = '';
             this.type = 'Object3D';
@@ -247,7 +254,7 @@ define(["require", "exports", "./Vector3", "./Euler", "./Quaternion", "./Matrix3
             this.updateMatrixWorld(true);
             return result.setFromMatrixPosition(this.matrixWorld);
         };
-        Object3D.prototype.raycast = function () {
+        Object3D.prototype.raycast = function (raycaster, intersects) {
         };
         Object3D.prototype.traverse = function (callback) {
             callback(this);
@@ -330,13 +337,13 @@ define(["require", "exports", "./Vector3", "./Euler", "./Quaternion", "./Matrix3
                 object.visible = false;
             }
             object.matrix = this.matrix.toArray();
-            if (this['geometry'] !== undefined) {
+            if (this['geometry']) {
                 if (meta.geometries[this['geometry'].uuid] === undefined) {
                     meta.geometries[this['geometry'].uuid] = this['geometry'].toJSON(meta);
                 }
                 object.geometry = this['geometry'].uuid;
             }
-            if (this['material'] !== undefined) {
+            if (this['material']) {
                 if (meta.materials[this['material'].uuid] === undefined) {
                     meta.materials[this['material'].uuid] = this['material'].toJSON(meta);
                 }
@@ -413,7 +420,7 @@ define(["require", "exports", "./Vector3", "./Euler", "./Quaternion", "./Matrix3
         Object3D.DefaultMatrixAutoUpdate = true;
         Object3D.Object3DIdCount = 0;
         return Object3D;
-    }());
+    }(EventDispatcher_1.default));
     exports.Object3D = Object3D;
     var Channels = (function () {
         function Channels() {
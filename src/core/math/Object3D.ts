@@ -5,6 +5,9 @@ import {Quaternion} from "./Quaternion";
 import Matrix3 from "./Matrix3";
 import {Matrix4} from "./Matrix4";
 import UID from "../util/UID";
+import EventDispatcher from "../event/EventDispatcher";
+import {Raycaster} from "./Raycaster";
+import IIntersection from "../interface/IIntersection";
 /**
  * @author mrdoob / http://mrdoob.com/
  * @author mikael emtinger / http://gomo.se/
@@ -13,7 +16,7 @@ import UID from "../util/UID";
  * @author elephantatwork / www.elephantatwork.ch
  */
 
-export class Object3D
+export class Object3D extends EventDispatcher
 {
 
 	public static DefaultUp:Vector3 = new Vector3(0, 1, 0);
@@ -40,6 +43,9 @@ export class Object3D
 	public matrix = new Matrix4();
 	public matrixWorld = new Matrix4();
 
+	public modelViewMatrix:Matrix4;
+	public normalMatrix:Matrix3;
+
 	public matrixAutoUpdate = Object3D.DefaultMatrixAutoUpdate;
 	public matrixWorldNeedsUpdate = false;
 
@@ -55,6 +61,7 @@ export class Object3D
 
 	constructor()
 	{
+		super();
 
 		//
 
@@ -544,7 +551,15 @@ export class Object3D
 
 	}()
 
-	public raycast()
+	/**
+	 * Adds the hits of the ray of raycaster on this object to intersects, without the children. An Object3D has no
+	 * shape to hit, subclasses with a shape override this.
+	 *
+	 * @method raycast
+	 * @param {Raycaster} raycaster
+	 * @param {Array<IIntersection>} intersects
+	 */
+	public raycast(raycaster:Raycaster, intersects:Array<IIntersection>):void
 	{
 	}
 
@@ -712,7 +727,7 @@ export class Object3D
 
 		//
 
-		if(this['geometry'] !== undefined)
+		if(this['geometry'])
 		{
 
 			if(meta.geometries[this['geometry'].uuid] === undefined)
@@ -726,7 +741,7 @@ export class Object3D
 
 		}
 
-		if(this['material'] !== undefined)
+		if(this['material'])
 		{
 
 			if(meta.materials[this['material'].uuid] === undefined)
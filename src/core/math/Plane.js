@@ -0,0 +1,73 @@
+define(["require", "exports", "./Vector3"], function (require, exports, Vector3_1) {
+    "use strict";
+    var Plane = (function () {
+        function Plane(normal, constant) {
+            if (normal === void 0) { normal = new Vector3_1.Vector3(1, 0, 0); }
+            if (constant === void 0) { constant = 0; }
+            this.normal = normal;
+            this.constant = constant;
+        }
+        Plane.prototype.set = function (normal, constant) {
+            this.normal.copy(normal);
+            this.constant = constant;
+            return this;
+        };
+        Plane.prototype.setComponents = function (x, y, z, w) {
+            this.normal.set(x, y, z);
+            this.constant = w;
+            return this;
+        };
+        Plane.prototype.setFromNormalAndCoplanarPoint = function (normal, point) {
+            this.normal.copy(normal);
+            this.constant = -point.dot(this.normal);
+            return this;
+        };
+        Plane.prototype.normalize = function () {
+            var inverseLength = 1 / this.normal.length();
+            this.normal.multiplyScalar(inverseLength);
+            this.constant *= inverseLength;
+            return this;
+        };
+        Plane.prototype.negate = function () {
+            this.normal.negate();
+            this.constant *= -1;
+            return this;
+        };
+        Plane.prototype.distanceToPoint = function (point) {
+            return this.normal.dot(point) + this.constant;
+        };
+        Plane.prototype.distanceToSphere = function (sphere) {
+            return this.distanceToPoint(sphere.center) - sphere.radius;
+        };
+        Plane.prototype.projectPoint = function (point, target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            return target.copy(this.normal).multiplyScalar(-this.distanceToPoint(point)).add(point);
+        };
+        Plane.prototype.intersectsSphere = function (sphere) {
+            return Math.abs(this.distanceToPoint(sphere.center)) <= sphere.radius;
+        };
+        Plane.prototype.intersectsBox = function (box) {
+            var normal = this.normal;
+            var max = normal.x * (normal.x > 0 ? box.max.x : box.min.x) +
+                normal.y * (normal.y > 0 ? box.max.y : box.min.y) +
+                normal.z * (normal.z > 0 ? box.max.z : box.min.z);
+            var min = normal.x * (normal.x > 0 ? box.min.x : box.max.x) +
+                normal.y * (normal.y > 0 ? box.min.y : box.max.y) +
+                normal.z * (normal.z > 0 ? box.min.z : box.max.z);
+            return min <= -this.constant && max >= -this.constant;
+        };
+        Plane.prototype.equals = function (plane) {
+            return this.normal.equals(plane.normal) && this.constant === plane.constant;
+        };
+        Plane.prototype.copy = function (plane) {
+            this.normal.copy(plane.normal);
+            this.constant = plane.constant;
+            return this;
+        };
+        Plane.prototype.clone = function () {
+            return new Plane().copy(this);
+        };
+        return Plane;
+    }());
+    exports.Plane = Plane;
+});
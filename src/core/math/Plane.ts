@@ -0,0 +1,147 @@
+import {Vector3} from "./Vector3";
+import {Sphere} from "./Sphere";
+import {Box3} from "./Box3";
+
+/**
+ * Plane of the points p for which normal.dot(p) + constant is 0. Points on the side the normal points to have a
+ * positive distance.
+ *
+ * @class Plane
+ * @param {Vector3} [normal] (1, 0, 0) by default
+ * @param {number} [constant=0]
+ */
+export class Plane
+{
+	public normal:Vector3;
+	public constant:number;
+
+	constructor(normal:Vector3 = new Vector3(1, 0, 0), constant:number = 0)
+	{
+		this.normal = normal;
+		this.constant = constant;
+	}
+
+	public set(normal:Vector3, constant:number):this
+	{
+		this.normal.copy(normal);
+		this.constant = constant;
+
+		return this;
+	}
+
+	public setComponents(x:number, y:number, z:number, w:number):this
+	{
+		this.normal.set(x, y, z);
+		this.constant = w;
+
+		return this;
+	}
+
+	/**
+	 * @method setFromNormalAndCoplanarPoint
+	 * @param {Vector3} normal of length 1
+	 * @param {Vector3} point a point on the plane
+	 * @returns {Plane}
+	 */
+	public setFromNormalAndCoplanarPoint(normal:Vector3, point:Vector3):this
+	{
+		this.normal.copy(normal);
+		this.constant = -point.dot(this.normal);
+
+		return this;
+	}
+
+	/**
+	 * Scales normal to length 1, distances are only true distances for a normalized plane.
+	 *
+	 * @method normalize
+	 * @returns {Plane}
+	 */
+	public normalize():this
+	{
+		var inverseLength = 1 / this.normal.length();
+
+		this.normal.multiplyScalar(inverseLength);
+		this.constant *= inverseLength;
+
+		return this;
+	}
+
+	public negate():this
+	{
+		this.normal.negate();
+		this.constant *= -1;
+
+		return this;
+	}
+
+	public distanceToPoint(point:Vector3):number
+	{
+		return this.normal.dot(point) + this.constant;
+	}
+
+	/**
+	 * Distance from the plane to the surface of the sphere, negative when the sphere crosses the plane or is on
+	 * the back side of it.
+	 *
+	 * @method distanceToSphere
+	 * @param {Sphere} sphere
+	 * @returns {number}
+	 */
+	public distanceToSphere(sphere:Sphere):number
+	{
+		return this.distanceToPoint(sphere.center) - sphere.radius;
+	}
+
+	/**
+	 * The point on the plane that is closest to point.
+	 *
+	 * @method projectPoint
+	 * @param {Vector3} point
+	 * @param {Vector3} [target]
+	 * @returns {Vector3}
+	 */
+	public projectPoint(point:Vector3, target:Vector3 = new Vector3()):Vector3
+	{
+		return target.copy(this.normal).multiplyScalar(-this.distanceToPoint(point)).add(point);
+	}
+
+	public intersectsSphere(sphere:Sphere):boolean
+	{
+		return Math.abs(this.distanceToPoint(sphere.center)) <= sphere.radius;
+	}
+
+	public intersectsBox(box:Box3):boolean
+	{
+		var normal = this.normal;
+
+		// the corners furthest along and against the normal
+		var max = normal.x * (normal.x > 0 ? box.max.x : box.min.x) +
+			normal.y * (normal.y > 0 ? box.max.y : box.min.y) +
+			normal.z * (normal.z > 0 ? box.max.z : box.min.z);
+
+		var min = normal.x * (normal.x > 0 ? box.min.x : box.max.x) +
+			normal.y * (normal.y > 0 ? box.min.y : box.max.y) +
+			normal.z * (normal.z > 0 ? box.min.z : box.max.z);
+
+		return min <= -this.constant && max >= -this.constant;
+	}
+
+	public equals(plane:Plane):boolean
+	{
+		return this.normal.equals(plane.normal) && this.constant === plane.constant;
+	}
+
+	public copy(plane:Plane):this
+	{
+		this.normal.copy(plane.normal);
+		this.constant = plane.constant;
+
+		return this;
+	}
+
+	public clone():Plane
+	{
+		return new Plane().copy(this);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,163 @@
+define(["require", "exports", "./Vector3"], function (require, exports, Vector3_1) {
+    "use strict";
+    var Ray = (function () {
+        function Ray(origin, direction) {
+            if (origin === void 0) { origin = new Vector3_1.Vector3(); }
+            if (direction === void 0) { direction = new Vector3_1.Vector3(0, 0, -1); }
+            this._edge1 = new Vector3_1.Vector3();
+            this._edge2 = new Vector3_1.Vector3();
+            this._normal = new Vector3_1.Vector3();
+            this._diff = new Vector3_1.Vector3();
+            this.origin = origin;
+            this.direction = direction;
+        }
+        Ray.prototype.set = function (origin, direction) {
+            this.origin.copy(origin);
+            this.direction.copy(direction);
+            return this;
+        };
+        Ray.prototype.at = function (t, target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            return target.copy(this.direction).multiplyScalar(t).add(this.origin);
+        };
+        Ray.prototype.lookAt = function (point) {
+            this.direction.subVectors(point, this.origin).normalize();
+            return this;
+        };
+        Ray.prototype.applyMatrix4 = function (matrix) {
+            this.origin.applyMatrix4(matrix);
+            this.direction.transformDirection(matrix);
+            return this;
+        };
+        Ray.prototype.distanceSqToPoint = function (point) {
+            var t = this._diff.subVectors(point, this.origin).dot(this.direction);
+            if (t < 0) {
+                return this.origin.distanceToSquared(point);
+            }
+            return this.at(t, this._diff).distanceToSquared(point);
+        };
+        Ray.prototype.distanceToPoint = function (point) {
+            return Math.sqrt(this.distanceSqToPoint(point));
+        };
+        Ray.prototype.intersectSphere = function (sphere, target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            var diff = this._diff.subVectors(sphere.center, this.origin);
+            var tca = diff.dot(this.direction);
+            var d2 = diff.dot(diff) - tca * tca;
+            var radius2 = sphere.radius * sphere.radius;
+            if (sphere.isEmpty() || d2 > radius2) {
+                return null;
+            }
+            var thc = Math.sqrt(radius2 - d2);
+            var t0 = tca - thc;
+            var t1 = tca + thc;
+            if (t1 < 0) {
+                return null;
+            }
+            return this.at(t0 < 0 ? t1 : t0, target);
+        };
+        Ray.prototype.intersectsSphere = function (sphere) {
+            return !sphere.isEmpty() && this.distanceSqToPoint(sphere.center) <= sphere.radius * sphere.radius;
+        };
+        Ray.prototype.distanceToPlane = function (plane) {
+            var denominator = plane.normal.dot(this.direction);
+            if (denominator === 0) {
+                return plane.distanceToPoint(this.origin) === 0 ? 0 : null;
+            }
+            var t = -(this.origin.dot(plane.normal) + plane.constant) / denominator;
+            return t >= 0 ? t : null;
+        };
+        Ray.prototype.intersectPlane = function (plane, target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            var t = this.distanceToPlane(plane);
+            return t === null ? null : this.at(t, target);
+        };
+        Ray.prototype.intersectBox = function (box, target) {
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            var origin = this.origin;
+            var direction = this.direction;
+            var tmin = -Infinity;
+            var tmax = Infinity;
+            var axes = ['x', 'y', 'z'];
+            if (box.isEmpty()) {
+                return null;
+            }
+            for (var i = 0; i < 3; i++) {
+                var axis = axes[i];
+                var inverse = 1 / direction[axis];
+                var t0 = (box.min[axis] - origin[axis]) * inverse;
+                var t1 = (box.max[axis] - origin[axis]) * inverse;
+                if (inverse < 0) {
+                    var swap = t0;
+                    t0 = t1;
+                    t1 = swap;
+                }
+                if (t0 > tmin)
+                    tmin = t0;
+                if (t1 < tmax)
+                    tmax = t1;
+                if (tmin > tmax) {
+                    return null;
+                }
+            }
+            if (tmax < 0) {
+                return null;
+            }
+            return this.at(tmin >= 0 ? tmin : tmax, target);
+        };
+        Ray.prototype.intersectsBox = function (box) {
+            return this.intersectBox(box, this._diff) !== null;
+        };
+        Ray.prototype.intersectTriangle = function (a, b, c, cullBack, cullFront, target) {
+            if (cullBack === void 0) { cullBack = false; }
+            if (cullFront === void 0) { cullFront = false; }
+            if (target === void 0) { target = new Vector3_1.Vector3(); }
+            var edge1 = this._edge1.subVectors(b, a);
+            var edge2 = this._edge2.subVectors(c, a);
+            var normal = this._normal.crossVectors(edge1, edge2);
+            var DdN = this.direction.dot(normal);
+            var sign;
+            if (DdN > 0) {
+                if (cullBack)
+                    return null;
+                sign = 1;
+            }
+            else if (DdN < 0) {
+                if (cullFront)
+                    return null;
+                sign = -1;
+                DdN = -DdN;
+            }
+            else {
+                return null;
+            }
+            var diff = this._diff.subVectors(this.origin, a);
+            var DdQxE2 = sign * this.direction.dot(edge2.crossVectors(diff, edge2));
+            if (DdQxE2 < 0) {
+                return null;
+            }
+            var DdE1xQ = sign * this.direction.dot(edge1.crossVectors(edge1, diff));
+            if (DdE1xQ < 0 || DdQxE2 + DdE1xQ > DdN) {
+                return null;
+            }
+            var QdN = -sign * diff.dot(normal);
+            if (QdN < 0) {
+                return null;
+            }
+            return this.at(QdN / DdN, target);
+        };
+        Ray.prototype.equals = function (ray) {
+            return this.origin.equals(ray.origin) && this.direction.equals(ray.direction);
+        };
+        Ray.prototype.copy = function (ray) {
+            this.origin.copy(ray.origin);
+            this.direction.copy(ray.direction);
+            return this;
+        };
+        Ray.prototype.clone = function () {
+            return new Ray().copy(this);
+        };
+        return Ray;
+    }());
+    exports.Ray = Ray;
+});
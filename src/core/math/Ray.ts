@@ -0,0 +1,291 @@
+import {Vector3} from "./Vector3";
+import {Matrix4} from "./Matrix4";
+import {Sphere} from "./Sphere";
+import {Box3} from "./Box3";
+import {Plane} from "./Plane";
+
+/**
+ * Half line from origin in direction, direction has length 1. The intersect methods write the point the ray
+ * enters a shape into target and return null when the ray misses it.
+ *
+ * @class Ray
+ * @param {Vector3} [origin]
+ * @param {Vector3} [direction] (0, 0, -1) by default
+ */
+export class Ray
+{
+	public origin:Vector3;
+	public direction:Vector3;
+
+	protected _edge1:Vector3 = new Vector3();
+	protected _edge2:Vector3 = new Vector3();
+	protected _normal:Vector3 = new Vector3();
+	protected _diff:Vector3 = new Vector3();
+
+	constructor(origin:Vector3 = new Vector3(), direction:Vector3 = new Vector3(0, 0, -1))
+	{
+		this.origin = origin;
+		this.direction = direction;
+	}
+
+	public set(origin:Vector3, direction:Vector3):this
+	{
+		this.origin.copy(origin);
+		this.direction.copy(direction);
+
+		return this;
+	}
+
+	/**
+	 * The point at distance t along the ray.
+	 *
+	 * @method at
+	 * @param {number} t
+	 * @param {Vector3} [target]
+	 * @returns {Vector3}
+	 */
+	public at(t:number, target:Vector3 = new Vector3()):Vector3
+	{
+		return target.copy(this.direction).multiplyScalar(t).add(this.origin);
+	}
+
+	/**
+	 * Points the ray from its origin to point.
+	 *
+	 * @method lookAt
+	 * @param {Vector3} point
+	 * @returns {Ray}
+	 */
+	public lookAt(point:Vector3):this
+	{
+		this.direction.subVectors(point, this.origin).normalize();
+
+		return this;
+	}
+
+	/**
+	 * Transforms the ray, the direction is normalized again so distances along a scaled ray are in the units
+	 * of the new space.
+	 *
+	 * @method applyMatrix4
+	 * @param {Matrix4} matrix
+	 * @returns {Ray}
+	 */
+	public applyMatrix4(matrix:Matrix4):this
+	{
+		this.origin.applyMatrix4(matrix);
+		this.direction.transformDirection(matrix);
+
+		return this;
+	}
+
+	public distanceSqToPoint(point:Vector3):number
+	{
+		var t = this._diff.subVectors(point, this.origin).dot(this.direction);
+
+		// points behind the origin are closest to the origin
+		if(t < 0)
+		{
+			return this.origin.distanceToSquared(point);
+		}
+
+		return this.at(t, this._diff).distanceToSquared(point);
+	}
+
+	public distanceToPoint(point:Vector3):number
+	{
+		return Math.sqrt(this.distanceSqToPoint(point));
+	}
+
+	public intersectSphere(sphere:Sphere, target:Vector3 = new Vector3()):Vector3
+	{
+		var diff = this._diff.subVectors(sphere.center, this.origin);
+		var tca = diff.dot(this.direction);
+		var d2 = diff.dot(diff) - tca * tca;
+		var radius2 = sphere.radius * sphere.radius;
+
+		if(sphere.isEmpty() || d2 > radius2)
+		{
+			return null;
+		}
+
+		var thc = Math.sqrt(radius2 - d2);
+		var t0 = tca - thc;
+		var t1 = tca + thc;
+
+		// the sphere is behind the ray
+		if(t1 < 0)
+		{
+			return null;
+		}
+
+		// the origin is inside the sphere, the ray leaves it at t1
+		return this.at(t0 < 0 ? t1 : t0, target);
+	}
+
+	public intersectsSphere(sphere:Sphere):boolean
+	{
+		return !sphere.isEmpty() && this.distanceSqToPoint(sphere.center) <= sphere.radius * sphere.radius;
+	}
+
+	/**
+	 * Distance along the ray to the plane, null when the ray is parallel to it or points away from it.
+	 *
+	 * @method distanceToPlane
+	 * @param {Plane} plane
+	 * @returns {number}
+	 */
+	public distanceToPlane(plane:Plane):number
+	{
+		var denominator = plane.normal.dot(this.direction);
+
+		if(denominator === 0)
+		{
+			return plane.distanceToPoint(this.origin) === 0 ? 0 : null;
+		}
+
+		var t = -(this.origin.dot(plane.normal) + plane.constant) / denominator;
+
+		return t >= 0 ? t : null;
+	}
+
+	public intersectPlane(plane:Plane, target:Vector3 = new Vector3()):Vector3
+	{
+		var t = this.distanceToPlane(plane);
+
+		return t === null ? null : this.at(t, target);
+	}
+
+	public intersectBox(box:Box3, target:Vector3 = new Vector3()):Vector3
+	{
+		var origin = this.origin;
+		var direction = this.direction;
+		var tmin = -Infinity;
+		var tmax = Infinity;
+		var axes = ['x', 'y', 'z'];
+
+		if(box.isEmpty())
+		{
+			return null;
+		}
+
+		// slabs, the ray is inside the box where it is between the planes of all three axes
+		for(var i = 0; i < 3; i++)
+		{
+			var axis = axes[i];
+			var inverse = 1 / direction[axis];
+			var t0 = (box.min[axis] - origin[axis]) * inverse;
+			var t1 = (box.max[axis] - origin[axis]) * inverse;
+
+			if(inverse < 0)
+			{
+				var swap = t0;
+				t0 = t1;
+				t1 = swap;
+			}
+
+			// a ray parallel to the slab gives NaN when the origin lies on one of its planes, it fails both tests
+			if(t0 > tmin) tmin = t0;
+			if(t1 < tmax) tmax = t1;
+
+			if(tmin > tmax)
+			{
+				return null;
+			}
+		}
+
+		if(tmax < 0)
+		{
+			return null;
+		}
+
+		return this.at(tmin >= 0 ? tmin : tmax, target);
+	}
+
+	public intersectsBox(box:Box3):boolean
+	{
+		return this.intersectBox(box, this._diff) !== null;
+	}
+
+	/**
+	 * Intersects the triangle a, b, c. Triangles are front facing when their corners are counter clockwise as
+	 * seen from the ray.
+	 *
+	 * @method intersectTriangle
+	 * @param {Vector3} a
+	 * @param {Vector3} b
+	 * @param {Vector3} c
+	 * @param {boolean} [cullBack=false] miss triangles that face away from the ray
+	 * @param {boolean} [cullFront=false] miss triangles that face the ray
+	 * @param {Vector3} [target]
+	 * @returns {Vector3}
+	 */
+	public intersectTriangle(a:Vector3, b:Vector3, c:Vector3, cullBack:boolean = false, cullFront:boolean = false, target:Vector3 = new Vector3()):Vector3
+	{
+		var edge1 = this._edge1.subVectors(b, a);
+		var edge2 = this._edge2.subVectors(c, a);
+		var normal = this._normal.crossVectors(edge1, edge2);
+
+		// the ray triangle test of Eberly's Geometric Tools, the signs tell on which side of each edge the ray passes
+		var DdN = this.direction.dot(normal);
+		var sign;
+
+		if(DdN > 0)
+		{
+			if(cullBack) return null;
+			sign = 1;
+		}
+		else if(DdN < 0)
+		{
+			if(cullFront) return null;
+			sign = -1;
+			DdN = -DdN;
+		}
+		else
+		{
+			return null;
+		}
+
+		var diff = this._diff.subVectors(this.origin, a);
+		var DdQxE2 = sign * this.direction.dot(edge2.crossVectors(diff, edge2));
+
+		if(DdQxE2 < 0)
+		{
+			return null;
+		}
+
+		var DdE1xQ = sign * this.direction.dot(edge1.crossVectors(edge1, diff));
+
+		if(DdE1xQ < 0 || DdQxE2 + DdE1xQ > DdN)
+		{
+			return null;
+		}
+
+		var QdN = -sign * diff.dot(normal);
+
+		if(QdN < 0)
+		{
+			return null;
+		}
+
+		return this.at(QdN / DdN, target);
+	}
+
+	public equals(ray:Ray):boolean
+	{
+		return this.origin.equals(ray.origin) && this.direction.equals(ray.direction);
+	}
+
+	public copy(ray:Ray):this
+	{
+		this.origin.copy(ray.origin);
+		this.direction.copy(ray.direction);
+
+		return this;
+	}
+
+	public clone():Ray
+	{
+		return new Ray().copy(this);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+define(["require", "exports", "./Ray", "./Vector3", "./camera/PerspectiveCamera", "./camera/OrthographicCamera"], function (require, exports, Ray_1, Vector3_1, PerspectiveCamera_1, OrthographicCamera_1) {
+    "use strict";
+    var Raycaster = (function () {
+        function Raycaster(origin, direction, near, far) {
+            if (origin === void 0) { origin = new Vector3_1.Vector3(); }
+            if (direction === void 0) { direction = new Vector3_1.Vector3(0, 0, -1); }
+            if (near === void 0) { near = 0; }
+            if (far === void 0) { far = Infinity; }
+            this.ray = new Ray_1.Ray(origin, direction);
+            this.near = near;
+            this.far = far;
+        }
+        Raycaster.prototype.set = function (origin, direction) {
+            this.ray.set(origin, direction);
+            return this;
+        };
+        Raycaster.prototype.setFromCamera = function (coords, camera) {
+            var ray = this.ray;
+            if (camera instanceof PerspectiveCamera_1.PerspectiveCamera) {
+                ray.origin.setFromMatrixPosition(camera.matrixWorld);
+                ray.direction.set(coords.x, coords.y, 0.5).unproject(camera).sub(ray.origin).normalize();
+            }
+            else if (camera instanceof OrthographicCamera_1.OrthographicCamera) {
+                var ortho = camera;
+                ray.origin.set(coords.x, coords.y, (ortho.near + ortho.far) / (ortho.near - ortho.far)).unproject(camera);
+                ray.direction.set(0, 0, -1).transformDirection(camera.matrixWorld);
+            }
+            else {
+                throw new TypeError('can not cast a ray from camera type "' + camera.type + '"');
+            }
+            return this;
+        };
+        Raycaster.prototype.intersectObject = function (object, recursive, intersects) {
+            if (recursive === void 0) { recursive = true; }
+            if (intersects === void 0) { intersects = []; }
+            this.intersect(object, recursive, intersects);
+            intersects.sort(Raycaster.sortByDistance);
+            return intersects;
+        };
+        Raycaster.prototype.intersectObjects = function (objects, recursive, intersects) {
+            if (recursive === void 0) { recursive = true; }
+            if (intersects === void 0) { intersects = []; }
+            for (var i = 0; i < objects.length; i++) {
+                this.intersect(objects[i], recursive, intersects);
+            }
+            intersects.sort(Raycaster.sortByDistance);
+            return intersects;
+        };
+        Raycaster.sortByDistance = function (a, b) {
+            return a.distance - b.distance;
+        };
+        Raycaster.prototype.intersect = function (object, recursive, intersects) {
+            if (object.visible === false) {
+                return;
+            }
+            object.raycast(this, intersects);
+            if (recursive) {
+                for (var i = 0; i < object.children.length; i++) {
+                    this.intersect(object.children[i], true, intersects);
+                }
+            }
+        };
+        return Raycaster;
+    }());
+    exports.Raycaster = Raycaster;
+});
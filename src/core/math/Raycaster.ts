@@ -0,0 +1,150 @@
+import {Ray} from "./Ray";
+import {Vector3} from "./Vector3";
+import {Object3D} from "./Object3D";
+import Camera from "./camera/Camera";
+import {PerspectiveCamera} from "./camera/PerspectiveCamera";
+import {OrthographicCamera} from "./camera/OrthographicCamera";
+import IVector2 from "../interface/IVector2";
+import IIntersection from "../interface/IIntersection";
+
+/**
+ * Finds what a ray hits in a scene, for picking with the mouse. Every object tests the ray against its own shape
+ * in Object3D.raycast, a Mesh3D tests its bounding sphere and box first and then its triangles. Hidden objects and
+ * their children are not hit. The world matrices have to be up to date, a render updates them.
+ *
+ * <h4>Example</h4>
+ *
+ *      var raycaster = new Raycaster();
+ *
+ *      canvas.domElement.addEventListener('click', (event) => {
+ *          var x = event.offsetX / canvas.width * 2 - 1;
+ *          var y = -(event.offsetY / canvas.height * 2 - 1);
+ *
+ *          var intersects = raycaster.setFromCamera({x: x, y: y}, camera).intersectObject(scene);
+ *
+ *          if(intersects.length > 0)
+ *          {
+ *              select(intersects[0].object);
+ *          }
+ *      });
+ *
+ * @class Raycaster
+ * @param {Vector3} [origin]
+ * @param {Vector3} [direction] of length 1
+ * @param {number} [near=0] hits closer than near are left out
+ * @param {number} [far=Infinity] hits further than far are left out
+ */
+export class Raycaster
+{
+	public ray:Ray;
+	public near:number;
+	public far:number;
+
+	constructor(origin:Vector3 = new Vector3(), direction:Vector3 = new Vector3(0, 0, -1), near:number = 0, far:number = Infinity)
+	{
+		this.ray = new Ray(origin, direction);
+		this.near = near;
+		this.far = far;
+	}
+
+	public set(origin:Vector3, direction:Vector3):this
+	{
+		this.ray.set(origin, direction);
+
+		return this;
+	}
+
+	/**
+	 * Casts the ray from the camera through a point on the screen.
+	 *
+	 * @method setFromCamera
+	 * @param {IVector2} coords from -1 to 1, x to the right and y up
+	 * @param {Camera} camera a PerspectiveCamera or OrthographicCamera
+	 * @returns {Raycaster}
+	 */
+	public setFromCamera(coords:IVector2, camera:Camera):this
+	{
+		var ray = this.ray;
+
+		if(camera instanceof PerspectiveCamera)
+		{
+			ray.origin.setFromMatrixPosition(camera.matrixWorld);
+			ray.direction.set(coords.x, coords.y, 0.5).unproject(camera).sub(ray.origin).normalize();
+		}
+		else if(camera instanceof OrthographicCamera)
+		{
+			var ortho = <OrthographicCamera> camera;
+
+			// on the near plane
+			ray.origin.set(coords.x, coords.y, (ortho.near + ortho.far) / (ortho.near - ortho.far)).unproject(camera);
+			ray.direction.set(0, 0, -1).transformDirection(camera.matrixWorld);
+		}
+		else
+		{
+			throw new TypeError('can not cast a ray from camera type "' + camera.type + '"');
+		}
+
+		return this;
+	}
+
+	/**
+	 * The hits of the ray on object and its descendants, closest first.
+	 *
+	 * @method intersectObject
+	 * @param {Object3D} object
+	 * @param {boolean} [recursive=true] also test the descendants
+	 * @param {Array<IIntersection>} [intersects] hits are added to this array
+	 * @returns {Array<IIntersection>}
+	 */
+	public intersectObject(object:Object3D, recursive:boolean = true, intersects:Array<IIntersection> = []):Array<IIntersection>
+	{
+		this.intersect(object, recursive, intersects);
+		intersects.sort(Raycaster.sortByDistance);
+
+		return intersects;
+	}
+
+	/**
+	 * The hits of the ray on a list of objects, closest first.
+	 *
+	 * @method intersectObjects
+	 * @param {Array<Object3D>} objects
+	 * @param {boolean} [recursive=true] also test the descendants
+	 * @param {Array<IIntersection>} [intersects] hits are added to this array
+	 * @returns {Array<IIntersection>}
+	 */
+	public intersectObjects(objects:Array<Object3D>, recursive:boolean = true, intersects:Array<IIntersection> = []):Array<IIntersection>
+	{
+		for(var i = 0; i < objects.length; i++)
+		{
+			this.intersect(objects[i], recursive, intersects);
+		}
+
+		intersects.sort(Raycaster.sortByDistance);
+
+		return intersects;
+	}
+
+	protected static sortByDistance(a:IIntersection, b:IIntersection):number
+	{
+		return a.distance - b.distance;
+	}
+
+	protected intersect(object:Object3D, recursive:boolean, intersects:Array<IIntersection>):void
+	{
+		if(object.visible === false)
+		{
+			return;
+		}
+
+		object.raycast(this, intersects);
+
+		if(recursive)
+		{
+			for(var i = 0; i < object.children.length; i++)
+			{
+				this.intersect(object.children[i], true, intersects);
+			}
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+define(["require", "exports", "./Vector3", "./Box3"], function (require, exports, Vector3_1, Box3_1) {
+    "use strict";
+    var Sphere = (function () {
+        function Sphere(center, radius) {
+            if (center === void 0) { center = new Vector3_1.Vector3(); }
+            if (radius === void 0) { radius = 0; }
+            this.center = center;
+            this.radius = radius;
+        }
+        Sphere.prototype.set = function (center, radius) {
+            this.center.copy(center);
+            this.radius = radius;
+            return this;
+        };
+        Sphere.prototype.setFromArray = function (array, stride, offset, center) {
+            if (stride === void 0) { stride = 3; }
+            if (offset === void 0) { offset = 0; }
+            if (center === void 0) { center = null; }
+            if (center) {
+                this.center.copy(center);
+            }
+            else {
+                new Box3_1.Box3().setFromArray(array, stride, offset).getCenter(this.center);
+            }
+            var cx = this.center.x, cy = this.center.y, cz = this.center.z;
+            var radiusSq = -1;
+            for (var i = offset; i + 2 < array.length; i += stride) {
+                var dx = array[i] - cx, dy = array[i + 1] - cy, dz = array[i + 2] - cz;
+                radiusSq = Math.max(radiusSq, dx * dx + dy * dy + dz * dz);
+            }
+            this.radius = radiusSq < 0 ? -1 : Math.sqrt(radiusSq);
+            return this;
+        };
+        Sphere.prototype.isEmpty = function () {
+            return this.radius < 0;
+        };
+        Sphere.prototype.containsPoint = function (point) {
+            return point.distanceToSquared(this.center) <= this.radius * this.radius;
+        };
+        Sphere.prototype.distanceToPoint = function (point) {
+            return point.distanceTo(this.center) - this.radius;
+        };
+        Sphere.prototype.intersectsSphere = function (sphere) {
+            var radius = this.radius + sphere.radius;
+            return !this.isEmpty() && !sphere.isEmpty() && sphere.center.distanceToSquared(this.center) <= radius * radius;
+        };
+        Sphere.prototype.intersectsBox = function (box) {
+            return box.intersectsSphere(this);
+        };
+        Sphere.prototype.applyMatrix4 = function (matrix) {
+            if (!this.isEmpty()) {
+                this.center.applyMatrix4(matrix);
+                this.radius = this.radius * matrix.getMaxScaleOnAxis();
+            }
+            return this;
+        };
+        Sphere.prototype.translate = function (offset) {
+            this.center.add(offset);
+            return this;
+        };
+        Sphere.prototype.getBoundingBox = function (target) {
+            if (target === void 0) { target = new Box3_1.Box3(); }
+            if (this.isEmpty()) {
+                return target.makeEmpty();
+            }
+            target.min.set(this.center.x - this.radius, this.center.y - this.radius, this.center.z - this.radius);
+            target.max.set(this.center.x + this.radius, this.center.y + this.radius, this.center.z + this.radius);
+            return target;
+        };
+        Sphere.prototype.equals = function (sphere) {
+            return this.center.equals(sphere.center) && this.radius === sphere.radius;
+        };
+        Sphere.prototype.copy = function (sphere) {
+            this.center.copy(sphere.center);
+            this.radius = sphere.radius;
+            return this;
+        };
+        Sphere.prototype.clone = function () {
+            return new Sphere().copy(this);
+        };
+        return Sphere;
+    }());
+    exports.Sphere = Sphere;
+});
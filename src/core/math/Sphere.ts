@@ -0,0 +1,158 @@
+import {Vector3} from "./Vector3";
+import {Box3} from "./Box3";
+import {Matrix4} from "./Matrix4";
+
+/**
+ * Sphere around center, a negative radius is an empty sphere.
+ *
+ * @class Sphere
+ * @param {Vector3} [center]
+ * @param {number} [radius=0]
+ */
+export class Sphere
+{
+	public center:Vector3;
+	public radius:number;
+
+	constructor(center:Vector3 = new Vector3(), radius:number = 0)
+	{
+		this.center = center;
+		this.radius = radius;
+	}
+
+	public set(center:Vector3, radius:number):this
+	{
+		this.center.copy(center);
+		this.radius = radius;
+
+		return this;
+	}
+
+	/**
+	 * Makes the sphere contain the points in array, around the center of their bounding box unless a center is
+	 * given.
+	 *
+	 * @method setFromArray
+	 * @param {ArrayLike<number>} array x, y and z of every point
+	 * @param {number} [stride=3] amount of values per point
+	 * @param {number} [offset=0] position of x in the values of a point
+	 * @param {Vector3} [center]
+	 * @returns {Sphere}
+	 */
+	public setFromArray(array:any, stride:number = 3, offset:number = 0, center:Vector3 = null):this
+	{
+		if(center)
+		{
+			this.center.copy(center);
+		}
+		else
+		{
+			new Box3().setFromArray(array, stride, offset).getCenter(this.center);
+		}
+
+		var cx = this.center.x, cy = this.center.y, cz = this.center.z;
+		var radiusSq = -1;
+
+		for(var i = offset; i + 2 < array.length; i += stride)
+		{
+			var dx = array[i] - cx, dy = array[i + 1] - cy, dz = array[i + 2] - cz;
+
+			radiusSq = Math.max(radiusSq, dx * dx + dy * dy + dz * dz);
+		}
+
+		this.radius = radiusSq < 0 ? -1 : Math.sqrt(radiusSq);
+
+		return this;
+	}
+
+	public isEmpty():boolean
+	{
+		return this.radius < 0;
+	}
+
+	public containsPoint(point:Vector3):boolean
+	{
+		return point.distanceToSquared(this.center) <= this.radius * this.radius;
+	}
+
+	/**
+	 * Distance from point to the surface of the sphere, negative for points inside it.
+	 *
+	 * @method distanceToPoint
+	 * @param {Vector3} point
+	 * @returns {number}
+	 */
+	public distanceToPoint(point:Vector3):number
+	{
+		return point.distanceTo(this.center) - this.radius;
+	}
+
+	public intersectsSphere(sphere:Sphere):boolean
+	{
+		var radius = this.radius + sphere.radius;
+
+		return !this.isEmpty() && !sphere.isEmpty() && sphere.center.distanceToSquared(this.center) <= radius * radius;
+	}
+
+	public intersectsBox(box:Box3):boolean
+	{
+		return box.intersectsSphere(this);
+	}
+
+	/**
+	 * Transforms the center and scales the radius by the largest scale of the matrix, so the sphere still contains
+	 * what it contained before the transformation.
+	 *
+	 * @method applyMatrix4
+	 * @param {Matrix4} matrix
+	 * @returns {Sphere}
+	 */
+	public applyMatrix4(matrix:Matrix4):this
+	{
+		if(!this.isEmpty())
+		{
+			this.center.applyMatrix4(matrix);
+			this.radius = this.radius * matrix.getMaxScaleOnAxis();
+		}
+
+		return this;
+	}
+
+	public translate(offset:Vector3):this
+	{
+		this.center.add(offset);
+
+		return this;
+	}
+
+	public getBoundingBox(target:Box3 = new Box3()):Box3
+	{
+		if(this.isEmpty())
+		{
+			return target.makeEmpty();
+		}
+
+		target.min.set(this.center.x - this.radius, this.center.y - this.radius, this.center.z - this.radius);
+		target.max.set(this.center.x + this.radius, this.center.y + this.radius, this.center.z + this.radius);
+
+		return target;
+	}
+
+	public equals(sphere:Sphere):boolean
+	{
+		return this.center.equals(sphere.center) && this.radius === sphere.radius;
+	}
+
+	public copy(sphere:Sphere):this
+	{
+		this.center.copy(sphere.center);
+		this.radius = sphere.radius;
+
+		return this;
+	}
+
+	public clone():Sphere
+	{
+		return new Sphere().copy(this);
+	}
+}
\ No newline at end of file
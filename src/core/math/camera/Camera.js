@@ -1,7 +1,17 @@
-define(["require", "exports", "../Matrix4", "../Quaternion", "../Vector3"], function (require, exports, Matrix4_1, Quaternion_1, Vector3_1) {
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "../Matrix4", "../Quaternion", "../Vector3", "../Object3D"], function (require, exports, Matrix4_1, Quaternion_1, Vector3_1, Object3D_1) {
     "use strict";
-    var Camera = (function () {
+    var Camera = (function (_super) {
+        __extends(Camera, _super);
         function Camera() {
+            var _this = this;
+            _super.call(this);
+            this.type = 'Camera';
+            this._resizeConnection = null;
             this.getWorldDirection = (function () {
                 var quaternion = new Quaternion_1.Quaternion();
                 return function (optionalTarget) {
@@ -17,16 +27,42 @@ define(["require", "exports", "../Matrix4", "../Quaternion", "../Vector3"], func
                     this.quaternion.setFromRotationMatrix(m1);
                 };
             })();
+            this.handleResize = function (width, height) {
+                _this.setSize(width, height);
+            };
             this.matrixWorldInverse = new Matrix4_1.Matrix4();
             this.projectionMatrix = new Matrix4_1.Matrix4();
         }
-        Camera.prototype.copy = function (source) {
+        Camera.prototype.updateMatrixWorld = function (force) {
+            _super.prototype.updateMatrixWorld.call(this, force);
+            this.matrixWorldInverse.getInverse(this.matrixWorld);
+        };
+        Camera.prototype.follow = function (canvas) {
+            this.unfollow();
+            this._resizeConnection = canvas.onResize.connect(this.handleResize);
+            this.handleResize(canvas.getWidth(), canvas.getHeight());
+            return this;
+        };
+        Camera.prototype.unfollow = function () {
+            if (this._resizeConnection) {
+                this._resizeConnection.dispose();
+                this._resizeConnection = null;
+            }
+        };
+        Camera.prototype.setSize = function (width, height) {
+        };
+        Camera.prototype.copy = function (source, recursive) {
+            _super.prototype.copy.call(this, source, recursive);
             this.matrixWorldInverse.copy(source.matrixWorldInverse);
             this.projectionMatrix.copy(source.projectionMatrix);
             return this;
         };
+        Camera.prototype.destruct = function () {
+            this.unfollow();
+            _super.prototype.destruct.call(this);
+        };
         return Camera;
-    }());
+    }(Object3D_1.Object3D));
     Object.defineProperty(exports, "__esModule", { value: true });
     exports.default = Camera;
 });
@@ -1,6 +1,9 @@
 import {Matrix4} from "../Matrix4";
 import {Quaternion} from "../Quaternion";
 import {Vector3} from "../Vector3";
+import {Object3D} from "../Object3D";
+import {Canvas} from "../../../visual/renderer/element/Canvas";
+import {SignalConnection} from "../../event/SignalConnection";
 
 /**
  * @author mrdoob / http://mrdoob.com/
@@ -8,13 +11,18 @@ import {Vector3} from "../Vector3";
  * @author WestLangley / http://github.com/WestLangley
  */
 
-class Camera
+class Camera extends Object3D
 {
+	public type = 'Camera';
+
 	public matrixWorldInverse:Matrix4;
 	public projectionMatrix:Matrix4;
 
+	protected _resizeConnection:SignalConnection = null;
+
 	constructor()
 	{
+		super();
 
 		this.matrixWorldInverse = new Matrix4();
 		this.projectionMatrix = new Matrix4();
@@ -49,10 +57,68 @@ class Camera
 		}
 	})();
 
-	public copy(source:Camera)
+	/**
+	 * Updates the world matrix and its inverse, the view matrix.
+	 *
+	 * @method updateMatrixWorld
+	 * @param {boolean} [force]
+	 */
+	public updateMatrixWorld(force?:boolean)
+	{
+		super.updateMatrixWorld(force);
+
+		this.matrixWorldInverse.getInverse(this.matrixWorld);
+	}
+
+	/**
+	 * Keeps the aspect of the projection in sync with the size of the canvas.
+	 *
+	 * @method follow
+	 * @param {Canvas} canvas
+	 * @returns {Camera}
+	 */
+	public follow(canvas:Canvas):this
 	{
+		this.unfollow();
 
-		//THREE.Object3D.prototype.copy.call( this, source );
+		this._resizeConnection = canvas.onResize.connect(this.handleResize);
+		this.handleResize(canvas.getWidth(), canvas.getHeight());
+
+		return this;
+	}
+
+	/**
+	 * Stops following the canvas the camera follows.
+	 *
+	 * @method unfollow
+	 */
+	public unfollow():void
+	{
+		if(this._resizeConnection)
+		{
+			this._resizeConnection.dispose();
+			this._resizeConnection = null;
+		}
+	}
+
+	protected handleResize = (width:number, height:number) => {
+		this.setSize(width, height);
+	};
+
+	/**
+	 * Adapts the projection to a viewport of width by height pixels, the base camera has no projection to adapt.
+	 *
+	 * @method setSize
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public setSize(width:number, height:number):void
+	{
+	}
+
+	public copy(source:Camera, recursive?:boolean)
+	{
+		super.copy(source, recursive);
 
 		this.matrixWorldInverse.copy(source.matrixWorldInverse);
 		this.projectionMatrix.copy(source.projectionMatrix);
@@ -60,8 +126,12 @@ class Camera
 		return this;
 
 	}
+
+	public destruct():void
+	{
+		this.unfollow();
+
+		super.destruct();
+	}
 }
-//
-//THREE.Camera.prototype = Object.create( THREE.Object3D.prototype );
-//THREE.Camera.prototype.constructor = THREE.Camera;
 export default Camera;
\ No newline at end of file
@@ -0,0 +1,98 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./Camera"], function (require, exports, Camera_1) {
+    "use strict";
+    var OrthographicCamera = (function (_super) {
+        __extends(OrthographicCamera, _super);
+        function OrthographicCamera(left, right, top, bottom, near, far) {
+            if (left === void 0) { left = -1; }
+            if (right === void 0) { right = 1; }
+            if (top === void 0) { top = 1; }
+            if (bottom === void 0) { bottom = -1; }
+            if (near === void 0) { near = 0.1; }
+            if (far === void 0) { far = 2000; }
+            _super.call(this);
+            this.type = 'OrthographicCamera';
+            this.zoom = 1;
+            this.view = null;
+            this.left = left;
+            this.right = right;
+            this.top = top;
+            this.bottom = bottom;
+            this.near = near;
+            this.far = far;
+            this.updateProjectionMatrix();
+        }
+        OrthographicCamera.prototype.setViewOffset = function (fullWidth, fullHeight, x, y, width, height) {
+            this.view = {
+                fullWidth: fullWidth,
+                fullHeight: fullHeight,
+                offsetX: x,
+                offsetY: y,
+                width: width,
+                height: height
+            };
+            this.updateProjectionMatrix();
+        };
+        OrthographicCamera.prototype.clearViewOffset = function () {
+            this.view = null;
+            this.updateProjectionMatrix();
+        };
+        OrthographicCamera.prototype.setSize = function (width, height) {
+            if (height > 0) {
+                var center = (this.left + this.right) / 2;
+                var halfWidth = (this.top - this.bottom) * width / height / 2;
+                this.left = center - halfWidth;
+                this.right = center + halfWidth;
+                this.updateProjectionMatrix();
+            }
+        };
+        OrthographicCamera.prototype.updateProjectionMatrix = function () {
+            var dx = (this.right - this.left) / (2 * this.zoom);
+            var dy = (this.top - this.bottom) / (2 * this.zoom);
+            var cx = (this.right + this.left) / 2;
+            var cy = (this.top + this.bottom) / 2;
+            var left = cx - dx;
+            var right = cx + dx;
+            var top = cy + dy;
+            var bottom = cy - dy;
+            var view = this.view;
+            if (view !== null) {
+                var scaleW = (right - left) / view.fullWidth;
+                var scaleH = (top - bottom) / view.fullHeight;
+                left += scaleW * view.offsetX;
+                right = left + scaleW * view.width;
+                top -= scaleH * view.offsetY;
+                bottom = top - scaleH * view.height;
+            }
+            this.projectionMatrix.makeOrthographic(left, right, top, bottom, this.near, this.far);
+        };
+        OrthographicCamera.prototype.copy = function (source, recursive) {
+            _super.prototype.copy.call(this, source, recursive);
+            this.left = source.left;
+            this.right = source.right;
+            this.top = source.top;
+            this.bottom = source.bottom;
+            this.near = source.near;
+            this.far = source.far;
+            this.zoom = source.zoom;
+            this.view = source.view === null ? null : {
+                fullWidth: source.view.fullWidth,
+                fullHeight: source.view.fullHeight,
+                offsetX: source.view.offsetX,
+                offsetY: source.view.offsetY,
+                width: source.view.width,
+                height: source.view.height
+            };
+            return this;
+        };
+        OrthographicCamera.prototype.clone = function (recursive) {
+            return new OrthographicCamera().copy(this, recursive);
+        };
+        return OrthographicCamera;
+    }(Camera_1.default));
+    exports.OrthographicCamera = OrthographicCamera;
+});
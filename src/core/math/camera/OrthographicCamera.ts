@@ -0,0 +1,176 @@
+import Camera from "./Camera";
+import ICameraView from "../../interface/ICameraView";
+
+/**
+ * Camera with an orthographic projection, objects keep their size at any distance. The planes are in units of the
+ * scene relative to the camera. Call updateProjectionMatrix after changing them or zoom. A camera that follows a
+ * canvas keeps its height and center and widens or narrows left and right to the aspect of the canvas.
+ *
+ * <h4>Example</h4>
+ *
+ *      // 10 units high, as wide as the canvas allows
+ *      var camera = new OrthographicCamera(-5, 5, 5, -5, 0.1, 100).follow(canvas);
+ *      camera.position.set(0, 0, 10);
+ *
+ *      renderer.render(scene, camera);
+ *
+ * @class OrthographicCamera
+ * @extends Camera
+ * @param {number} [left=-1]
+ * @param {number} [right=1]
+ * @param {number} [top=1]
+ * @param {number} [bottom=-1]
+ * @param {number} [near=0.1]
+ * @param {number} [far=2000]
+ */
+export class OrthographicCamera extends Camera
+{
+	public type = 'OrthographicCamera';
+
+	public left:number;
+	public right:number;
+	public top:number;
+	public bottom:number;
+	public near:number;
+	public far:number;
+
+	/**
+	 * magnifies the view, without moving the camera
+	 * @property zoom
+	 * @type {number}
+	 */
+	public zoom:number = 1;
+
+	/**
+	 * the part of the full view that is rendered, null renders all of it
+	 * @property view
+	 * @type {ICameraView}
+	 */
+	public view:ICameraView = null;
+
+	constructor(left:number = -1, right:number = 1, top:number = 1, bottom:number = -1, near:number = 0.1, far:number = 2000)
+	{
+		super();
+
+		this.left = left;
+		this.right = right;
+		this.top = top;
+		this.bottom = bottom;
+		this.near = near;
+		this.far = far;
+
+		this.updateProjectionMatrix();
+	}
+
+	/**
+	 * Renders only a part of a view of fullWidth by fullHeight pixels, see PerspectiveCamera.setViewOffset.
+	 *
+	 * @method setViewOffset
+	 * @param {number} fullWidth
+	 * @param {number} fullHeight
+	 * @param {number} x
+	 * @param {number} y
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public setViewOffset(fullWidth:number, fullHeight:number, x:number, y:number, width:number, height:number):void
+	{
+		this.view = {
+			fullWidth: fullWidth,
+			fullHeight: fullHeight,
+			offsetX: x,
+			offsetY: y,
+			width: width,
+			height: height
+		};
+
+		this.updateProjectionMatrix();
+	}
+
+	/**
+	 * @method clearViewOffset
+	 */
+	public clearViewOffset():void
+	{
+		this.view = null;
+		this.updateProjectionMatrix();
+	}
+
+	/**
+	 * Keeps top, bottom and the horizontal center and sets left and right to the aspect of width and height.
+	 *
+	 * @method setSize
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public setSize(width:number, height:number):void
+	{
+		if(height > 0)
+		{
+			var center = (this.left + this.right) / 2;
+			var halfWidth = (this.top - this.bottom) * width / height / 2;
+
+			this.left = center - halfWidth;
+			this.right = center + halfWidth;
+			this.updateProjectionMatrix();
+		}
+	}
+
+	/**
+	 * @method updateProjectionMatrix
+	 */
+	public updateProjectionMatrix():void
+	{
+		var dx = (this.right - this.left) / (2 * this.zoom);
+		var dy = (this.top - this.bottom) / (2 * this.zoom);
+		var cx = (this.right + this.left) / 2;
+		var cy = (this.top + this.bottom) / 2;
+
+		var left = cx - dx;
+		var right = cx + dx;
+		var top = cy + dy;
+		var bottom = cy - dy;
+		var view = this.view;
+
+		if(view !== null)
+		{
+			var scaleW = (right - left) / view.fullWidth;
+			var scaleH = (top - bottom) / view.fullHeight;
+
+			left += scaleW * view.offsetX;
+			right = left + scaleW * view.width;
+			top -= scaleH * view.offsetY;
+			bottom = top - scaleH * view.height;
+		}
+
+		this.projectionMatrix.makeOrthographic(left, right, top, bottom, this.near, this.far);
+	}
+
+	public copy(source:OrthographicCamera, recursive?:boolean)
+	{
+		super.copy(source, recursive);
+
+		this.left = source.left;
+		this.right = source.right;
+		this.top = source.top;
+		this.bottom = source.bottom;
+		this.near = source.near;
+		this.far = source.far;
+		this.zoom = source.zoom;
+		this.view = source.view === null ? null : {
+			fullWidth: source.view.fullWidth,
+			fullHeight: source.view.fullHeight,
+			offsetX: source.view.offsetX,
+			offsetY: source.view.offsetY,
+			width: source.view.width,
+			height: source.view.height
+		};
+
+		return this;
+	}
+
+	clone(recursive)
+	{
+		return new OrthographicCamera().copy(this, recursive);
+	}
+}
\ No newline at end of file
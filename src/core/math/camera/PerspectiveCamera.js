@@ -0,0 +1,85 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./Camera", "../MathUtil"], function (require, exports, Camera_1, MathUtil_1) {
+    "use strict";
+    var PerspectiveCamera = (function (_super) {
+        __extends(PerspectiveCamera, _super);
+        function PerspectiveCamera(fov, aspect, near, far) {
+            if (fov === void 0) { fov = 50; }
+            if (aspect === void 0) { aspect = 1; }
+            if (near === void 0) { near = 0.1; }
+            if (far === void 0) { far = 2000; }
+            _super.call(this);
+            this.type = 'PerspectiveCamera';
+            this.zoom = 1;
+            this.view = null;
+            this.fov = fov;
+            this.aspect = aspect;
+            this.near = near;
+            this.far = far;
+            this.updateProjectionMatrix();
+        }
+        PerspectiveCamera.prototype.setViewOffset = function (fullWidth, fullHeight, x, y, width, height) {
+            this.aspect = fullWidth / fullHeight;
+            this.view = {
+                fullWidth: fullWidth,
+                fullHeight: fullHeight,
+                offsetX: x,
+                offsetY: y,
+                width: width,
+                height: height
+            };
+            this.updateProjectionMatrix();
+        };
+        PerspectiveCamera.prototype.clearViewOffset = function () {
+            this.view = null;
+            this.updateProjectionMatrix();
+        };
+        PerspectiveCamera.prototype.setSize = function (width, height) {
+            if (height > 0) {
+                this.aspect = width / height;
+                this.updateProjectionMatrix();
+            }
+        };
+        PerspectiveCamera.prototype.updateProjectionMatrix = function () {
+            var near = this.near;
+            var top = near * Math.tan(MathUtil_1.default.degToRad(0.5 * this.fov)) / this.zoom;
+            var height = 2 * top;
+            var width = this.aspect * height;
+            var left = -0.5 * width;
+            var view = this.view;
+            if (view !== null) {
+                left += view.offsetX * width / view.fullWidth;
+                top -= view.offsetY * height / view.fullHeight;
+                width *= view.width / view.fullWidth;
+                height *= view.height / view.fullHeight;
+            }
+            this.projectionMatrix.makeFrustum(left, left + width, top - height, top, near, this.far);
+        };
+        PerspectiveCamera.prototype.copy = function (source, recursive) {
+            _super.prototype.copy.call(this, source, recursive);
+            this.fov = source.fov;
+            this.aspect = source.aspect;
+            this.near = source.near;
+            this.far = source.far;
+            this.zoom = source.zoom;
+            this.view = source.view === null ? null : {
+                fullWidth: source.view.fullWidth,
+                fullHeight: source.view.fullHeight,
+                offsetX: source.view.offsetX,
+                offsetY: source.view.offsetY,
+                width: source.view.width,
+                height: source.view.height
+            };
+            return this;
+        };
+        PerspectiveCamera.prototype.clone = function (recursive) {
+            return new PerspectiveCamera().copy(this, recursive);
+        };
+        return PerspectiveCamera;
+    }(Camera_1.default));
+    exports.PerspectiveCamera = PerspectiveCamera;
+});
@@ -0,0 +1,159 @@
+import Camera from "./Camera";
+import MathUtil from "../MathUtil";
+import ICameraView from "../../interface/ICameraView";
+
+/**
+ * Camera with a perspective projection, objects further away are drawn smaller. Call updateProjectionMatrix after
+ * changing fov, aspect, near, far or zoom, a camera that follows a canvas updates its aspect by itself.
+ *
+ * <h4>Example</h4>
+ *
+ *      var camera = new PerspectiveCamera(45, 1, 0.1, 100).follow(canvas);
+ *      camera.position.set(0, 2, 10);
+ *      camera.lookAt(new Vector3(0, 0, 0));
+ *
+ *      renderer.render(scene, camera);
+ *
+ * @class PerspectiveCamera
+ * @extends Camera
+ * @param {number} [fov=50] vertical field of view in degrees
+ * @param {number} [aspect=1] width divided by height
+ * @param {number} [near=0.1]
+ * @param {number} [far=2000]
+ */
+export class PerspectiveCamera extends Camera
+{
+	public type = 'PerspectiveCamera';
+
+	public fov:number;
+	public aspect:number;
+	public near:number;
+	public far:number;
+
+	/**
+	 * magnifies the view, without moving the camera
+	 * @property zoom
+	 * @type {number}
+	 */
+	public zoom:number = 1;
+
+	/**
+	 * the part of the full view that is rendered, null renders all of it
+	 * @property view
+	 * @type {ICameraView}
+	 */
+	public view:ICameraView = null;
+
+	constructor(fov:number = 50, aspect:number = 1, near:number = 0.1, far:number = 2000)
+	{
+		super();
+
+		this.fov = fov;
+		this.aspect = aspect;
+		this.near = near;
+		this.far = far;
+
+		this.updateProjectionMatrix();
+	}
+
+	/**
+	 * Renders only a part of a view of fullWidth by fullHeight pixels. For a 3 by 2 grid of 1920 by 1080 screens the
+	 * screen on the top right is
+	 *
+	 *      camera.setViewOffset(1920 * 3, 1080 * 2, 1920 * 2, 0, 1920, 1080);
+	 *
+	 * @method setViewOffset
+	 * @param {number} fullWidth
+	 * @param {number} fullHeight
+	 * @param {number} x
+	 * @param {number} y
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public setViewOffset(fullWidth:number, fullHeight:number, x:number, y:number, width:number, height:number):void
+	{
+		this.aspect = fullWidth / fullHeight;
+		this.view = {
+			fullWidth: fullWidth,
+			fullHeight: fullHeight,
+			offsetX: x,
+			offsetY: y,
+			width: width,
+			height: height
+		};
+
+		this.updateProjectionMatrix();
+	}
+
+	/**
+	 * @method clearViewOffset
+	 */
+	public clearViewOffset():void
+	{
+		this.view = null;
+		this.updateProjectionMatrix();
+	}
+
+	/**
+	 * @method setSize
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public setSize(width:number, height:number):void
+	{
+		if(height > 0)
+		{
+			this.aspect = width / height;
+			this.updateProjectionMatrix();
+		}
+	}
+
+	/**
+	 * @method updateProjectionMatrix
+	 */
+	public updateProjectionMatrix():void
+	{
+		var near = this.near;
+		var top = near * Math.tan(MathUtil.degToRad(0.5 * this.fov)) / this.zoom;
+		var height = 2 * top;
+		var width = this.aspect * height;
+		var left = -0.5 * width;
+		var view = this.view;
+
+		if(view !== null)
+		{
+			left += view.offsetX * width / view.fullWidth;
+			top -= view.offsetY * height / view.fullHeight;
+			width *= view.width / view.fullWidth;
+			height *= view.height / view.fullHeight;
+		}
+
+		this.projectionMatrix.makeFrustum(left, left + width, top - height, top, near, this.far);
+	}
+
+	public copy(source:PerspectiveCamera, recursive?:boolean)
+	{
+		super.copy(source, recursive);
+
+		this.fov = source.fov;
+		this.aspect = source.aspect;
+		this.near = source.near;
+		this.far = source.far;
+		this.zoom = source.zoom;
+		this.view = source.view === null ? null : {
+			fullWidth: source.view.fullWidth,
+			fullHeight: source.view.fullHeight,
+			offsetX: source.view.offsetX,
+			offsetY: source.view.offsetY,
+			width: source.view.width,
+			height: source.view.height
+		};
+
+		return this;
+	}
+
+	clone(recursive)
+	{
+		return new PerspectiveCamera().copy(this, recursive);
+	}
+}
\ No newline at end of file
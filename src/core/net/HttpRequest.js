@@ -8,7 +8,7 @@ define(["require", "exports", "../util/Promise"], function (require, exports, Pr
             this.query = query;
             this.type = type;
         }
-        HttpRequest.request = function (method, url, args) {
+        HttpRequest.request = function (method, url, args, responseType) {
             return new Promise_1.Promise(function (resolve, reject) {
                 var client = new XMLHttpRequest();
                 var uri = url;
@@ -25,6 +25,9 @@ define(["require", "exports", "../util/Promise"], function (require, exports, Pr
                     }
                 }
                 client.open(method, uri);
+                if (responseType) {
+                    client.responseType = responseType;
+                }
                 client.send();
                 client.onload = function () {
                     if ((this.status >= 200 && this.status < 400) || this.status === 0) {
@@ -43,6 +46,10 @@ define(["require", "exports", "../util/Promise"], function (require, exports, Pr
             if (query === void 0) { query = {}; }
             return HttpRequest.request('GET', url, query);
         };
+        HttpRequest.getArrayBuffer = function (url, query) {
+            if (query === void 0) { query = {}; }
+            return HttpRequest.request('GET', url, query, 'arraybuffer');
+        };
         HttpRequest.getJSON = function (url, query) {
             if (query === void 0) { query = {}; }
             return HttpRequest.getString(url, query)
@@ -65,6 +72,16 @@ define(["require", "exports", "../util/Promise"], function (require, exports, Pr
             }
             return this._promise;
         };
+        HttpRequest.prototype.reload = function () {
+            var _this = this;
+            var path = this.path + (this.path.indexOf('?') == -1 ? '?' : '&') + '_=' + Date.now();
+            this._promise = HttpRequest.getString(path, this.query).then(function (data) {
+                _this._hasLoaded = true;
+                _this.data = data;
+                return data;
+            });
+            return this._promise;
+        };
         return HttpRequest;
     }());
     exports.HttpRequest = HttpRequest;
@@ -44,9 +44,10 @@ export class HttpRequest<T> implements ILoadable<T>
 	 * @param {string} method
 	 * @param {string} url
 	 * @param {Array<string>} args
+	 * @param {string} [responseType] "arraybuffer" for binary data
 	 * @returns {Promise}
 	 */
-	private static request(method:string, url:string, args:IHashMap<string>):Promise<any>
+	private static request(method:string, url:string, args:IHashMap<string>, responseType?:string):Promise<any>
 	{
 		// Creating a promise
 		return new Promise(function(resolve:Function, reject:Function) {
@@ -70,6 +71,12 @@ export class HttpRequest<T> implements ILoadable<T>
 			}
 
 			client.open(method, uri);
+
+			if(responseType)
+			{
+				client.responseType = responseType;
+			}
+
 			client.send();
 
 			client.onload = function ()
@@ -101,6 +108,17 @@ export class HttpRequest<T> implements ILoadable<T>
 		return HttpRequest.request('GET', url, query);
 	}
 
+	/**
+	 *
+	 * @param {string} url
+	 * @param {IHashMap<any>} query
+	 * @returns {Promise<ArrayBuffer>}
+	 */
+	public static getArrayBuffer(url:string, query:IHashMap<any> = {}):Promise<ArrayBuffer>
+	{
+		return HttpRequest.request('GET', url, query, 'arraybuffer');
+	}
+
 	/**
 	 *
 	 * @param {string} url
@@ -149,6 +167,25 @@ export class HttpRequest<T> implements ILoadable<T>
 
 		return this._promise;
 	}
+
+	/**
+	 * Fetches the data again, bypassing the cache of the browser.
+	 *
+	 * @method reload
+	 * @returns {Promise<T>}
+	 */
+	public reload():Promise<T>
+	{
+		var path = this.path + (this.path.indexOf('?') == -1 ? '?' : '&') + '_=' + Date.now();
+
+		this._promise = HttpRequest.getString(path, this.query).then((data:T) => {
+			this._hasLoaded = true;
+			this.data = data;
+			return data;
+		});
+
+		return this._promise;
+	}
 }
 
 export enum Type {
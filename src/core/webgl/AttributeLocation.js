@@ -1,4 +1,4 @@
-define(["require", "exports"], function (require, exports) {
+define(["require", "exports", "./GLState", "./VertexLayout"], function (require, exports, GLState_1, VertexLayout_1) {
     "use strict";
     var AttributeLocation = (function () {
         function AttributeLocation(gl, location, name, size, type, normalized, stride, offset) {
@@ -7,7 +7,11 @@ define(["require", "exports"], function (require, exports) {
             if (stride === void 0) { stride = 0; }
             if (offset === void 0) { offset = 0; }
             this._gl = null;
+            this._divisor = 0;
+            this._buffer = null;
+            this._enabled = false;
             this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
             this._name = name;
             this._location = location;
             this._size = size;
@@ -16,6 +20,61 @@ define(["require", "exports"], function (require, exports) {
             this._stride = stride;
             this._offset = offset;
         }
+        AttributeLocation.getComponentCount = function (gl, type) {
+            switch (type) {
+                case gl.FLOAT: {
+                    return 1;
+                }
+                case gl.FLOAT_VEC2:
+                case gl.FLOAT_MAT2: {
+                    return 2;
+                }
+                case gl.FLOAT_VEC3: {
+                    return 3;
+                }
+                case gl.FLOAT_MAT3: {
+                    return 9;
+                }
+                case gl.FLOAT_MAT4: {
+                    return 16;
+                }
+            }
+            return 4;
+        };
+        AttributeLocation.getColumnCount = function (size) {
+            return size == 16 ? 4 : size == 9 ? 3 : 1;
+        };
+        AttributeLocation.prototype.getName = function () {
+            return this._name;
+        };
+        AttributeLocation.prototype.getLocation = function () {
+            return this._location;
+        };
+        AttributeLocation.prototype.setLocation = function (location) {
+            this._location = location;
+        };
+        AttributeLocation.prototype.getSize = function () {
+            return this._size;
+        };
+        AttributeLocation.prototype.setPointer = function (size, type, normalized, stride, offset) {
+            if (type === void 0) { type = this._gl.FLOAT; }
+            if (normalized === void 0) { normalized = false; }
+            if (stride === void 0) { stride = 0; }
+            if (offset === void 0) { offset = 0; }
+            this._size = size;
+            this._type = type;
+            this._normalized = normalized;
+            this._stride = stride;
+            this._offset = offset;
+            return this;
+        };
+        AttributeLocation.prototype.setDivisor = function (divisor) {
+            this._divisor = divisor;
+            return this;
+        };
+        AttributeLocation.prototype.getDivisor = function () {
+            return this._divisor;
+        };
         AttributeLocation.prototype.point2 = function () {
             var buffers = [];
             for (var _i = 0; _i < arguments.length; _i++) {
@@ -24,11 +83,48 @@ define(["require", "exports"], function (require, exports) {
             return this;
         };
         AttributeLocation.prototype.point = function () {
-            this._gl.vertexAttribPointer(this._location, this._size, this._type, this._normalized, this._stride, this._offset);
+            var columns = AttributeLocation.getColumnCount(this._size);
+            if (columns == 1) {
+                this._gl.vertexAttribPointer(this._location, this._size, this._type, this._normalized, this._stride, this._offset);
+                this._state.vertexAttribDivisor(this._location, this._divisor);
+                this._buffer = this._state.getBuffer(this._gl.ARRAY_BUFFER);
+                return this;
+            }
+            var rows = this._size / columns;
+            var bytes = rows * VertexLayout_1.VertexLayout.getByteSize(this._type);
+            var stride = this._stride || columns * bytes;
+            for (var i = 0; i < columns; i++) {
+                this._gl.vertexAttribPointer(this._location + i, rows, this._type, this._normalized, stride, this._offset + i * bytes);
+                this._state.vertexAttribDivisor(this._location + i, this._divisor);
+            }
+            this._buffer = this._state.getBuffer(this._gl.ARRAY_BUFFER);
             return this;
         };
         AttributeLocation.prototype.enable = function () {
-            this._gl.enableVertexAttribArray(this._location);
+            var columns = AttributeLocation.getColumnCount(this._size);
+            for (var i = 0; i < columns; i++) {
+                this._state.enableVertexAttribArray(this._location + i);
+            }
+            this._enabled = true;
+            return this;
+        };
+        AttributeLocation.prototype.disable = function () {
+            var columns = AttributeLocation.getColumnCount(this._size);
+            for (var i = 0; i < columns; i++) {
+                this._state.disableVertexAttribArray(this._location + i);
+            }
+            this._enabled = false;
+            return this;
+        };
+        AttributeLocation.prototype.isEnabled = function () {
+            return this._enabled;
+        };
+        AttributeLocation.prototype.reapply = function () {
+            if (this._location != -1 && this._buffer) {
+                this._state.bindBuffer(this._gl.ARRAY_BUFFER, this._buffer);
+                this.point().enable();
+            }
+            return this;
         };
         return AttributeLocation;
     }());
@@ -1,7 +1,60 @@
 import {Buffer} from "./Buffer";
+import {GLState} from "./GLState";
+import {VertexLayout} from "./VertexLayout";
 export class AttributeLocation
 {
+	/**
+	 * Amount of components the pointer of an attribute of the given glsl type reads. A mat3 or mat4 takes 9 or 16
+	 * components, they are pointed one column per location.
+	 *
+	 * @method getComponentCount
+	 * @param {WebGLRenderingContext} gl
+	 * @param {number} type
+	 * @returns {number}
+	 */
+	public static getComponentCount(gl:WebGLRenderingContext, type:number):number
+	{
+		switch(type)
+		{
+			case gl.FLOAT:{
+				return 1;
+			}
+
+			case gl.FLOAT_VEC2:
+			case gl.FLOAT_MAT2:{
+				return 2;
+			}
+
+			case gl.FLOAT_VEC3:{
+				return 3;
+			}
+
+			case gl.FLOAT_MAT3:{
+				return 9;
+			}
+
+			case gl.FLOAT_MAT4:{
+				return 16;
+			}
+		}
+
+		return 4;
+	}
+
+	/**
+	 * Amount of locations an attribute with the given amount of components takes, 3 for a mat3 and 4 for a mat4.
+	 *
+	 * @method getColumnCount
+	 * @param {number} size
+	 * @returns {number}
+	 */
+	public static getColumnCount(size:number):number
+	{
+		return size == 16 ? 4 : size == 9 ? 3 : 1;
+	}
+
 	protected _gl:WebGLRenderingContext = null;
+	protected _state:GLState;
 	protected _name:string;
 	protected _type:number;
 	protected _location:number;
@@ -11,10 +64,16 @@ export class AttributeLocation
 	protected _normalized:boolean;
 	protected _stride:number;
 	protected _offset:number;
+	protected _divisor:number = 0;
+
+	// what point and enable were last called with, to set the attribute up again at a new location
+	protected _buffer:WebGLBuffer = null;
+	protected _enabled:boolean = false;
 
 	constructor(gl:WebGLRenderingContext, location:number, name:string, size: number, type:number = gl.FLOAT, normalized: boolean = false, stride: number = 0, offset: number = 0)
 	{
 		this._gl = gl;
+		this._state = GLState.get(gl);
 		this._name = name;
 		this._location = location;
 		this._size = size;
@@ -24,6 +83,73 @@ export class AttributeLocation
 		this._offset = offset;
 	}
 
+	public getName():string
+	{
+		return this._name;
+	}
+
+	/**
+	 * @method getLocation
+	 * @returns {number} -1 when the attribute is not used by the program
+	 */
+	public getLocation():number
+	{
+		return this._location;
+	}
+
+	/**
+	 * Used when the program is relinked, the pointer settings are kept.
+	 *
+	 * @method setLocation
+	 * @param {number} location
+	 */
+	public setLocation(location:number):void
+	{
+		this._location = location;
+	}
+
+	public getSize():number
+	{
+		return this._size;
+	}
+
+	/**
+	 * Changes how the attribute reads from the buffer, takes effect on the next point.
+	 *
+	 * @method setPointer
+	 * @returns {AttributeLocation}
+	 */
+	public setPointer(size: number, type:number = this._gl.FLOAT, normalized: boolean = false, stride: number = 0, offset: number = 0):this
+	{
+		this._size = size;
+		this._type = type;
+		this._normalized = normalized;
+		this._stride = stride;
+		this._offset = offset;
+
+		return this;
+	}
+
+	/**
+	 * Makes the attribute advance once per instance instead of once per vertex, 0 turns instancing off again.
+	 * Takes effect on the next point.
+	 *
+	 * @method setDivisor
+	 * @param {number} divisor amount of instances that use the same value
+	 * @returns {AttributeLocation}
+	 */
+	public setDivisor(divisor:number):this
+	{
+		this._divisor = divisor;
+
+		return this;
+	}
+
+	public getDivisor():number
+	{
+		return this._divisor;
+	}
+
 	public point2(...buffers:Array<Buffer>):this
 	{
 		//if(buffers.length > 0){
@@ -59,16 +185,85 @@ export class AttributeLocation
 
 	public point():this
 	{
-		// Point an attribute to the currently bound VBO
-		this._gl.vertexAttribPointer(this._location, this._size, this._type, this._normalized, this._stride, this._offset);
+		var columns = AttributeLocation.getColumnCount(this._size);
+
+		if(columns == 1)
+		{
+			// Point an attribute to the currently bound VBO
+			this._gl.vertexAttribPointer(this._location, this._size, this._type, this._normalized, this._stride, this._offset);
+			this._state.vertexAttribDivisor(this._location, this._divisor);
+			this._buffer = this._state.getBuffer(this._gl.ARRAY_BUFFER);
+
+			return this;
+		}
+
+		// every column of a matrix has its own location, a stride of 0 would be the size of one column
+		var rows = this._size / columns;
+		var bytes = rows * VertexLayout.getByteSize(this._type);
+		var stride = this._stride || columns * bytes;
+
+		for(var i = 0; i < columns; i++)
+		{
+			this._gl.vertexAttribPointer(this._location + i, rows, this._type, this._normalized, stride, this._offset + i * bytes);
+			this._state.vertexAttribDivisor(this._location + i, this._divisor);
+		}
+
+		this._buffer = this._state.getBuffer(this._gl.ARRAY_BUFFER);
 
 		return this;
 	}
 
-	public enable()
+	public enable():this
 	{
+		var columns = AttributeLocation.getColumnCount(this._size);
+
 		// Enable the attribute
-		this._gl.enableVertexAttribArray(this._location);
+		for(var i = 0; i < columns; i++)
+		{
+			this._state.enableVertexAttribArray(this._location + i);
+		}
+
+		this._enabled = true;
+
+		return this;
+	}
+
+	public disable():this
+	{
+		var columns = AttributeLocation.getColumnCount(this._size);
+
+		for(var i = 0; i < columns; i++)
+		{
+			this._state.disableVertexAttribArray(this._location + i);
+		}
+
+		this._enabled = false;
+
+		return this;
+	}
+
+	public isEnabled():boolean
+	{
+		return this._enabled;
+	}
+
+	/**
+	 * Binds the buffer the attribute was last pointed at and points and enables the attribute at its current
+	 * location, after the program was linked again. Nothing happens when the program does not use the attribute
+	 * anymore.
+	 *
+	 * @method reapply
+	 * @returns {AttributeLocation}
+	 */
+	public reapply():this
+	{
+		if(this._location != -1 && this._buffer)
+		{
+			this._state.bindBuffer(this._gl.ARRAY_BUFFER, this._buffer);
+			this.point().enable();
+		}
+
+		return this;
 	}
 
 }
@@ -1,11 +1,15 @@
-define(["require", "exports", "./Geometry"], function (require, exports, Geometry_1) {
+define(["require", "exports", "./Geometry", "./GLState", "./GLCapabilities", "./GPUResources"], function (require, exports, Geometry_1, GLState_1, GLCapabilities_1, GPUResources_1) {
     "use strict";
     var Buffer = (function () {
         function Buffer(gl, data, type, usage) {
             this._buffers = null;
             this.hasGeometry = false;
             this.hasPassed = false;
+            this._capacity = 0;
+            this._dirtyStart = -1;
+            this._dirtyEnd = -1;
             this.gl = gl;
+            this.state = GLState_1.GLState.get(gl);
             if (data instanceof Geometry_1.Geometry) {
                 this.hasGeometry = true;
                 this._buffers = [];
@@ -18,41 +22,95 @@ define(["require", "exports", "./Geometry"], function (require, exports, Geometr
                 this.data = data;
                 this.type = type || gl.ARRAY_BUFFER;
                 this.usage = usage || gl.STATIC_DRAW;
+                this.checkIndexType();
                 this.buffer = gl.createBuffer();
+                GPUResources_1.GPUResources.get(gl).add(this);
             }
         }
-        Buffer.prototype.update = function () {
-            if (!this.hasGeometry) {
-                this.gl.bindBuffer(this.type, this.buffer);
-                this.gl.bufferData(this.type, this.data, this.usage);
-                this.gl.bindBuffer(this.type, null);
+        Buffer.prototype.getIndexType = function () {
+            if (this.hasGeometry) {
+                return this._buffers[1].getIndexType();
             }
-            else {
-                this._buffers[0].update();
-                this._buffers[1].update();
+            return this.data instanceof Uint32Array ? this.gl.UNSIGNED_INT : this.gl.UNSIGNED_SHORT;
+        };
+        Buffer.prototype.getCapacity = function () {
+            return this._capacity;
+        };
+        Buffer.prototype.setData = function (data) {
+            if (this.hasGeometry) {
+                throw new Error('the data of a buffer created from a Geometry can not be replaced');
             }
-            this.hasPassed = true;
+            this.data = data;
+            this.checkIndexType();
+            return this.setDirty();
+        };
+        Buffer.prototype.setDirty = function (start, end) {
+            if (start === void 0) { start = 0; }
+            if (end === void 0) { end = this.data ? this.data.length : 0; }
+            if (this.hasGeometry) {
+                this._buffers[0].setDirty();
+                this._buffers[1].setDirty();
+                return this;
+            }
+            this._dirtyStart = this._dirtyStart == -1 ? start : Math.min(this._dirtyStart, start);
+            this._dirtyEnd = this._dirtyEnd == -1 ? end : Math.max(this._dirtyEnd, end);
             return this;
         };
-        Buffer.prototype.updateBind = function () {
-            if (!this.hasGeometry) {
-                this.gl.bindBuffer(this.type, this.buffer);
-                this.gl.bufferData(this.type, this.data, this.usage);
+        Buffer.prototype.isDirty = function () {
+            if (this.hasGeometry) {
+                return this._buffers[0].isDirty() || this._buffers[1].isDirty();
+            }
+            return !this.hasPassed || this._dirtyStart != -1;
+        };
+        Buffer.prototype.update = function () {
+            if (this.hasGeometry) {
+                this._buffers[0].update();
+                this._buffers[1].update();
+                this.hasPassed = true;
+                return this;
+            }
+            var gl = this.gl;
+            var data = this.data;
+            this.state.bindBuffer(this.type, this.buffer);
+            if (!this.hasPassed || data.byteLength > this._capacity) {
+                this._capacity = this.hasPassed ? Math.max(data.byteLength, this._capacity * 2) : data.byteLength;
+                if (this._capacity == data.byteLength) {
+                    gl.bufferData(this.type, data, this.usage);
+                }
+                else {
+                    gl.bufferData(this.type, this._capacity, this.usage);
+                    gl.bufferSubData(this.type, 0, data);
+                }
+            }
+            else if (this.usage == gl.STREAM_DRAW) {
+                gl.bufferData(this.type, this._capacity, this.usage);
+                gl.bufferSubData(this.type, 0, data);
+            }
+            else if (this._dirtyStart == -1) {
+                gl.bufferSubData(this.type, 0, data);
             }
             else {
-                this._buffers[0].updateBind();
-                this._buffers[1].updateBind();
+                var start = Math.max(0, this._dirtyStart);
+                var end = Math.min(data.length, this._dirtyEnd);
+                if (end > start) {
+                    gl.bufferSubData(this.type, start * data.BYTES_PER_ELEMENT, data.subarray(start, end));
+                }
             }
+            this._dirtyStart = -1;
+            this._dirtyEnd = -1;
             this.hasPassed = true;
             return this;
         };
+        Buffer.prototype.updateBind = function () {
+            return this.update();
+        };
         Buffer.prototype.bind = function () {
-            if (!this.hasPassed) {
-                this.updateBind();
+            if (this.isDirty()) {
+                this.update();
             }
             else {
                 if (!this.hasGeometry) {
-                    this.gl.bindBuffer(this.type, this.buffer);
+                    this.state.bindBuffer(this.type, this.buffer);
                 }
                 else {
                     this._buffers[0].bind();
@@ -61,9 +119,15 @@ define(["require", "exports", "./Geometry"], function (require, exports, Geometr
             }
             return this;
         };
+        Buffer.prototype.restore = function (gl) {
+            this.checkIndexType();
+            this.buffer = gl.createBuffer();
+            this.hasPassed = false;
+            this._capacity = 0;
+        };
         Buffer.prototype.unbind = function () {
             if (!this.hasGeometry) {
-                this.gl.bindBuffer(this.type, null);
+                this.state.bindBuffer(this.type, null);
             }
             else {
                 this._buffers[0].unbind();
@@ -71,6 +135,24 @@ define(["require", "exports", "./Geometry"], function (require, exports, Geometr
             }
             return this;
         };
+        Buffer.prototype.checkIndexType = function () {
+            if (this.type == this.gl.ELEMENT_ARRAY_BUFFER && this.data instanceof Uint32Array && !GLCapabilities_1.GLCapabilities.get(this.gl).hasElementIndexUint()) {
+                throw new Error('Uint32Array indices are not supported, WebGL 1 needs the OES_element_index_uint extension');
+            }
+        };
+        Buffer.prototype.destruct = function () {
+            if (!this.hasGeometry) {
+                GPUResources_1.GPUResources.get(this.gl).remove(this);
+                this.state.deleteBuffer(this.buffer);
+                this.buffer = null;
+            }
+            else {
+                this._buffers[0].destruct();
+                this._buffers[1].destruct();
+                this._buffers = null;
+            }
+            this.data = null;
+        };
         return Buffer;
     }());
     exports.Buffer = Buffer;
@@ -1,20 +1,51 @@
 import {Geometry} from "./Geometry";
+import {GLState} from "./GLState";
+import {GLCapabilities} from "./GLCapabilities";
+import {GPUResources} from "./GPUResources";
+import IGPUResource from "../interface/IGPUResource";
 
-export class Buffer
+/**
+ * Holds data in a WebGLBuffer. The data is uploaded on the first bind, after that only the range that was marked
+ * with setDirty is uploaded with bufferSubData. The GPU storage is reallocated only when the data outgrows it, a
+ * STREAM_DRAW buffer is orphaned on every update so the driver does not wait for draws that still read it.
+ *
+ * <h4>Example</h4>
+ *
+ *      var buffer = new Buffer(gl, positions, gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+ *
+ *      positions[30] = 1;
+ *      buffer.setDirty(30, 31).bind();
+ *
+ * @class Buffer
+ * @param {WebGLRenderingContext} gl
+ * @param {Float32Array|Uint16Array|Uint32Array|Geometry} data
+ * @param {number} [type=gl.ARRAY_BUFFER]
+ * @param {number} [usage=gl.STATIC_DRAW]
+ */
+export class Buffer implements IGPUResource
 {
 	gl:WebGLRenderingContext;
+	state:GLState;
 	buffer:WebGLBuffer;
 	type:number;
 	usage:number;
-	data:Float32Array|Uint16Array;
+	data:Float32Array|Uint16Array|Uint32Array;
 
 	protected _buffers:Array<Buffer> = null;
 	public hasGeometry:boolean = false;
 	public hasPassed:boolean = false;
 
-	constructor(gl:WebGLRenderingContext, data:Float32Array|Uint16Array|Geometry, type?:number, usage?:number)
+	// bytes allocated on the GPU
+	protected _capacity:number = 0;
+
+	// first and last element that changed since the last update, -1 when nothing changed
+	protected _dirtyStart:number = -1;
+	protected _dirtyEnd:number = -1;
+
+	constructor(gl:WebGLRenderingContext, data:Float32Array|Uint16Array|Uint32Array|Geometry, type?:number, usage?:number)
 	{
 		this.gl = gl;
+		this.state = GLState.get(gl);
 
 		if(data instanceof Geometry){
 			this.hasGeometry = true;
@@ -24,61 +55,182 @@ export class Buffer
 			this._buffers.push(vbuffer);
 			this._buffers.push(ibuffer);
 		} else {
-			this.data = <Float32Array|Uint16Array> data;
+			this.data = <Float32Array|Uint16Array|Uint32Array> data;
 			this.type = type || gl.ARRAY_BUFFER;
 			this.usage = usage || gl.STATIC_DRAW;
 
+			this.checkIndexType();
+
 			// Create an empty buffer object to store vertex buffer
 			this.buffer = gl.createBuffer();
+
+			GPUResources.get(gl).add(this);
 		}
 
 	}
 
-	public update():this
+	/**
+	 * The type of the indices for drawElements.
+	 *
+	 * @method getIndexType
+	 * @returns {number} gl.UNSIGNED_INT for Uint32Array data, gl.UNSIGNED_SHORT otherwise
+	 */
+	public getIndexType():number
 	{
-		if(!this.hasGeometry){
-			// Bind appropriate array buffer to it
-			this.gl.bindBuffer(this.type, this.buffer);
+		if(this.hasGeometry)
+		{
+			return this._buffers[1].getIndexType();
+		}
 
-			// Pass the vertex data to the buffer
-			this.gl.bufferData(this.type, this.data, this.usage);
+		return this.data instanceof Uint32Array ? this.gl.UNSIGNED_INT : this.gl.UNSIGNED_SHORT;
+	}
 
-			// Unbind the buffer
-			this.gl.bindBuffer(this.type, null);
-		} else {
-			this._buffers[0].update();
-			this._buffers[1].update();
+	/**
+	 * Size of the storage on the GPU in bytes, 0 before the first upload.
+	 *
+	 * @method getCapacity
+	 * @returns {number}
+	 */
+	public getCapacity():number
+	{
+		return this._capacity;
+	}
+
+	/**
+	 * Replaces the data, it is uploaded on the next bind. The storage is only reallocated when the new data does
+	 * not fit.
+	 *
+	 * @method setData
+	 * @param {Float32Array|Uint16Array|Uint32Array} data
+	 * @returns {Buffer}
+	 */
+	public setData(data:Float32Array|Uint16Array|Uint32Array):this
+	{
+		if(this.hasGeometry)
+		{
+			throw new Error('the data of a buffer created from a Geometry can not be replaced');
 		}
 
-		this.hasPassed = true;
+		this.data = data;
+		this.checkIndexType();
+
+		return this.setDirty();
+	}
+
+	/**
+	 * Marks the elements from start up to end as changed, they are uploaded on the next bind or update.
+	 *
+	 * @method setDirty
+	 * @param {number} [start=0] first changed element
+	 * @param {number} [end=data.length] first element after the changed ones
+	 * @returns {Buffer}
+	 */
+	public setDirty(start:number = 0, end:number = this.data ? this.data.length : 0):this
+	{
+		if(this.hasGeometry)
+		{
+			this._buffers[0].setDirty();
+			this._buffers[1].setDirty();
+
+			return this;
+		}
+
+		this._dirtyStart = this._dirtyStart == -1 ? start : Math.min(this._dirtyStart, start);
+		this._dirtyEnd = this._dirtyEnd == -1 ? end : Math.max(this._dirtyEnd, end);
+
 		return this;
 	}
 
+	public isDirty():boolean
+	{
+		if(this.hasGeometry)
+		{
+			return this._buffers[0].isDirty() || this._buffers[1].isDirty();
+		}
+
+		return !this.hasPassed || this._dirtyStart != -1;
+	}
 
-	public updateBind():this
+	/**
+	 * Binds the buffer and uploads what changed. Everything is uploaded the first time and when the data outgrew
+	 * the storage, a STREAM_DRAW buffer is orphaned and uploaded as a whole, other buffers only upload the dirty
+	 * range. When nothing was marked dirty all data is uploaded, for code that changed the data in place and calls
+	 * update itself. bind only calls update when something is dirty.
+	 *
+	 * @method update
+	 * @returns {Buffer}
+	 */
+	public update():this
 	{
-		if(!this.hasGeometry){
-			// Bind appropriate array buffer to it
-			this.gl.bindBuffer(this.type, this.buffer);
+		if(this.hasGeometry){
+			this._buffers[0].update();
+			this._buffers[1].update();
 
-			// Pass the vertex data to the buffer
-			this.gl.bufferData(this.type, this.data, this.usage);
-		} else {
-			this._buffers[0].updateBind();
-			this._buffers[1].updateBind();
+			this.hasPassed = true;
+			return this;
 		}
 
+		var gl = this.gl;
+		var data = this.data;
+
+		// Bind appropriate array buffer to it
+		this.state.bindBuffer(this.type, this.buffer);
+
+		if(!this.hasPassed || data.byteLength > this._capacity)
+		{
+			// grow to at least twice the size, so data that keeps growing is not reallocated on every update
+			this._capacity = this.hasPassed ? Math.max(data.byteLength, this._capacity * 2) : data.byteLength;
+
+			if(this._capacity == data.byteLength)
+			{
+				gl.bufferData(this.type, data, this.usage);
+			}
+			else
+			{
+				gl.bufferData(this.type, this._capacity, this.usage);
+				gl.bufferSubData(this.type, 0, data);
+			}
+		}
+		else if(this.usage == gl.STREAM_DRAW)
+		{
+			// orphan the storage, the driver hands out new memory instead of waiting for the previous draws
+			gl.bufferData(this.type, this._capacity, this.usage);
+			gl.bufferSubData(this.type, 0, data);
+		}
+		else if(this._dirtyStart == -1)
+		{
+			gl.bufferSubData(this.type, 0, data);
+		}
+		else
+		{
+			var start = Math.max(0, this._dirtyStart);
+			var end = Math.min(data.length, this._dirtyEnd);
+
+			if(end > start)
+			{
+				gl.bufferSubData(this.type, start * data.BYTES_PER_ELEMENT, data.subarray(start, end));
+			}
+		}
+
+		this._dirtyStart = -1;
+		this._dirtyEnd = -1;
 		this.hasPassed = true;
+
 		return this;
 	}
 
+	public updateBind():this
+	{
+		return this.update();
+	}
+
 	public bind():this
 	{
-		if(!this.hasPassed){
-			this.updateBind();
+		if(this.isDirty()){
+			this.update();
 		} else {
 			if(!this.hasGeometry){
-				this.gl.bindBuffer(this.type, this.buffer);
+				this.state.bindBuffer(this.type, this.buffer);
 			} else {
 				this._buffers[0].bind();
 				this._buffers[1].bind();
@@ -88,10 +240,26 @@ export class Buffer
 		return this;
 	}
 
+	/**
+	 * Creates a new buffer after the context was restored, the data is uploaded again on the next bind.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		// the extension has to be enabled again on the new context
+		this.checkIndexType();
+
+		this.buffer = gl.createBuffer();
+		this.hasPassed = false;
+		this._capacity = 0;
+	}
+
 	public unbind():this
 	{
 		if(!this.hasGeometry){
-			this.gl.bindBuffer(this.type, null);
+			this.state.bindBuffer(this.type, null);
 		} else {
 			this._buffers[0].unbind();
 			this._buffers[1].unbind();
@@ -99,4 +267,32 @@ export class Buffer
 
 		return this;
 	}
+
+	/**
+	 * 32 bit indices need WebGL 2 or the OES_element_index_uint extension.
+	 *
+	 * @method checkIndexType
+	 */
+	protected checkIndexType():void
+	{
+		if(this.type == this.gl.ELEMENT_ARRAY_BUFFER && this.data instanceof Uint32Array && !GLCapabilities.get(this.gl).hasElementIndexUint())
+		{
+			throw new Error('Uint32Array indices are not supported, WebGL 1 needs the OES_element_index_uint extension');
+		}
+	}
+
+	public destruct():void
+	{
+		if(!this.hasGeometry){
+			GPUResources.get(this.gl).remove(this);
+			this.state.deleteBuffer(this.buffer);
+			this.buffer = null;
+		} else {
+			this._buffers[0].destruct();
+			this._buffers[1].destruct();
+			this._buffers = null;
+		}
+
+		this.data = null;
+	}
 }
\ No newline at end of file
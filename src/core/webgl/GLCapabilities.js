@@ -0,0 +1,110 @@
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var GLCapabilities = (function () {
+        function GLCapabilities(gl) {
+            this._extensions = {};
+            this.gl = gl;
+            this.isWebGL2 = GLCapabilities.isWebGL2Context(gl);
+            this._gl2 = this.isWebGL2 ? gl : null;
+        }
+        GLCapabilities.get = function (gl) {
+            var capabilities = GLCapabilities._capabilities;
+            for (var i = 0; i < capabilities.length; i++) {
+                if (capabilities[i].gl === gl) {
+                    return capabilities[i];
+                }
+            }
+            var capability = new GLCapabilities(gl);
+            capabilities.push(capability);
+            return capability;
+        };
+        GLCapabilities.remove = function (gl) {
+            GLCapabilities._capabilities = GLCapabilities._capabilities.filter(function (capability) { return capability.gl !== gl; });
+        };
+        GLCapabilities.isWebGL2Context = function (gl) {
+            var WebGL2RenderingContext = window.WebGL2RenderingContext;
+            return !!WebGL2RenderingContext && gl instanceof WebGL2RenderingContext;
+        };
+        GLCapabilities.prototype.reset = function () {
+            this._extensions = {};
+        };
+        GLCapabilities.prototype.getExtension = function (name) {
+            if (this._extensions[name] === void 0) {
+                this._extensions[name] = this.gl.getExtension(name) || null;
+            }
+            return this._extensions[name];
+        };
+        GLCapabilities.prototype.hasVertexArrays = function () {
+            return this.isWebGL2 || !!this.getExtension('OES_vertex_array_object');
+        };
+        GLCapabilities.prototype.hasInstancing = function () {
+            return this.isWebGL2 || !!this.getExtension('ANGLE_instanced_arrays');
+        };
+        GLCapabilities.prototype.hasElementIndexUint = function () {
+            return this.isWebGL2 || !!this.getExtension('OES_element_index_uint');
+        };
+        GLCapabilities.prototype.hasUniformBuffers = function () {
+            return this.isWebGL2;
+        };
+        GLCapabilities.prototype.createVertexArray = function () {
+            if (this.isWebGL2) {
+                return this._gl2.createVertexArray();
+            }
+            var extension = this.getExtension('OES_vertex_array_object');
+            return extension ? extension.createVertexArrayOES() : null;
+        };
+        GLCapabilities.prototype.bindVertexArray = function (vertexArray) {
+            if (this.isWebGL2) {
+                this._gl2.bindVertexArray(vertexArray);
+            }
+            else {
+                this.requireExtension('OES_vertex_array_object', 'vertex arrays').bindVertexArrayOES(vertexArray);
+            }
+        };
+        GLCapabilities.prototype.deleteVertexArray = function (vertexArray) {
+            if (this.isWebGL2) {
+                this._gl2.deleteVertexArray(vertexArray);
+            }
+            else {
+                this.requireExtension('OES_vertex_array_object', 'vertex arrays').deleteVertexArrayOES(vertexArray);
+            }
+        };
+        GLCapabilities.prototype.vertexAttribDivisor = function (index, divisor) {
+            if (this.isWebGL2) {
+                this._gl2.vertexAttribDivisor(index, divisor);
+            }
+            else if (this.getExtension('ANGLE_instanced_arrays')) {
+                this.getExtension('ANGLE_instanced_arrays').vertexAttribDivisorANGLE(index, divisor);
+            }
+            else if (divisor != 0) {
+                this.requireExtension('ANGLE_instanced_arrays', 'instancing');
+            }
+        };
+        GLCapabilities.prototype.drawArraysInstanced = function (mode, first, count, instanceCount) {
+            if (this.isWebGL2) {
+                this._gl2.drawArraysInstanced(mode, first, count, instanceCount);
+            }
+            else {
+                this.requireExtension('ANGLE_instanced_arrays', 'instancing').drawArraysInstancedANGLE(mode, first, count, instanceCount);
+            }
+        };
+        GLCapabilities.prototype.drawElementsInstanced = function (mode, count, type, offset, instanceCount) {
+            if (this.isWebGL2) {
+                this._gl2.drawElementsInstanced(mode, count, type, offset, instanceCount);
+            }
+            else {
+                this.requireExtension('ANGLE_instanced_arrays', 'instancing').drawElementsInstancedANGLE(mode, count, type, offset, instanceCount);
+            }
+        };
+        GLCapabilities.prototype.requireExtension = function (name, feature) {
+            var extension = this.getExtension(name);
+            if (!extension) {
+                throw new Error('no support for ' + feature + ', WebGL 1 needs the ' + name + ' extension');
+            }
+            return extension;
+        };
+        GLCapabilities._capabilities = [];
+        return GLCapabilities;
+    }());
+    exports.GLCapabilities = GLCapabilities;
+});
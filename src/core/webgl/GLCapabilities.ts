@@ -0,0 +1,237 @@
+import IHashMap from "../interface/IHashMap";
+import IWebGL2RenderingContext from "../interface/IWebGL2RenderingContext";
+
+/**
+ * Hides the differences between WebGL 1 and WebGL 2. Features that are part of WebGL 2 are taken from the
+ * extensions that offer them on WebGL 1, so vertex arrays and instancing work the same on both. There is one
+ * instance per context.
+ *
+ * <h4>Example</h4>
+ *
+ *      var capabilities = GLCapabilities.get(gl);
+ *
+ *      if(capabilities.hasInstancing())
+ *      {
+ *          capabilities.drawElementsInstanced(gl.TRIANGLES, 6, gl.UNSIGNED_SHORT, 0, 100);
+ *      }
+ *
+ * @class GLCapabilities
+ * @param {WebGLRenderingContext} gl
+ */
+export class GLCapabilities
+{
+	protected static _capabilities:Array<GLCapabilities> = [];
+
+	/**
+	 * @method get
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {GLCapabilities} the capabilities of the context, created on first use
+	 * @static
+	 */
+	public static get(gl:WebGLRenderingContext):GLCapabilities
+	{
+		var capabilities = GLCapabilities._capabilities;
+
+		for(var i = 0; i < capabilities.length; i++)
+		{
+			if(capabilities[i].gl === gl)
+			{
+				return capabilities[i];
+			}
+		}
+
+		var capability = new GLCapabilities(gl);
+		capabilities.push(capability);
+
+		return capability;
+	}
+
+	public static remove(gl:WebGLRenderingContext):void
+	{
+		GLCapabilities._capabilities = GLCapabilities._capabilities.filter((capability:GLCapabilities) => capability.gl !== gl);
+	}
+
+	/**
+	 * Whether gl is a WebGL 2 context.
+	 *
+	 * @method isWebGL2Context
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {boolean}
+	 * @static
+	 */
+	public static isWebGL2Context(gl:WebGLRenderingContext):boolean
+	{
+		var WebGL2RenderingContext = (<any> window).WebGL2RenderingContext;
+
+		return !!WebGL2RenderingContext && gl instanceof WebGL2RenderingContext;
+	}
+
+	public gl:WebGLRenderingContext;
+
+	/**
+	 * true for a WebGL 2 context
+	 * @property isWebGL2
+	 * @type {boolean}
+	 */
+	public isWebGL2:boolean;
+
+	protected _extensions:IHashMap<any> = {};
+	protected _gl2:IWebGL2RenderingContext;
+
+	constructor(gl:WebGLRenderingContext)
+	{
+		this.gl = gl;
+		this.isWebGL2 = GLCapabilities.isWebGL2Context(gl);
+		this._gl2 = this.isWebGL2 ? <IWebGL2RenderingContext> gl : null;
+	}
+
+	/**
+	 * Forgets the extension objects, they have to be requested again after the context was restored.
+	 *
+	 * @method reset
+	 */
+	public reset():void
+	{
+		this._extensions = {};
+	}
+
+	/**
+	 * @method getExtension
+	 * @param {string} name
+	 * @returns {any} null when the extension is not supported
+	 */
+	public getExtension(name:string):any
+	{
+		if(this._extensions[name] === void 0)
+		{
+			this._extensions[name] = this.gl.getExtension(name) || null;
+		}
+
+		return this._extensions[name];
+	}
+
+	public hasVertexArrays():boolean
+	{
+		return this.isWebGL2 || !!this.getExtension('OES_vertex_array_object');
+	}
+
+	public hasInstancing():boolean
+	{
+		return this.isWebGL2 || !!this.getExtension('ANGLE_instanced_arrays');
+	}
+
+	/**
+	 * Whether Uint32Array indices can be drawn, WebGL 1 needs OES_element_index_uint.
+	 *
+	 * @method hasElementIndexUint
+	 * @returns {boolean}
+	 */
+	public hasElementIndexUint():boolean
+	{
+		return this.isWebGL2 || !!this.getExtension('OES_element_index_uint');
+	}
+
+	/**
+	 * Uniform buffer objects are only available on WebGL 2, there is no extension for WebGL 1.
+	 *
+	 * @method hasUniformBuffers
+	 * @returns {boolean}
+	 */
+	public hasUniformBuffers():boolean
+	{
+		return this.isWebGL2;
+	}
+
+	/**
+	 * @method createVertexArray
+	 * @returns {any} null when vertex arrays are not supported
+	 */
+	public createVertexArray():any
+	{
+		if(this.isWebGL2)
+		{
+			return this._gl2.createVertexArray();
+		}
+
+		var extension = this.getExtension('OES_vertex_array_object');
+
+		return extension ? extension.createVertexArrayOES() : null;
+	}
+
+	public bindVertexArray(vertexArray:any):void
+	{
+		if(this.isWebGL2)
+		{
+			this._gl2.bindVertexArray(vertexArray);
+		}
+		else
+		{
+			this.requireExtension('OES_vertex_array_object', 'vertex arrays').bindVertexArrayOES(vertexArray);
+		}
+	}
+
+	public deleteVertexArray(vertexArray:any):void
+	{
+		if(this.isWebGL2)
+		{
+			this._gl2.deleteVertexArray(vertexArray);
+		}
+		else
+		{
+			this.requireExtension('OES_vertex_array_object', 'vertex arrays').deleteVertexArrayOES(vertexArray);
+		}
+	}
+
+	public vertexAttribDivisor(index:number, divisor:number):void
+	{
+		if(this.isWebGL2)
+		{
+			this._gl2.vertexAttribDivisor(index, divisor);
+		}
+		else if(this.getExtension('ANGLE_instanced_arrays'))
+		{
+			this.getExtension('ANGLE_instanced_arrays').vertexAttribDivisorANGLE(index, divisor);
+		}
+		else if(divisor != 0)
+		{
+			// every attribute has a divisor of 0 without instancing, so only other divisors are an error
+			this.requireExtension('ANGLE_instanced_arrays', 'instancing');
+		}
+	}
+
+	public drawArraysInstanced(mode:number, first:number, count:number, instanceCount:number):void
+	{
+		if(this.isWebGL2)
+		{
+			this._gl2.drawArraysInstanced(mode, first, count, instanceCount);
+		}
+		else
+		{
+			this.requireExtension('ANGLE_instanced_arrays', 'instancing').drawArraysInstancedANGLE(mode, first, count, instanceCount);
+		}
+	}
+
+	public drawElementsInstanced(mode:number, count:number, type:number, offset:number, instanceCount:number):void
+	{
+		if(this.isWebGL2)
+		{
+			this._gl2.drawElementsInstanced(mode, count, type, offset, instanceCount);
+		}
+		else
+		{
+			this.requireExtension('ANGLE_instanced_arrays', 'instancing').drawElementsInstancedANGLE(mode, count, type, offset, instanceCount);
+		}
+	}
+
+	protected requireExtension(name:string, feature:string):any
+	{
+		var extension = this.getExtension(name);
+
+		if(!extension)
+		{
+			throw new Error('no support for ' + feature + ', WebGL 1 needs the ' + name + ' extension');
+		}
+
+		return extension;
+	}
+}
\ No newline at end of file
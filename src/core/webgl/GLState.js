@@ -0,0 +1,278 @@
+define(["require", "exports", "./GLCapabilities"], function (require, exports, GLCapabilities_1) {
+    "use strict";
+    var GLState = (function () {
+        function GLState(gl) {
+            this.issued = 0;
+            this.skipped = 0;
+            this.gl = gl;
+            this.reset();
+        }
+        GLState.get = function (gl) {
+            var states = GLState._states;
+            for (var i = 0; i < states.length; i++) {
+                if (states[i].gl === gl) {
+                    return states[i];
+                }
+            }
+            var state = new GLState(gl);
+            states.push(state);
+            return state;
+        };
+        GLState.remove = function (gl) {
+            GLState._states = GLState._states.filter(function (state) { return state.gl !== gl; });
+        };
+        GLState.prototype.reset = function () {
+            this._program = void 0;
+            this._buffers = {};
+            this._bufferBases = {};
+            this._vertexArray = void 0;
+            this._drawFramebuffer = void 0;
+            this._readFramebuffer = void 0;
+            this._activeTexture = void 0;
+            this._textures = {};
+            this._attributes = [];
+            this._divisors = [];
+            this._capabilities = {};
+            this._blendFunc = [];
+            this._blendEquation = void 0;
+            this._depthFunc = void 0;
+            this._depthMask = void 0;
+            this._cullFace = void 0;
+            this._frontFace = void 0;
+            this._viewport = null;
+        };
+        GLState.prototype.resetCounters = function () {
+            this.issued = 0;
+            this.skipped = 0;
+        };
+        GLState.prototype.useProgram = function (program) {
+            if (this.check(this._program !== program)) {
+                this._program = program;
+                this.gl.useProgram(program);
+            }
+        };
+        GLState.prototype.getProgram = function () {
+            if (this._program === void 0) {
+                this._program = this.gl.getParameter(this.gl.CURRENT_PROGRAM);
+            }
+            return this._program;
+        };
+        GLState.prototype.deleteProgram = function (program) {
+            if (this._program === program) {
+                this._program = void 0;
+            }
+            this.gl.deleteProgram(program);
+        };
+        GLState.prototype.bindBuffer = function (target, buffer) {
+            if (this.check(this._buffers[target] !== buffer)) {
+                this._buffers[target] = buffer;
+                this.gl.bindBuffer(target, buffer);
+            }
+        };
+        GLState.prototype.getBuffer = function (target) {
+            var gl = this.gl;
+            if (this._buffers[target] === void 0) {
+                this._buffers[target] = gl.getParameter(target == gl.ELEMENT_ARRAY_BUFFER ? gl.ELEMENT_ARRAY_BUFFER_BINDING : gl.ARRAY_BUFFER_BINDING);
+            }
+            return this._buffers[target];
+        };
+        GLState.prototype.invalidateBuffer = function (target) {
+            this._buffers[target] = void 0;
+        };
+        GLState.prototype.bindBufferBase = function (target, index, buffer) {
+            var key = target + '_' + index;
+            if (this.check(this._bufferBases[key] !== buffer || this._buffers[target] !== buffer)) {
+                this._bufferBases[key] = buffer;
+                this._buffers[target] = buffer;
+                this.gl.bindBufferBase(target, index, buffer);
+            }
+        };
+        GLState.prototype.deleteBuffer = function (buffer) {
+            for (var target in this._buffers) {
+                if (this._buffers[target] === buffer) {
+                    this._buffers[target] = void 0;
+                }
+            }
+            for (var key in this._bufferBases) {
+                if (this._bufferBases[key] === buffer) {
+                    this._bufferBases[key] = void 0;
+                }
+            }
+            this.gl.deleteBuffer(buffer);
+        };
+        GLState.prototype.bindVertexArray = function (vertexArray) {
+            if (this.check(this._vertexArray !== vertexArray)) {
+                this._vertexArray = vertexArray;
+                this.invalidateBuffer(this.gl.ELEMENT_ARRAY_BUFFER);
+                this.invalidateVertexAttribArrays();
+                GLCapabilities_1.GLCapabilities.get(this.gl).bindVertexArray(vertexArray);
+            }
+        };
+        GLState.prototype.deleteVertexArray = function (vertexArray) {
+            if (this._vertexArray === vertexArray) {
+                this._vertexArray = void 0;
+            }
+            GLCapabilities_1.GLCapabilities.get(this.gl).deleteVertexArray(vertexArray);
+        };
+        GLState.prototype.bindFramebuffer = function (target, framebuffer) {
+            var read = target == 0x8CA8;
+            var draw = target == 0x8CA9;
+            var changed = read ? this._readFramebuffer !== framebuffer
+                : draw ? this._drawFramebuffer !== framebuffer
+                    : this._readFramebuffer !== framebuffer || this._drawFramebuffer !== framebuffer;
+            if (this.check(changed)) {
+                if (!draw)
+                    this._readFramebuffer = framebuffer;
+                if (!read)
+                    this._drawFramebuffer = framebuffer;
+                this.gl.bindFramebuffer(target, framebuffer);
+            }
+        };
+        GLState.prototype.deleteFramebuffer = function (framebuffer) {
+            if (this._drawFramebuffer === framebuffer) {
+                this._drawFramebuffer = null;
+            }
+            if (this._readFramebuffer === framebuffer) {
+                this._readFramebuffer = null;
+            }
+            this.gl.deleteFramebuffer(framebuffer);
+        };
+        GLState.prototype.activeTexture = function (unit) {
+            if (this.check(this._activeTexture !== unit)) {
+                this._activeTexture = unit;
+                this.gl.activeTexture(unit);
+            }
+        };
+        GLState.prototype.bindTexture = function (target, texture) {
+            if (this._activeTexture === void 0) {
+                this._activeTexture = this.gl.getParameter(this.gl.ACTIVE_TEXTURE);
+            }
+            var key = this._activeTexture + '_' + target;
+            if (this.check(this._textures[key] !== texture)) {
+                this._textures[key] = texture;
+                this.gl.bindTexture(target, texture);
+            }
+        };
+        GLState.prototype.deleteTexture = function (texture) {
+            for (var key in this._textures) {
+                if (this._textures[key] === texture) {
+                    this._textures[key] = void 0;
+                }
+            }
+            this.gl.deleteTexture(texture);
+        };
+        GLState.prototype.enableVertexAttribArray = function (index) {
+            if (this.check(this._attributes[index] !== true)) {
+                this._attributes[index] = true;
+                this.gl.enableVertexAttribArray(index);
+            }
+        };
+        GLState.prototype.disableVertexAttribArray = function (index) {
+            if (this.check(this._attributes[index] !== false)) {
+                this._attributes[index] = false;
+                this.gl.disableVertexAttribArray(index);
+            }
+        };
+        GLState.prototype.vertexAttribDivisor = function (index, divisor) {
+            if (this.check(this._divisors[index] !== divisor)) {
+                this._divisors[index] = divisor;
+                GLCapabilities_1.GLCapabilities.get(this.gl).vertexAttribDivisor(index, divisor);
+            }
+        };
+        GLState.prototype.invalidateVertexAttribArrays = function () {
+            this._attributes = [];
+            this._divisors = [];
+        };
+        GLState.prototype.enable = function (capability) {
+            if (this.check(this._capabilities[capability] !== true)) {
+                this._capabilities[capability] = true;
+                this.gl.enable(capability);
+            }
+        };
+        GLState.prototype.disable = function (capability) {
+            if (this.check(this._capabilities[capability] !== false)) {
+                this._capabilities[capability] = false;
+                this.gl.disable(capability);
+            }
+        };
+        GLState.prototype.isEnabled = function (capability) {
+            if (this._capabilities[capability] === void 0) {
+                this._capabilities[capability] = this.gl.isEnabled(capability);
+            }
+            return this._capabilities[capability];
+        };
+        GLState.prototype.blendFunc = function (source, destination) {
+            var blendFunc = this._blendFunc;
+            if (this.check(blendFunc[0] !== source || blendFunc[1] !== destination || blendFunc.length != 2)) {
+                this._blendFunc = [source, destination];
+                this.gl.blendFunc(source, destination);
+            }
+        };
+        GLState.prototype.blendFuncSeparate = function (sourceRGB, destinationRGB, sourceAlpha, destinationAlpha) {
+            var blendFunc = this._blendFunc;
+            if (this.check(blendFunc[0] !== sourceRGB || blendFunc[1] !== destinationRGB || blendFunc[2] !== sourceAlpha || blendFunc[3] !== destinationAlpha)) {
+                this._blendFunc = [sourceRGB, destinationRGB, sourceAlpha, destinationAlpha];
+                this.gl.blendFuncSeparate(sourceRGB, destinationRGB, sourceAlpha, destinationAlpha);
+            }
+        };
+        GLState.prototype.blendEquation = function (mode) {
+            if (this.check(this._blendEquation !== mode)) {
+                this._blendEquation = mode;
+                this.gl.blendEquation(mode);
+            }
+        };
+        GLState.prototype.depthFunc = function (func) {
+            if (this.check(this._depthFunc !== func)) {
+                this._depthFunc = func;
+                this.gl.depthFunc(func);
+            }
+        };
+        GLState.prototype.depthMask = function (flag) {
+            if (this.check(this._depthMask !== flag)) {
+                this._depthMask = flag;
+                this.gl.depthMask(flag);
+            }
+        };
+        GLState.prototype.cullFace = function (mode) {
+            if (this.check(this._cullFace !== mode)) {
+                this._cullFace = mode;
+                this.gl.cullFace(mode);
+            }
+        };
+        GLState.prototype.frontFace = function (mode) {
+            if (this.check(this._frontFace !== mode)) {
+                this._frontFace = mode;
+                this.gl.frontFace(mode);
+            }
+        };
+        GLState.prototype.viewport = function (x, y, width, height) {
+            var viewport = this._viewport;
+            x |= 0;
+            y |= 0;
+            width |= 0;
+            height |= 0;
+            if (this.check(!viewport || viewport[0] !== x || viewport[1] !== y || viewport[2] !== width || viewport[3] !== height)) {
+                this._viewport = new Int32Array([x, y, width, height]);
+                this.gl.viewport(x, y, width, height);
+            }
+        };
+        GLState.prototype.getViewport = function () {
+            if (!this._viewport) {
+                this._viewport = this.gl.getParameter(this.gl.VIEWPORT);
+            }
+            return this._viewport;
+        };
+        GLState.prototype.check = function (changed) {
+            if (changed) {
+                this.issued++;
+            }
+            else {
+                this.skipped++;
+            }
+            return changed;
+        };
+        GLState._states = [];
+        return GLState;
+    }());
+    exports.GLState = GLState;
+});
@@ -0,0 +1,567 @@
+import IHashMap from "../interface/IHashMap";
+import IWebGL2RenderingContext from "../interface/IWebGL2RenderingContext";
+import {GLCapabilities} from "./GLCapabilities";
+
+/**
+ * Remembers the state of a WebGLRenderingContext so calls that would not change anything are skipped. There is one
+ * state per context, all wrappers in core/webgl go through it. Code that calls gl directly for any of the tracked
+ * state has to call reset afterwards.
+ *
+ * <h4>Example</h4>
+ *
+ *      var state = GLState.get(gl);
+ *      state.resetCounters();
+ *      // draw a frame
+ *      console.log(state.issued, state.skipped);
+ *
+ * @class GLState
+ * @param {WebGLRenderingContext} gl
+ */
+export class GLState
+{
+	protected static _states:Array<GLState> = [];
+
+	/**
+	 * @method get
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {GLState} the state of the context, created on first use
+	 * @static
+	 */
+	public static get(gl:WebGLRenderingContext):GLState
+	{
+		var states = GLState._states;
+
+		for(var i = 0; i < states.length; i++)
+		{
+			if(states[i].gl === gl)
+			{
+				return states[i];
+			}
+		}
+
+		var state = new GLState(gl);
+		states.push(state);
+
+		return state;
+	}
+
+	/**
+	 * Removes the state of a context that is not used anymore.
+	 *
+	 * @method remove
+	 * @param {WebGLRenderingContext} gl
+	 * @static
+	 */
+	public static remove(gl:WebGLRenderingContext):void
+	{
+		GLState._states = GLState._states.filter((state:GLState) => state.gl !== gl);
+	}
+
+	public gl:WebGLRenderingContext;
+
+	/**
+	 * amount of gl calls that were made since the last resetCounters
+	 * @property issued
+	 * @type {number}
+	 */
+	public issued:number = 0;
+
+	/**
+	 * amount of gl calls that were skipped because they would not change the state
+	 * @property skipped
+	 * @type {number}
+	 */
+	public skipped:number = 0;
+
+	// undefined means the state is unknown, the next call is always issued
+	protected _program:WebGLProgram;
+	protected _buffers:IHashMap<WebGLBuffer>;
+	protected _bufferBases:IHashMap<WebGLBuffer>;
+	protected _vertexArray:any;
+	protected _drawFramebuffer:WebGLFramebuffer;
+	protected _readFramebuffer:WebGLFramebuffer;
+	protected _activeTexture:number;
+	protected _textures:IHashMap<WebGLTexture>;
+	protected _attributes:Array<boolean>;
+	protected _divisors:Array<number>;
+	protected _capabilities:IHashMap<boolean>;
+	protected _blendFunc:Array<number>;
+	protected _blendEquation:number;
+	protected _depthFunc:number;
+	protected _depthMask:boolean;
+	protected _cullFace:number;
+	protected _frontFace:number;
+	protected _viewport:Int32Array;
+
+	constructor(gl:WebGLRenderingContext)
+	{
+		this.gl = gl;
+		this.reset();
+	}
+
+	/**
+	 * Forgets all state, needed after gl calls that did not go through this object and after the context is
+	 * restored.
+	 *
+	 * @method reset
+	 */
+	public reset():void
+	{
+		this._program = void 0;
+		this._buffers = {};
+		this._bufferBases = {};
+		this._vertexArray = void 0;
+		this._drawFramebuffer = void 0;
+		this._readFramebuffer = void 0;
+		this._activeTexture = void 0;
+		this._textures = {};
+		this._attributes = [];
+		this._divisors = [];
+		this._capabilities = {};
+		this._blendFunc = [];
+		this._blendEquation = void 0;
+		this._depthFunc = void 0;
+		this._depthMask = void 0;
+		this._cullFace = void 0;
+		this._frontFace = void 0;
+		this._viewport = null;
+	}
+
+	public resetCounters():void
+	{
+		this.issued = 0;
+		this.skipped = 0;
+	}
+
+	public useProgram(program:WebGLProgram):void
+	{
+		if(this.check(this._program !== program))
+		{
+			this._program = program;
+			this.gl.useProgram(program);
+		}
+	}
+
+	/**
+	 * @method getProgram
+	 * @returns {WebGLProgram} the program in use
+	 */
+	public getProgram():WebGLProgram
+	{
+		if(this._program === void 0)
+		{
+			this._program = this.gl.getParameter(this.gl.CURRENT_PROGRAM);
+		}
+
+		return this._program;
+	}
+
+	public deleteProgram(program:WebGLProgram):void
+	{
+		if(this._program === program)
+		{
+			this._program = void 0;
+		}
+
+		this.gl.deleteProgram(program);
+	}
+
+	public bindBuffer(target:number, buffer:WebGLBuffer):void
+	{
+		if(this.check(this._buffers[target] !== buffer))
+		{
+			this._buffers[target] = buffer;
+			this.gl.bindBuffer(target, buffer);
+		}
+	}
+
+	/**
+	 * @method getBuffer
+	 * @param {number} target gl.ARRAY_BUFFER or gl.ELEMENT_ARRAY_BUFFER
+	 * @returns {WebGLBuffer} the buffer bound to target, read back once when it is unknown
+	 */
+	public getBuffer(target:number):WebGLBuffer
+	{
+		var gl = this.gl;
+
+		if(this._buffers[target] === void 0)
+		{
+			this._buffers[target] = gl.getParameter(target == gl.ELEMENT_ARRAY_BUFFER ? gl.ELEMENT_ARRAY_BUFFER_BINDING : gl.ARRAY_BUFFER_BINDING);
+		}
+
+		return this._buffers[target];
+	}
+
+	/**
+	 * Forgets the buffer that is bound to target, for example when a vertex array object was bound that has its
+	 * own element array buffer.
+	 *
+	 * @method invalidateBuffer
+	 * @param {number} target
+	 */
+	public invalidateBuffer(target:number):void
+	{
+		this._buffers[target] = void 0;
+	}
+
+	/**
+	 * Binds the buffer to an indexed binding point, like a uniform buffer binding. This also binds it to target.
+	 *
+	 * @method bindBufferBase
+	 * @param {number} target gl.UNIFORM_BUFFER
+	 * @param {number} index
+	 * @param {WebGLBuffer} buffer
+	 */
+	public bindBufferBase(target:number, index:number, buffer:WebGLBuffer):void
+	{
+		var key = target + '_' + index;
+
+		if(this.check(this._bufferBases[key] !== buffer || this._buffers[target] !== buffer))
+		{
+			this._bufferBases[key] = buffer;
+			this._buffers[target] = buffer;
+			(<IWebGL2RenderingContext> this.gl).bindBufferBase(target, index, buffer);
+		}
+	}
+
+	public deleteBuffer(buffer:WebGLBuffer):void
+	{
+		for(var target in this._buffers)
+		{
+			if(this._buffers[target] === buffer)
+			{
+				this._buffers[target] = void 0;
+			}
+		}
+
+		for(var key in this._bufferBases)
+		{
+			if(this._bufferBases[key] === buffer)
+			{
+				this._bufferBases[key] = void 0;
+			}
+		}
+
+		this.gl.deleteBuffer(buffer);
+	}
+
+	/**
+	 * Binds a vertex array object, null binds the default one. The element array buffer and the enabled attributes
+	 * belong to the vertex array, so they are unknown after it changed.
+	 *
+	 * @method bindVertexArray
+	 * @param {any} vertexArray
+	 */
+	public bindVertexArray(vertexArray:any):void
+	{
+		if(this.check(this._vertexArray !== vertexArray))
+		{
+			this._vertexArray = vertexArray;
+			this.invalidateBuffer(this.gl.ELEMENT_ARRAY_BUFFER);
+			this.invalidateVertexAttribArrays();
+
+			GLCapabilities.get(this.gl).bindVertexArray(vertexArray);
+		}
+	}
+
+	public deleteVertexArray(vertexArray:any):void
+	{
+		if(this._vertexArray === vertexArray)
+		{
+			this._vertexArray = void 0;
+		}
+
+		GLCapabilities.get(this.gl).deleteVertexArray(vertexArray);
+	}
+
+	/**
+	 * The draw and read bindings of WebGL 2 are remembered separately, gl.FRAMEBUFFER sets both.
+	 *
+	 * @method bindFramebuffer
+	 * @param {number} target gl.FRAMEBUFFER, or READ_FRAMEBUFFER or DRAW_FRAMEBUFFER of WebGL 2
+	 * @param {WebGLFramebuffer} framebuffer
+	 */
+	public bindFramebuffer(target:number, framebuffer:WebGLFramebuffer):void
+	{
+		var read = target == 0x8CA8; // READ_FRAMEBUFFER
+		var draw = target == 0x8CA9; // DRAW_FRAMEBUFFER
+		var changed = read ? this._readFramebuffer !== framebuffer
+			: draw ? this._drawFramebuffer !== framebuffer
+			: this._readFramebuffer !== framebuffer || this._drawFramebuffer !== framebuffer;
+
+		if(this.check(changed))
+		{
+			if(!draw) this._readFramebuffer = framebuffer;
+			if(!read) this._drawFramebuffer = framebuffer;
+
+			this.gl.bindFramebuffer(target, framebuffer);
+		}
+	}
+
+	public deleteFramebuffer(framebuffer:WebGLFramebuffer):void
+	{
+		// deleting a bound framebuffer binds null in its place
+		if(this._drawFramebuffer === framebuffer)
+		{
+			this._drawFramebuffer = null;
+		}
+
+		if(this._readFramebuffer === framebuffer)
+		{
+			this._readFramebuffer = null;
+		}
+
+		this.gl.deleteFramebuffer(framebuffer);
+	}
+
+	/**
+	 * @method activeTexture
+	 * @param {number} unit gl.TEXTURE0 + unit
+	 */
+	public activeTexture(unit:number):void
+	{
+		if(this.check(this._activeTexture !== unit))
+		{
+			this._activeTexture = unit;
+			this.gl.activeTexture(unit);
+		}
+	}
+
+	/**
+	 * Binds the texture to the active texture unit.
+	 *
+	 * @method bindTexture
+	 * @param {number} target gl.TEXTURE_2D or gl.TEXTURE_CUBE_MAP
+	 * @param {WebGLTexture} texture
+	 */
+	public bindTexture(target:number, texture:WebGLTexture):void
+	{
+		// the unit is needed to know what is bound, so an unknown unit is read back once
+		if(this._activeTexture === void 0)
+		{
+			this._activeTexture = this.gl.getParameter(this.gl.ACTIVE_TEXTURE);
+		}
+
+		var key = this._activeTexture + '_' + target;
+
+		if(this.check(this._textures[key] !== texture))
+		{
+			this._textures[key] = texture;
+			this.gl.bindTexture(target, texture);
+		}
+	}
+
+	public deleteTexture(texture:WebGLTexture):void
+	{
+		for(var key in this._textures)
+		{
+			if(this._textures[key] === texture)
+			{
+				this._textures[key] = void 0;
+			}
+		}
+
+		this.gl.deleteTexture(texture);
+	}
+
+	public enableVertexAttribArray(index:number):void
+	{
+		if(this.check(this._attributes[index] !== true))
+		{
+			this._attributes[index] = true;
+			this.gl.enableVertexAttribArray(index);
+		}
+	}
+
+	public disableVertexAttribArray(index:number):void
+	{
+		if(this.check(this._attributes[index] !== false))
+		{
+			this._attributes[index] = false;
+			this.gl.disableVertexAttribArray(index);
+		}
+	}
+
+	/**
+	 * Sets how often an attribute advances, 0 is every vertex and 1 every instance.
+	 *
+	 * @method vertexAttribDivisor
+	 * @param {number} index
+	 * @param {number} divisor
+	 */
+	public vertexAttribDivisor(index:number, divisor:number):void
+	{
+		if(this.check(this._divisors[index] !== divisor))
+		{
+			this._divisors[index] = divisor;
+			GLCapabilities.get(this.gl).vertexAttribDivisor(index, divisor);
+		}
+	}
+
+	/**
+	 * Forgets which vertex attributes are enabled and their divisors, they are part of the state of a vertex array
+	 * object.
+	 *
+	 * @method invalidateVertexAttribArrays
+	 */
+	public invalidateVertexAttribArrays():void
+	{
+		this._attributes = [];
+		this._divisors = [];
+	}
+
+	public enable(capability:number):void
+	{
+		if(this.check(this._capabilities[capability] !== true))
+		{
+			this._capabilities[capability] = true;
+			this.gl.enable(capability);
+		}
+	}
+
+	public disable(capability:number):void
+	{
+		if(this.check(this._capabilities[capability] !== false))
+		{
+			this._capabilities[capability] = false;
+			this.gl.disable(capability);
+		}
+	}
+
+	public isEnabled(capability:number):boolean
+	{
+		if(this._capabilities[capability] === void 0)
+		{
+			this._capabilities[capability] = this.gl.isEnabled(capability);
+		}
+
+		return this._capabilities[capability];
+	}
+
+	public blendFunc(source:number, destination:number):void
+	{
+		var blendFunc = this._blendFunc;
+
+		if(this.check(blendFunc[0] !== source || blendFunc[1] !== destination || blendFunc.length != 2))
+		{
+			this._blendFunc = [source, destination];
+			this.gl.blendFunc(source, destination);
+		}
+	}
+
+	public blendFuncSeparate(sourceRGB:number, destinationRGB:number, sourceAlpha:number, destinationAlpha:number):void
+	{
+		var blendFunc = this._blendFunc;
+
+		if(this.check(blendFunc[0] !== sourceRGB || blendFunc[1] !== destinationRGB || blendFunc[2] !== sourceAlpha || blendFunc[3] !== destinationAlpha))
+		{
+			this._blendFunc = [sourceRGB, destinationRGB, sourceAlpha, destinationAlpha];
+			this.gl.blendFuncSeparate(sourceRGB, destinationRGB, sourceAlpha, destinationAlpha);
+		}
+	}
+
+	public blendEquation(mode:number):void
+	{
+		if(this.check(this._blendEquation !== mode))
+		{
+			this._blendEquation = mode;
+			this.gl.blendEquation(mode);
+		}
+	}
+
+	public depthFunc(func:number):void
+	{
+		if(this.check(this._depthFunc !== func))
+		{
+			this._depthFunc = func;
+			this.gl.depthFunc(func);
+		}
+	}
+
+	public depthMask(flag:boolean):void
+	{
+		if(this.check(this._depthMask !== flag))
+		{
+			this._depthMask = flag;
+			this.gl.depthMask(flag);
+		}
+	}
+
+	public cullFace(mode:number):void
+	{
+		if(this.check(this._cullFace !== mode))
+		{
+			this._cullFace = mode;
+			this.gl.cullFace(mode);
+		}
+	}
+
+	public frontFace(mode:number):void
+	{
+		if(this.check(this._frontFace !== mode))
+		{
+			this._frontFace = mode;
+			this.gl.frontFace(mode);
+		}
+	}
+
+	/**
+	 * Sets the viewport, fractions are dropped the way gl.viewport drops them so the cache matches what was issued.
+	 *
+	 * @method viewport
+	 * @param {number} x
+	 * @param {number} y
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public viewport(x:number, y:number, width:number, height:number):void
+	{
+		var viewport = this._viewport;
+
+		x |= 0;
+		y |= 0;
+		width |= 0;
+		height |= 0;
+
+		if(this.check(!viewport || viewport[0] !== x || viewport[1] !== y || viewport[2] !== width || viewport[3] !== height))
+		{
+			this._viewport = new Int32Array([x, y, width, height]);
+			this.gl.viewport(x, y, width, height);
+		}
+	}
+
+	/**
+	 * @method getViewport
+	 * @returns {Int32Array} x, y, width and height, do not modify
+	 */
+	public getViewport():Int32Array
+	{
+		if(!this._viewport)
+		{
+			this._viewport = this.gl.getParameter(this.gl.VIEWPORT);
+		}
+
+		return this._viewport;
+	}
+
+	/**
+	 * Counts the call as issued or skipped.
+	 *
+	 * @method check
+	 * @param {boolean} changed
+	 * @returns {boolean} changed
+	 */
+	protected check(changed:boolean):boolean
+	{
+		if(changed)
+		{
+			this.issued++;
+		}
+		else
+		{
+			this.skipped++;
+		}
+
+		return changed;
+	}
+}
\ No newline at end of file
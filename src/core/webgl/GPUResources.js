@@ -0,0 +1,70 @@
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var GPUResources = (function () {
+        function GPUResources(gl) {
+            this._resources = [];
+            this._priorities = [];
+            this.gl = gl;
+        }
+        GPUResources.get = function (gl) {
+            var registries = GPUResources._registries;
+            for (var i = 0; i < registries.length; i++) {
+                if (registries[i].gl === gl) {
+                    return registries[i];
+                }
+            }
+            var registry = new GPUResources(gl);
+            registries.push(registry);
+            return registry;
+        };
+        GPUResources.remove = function (gl) {
+            GPUResources._registries = GPUResources._registries.filter(function (registry) { return registry.gl !== gl; });
+        };
+        GPUResources.prototype.add = function (resource, priority) {
+            if (priority === void 0) { priority = GPUResources.PRIORITY_DATA; }
+            if (this._resources.indexOf(resource) == -1) {
+                this._resources.push(resource);
+                this._priorities.push(priority);
+            }
+        };
+        GPUResources.prototype.remove = function (resource) {
+            var index = this._resources.indexOf(resource);
+            if (index != -1) {
+                this._resources.splice(index, 1);
+                this._priorities.splice(index, 1);
+            }
+        };
+        GPUResources.prototype.has = function (resource) {
+            return this._resources.indexOf(resource) != -1;
+        };
+        GPUResources.prototype.getCount = function () {
+            return this._resources.length;
+        };
+        GPUResources.prototype.restore = function () {
+            var resources = this._resources.slice(0);
+            var priorities = this._priorities.slice(0);
+            var last = Math.max.apply(Math, priorities.concat(GPUResources.PRIORITY_DATA));
+            var error = null;
+            for (var priority = GPUResources.PRIORITY_DATA; priority <= last; priority++) {
+                for (var i = 0; i < resources.length; i++) {
+                    if (priorities[i] == priority) {
+                        try {
+                            resources[i].restore(this.gl);
+                        }
+                        catch (e) {
+                            error = error || e;
+                        }
+                    }
+                }
+            }
+            if (error) {
+                throw error;
+            }
+        };
+        GPUResources.PRIORITY_DATA = 0;
+        GPUResources.PRIORITY_DEPENDENT = 1;
+        GPUResources._registries = [];
+        return GPUResources;
+    }());
+    exports.GPUResources = GPUResources;
+});
@@ -0,0 +1,139 @@
+import IGPUResource from "../interface/IGPUResource";
+
+/**
+ * Keeps track of every object that owns handles of a context, so they can be recreated when a lost context is
+ * restored. Resources are restored by priority and then in the order they were added. Buffers and textures are
+ * restored first, so programs and render targets that bind them on restore get the new handles.
+ *
+ * @class GPUResources
+ * @param {WebGLRenderingContext} gl
+ */
+export class GPUResources
+{
+	/**
+	 * priority of resources that only own their own handles, like buffers, textures and shaders
+	 * @property PRIORITY_DATA
+	 * @type {number}
+	 * @static
+	 */
+	public static PRIORITY_DATA:number = 0;
+
+	/**
+	 * priority of resources that use other resources when they are restored, like programs and render targets
+	 * @property PRIORITY_DEPENDENT
+	 * @type {number}
+	 * @static
+	 */
+	public static PRIORITY_DEPENDENT:number = 1;
+
+	protected static _registries:Array<GPUResources> = [];
+
+	/**
+	 * @method get
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {GPUResources} the registry of the context, created on first use
+	 * @static
+	 */
+	public static get(gl:WebGLRenderingContext):GPUResources
+	{
+		var registries = GPUResources._registries;
+
+		for(var i = 0; i < registries.length; i++)
+		{
+			if(registries[i].gl === gl)
+			{
+				return registries[i];
+			}
+		}
+
+		var registry = new GPUResources(gl);
+		registries.push(registry);
+
+		return registry;
+	}
+
+	public static remove(gl:WebGLRenderingContext):void
+	{
+		GPUResources._registries = GPUResources._registries.filter((registry:GPUResources) => registry.gl !== gl);
+	}
+
+	public gl:WebGLRenderingContext;
+
+	protected _resources:Array<IGPUResource> = [];
+	protected _priorities:Array<number> = [];
+
+	constructor(gl:WebGLRenderingContext)
+	{
+		this.gl = gl;
+	}
+
+	/**
+	 * @method add
+	 * @param {IGPUResource} resource
+	 * @param {number} [priority=GPUResources.PRIORITY_DATA] lower priorities are restored first
+	 */
+	public add(resource:IGPUResource, priority:number = GPUResources.PRIORITY_DATA):void
+	{
+		if(this._resources.indexOf(resource) == -1)
+		{
+			this._resources.push(resource);
+			this._priorities.push(priority);
+		}
+	}
+
+	public remove(resource:IGPUResource):void
+	{
+		var index = this._resources.indexOf(resource);
+
+		if(index != -1)
+		{
+			this._resources.splice(index, 1);
+			this._priorities.splice(index, 1);
+		}
+	}
+
+	public has(resource:IGPUResource):boolean
+	{
+		return this._resources.indexOf(resource) != -1;
+	}
+
+	public getCount():number
+	{
+		return this._resources.length;
+	}
+
+	/**
+	 * Recreates the handles of all resources. A resource that fails does not keep the others from being restored,
+	 * the first error is thrown once all resources had their turn.
+	 *
+	 * @method restore
+	 */
+	public restore():void
+	{
+		// resources can add or remove others while restoring
+		var resources = this._resources.slice(0);
+		var priorities = this._priorities.slice(0);
+		var last = Math.max.apply(Math, priorities.concat(GPUResources.PRIORITY_DATA));
+		var error = null;
+
+		for(var priority = GPUResources.PRIORITY_DATA; priority <= last; priority++)
+		{
+			for(var i = 0; i < resources.length; i++)
+			{
+				if(priorities[i] == priority)
+				{
+					try {
+						resources[i].restore(this.gl);
+					} catch(e) {
+						error = error || e;
+					}
+				}
+			}
+		}
+
+		if(error)
+		{
+			throw error;
+		}
+	}
+}
\ No newline at end of file
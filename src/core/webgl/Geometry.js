@@ -1,10 +1,22 @@
-define(["require", "exports"], function (require, exports) {
+define(["require", "exports", "./VertexLayout", "../math/Box3", "../math/Sphere", "../util/UID"], function (require, exports, VertexLayout_1, Box3_1, Sphere_1, UID_1) {
     "use strict";
     var Geometry = (function () {
         function Geometry(vertex, index) {
-            this.vertex = new Float32Array(vertex);
-            this.index = new Uint16Array(index);
-            this.length = index.length;
+            if (vertex === void 0) { vertex = null; }
+            if (index === void 0) { index = null; }
+            this.attributes = {};
+            this.uuid = UID_1.default.get();
+            this.name = '';
+            this.length = 0;
+            this._names = [];
+            this._vertex = null;
+            this._layout = null;
+            this._boundingBox = null;
+            this._boundingSphere = null;
+            if (vertex) {
+                this.setAttribute(Geometry.POSITION, vertex, 3);
+            }
+            this.setIndex(index || []);
         }
         Geometry.createQuad = function () {
             var vertices = [
@@ -16,6 +28,152 @@ define(["require", "exports"], function (require, exports) {
             var indices = [0, 1, 2, 0, 2, 3];
             return new Geometry(vertices, indices);
         };
+        Geometry.createIndexArray = function (index) {
+            for (var i = 0; i < index.length; i++) {
+                if (index[i] > 0xffff) {
+                    return new Uint32Array(index);
+                }
+            }
+            return new Uint16Array(index);
+        };
+        Object.defineProperty(Geometry.prototype, "vertex", {
+            get: function () {
+                if (!this._vertex) {
+                    this._vertex = this.interleave();
+                }
+                return this._vertex;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Geometry.prototype.getLayout = function () {
+            var _this = this;
+            if (!this._layout) {
+                this._layout = new VertexLayout_1.VertexLayout(this._names.map(function (name) {
+                    return { name: name, size: _this.attributes[name].size };
+                }));
+            }
+            return this._layout;
+        };
+        Geometry.prototype.setAttribute = function (name, array, size) {
+            if (array.length % size != 0) {
+                throw new TypeError('attribute "' + name + '" has ' + array.length + ' values, which is not a multiple of its size ' + size);
+            }
+            var count = array.length / size;
+            var other = this.attributes[this._names.filter(function (other) { return other != name; })[0]];
+            if (other && other.array.length / other.size != count) {
+                throw new RangeError('attribute "' + name + '" has ' + count + ' vertices, the geometry has ' + (other.array.length / other.size));
+            }
+            if (!this.attributes[name]) {
+                this._names.push(name);
+            }
+            this.attributes[name] = {
+                size: size,
+                array: array instanceof Float32Array ? array : new Float32Array(array)
+            };
+            this.invalidate();
+            return this;
+        };
+        Geometry.prototype.getAttribute = function (name) {
+            return this.attributes[name] || null;
+        };
+        Geometry.prototype.hasAttribute = function (name) {
+            return !!this.attributes[name];
+        };
+        Geometry.prototype.removeAttribute = function (name) {
+            if (this.attributes[name]) {
+                delete this.attributes[name];
+                this._names.splice(this._names.indexOf(name), 1);
+                this.invalidate();
+            }
+            return this;
+        };
+        Geometry.prototype.getAttributeNames = function () {
+            return this._names.slice(0);
+        };
+        Geometry.prototype.setIndex = function (index) {
+            this.index = index instanceof Uint16Array || index instanceof Uint32Array
+                ? index
+                : Geometry.createIndexArray(index);
+            this.length = this.index.length;
+            return this;
+        };
+        Geometry.prototype.getVertexCount = function () {
+            if (this._names.length == 0) {
+                return 0;
+            }
+            var attribute = this.attributes[this._names[0]];
+            return attribute.array.length / attribute.size;
+        };
+        Geometry.prototype.getBoundingBox = function () {
+            if (!this._boundingBox) {
+                var positions = this.getAttribute(Geometry.POSITION);
+                this._boundingBox = positions ? new Box3_1.Box3().setFromArray(positions.array) : new Box3_1.Box3();
+            }
+            return this._boundingBox;
+        };
+        Geometry.prototype.getBoundingSphere = function () {
+            if (!this._boundingSphere) {
+                var positions = this.getAttribute(Geometry.POSITION);
+                this._boundingSphere = positions ? new Sphere_1.Sphere().setFromArray(positions.array, 3, 0, this.getBoundingBox().getCenter()) : new Sphere_1.Sphere(void 0, -1);
+            }
+            return this._boundingSphere;
+        };
+        Geometry.prototype.invalidate = function () {
+            this._vertex = null;
+            this._layout = null;
+            this._boundingBox = null;
+            this._boundingSphere = null;
+            return this;
+        };
+        Geometry.prototype.toJSON = function (meta) {
+            var attributes = {};
+            for (var i = 0; i < this._names.length; i++) {
+                var attribute = this.attributes[this._names[i]];
+                attributes[this._names[i]] = {
+                    size: attribute.size,
+                    array: Array.prototype.slice.call(attribute.array)
+                };
+            }
+            var output = {
+                uuid: this.uuid,
+                type: 'Geometry',
+                data: {
+                    attributes: attributes,
+                    index: Array.prototype.slice.call(this.index)
+                }
+            };
+            if (this.name !== '') {
+                output.name = this.name;
+            }
+            return output;
+        };
+        Geometry.prototype.interleave = function () {
+            var names = this._names;
+            var count = this.getVertexCount();
+            var stride = 0;
+            for (var i = 0; i < names.length; i++) {
+                stride += this.attributes[names[i]].size;
+            }
+            var vertex = new Float32Array(count * stride);
+            var offset = 0;
+            for (var i = 0; i < names.length; i++) {
+                var attribute = this.attributes[names[i]];
+                var size = attribute.size;
+                var array = attribute.array;
+                for (var v = 0; v < count; v++) {
+                    for (var c = 0; c < size; c++) {
+                        vertex[v * stride + offset + c] = array[v * size + c];
+                    }
+                }
+                offset += size;
+            }
+            return vertex;
+        };
+        Geometry.POSITION = 'aVertexPosition';
+        Geometry.NORMAL = 'aVertexNormal';
+        Geometry.UV = 'aTexcoord';
+        Geometry.TANGENT = 'aVertexTangent';
         Geometry.QUAD = Geometry.createQuad();
         return Geometry;
     }());
@@ -1,5 +1,62 @@
+import IHashMap from "../interface/IHashMap";
+import IGeometryAttribute from "../interface/IGeometryAttribute";
+import {VertexLayout} from "./VertexLayout";
+import {Box3} from "../math/Box3";
+import {Sphere} from "../math/Sphere";
+import UID from "../util/UID";
+
+/**
+ * Vertices and the indices of the triangles between them. Every vertex attribute is kept in its own array under
+ * the name of the attribute in the shader, vertex interleaves them in the order they were set so the geometry can
+ * be uploaded as one buffer and bound with getLayout.
+ *
+ * <h4>Example</h4>
+ *
+ *      var geometry = new Geometry()
+ *          .setAttribute(Geometry.POSITION, positions, 3)
+ *          .setAttribute(Geometry.UV, uvs, 2)
+ *          .setIndex(indices);
+ *
+ *      program.bindVertexLayout(new Buffer(gl, geometry.vertex), geometry.getLayout());
+ *
+ * @class Geometry
+ * @param {Array<number>|Float32Array} [vertex] positions, 3 per vertex
+ * @param {Array<number>|Uint16Array|Uint32Array} [index]
+ */
 export class Geometry
 {
+	/**
+	 * name of the positions
+	 * @property POSITION
+	 * @type {string}
+	 * @static
+	 */
+	public static POSITION:string = 'aVertexPosition';
+
+	/**
+	 * name of the normals
+	 * @property NORMAL
+	 * @type {string}
+	 * @static
+	 */
+	public static NORMAL:string = 'aVertexNormal';
+
+	/**
+	 * name of the texture coordinates
+	 * @property UV
+	 * @type {string}
+	 * @static
+	 */
+	public static UV:string = 'aTexcoord';
+
+	/**
+	 * name of the tangents, xyz and the handedness of the bitangent in w
+	 * @property TANGENT
+	 * @type {string}
+	 * @static
+	 */
+	public static TANGENT:string = 'aVertexTangent';
+
 	public static QUAD = Geometry.createQuad();
 
 	public static createQuad():Geometry
@@ -15,14 +72,311 @@ export class Geometry
 		return new Geometry(vertices, indices);
 	}
 
-	public vertex:Float32Array;
-	public index:Uint16Array;
-	public length:number;
+	/**
+	 * Typed array for the indices, a Uint32Array when an index does not fit in 16 bits.
+	 *
+	 * @method createIndexArray
+	 * @param {Array<number>} index
+	 * @returns {Uint16Array|Uint32Array}
+	 */
+	public static createIndexArray(index:Array<number>):Uint16Array|Uint32Array
+	{
+		for(var i = 0; i < index.length; i++)
+		{
+			if(index[i] > 0xffff)
+			{
+				return new Uint32Array(index);
+			}
+		}
+
+		return new Uint16Array(index);
+	}
+
+	/**
+	 * the attributes by name
+	 * @property attributes
+	 * @type {IHashMap<IGeometryAttribute>}
+	 */
+	public attributes:IHashMap<IGeometryAttribute> = {};
+
+	public uuid:number = UID.get();
+	public name:string = '';
+
+	public index:Uint16Array|Uint32Array;
+
+	/**
+	 * amount of indices
+	 * @property length
+	 * @type {number}
+	 */
+	public length:number = 0;
+
+	protected _names:Array<string> = [];
+	protected _vertex:Float32Array = null;
+	protected _layout:VertexLayout = null;
+	protected _boundingBox:Box3 = null;
+	protected _boundingSphere:Sphere = null;
+
+	constructor(vertex:Array<number>|Float32Array = null, index:Array<number>|Uint16Array|Uint32Array = null)
+	{
+		if(vertex)
+		{
+			this.setAttribute(Geometry.POSITION, vertex, 3);
+		}
+
+		this.setIndex(index || []);
+	}
+
+	/**
+	 * The attributes interleaved, in the order of getLayout. Created when it is first read after a change.
+	 *
+	 * @property vertex
+	 * @type {Float32Array}
+	 */
+	public get vertex():Float32Array
+	{
+		if(!this._vertex)
+		{
+			this._vertex = this.interleave();
+		}
+
+		return this._vertex;
+	}
+
+	/**
+	 * @method getLayout
+	 * @returns {VertexLayout} how the attributes are interleaved in vertex
+	 */
+	public getLayout():VertexLayout
+	{
+		if(!this._layout)
+		{
+			this._layout = new VertexLayout(this._names.map((name:string) => {
+				return {name: name, size: this.attributes[name].size};
+			}));
+		}
+
+		return this._layout;
+	}
 
-	constructor(vertex:Array<number>, index:Array<number>)
+	/**
+	 * Sets the values of an attribute, every attribute must have the same amount of vertices.
+	 *
+	 * @method setAttribute
+	 * @param {string} name name of the attribute in the shader
+	 * @param {Array<number>|Float32Array} array size values per vertex
+	 * @param {number} size
+	 * @returns {Geometry}
+	 */
+	public setAttribute(name:string, array:Array<number>|Float32Array, size:number):this
 	{
-		this.vertex = new Float32Array(vertex);
-		this.index = new Uint16Array(index);
-		this.length = index.length;
+		if(array.length % size != 0)
+		{
+			throw new TypeError('attribute "' + name + '" has ' + array.length + ' values, which is not a multiple of its size ' + size);
+		}
+
+		var count = array.length / size;
+		var other = this.attributes[this._names.filter((other:string) => other != name)[0]];
+
+		if(other && other.array.length / other.size != count)
+		{
+			throw new RangeError('attribute "' + name + '" has ' + count + ' vertices, the geometry has ' + (other.array.length / other.size));
+		}
+
+		if(!this.attributes[name])
+		{
+			this._names.push(name);
+		}
+
+		this.attributes[name] = {
+			size: size,
+			array: array instanceof Float32Array ? <Float32Array> array : new Float32Array(<Array<number>> array)
+		};
+
+		this.invalidate();
+
+		return this;
+	}
+
+	/**
+	 * @method getAttribute
+	 * @param {string} name
+	 * @returns {IGeometryAttribute} null when the geometry does not have the attribute
+	 */
+	public getAttribute(name:string):IGeometryAttribute
+	{
+		return this.attributes[name] || null;
+	}
+
+	public hasAttribute(name:string):boolean
+	{
+		return !!this.attributes[name];
+	}
+
+	public removeAttribute(name:string):this
+	{
+		if(this.attributes[name])
+		{
+			delete this.attributes[name];
+			this._names.splice(this._names.indexOf(name), 1);
+			this.invalidate();
+		}
+
+		return this;
+	}
+
+	/**
+	 * @method getAttributeNames
+	 * @returns {Array<string>} the names in the order they are interleaved
+	 */
+	public getAttributeNames():Array<string>
+	{
+		return this._names.slice(0);
+	}
+
+	public setIndex(index:Array<number>|Uint16Array|Uint32Array):this
+	{
+		this.index = index instanceof Uint16Array || index instanceof Uint32Array
+			? <Uint16Array|Uint32Array> index
+			: Geometry.createIndexArray(<Array<number>> index);
+
+		this.length = this.index.length;
+
+		return this;
+	}
+
+	public getVertexCount():number
+	{
+		if(this._names.length == 0)
+		{
+			return 0;
+		}
+
+		var attribute = this.attributes[this._names[0]];
+
+		return attribute.array.length / attribute.size;
+	}
+
+	/**
+	 * Box around the positions, calculated when it is first asked for after a change.
+	 *
+	 * @method getBoundingBox
+	 * @returns {Box3} do not modify
+	 */
+	public getBoundingBox():Box3
+	{
+		if(!this._boundingBox)
+		{
+			var positions = this.getAttribute(Geometry.POSITION);
+			this._boundingBox = positions ? new Box3().setFromArray(positions.array) : new Box3();
+		}
+
+		return this._boundingBox;
+	}
+
+	/**
+	 * Sphere around the positions, centered on the bounding box. Calculated when it is first asked for after a
+	 * change.
+	 *
+	 * @method getBoundingSphere
+	 * @returns {Sphere} do not modify
+	 */
+	public getBoundingSphere():Sphere
+	{
+		if(!this._boundingSphere)
+		{
+			var positions = this.getAttribute(Geometry.POSITION);
+			this._boundingSphere = positions ? new Sphere().setFromArray(positions.array, 3, 0, this.getBoundingBox().getCenter()) : new Sphere(void 0, -1);
+		}
+
+		return this._boundingSphere;
+	}
+
+	/**
+	 * Has to be called after the arrays of the attributes were changed in place, vertex is interleaved and the
+	 * bounding volumes are calculated again the next time they are read.
+	 *
+	 * @method invalidate
+	 * @returns {Geometry}
+	 */
+	public invalidate():this
+	{
+		this._vertex = null;
+		this._layout = null;
+		this._boundingBox = null;
+		this._boundingSphere = null;
+
+		return this;
+	}
+
+	/**
+	 * Plain data for Object3D.toJSON.
+	 *
+	 * @method toJSON
+	 * @returns {any}
+	 */
+	public toJSON(meta?:any):any
+	{
+		var attributes = {};
+
+		for(var i = 0; i < this._names.length; i++)
+		{
+			var attribute = this.attributes[this._names[i]];
+
+			attributes[this._names[i]] = {
+				size: attribute.size,
+				array: Array.prototype.slice.call(attribute.array)
+			};
+		}
+
+		var output:any = {
+			uuid: this.uuid,
+			type: 'Geometry',
+			data: {
+				attributes: attributes,
+				index: Array.prototype.slice.call(this.index)
+			}
+		};
+
+		if(this.name !== '')
+		{
+			output.name = this.name;
+		}
+
+		return output;
+	}
+
+	protected interleave():Float32Array
+	{
+		var names = this._names;
+		var count = this.getVertexCount();
+		var stride = 0;
+
+		for(var i = 0; i < names.length; i++)
+		{
+			stride += this.attributes[names[i]].size;
+		}
+
+		var vertex = new Float32Array(count * stride);
+		var offset = 0;
+
+		for(var i = 0; i < names.length; i++)
+		{
+			var attribute = this.attributes[names[i]];
+			var size = attribute.size;
+			var array = attribute.array;
+
+			for(var v = 0; v < count; v++)
+			{
+				for(var c = 0; c < size; c++)
+				{
+					vertex[v * stride + offset + c] = array[v * size + c];
+				}
+			}
+
+			offset += size;
+		}
+
+		return vertex;
 	}
 }
\ No newline at end of file
@@ -0,0 +1,370 @@
+import {Geometry} from "./Geometry";
+import {Matrix4} from "../math/Matrix4";
+import Matrix3 from "../math/Matrix3";
+import {Vector3} from "../math/Vector3";
+
+/**
+ * Operations on the attributes of a Geometry. Geometries are changed in place unless stated otherwise, a geometry
+ * without indices is read as a list of triangles.
+ *
+ * <h4>Example</h4>
+ *
+ *      var rock = GeometryUtil.computeNormals(GeometryUtil.merge([base, top]), true);
+ *      GeometryUtil.applyMatrix4(rock, new Matrix4().makeTranslation(0, 1, 0));
+ *
+ * @class GeometryUtil
+ */
+export class GeometryUtil
+{
+	/**
+	 * Sets the normals to the average of the normals of the triangles around every vertex, larger triangles
+	 * weigh more. Flat normals give every triangle its own vertices first so the faces are not smoothed.
+	 *
+	 * @method computeNormals
+	 * @param {Geometry} geometry
+	 * @param {boolean} [flat=false]
+	 * @returns {Geometry}
+	 */
+	public static computeNormals(geometry:Geometry, flat:boolean = false):Geometry
+	{
+		if(flat)
+		{
+			GeometryUtil.toNonIndexed(geometry);
+		}
+
+		var positions = GeometryUtil.requireAttribute(geometry, Geometry.POSITION).array;
+		var normals = new Float32Array(positions.length);
+		var index = GeometryUtil.getTriangles(geometry);
+
+		for(var i = 0; i + 2 < index.length; i += 3)
+		{
+			var a = index[i] * 3, b = index[i + 1] * 3, c = index[i + 2] * 3;
+
+			var e1x = positions[b] - positions[a], e1y = positions[b + 1] - positions[a + 1], e1z = positions[b + 2] - positions[a + 2];
+			var e2x = positions[c] - positions[a], e2y = positions[c + 1] - positions[a + 1], e2z = positions[c + 2] - positions[a + 2];
+
+			// the length of the cross product is twice the area of the triangle
+			var nx = e1y * e2z - e1z * e2y;
+			var ny = e1z * e2x - e1x * e2z;
+			var nz = e1x * e2y - e1y * e2x;
+
+			for(var j = 0; j < 3; j++)
+			{
+				var v = index[i + j] * 3;
+
+				normals[v] += nx;
+				normals[v + 1] += ny;
+				normals[v + 2] += nz;
+			}
+		}
+
+		for(var i = 0; i < normals.length; i += 3)
+		{
+			GeometryUtil.normalize(normals, i);
+		}
+
+		return geometry.setAttribute(Geometry.NORMAL, normals, 3);
+	}
+
+	/**
+	 * Calculates tangents for normal mapping from the positions, normals and texture coordinates. The tangent
+	 * points along u, w is 1 or -1 for the direction of the bitangent: bitangent = cross(normal, tangent.xyz) * w.
+	 *
+	 * @method computeTangents
+	 * @param {Geometry} geometry
+	 * @returns {Geometry}
+	 */
+	public static computeTangents(geometry:Geometry):Geometry
+	{
+		var positions = GeometryUtil.requireAttribute(geometry, Geometry.POSITION).array;
+		var normals = GeometryUtil.requireAttribute(geometry, Geometry.NORMAL).array;
+		var uvs = GeometryUtil.requireAttribute(geometry, Geometry.UV).array;
+		var index = GeometryUtil.getTriangles(geometry);
+		var count = positions.length / 3;
+
+		// sums of the directions of u and v of the triangles around every vertex
+		var tan1 = new Float32Array(count * 3);
+		var tan2 = new Float32Array(count * 3);
+
+		for(var i = 0; i + 2 < index.length; i += 3)
+		{
+			var i0 = index[i], i1 = index[i + 1], i2 = index[i + 2];
+
+			var e1x = positions[i1 * 3] - positions[i0 * 3], e1y = positions[i1 * 3 + 1] - positions[i0 * 3 + 1], e1z = positions[i1 * 3 + 2] - positions[i0 * 3 + 2];
+			var e2x = positions[i2 * 3] - positions[i0 * 3], e2y = positions[i2 * 3 + 1] - positions[i0 * 3 + 1], e2z = positions[i2 * 3 + 2] - positions[i0 * 3 + 2];
+
+			var du1 = uvs[i1 * 2] - uvs[i0 * 2], dv1 = uvs[i1 * 2 + 1] - uvs[i0 * 2 + 1];
+			var du2 = uvs[i2 * 2] - uvs[i0 * 2], dv2 = uvs[i2 * 2 + 1] - uvs[i0 * 2 + 1];
+			var determinant = du1 * dv2 - du2 * dv1;
+
+			// the texture coordinates do not span an area, the triangle has no direction for u and v
+			if(Math.abs(determinant) < 1e-12)
+			{
+				continue;
+			}
+
+			var r = 1 / determinant;
+			var sx = (e1x * dv2 - e2x * dv1) * r, sy = (e1y * dv2 - e2y * dv1) * r, sz = (e1z * dv2 - e2z * dv1) * r;
+			var tx = (e2x * du1 - e1x * du2) * r, ty = (e2y * du1 - e1y * du2) * r, tz = (e2z * du1 - e1z * du2) * r;
+
+			for(var j = 0; j < 3; j++)
+			{
+				var v = index[i + j] * 3;
+
+				tan1[v] += sx; tan1[v + 1] += sy; tan1[v + 2] += sz;
+				tan2[v] += tx; tan2[v + 1] += ty; tan2[v + 2] += tz;
+			}
+		}
+
+		var tangents = new Float32Array(count * 4);
+
+		for(var v = 0; v < count; v++)
+		{
+			var nx = normals[v * 3], ny = normals[v * 3 + 1], nz = normals[v * 3 + 2];
+			var ux = tan1[v * 3], uy = tan1[v * 3 + 1], uz = tan1[v * 3 + 2];
+
+			// Gram-Schmidt, remove the part along the normal
+			var dot = nx * ux + ny * uy + nz * uz;
+			var x = ux - nx * dot, y = uy - ny * dot, z = uz - nz * dot;
+			var length = Math.sqrt(x * x + y * y + z * z);
+
+			if(length < 1e-12)
+			{
+				// no texture direction, any vector perpendicular to the normal will do
+				x = Math.abs(nx) < 0.9 ? 0 : -nz;
+				y = Math.abs(nx) < 0.9 ? -nz : 0;
+				z = Math.abs(nx) < 0.9 ? ny : nx;
+				length = Math.sqrt(x * x + y * y + z * z) || 1;
+			}
+
+			// handedness, whether cross(normal, tangent) points along v or against it
+			var cx = ny * uz - nz * uy, cy = nz * ux - nx * uz, cz = nx * uy - ny * ux;
+			var w = cx * tan2[v * 3] + cy * tan2[v * 3 + 1] + cz * tan2[v * 3 + 2] < 0 ? -1 : 1;
+
+			tangents[v * 4] = x / length;
+			tangents[v * 4 + 1] = y / length;
+			tangents[v * 4 + 2] = z / length;
+			tangents[v * 4 + 3] = w;
+		}
+
+		return geometry.setAttribute(Geometry.TANGENT, tangents, 4);
+	}
+
+	/**
+	 * Combines geometries into a new one, the indices of every geometry are offset by the vertices before it.
+	 * All geometries must have the same attributes.
+	 *
+	 * @method merge
+	 * @param {Array<Geometry>} geometries
+	 * @returns {Geometry} a new geometry
+	 */
+	public static merge(geometries:Array<Geometry>):Geometry
+	{
+		var merged = new Geometry();
+
+		if(geometries.length == 0)
+		{
+			return merged;
+		}
+
+		var names = geometries[0].getAttributeNames();
+		var vertexCount = 0;
+		var indexCount = 0;
+
+		for(var i = 0; i < geometries.length; i++)
+		{
+			var geometry = geometries[i];
+
+			for(var n = 0; n < names.length; n++)
+			{
+				var attribute = geometry.getAttribute(names[n]);
+
+				if(!attribute || attribute.size != geometries[0].getAttribute(names[n]).size)
+				{
+					throw new Error('can not merge geometry ' + i + ', attribute "' + names[n] + '" is missing or has another size');
+				}
+			}
+
+			if(geometry.getAttributeNames().length != names.length)
+			{
+				throw new Error('can not merge geometry ' + i + ', it has other attributes than geometry 0');
+			}
+
+			vertexCount += geometry.getVertexCount();
+			indexCount += GeometryUtil.getTriangles(geometry).length;
+		}
+
+		for(var n = 0; n < names.length; n++)
+		{
+			var size = geometries[0].getAttribute(names[n]).size;
+			var array = new Float32Array(vertexCount * size);
+			var offset = 0;
+
+			for(var i = 0; i < geometries.length; i++)
+			{
+				var source = geometries[i].getAttribute(names[n]).array;
+
+				array.set(source, offset);
+				offset += source.length;
+			}
+
+			merged.setAttribute(names[n], array, size);
+		}
+
+		var index:Array<number> = new Array(indexCount);
+		var indexOffset = 0;
+		var vertexOffset = 0;
+
+		for(var i = 0; i < geometries.length; i++)
+		{
+			var triangles = GeometryUtil.getTriangles(geometries[i]);
+
+			for(var j = 0; j < triangles.length; j++)
+			{
+				index[indexOffset + j] = triangles[j] + vertexOffset;
+			}
+
+			indexOffset += triangles.length;
+			vertexOffset += geometries[i].getVertexCount();
+		}
+
+		return merged.setIndex(index);
+	}
+
+	/**
+	 * Transforms the positions by matrix, normals and tangents are turned along so they stay perpendicular to the
+	 * surface.
+	 *
+	 * @method applyMatrix4
+	 * @param {Geometry} geometry
+	 * @param {Matrix4} matrix
+	 * @returns {Geometry}
+	 */
+	public static applyMatrix4(geometry:Geometry, matrix:Matrix4):Geometry
+	{
+		var positions = geometry.getAttribute(Geometry.POSITION);
+		var normals = geometry.getAttribute(Geometry.NORMAL);
+		var tangents = geometry.getAttribute(Geometry.TANGENT);
+
+		if(positions)
+		{
+			matrix.applyToVector3Array(positions.array);
+		}
+
+		if(normals)
+		{
+			var normalMatrix = new Matrix3().getNormalMatrix(matrix);
+
+			normalMatrix.applyToVector3Array(normals.array, 0, normals.array.length);
+
+			for(var i = 0; i < normals.array.length; i += 3)
+			{
+				GeometryUtil.normalize(normals.array, i);
+			}
+		}
+
+		if(tangents)
+		{
+			var tangent = new Vector3();
+
+			for(var i = 0; i < tangents.array.length; i += 4)
+			{
+				tangent.fromArray(tangents.array, i);
+				tangent.transformDirection(matrix);
+				tangent.toArray(tangents.array, i);
+			}
+		}
+
+		return geometry.invalidate();
+	}
+
+	/**
+	 * Gives every triangle its own vertices, the indices become 0, 1, 2, 3...
+	 *
+	 * @method toNonIndexed
+	 * @param {Geometry} geometry
+	 * @returns {Geometry}
+	 */
+	public static toNonIndexed(geometry:Geometry):Geometry
+	{
+		var index = GeometryUtil.getTriangles(geometry);
+		var names = geometry.getAttributeNames();
+		var sequence:Array<number> = new Array(index.length);
+
+		for(var n = 0; n < names.length; n++)
+		{
+			var attribute = geometry.getAttribute(names[n]);
+			var size = attribute.size;
+			var array = new Float32Array(index.length * size);
+
+			for(var i = 0; i < index.length; i++)
+			{
+				for(var c = 0; c < size; c++)
+				{
+					array[i * size + c] = attribute.array[index[i] * size + c];
+				}
+			}
+
+			// replacing one attribute at a time would fail the vertex count check against the others
+			geometry.attributes[names[n]] = {size: size, array: array};
+		}
+
+		for(var i = 0; i < index.length; i++)
+		{
+			sequence[i] = i;
+		}
+
+		geometry.invalidate();
+
+		return geometry.setIndex(sequence);
+	}
+
+	/**
+	 * The indices of the triangles, for a geometry without indices every vertex in order.
+	 *
+	 * @method getTriangles
+	 * @param {Geometry} geometry
+	 * @returns {ArrayLike<number>}
+	 */
+	protected static getTriangles(geometry:Geometry):any
+	{
+		if(geometry.length > 0)
+		{
+			return geometry.index;
+		}
+
+		var count = geometry.getVertexCount();
+		var index = new Uint32Array(count);
+
+		for(var i = 0; i < count; i++)
+		{
+			index[i] = i;
+		}
+
+		return index;
+	}
+
+	protected static requireAttribute(geometry:Geometry, name:string)
+	{
+		var attribute = geometry.getAttribute(name);
+
+		if(!attribute)
+		{
+			throw new Error('geometry has no attribute "' + name + '"');
+		}
+
+		return attribute;
+	}
+
+	protected static normalize(array:Float32Array, offset:number):void
+	{
+		var length = Math.sqrt(array[offset] * array[offset] + array[offset + 1] * array[offset + 1] + array[offset + 2] * array[offset + 2]);
+
+		if(length > 0)
+		{
+			array[offset] /= length;
+			array[offset + 1] /= length;
+			array[offset + 2] /= length;
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,130 @@
+define(["require", "exports", "./Buffer", "./VertexLayout", "./GLState", "./GLCapabilities"], function (require, exports, Buffer_1, VertexLayout_1, GLState_1, GLCapabilities_1) {
+    "use strict";
+    var InstancedMesh = (function () {
+        function InstancedMesh(gl, geometry, capacity, layout) {
+            if (layout === void 0) { layout = geometry.getLayout(); }
+            this._names = [];
+            this._sizes = {};
+            this._data = {};
+            this._buffers = {};
+            this._layouts = {};
+            this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
+            this._geometry = geometry;
+            this._layout = layout;
+            this._capacity = capacity;
+            this.count = capacity;
+            this._vertexBuffer = new Buffer_1.Buffer(gl, geometry.vertex, gl.ARRAY_BUFFER, gl.STATIC_DRAW);
+            this._indexBuffer = geometry.length > 0 ? new Buffer_1.Buffer(gl, geometry.index, gl.ELEMENT_ARRAY_BUFFER, gl.STATIC_DRAW) : null;
+        }
+        InstancedMesh.prototype.getCapacity = function () {
+            return this._capacity;
+        };
+        InstancedMesh.prototype.addAttribute = function (name, size) {
+            if (this._data[name]) {
+                throw new Error('instance attribute "' + name + '" already added');
+            }
+            var gl = this._gl;
+            var data = new Float32Array(size * this._capacity);
+            this._names.push(name);
+            this._sizes[name] = size;
+            this._data[name] = data;
+            this._buffers[name] = new Buffer_1.Buffer(gl, data, gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+            this._layouts[name] = new VertexLayout_1.VertexLayout([{ name: name, size: size }]);
+            return this;
+        };
+        InstancedMesh.prototype.getAttributeData = function (name) {
+            return this.getData(name);
+        };
+        InstancedMesh.prototype.setInstanceValue = function (name, index, value) {
+            var data = this.getData(name);
+            var size = this._sizes[name];
+            if (index < 0 || index >= this._capacity) {
+                throw new RangeError('instance ' + index + ' is out of range, the capacity is ' + this._capacity);
+            }
+            if (typeof value == 'number') {
+                data[index * size] = value;
+            }
+            else {
+                if (value.length != size) {
+                    throw new TypeError('instance attribute "' + name + '" expects ' + size + ' values, got ' + value.length);
+                }
+                for (var i = 0; i < size; i++) {
+                    data[index * size + i] = value[i];
+                }
+            }
+            return this.setDirty(name, index, index + 1);
+        };
+        InstancedMesh.prototype.getInstanceValue = function (name, index) {
+            var size = this._sizes[name];
+            return this.getData(name).subarray(index * size, (index + 1) * size);
+        };
+        InstancedMesh.prototype.setDirty = function (name, start, end) {
+            if (start === void 0) { start = 0; }
+            if (end === void 0) { end = this._capacity; }
+            var size = this._sizes[name];
+            this.getData(name);
+            this._buffers[name].setDirty(start * size, end * size);
+            return this;
+        };
+        InstancedMesh.prototype.update = function () {
+            for (var i = 0; i < this._names.length; i++) {
+                var buffer = this._buffers[this._names[i]];
+                if (buffer.isDirty()) {
+                    buffer.update();
+                }
+            }
+            return this;
+        };
+        InstancedMesh.prototype.draw = function (program, mode) {
+            var gl = this._gl;
+            if (this.count > this._capacity) {
+                throw new RangeError('can not draw ' + this.count + ' instances, the capacity is ' + this._capacity);
+            }
+            this.update();
+            for (var i = 0; i < this._names.length; i++) {
+                var name = this._names[i];
+                program.bindVertexLayout(this._buffers[name], this._layouts[name], 1);
+            }
+            program.bindVertexLayout(this._vertexBuffer, this._layout);
+            if (mode === void 0) {
+                mode = gl.TRIANGLES;
+            }
+            if (this._indexBuffer) {
+                this._indexBuffer.bind();
+                GLCapabilities_1.GLCapabilities.get(gl).drawElementsInstanced(mode, this._geometry.length, this._indexBuffer.getIndexType(), 0, this.count);
+            }
+            else {
+                GLCapabilities_1.GLCapabilities.get(gl).drawArraysInstanced(mode, 0, this._geometry.vertex.byteLength / this._layout.stride, this.count);
+            }
+            for (var i = 0; i < this._names.length; i++) {
+                var attribute = program.getAttribute(this._names[i]);
+                if (attribute && attribute.getLocation() > -1) {
+                    attribute.disable();
+                }
+            }
+        };
+        InstancedMesh.prototype.getData = function (name) {
+            if (!this._data[name]) {
+                throw new Error('instance attribute "' + name + '" does not exist, add it with addAttribute');
+            }
+            return this._data[name];
+        };
+        InstancedMesh.prototype.destruct = function () {
+            for (var i = 0; i < this._names.length; i++) {
+                this._buffers[this._names[i]].destruct();
+            }
+            this._vertexBuffer.destruct();
+            if (this._indexBuffer) {
+                this._indexBuffer.destruct();
+            }
+            this._buffers = null;
+            this._data = null;
+            this._vertexBuffer = null;
+            this._indexBuffer = null;
+            this._geometry = null;
+        };
+        return InstancedMesh;
+    }());
+    exports.InstancedMesh = InstancedMesh;
+});
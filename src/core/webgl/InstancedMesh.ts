@@ -0,0 +1,280 @@
+import {Geometry} from "./Geometry";
+import {Buffer} from "./Buffer";
+import {VertexLayout} from "./VertexLayout";
+import {ShaderProgram} from "./ShaderProgram";
+import {GLState} from "./GLState";
+import {GLCapabilities} from "./GLCapabilities";
+import IHashMap from "../interface/IHashMap";
+
+/**
+ * Draws many copies of a geometry with one instanced draw call. Every per instance attribute, like a model matrix
+ * or a color, has its own dynamic buffer with a value per instance. Changed instances are marked on the buffer,
+ * only the range between the first and the last changed instance is uploaded.
+ *
+ * <h4>Example</h4>
+ *
+ *      // attribute mat4 aModelMatrix; attribute vec4 aColor;
+ *      var confetti = new InstancedMesh(gl, Geometry.QUAD, 1000)
+ *          .addAttribute('aModelMatrix', 16)
+ *          .addAttribute('aColor', 4);
+ *
+ *      confetti.setInstanceValue('aColor', 12, [1, 0, 0, 1]);
+ *      confetti.draw(program.use());
+ *
+ * @class InstancedMesh
+ * @param {WebGLRenderingContext} gl
+ * @param {Geometry} geometry the geometry every instance draws
+ * @param {number} capacity maximum amount of instances
+ * @param {VertexLayout} [layout] layout of the vertices of geometry, geometry.getLayout() by default
+ */
+export class InstancedMesh
+{
+	protected _gl:WebGLRenderingContext;
+	protected _state:GLState;
+	protected _geometry:Geometry;
+	protected _layout:VertexLayout;
+	protected _vertexBuffer:Buffer;
+	protected _indexBuffer:Buffer;
+	protected _capacity:number;
+
+	protected _names:Array<string> = [];
+	protected _sizes:IHashMap<number> = {};
+	protected _data:IHashMap<Float32Array> = {};
+	protected _buffers:IHashMap<Buffer> = {};
+	protected _layouts:IHashMap<VertexLayout> = {};
+
+	/**
+	 * amount of instances that is drawn, can not exceed the capacity
+	 * @property count
+	 * @type {number}
+	 */
+	public count:number;
+
+	constructor(gl:WebGLRenderingContext, geometry:Geometry, capacity:number, layout:VertexLayout = geometry.getLayout())
+	{
+		this._gl = gl;
+		this._state = GLState.get(gl);
+		this._geometry = geometry;
+		this._layout = layout;
+		this._capacity = capacity;
+		this.count = capacity;
+
+		this._vertexBuffer = new Buffer(gl, geometry.vertex, gl.ARRAY_BUFFER, gl.STATIC_DRAW);
+		// a geometry without indices is drawn as a list of vertices
+		this._indexBuffer = geometry.length > 0 ? new Buffer(gl, geometry.index, gl.ELEMENT_ARRAY_BUFFER, gl.STATIC_DRAW) : null;
+	}
+
+	public getCapacity():number
+	{
+		return this._capacity;
+	}
+
+	/**
+	 * Adds an attribute with a value of size floats per instance, all values start at 0.
+	 *
+	 * @method addAttribute
+	 * @param {string} name name of the attribute in the shader
+	 * @param {number} size 1 - 4, 9 for a mat3 or 16 for a mat4
+	 * @returns {InstancedMesh}
+	 */
+	public addAttribute(name:string, size:number):this
+	{
+		if(this._data[name])
+		{
+			throw new Error('instance attribute "' + name + '" already added');
+		}
+
+		var gl = this._gl;
+		var data = new Float32Array(size * this._capacity);
+
+		this._names.push(name);
+		this._sizes[name] = size;
+		this._data[name] = data;
+		this._buffers[name] = new Buffer(gl, data, gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+		this._layouts[name] = new VertexLayout([{name: name, size: size}]);
+
+		return this;
+	}
+
+	/**
+	 * The values of all instances, changes have to be marked with setDirty.
+	 *
+	 * @method getAttributeData
+	 * @param {string} name
+	 * @returns {Float32Array}
+	 */
+	public getAttributeData(name:string):Float32Array
+	{
+		return this.getData(name);
+	}
+
+	/**
+	 * @method setInstanceValue
+	 * @param {string} name
+	 * @param {number} index
+	 * @param {number|ArrayLike<number>} value a number for attributes of size 1, size numbers otherwise
+	 * @returns {InstancedMesh}
+	 */
+	public setInstanceValue(name:string, index:number, value:any):this
+	{
+		var data = this.getData(name);
+		var size = this._sizes[name];
+
+		if(index < 0 || index >= this._capacity)
+		{
+			throw new RangeError('instance ' + index + ' is out of range, the capacity is ' + this._capacity);
+		}
+
+		if(typeof value == 'number')
+		{
+			data[index * size] = value;
+		}
+		else
+		{
+			if(value.length != size)
+			{
+				throw new TypeError('instance attribute "' + name + '" expects ' + size + ' values, got ' + value.length);
+			}
+
+			for(var i = 0; i < size; i++)
+			{
+				data[index * size + i] = value[i];
+			}
+		}
+
+		return this.setDirty(name, index, index + 1);
+	}
+
+	public getInstanceValue(name:string, index:number):Float32Array
+	{
+		var size = this._sizes[name];
+
+		return this.getData(name).subarray(index * size, (index + 1) * size);
+	}
+
+	/**
+	 * Marks instances start up to end as changed, they are uploaded on the next update.
+	 *
+	 * @method setDirty
+	 * @param {string} name
+	 * @param {number} [start=0]
+	 * @param {number} [end=capacity] first instance after the changed ones
+	 * @returns {InstancedMesh}
+	 */
+	public setDirty(name:string, start:number = 0, end:number = this._capacity):this
+	{
+		var size = this._sizes[name];
+
+		this.getData(name);
+		this._buffers[name].setDirty(start * size, end * size);
+
+		return this;
+	}
+
+	/**
+	 * Uploads the changed instances, a buffer that was never uploaded is uploaded as a whole.
+	 *
+	 * @method update
+	 * @returns {InstancedMesh}
+	 */
+	public update():this
+	{
+		for(var i = 0; i < this._names.length; i++)
+		{
+			var buffer = this._buffers[this._names[i]];
+
+			if(buffer.isDirty())
+			{
+				buffer.update();
+			}
+		}
+
+		return this;
+	}
+
+	/**
+	 * Uploads the changes and draws count instances with one draw call. The program has to be in use. A geometry
+	 * without indices is drawn with drawArraysInstanced.
+	 *
+	 * @method draw
+	 * @param {ShaderProgram} program
+	 * @param {number} [mode=gl.TRIANGLES]
+	 */
+	public draw(program:ShaderProgram, mode?:number):void
+	{
+		var gl = this._gl;
+
+		if(this.count > this._capacity)
+		{
+			throw new RangeError('can not draw ' + this.count + ' instances, the capacity is ' + this._capacity);
+		}
+
+		this.update();
+
+		// the instance attributes are bound first, so the vertex layout does not report them as missing
+		for(var i = 0; i < this._names.length; i++)
+		{
+			var name = this._names[i];
+			program.bindVertexLayout(this._buffers[name], this._layouts[name], 1);
+		}
+
+		program.bindVertexLayout(this._vertexBuffer, this._layout);
+
+		if(mode === void 0)
+		{
+			mode = gl.TRIANGLES;
+		}
+
+		if(this._indexBuffer)
+		{
+			this._indexBuffer.bind();
+			GLCapabilities.get(gl).drawElementsInstanced(mode, this._geometry.length, this._indexBuffer.getIndexType(), 0, this.count);
+		}
+		else
+		{
+			GLCapabilities.get(gl).drawArraysInstanced(mode, 0, this._geometry.vertex.byteLength / this._layout.stride, this.count);
+		}
+
+		// attributes that stay enabled with a divisor would be read by the next draw that does not use them
+		for(var i = 0; i < this._names.length; i++)
+		{
+			var attribute = program.getAttribute(this._names[i]);
+
+			if(attribute && attribute.getLocation() > -1)
+			{
+				attribute.disable();
+			}
+		}
+	}
+
+	protected getData(name:string):Float32Array
+	{
+		if(!this._data[name])
+		{
+			throw new Error('instance attribute "' + name + '" does not exist, add it with addAttribute');
+		}
+
+		return this._data[name];
+	}
+
+	public destruct():void
+	{
+		for(var i = 0; i < this._names.length; i++)
+		{
+			this._buffers[this._names[i]].destruct();
+		}
+
+		this._vertexBuffer.destruct();
+
+		if(this._indexBuffer)
+		{
+			this._indexBuffer.destruct();
+		}
+
+		this._buffers = null;
+		this._data = null;
+		this._vertexBuffer = null;
+		this._indexBuffer = null;
+		this._geometry = null;
+	}
+}
\ No newline at end of file
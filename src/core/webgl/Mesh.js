@@ -1,10 +1,10 @@
-define(["require", "exports", "./Buffer"], function (require, exports, Buffer_1) {
+define(["require", "exports", "./Buffer", "./GLCapabilities", "./Geometry"], function (require, exports, Buffer_1, GLCapabilities_1, Geometry_1) {
     "use strict";
     var Mesh = (function () {
         function Mesh(gl, vertex, index) {
             this._gl = gl;
             this.vertex = new Float32Array(vertex);
-            this.index = new Uint16Array(index);
+            this.index = Geometry_1.Geometry.createIndexArray(index);
             this.length = index.length;
         }
         Mesh.createQuad = function (gl) {
@@ -25,6 +25,16 @@ define(["require", "exports", "./Buffer"], function (require, exports, Buffer_1)
             this.getVertexBuffer().unbind();
             this.getIndexBuffer().unbind();
         };
+        Mesh.prototype.draw = function (mode) {
+            var gl = this._gl;
+            this.bind();
+            gl.drawElements(mode === void 0 ? gl.TRIANGLES : mode, this.length, this.getIndexBuffer().getIndexType(), 0);
+        };
+        Mesh.prototype.drawInstanced = function (instanceCount, mode) {
+            var gl = this._gl;
+            this.bind();
+            GLCapabilities_1.GLCapabilities.get(gl).drawElementsInstanced(mode === void 0 ? gl.TRIANGLES : mode, this.length, this.getIndexBuffer().getIndexType(), 0, instanceCount);
+        };
         Mesh.prototype.getVertexBuffer = function () {
             if (!this.vertexBuffer) {
                 var gl = this._gl;
@@ -1,4 +1,6 @@
 import {Buffer} from "./Buffer";
+import {GLCapabilities} from "./GLCapabilities";
+import {Geometry} from "./Geometry";
 export class Mesh
 {
     public static createQuad(gl:WebGLRenderingContext):Mesh
@@ -18,7 +20,7 @@ export class Mesh
     public length:number;
 
     public vertex:Float32Array;
-    public index:Uint16Array;
+    public index:Uint16Array|Uint32Array;
 
     protected vertexBuffer:Buffer;
     protected indexBuffer:Buffer;
@@ -28,7 +30,7 @@ export class Mesh
 
         this._gl = gl;
         this.vertex = new Float32Array(vertex);
-        this.index = new Uint16Array(index);
+        this.index = Geometry.createIndexArray(index);
         this.length = index.length;
     }
 
@@ -44,6 +46,36 @@ export class Mesh
         this.getIndexBuffer().unbind();
     }
 
+    /**
+     * Draws the indexed triangles, the attributes have to be pointed to the vertex buffer.
+     *
+     * @method draw
+     * @param {number} [mode=gl.TRIANGLES]
+     */
+    public draw(mode?:number):void
+    {
+        var gl = this._gl;
+
+        this.bind();
+        gl.drawElements(mode === void 0 ? gl.TRIANGLES : mode, this.length, this.getIndexBuffer().getIndexType(), 0);
+    }
+
+    /**
+     * Draws the mesh instanceCount times in one call, attributes with a divisor advance per instance. Works on
+     * WebGL 2 and on WebGL 1 with ANGLE_instanced_arrays.
+     *
+     * @method drawInstanced
+     * @param {number} instanceCount
+     * @param {number} [mode=gl.TRIANGLES]
+     */
+    public drawInstanced(instanceCount:number, mode?:number):void
+    {
+        var gl = this._gl;
+
+        this.bind();
+        GLCapabilities.get(gl).drawElementsInstanced(mode === void 0 ? gl.TRIANGLES : mode, this.length, this.getIndexBuffer().getIndexType(), 0, instanceCount);
+    }
+
     public getVertexBuffer():Buffer
     {
         if(!this.vertexBuffer) {
@@ -0,0 +1,299 @@
+define(["require", "exports", "./Geometry"], function (require, exports, Geometry_1) {
+    "use strict";
+    var Primitives = (function () {
+        function Primitives() {
+        }
+        Primitives.createPlane = function (width, height, widthSegments, heightSegments) {
+            if (width === void 0) { width = 1; }
+            if (height === void 0) { height = 1; }
+            if (widthSegments === void 0) { widthSegments = 1; }
+            if (heightSegments === void 0) { heightSegments = 1; }
+            var data = Primitives.createData();
+            Primitives.addPlane(data, 0, 1, 2, 1, -1, width, height, 0, Math.max(1, widthSegments | 0), Math.max(1, heightSegments | 0));
+            return Primitives.createGeometry(data);
+        };
+        Primitives.createBox = function (width, height, depth, widthSegments, heightSegments, depthSegments) {
+            if (width === void 0) { width = 1; }
+            if (height === void 0) { height = 1; }
+            if (depth === void 0) { depth = 1; }
+            if (widthSegments === void 0) { widthSegments = 1; }
+            if (heightSegments === void 0) { heightSegments = 1; }
+            if (depthSegments === void 0) { depthSegments = 1; }
+            var data = Primitives.createData();
+            widthSegments = Math.max(1, widthSegments | 0);
+            heightSegments = Math.max(1, heightSegments | 0);
+            depthSegments = Math.max(1, depthSegments | 0);
+            Primitives.addPlane(data, 2, 1, 0, -1, -1, depth, height, width, depthSegments, heightSegments);
+            Primitives.addPlane(data, 2, 1, 0, 1, -1, depth, height, -width, depthSegments, heightSegments);
+            Primitives.addPlane(data, 0, 2, 1, 1, 1, width, depth, height, widthSegments, depthSegments);
+            Primitives.addPlane(data, 0, 2, 1, 1, -1, width, depth, -height, widthSegments, depthSegments);
+            Primitives.addPlane(data, 0, 1, 2, 1, -1, width, height, depth, widthSegments, heightSegments);
+            Primitives.addPlane(data, 0, 1, 2, -1, -1, width, height, -depth, widthSegments, heightSegments);
+            return Primitives.createGeometry(data);
+        };
+        Primitives.createSphere = function (radius, widthSegments, heightSegments) {
+            if (radius === void 0) { radius = 1; }
+            if (widthSegments === void 0) { widthSegments = 32; }
+            if (heightSegments === void 0) { heightSegments = 16; }
+            var data = Primitives.createData();
+            widthSegments = Math.max(3, widthSegments | 0);
+            heightSegments = Math.max(2, heightSegments | 0);
+            for (var iy = 0; iy <= heightSegments; iy++) {
+                var v = iy / heightSegments;
+                for (var ix = 0; ix <= widthSegments; ix++) {
+                    var u = ix / widthSegments;
+                    var x = -Math.cos(u * Math.PI * 2) * Math.sin(v * Math.PI);
+                    var y = Math.cos(v * Math.PI);
+                    var z = Math.sin(u * Math.PI * 2) * Math.sin(v * Math.PI);
+                    data.positions.push(x * radius, y * radius, z * radius);
+                    data.normals.push(x, y, z);
+                    data.uvs.push(u, 1 - v);
+                }
+            }
+            var row = widthSegments + 1;
+            for (var iy = 0; iy < heightSegments; iy++) {
+                for (var ix = 0; ix < widthSegments; ix++) {
+                    var a = iy * row + ix + 1;
+                    var b = iy * row + ix;
+                    var c = (iy + 1) * row + ix;
+                    var d = (iy + 1) * row + ix + 1;
+                    if (iy != 0)
+                        data.indices.push(a, b, d);
+                    if (iy != heightSegments - 1)
+                        data.indices.push(b, c, d);
+                }
+            }
+            return Primitives.createGeometry(data);
+        };
+        Primitives.createIcosphere = function (radius, subdivisions) {
+            if (radius === void 0) { radius = 1; }
+            if (subdivisions === void 0) { subdivisions = 2; }
+            var t = (1 + Math.sqrt(5)) / 2;
+            var points = [
+                -1, t, 0, 1, t, 0, -1, -t, 0, 1, -t, 0,
+                0, -1, t, 0, 1, t, 0, -1, -t, 0, 1, -t,
+                t, 0, -1, t, 0, 1, -t, 0, -1, -t, 0, 1
+            ];
+            var faces = [
+                0, 11, 5, 0, 5, 1, 0, 1, 7, 0, 7, 10, 0, 10, 11,
+                1, 5, 9, 5, 11, 4, 11, 10, 2, 10, 7, 6, 7, 1, 8,
+                3, 9, 4, 3, 4, 2, 3, 2, 6, 3, 6, 8, 3, 8, 9,
+                4, 9, 5, 2, 4, 11, 6, 2, 10, 8, 6, 7, 9, 8, 1
+            ];
+            for (var i = 0; i < points.length; i += 3) {
+                Primitives.normalize(points, i);
+            }
+            for (var s = 0; s < subdivisions; s++) {
+                var next = [];
+                var midpoints = {};
+                var midpoint = function (a, b) {
+                    var key = a < b ? a + '_' + b : b + '_' + a;
+                    if (midpoints[key] === void 0) {
+                        midpoints[key] = points.length / 3;
+                        points.push((points[a * 3] + points[b * 3]) / 2, (points[a * 3 + 1] + points[b * 3 + 1]) / 2, (points[a * 3 + 2] + points[b * 3 + 2]) / 2);
+                        Primitives.normalize(points, points.length - 3);
+                    }
+                    return midpoints[key];
+                };
+                for (var f = 0; f < faces.length; f += 3) {
+                    var a = faces[f], b = faces[f + 1], c = faces[f + 2];
+                    var ab = midpoint(a, b), bc = midpoint(b, c), ca = midpoint(c, a);
+                    next.push(a, ab, ca, b, bc, ab, c, ca, bc, ab, bc, ca);
+                }
+                faces = next;
+            }
+            var data = Primitives.createData();
+            for (var i = 0; i < points.length; i += 3) {
+                var x = points[i], y = points[i + 1], z = points[i + 2];
+                data.positions.push(x * radius, y * radius, z * radius);
+                data.normals.push(x, y, z);
+                data.uvs.push(0.5 - Math.atan2(z, x) / (Math.PI * 2), 1 - Math.acos(Math.max(-1, Math.min(1, y))) / Math.PI);
+            }
+            data.indices = faces;
+            return Primitives.createGeometry(data);
+        };
+        Primitives.createCylinder = function (radiusTop, radiusBottom, height, radialSegments, heightSegments, openEnded) {
+            if (radiusTop === void 0) { radiusTop = 1; }
+            if (radiusBottom === void 0) { radiusBottom = 1; }
+            if (height === void 0) { height = 1; }
+            if (radialSegments === void 0) { radialSegments = 32; }
+            if (heightSegments === void 0) { heightSegments = 1; }
+            if (openEnded === void 0) { openEnded = false; }
+            var data = Primitives.createData();
+            var halfHeight = height / 2;
+            var slope = (radiusBottom - radiusTop) / height;
+            radialSegments = Math.max(3, radialSegments | 0);
+            heightSegments = Math.max(1, heightSegments | 0);
+            for (var iy = 0; iy <= heightSegments; iy++) {
+                var v = iy / heightSegments;
+                var radius = v * (radiusBottom - radiusTop) + radiusTop;
+                for (var ix = 0; ix <= radialSegments; ix++) {
+                    var u = ix / radialSegments;
+                    var sin = Math.sin(u * Math.PI * 2);
+                    var cos = Math.cos(u * Math.PI * 2);
+                    var length = Math.sqrt(sin * sin + slope * slope + cos * cos);
+                    data.positions.push(radius * sin, halfHeight - v * height, radius * cos);
+                    data.normals.push(sin / length, slope / length, cos / length);
+                    data.uvs.push(u, 1 - v);
+                }
+            }
+            var row = radialSegments + 1;
+            for (var iy = 0; iy < heightSegments; iy++) {
+                for (var ix = 0; ix < radialSegments; ix++) {
+                    var a = iy * row + ix;
+                    var b = (iy + 1) * row + ix;
+                    var c = (iy + 1) * row + ix + 1;
+                    var d = iy * row + ix + 1;
+                    data.indices.push(a, b, d, b, c, d);
+                }
+            }
+            if (!openEnded) {
+                if (radiusTop > 0)
+                    Primitives.addCap(data, radiusTop, halfHeight, 1, radialSegments);
+                if (radiusBottom > 0)
+                    Primitives.addCap(data, radiusBottom, halfHeight, -1, radialSegments);
+            }
+            return Primitives.createGeometry(data);
+        };
+        Primitives.createCone = function (radius, height, radialSegments, heightSegments, openEnded) {
+            if (radius === void 0) { radius = 1; }
+            if (height === void 0) { height = 1; }
+            if (radialSegments === void 0) { radialSegments = 32; }
+            if (heightSegments === void 0) { heightSegments = 1; }
+            if (openEnded === void 0) { openEnded = false; }
+            return Primitives.createCylinder(0, radius, height, radialSegments, heightSegments, openEnded);
+        };
+        Primitives.createTorus = function (radius, tube, radialSegments, tubularSegments) {
+            if (radius === void 0) { radius = 1; }
+            if (tube === void 0) { tube = 0.4; }
+            if (radialSegments === void 0) { radialSegments = 12; }
+            if (tubularSegments === void 0) { tubularSegments = 48; }
+            var data = Primitives.createData();
+            radialSegments = Math.max(3, radialSegments | 0);
+            tubularSegments = Math.max(3, tubularSegments | 0);
+            for (var j = 0; j <= radialSegments; j++) {
+                var v = j / radialSegments * Math.PI * 2;
+                for (var i = 0; i <= tubularSegments; i++) {
+                    var u = i / tubularSegments * Math.PI * 2;
+                    var cosU = Math.cos(u), sinU = Math.sin(u);
+                    data.positions.push((radius + tube * Math.cos(v)) * cosU, (radius + tube * Math.cos(v)) * sinU, tube * Math.sin(v));
+                    data.normals.push(Math.cos(v) * cosU, Math.cos(v) * sinU, Math.sin(v));
+                    data.uvs.push(i / tubularSegments, j / radialSegments);
+                }
+            }
+            var row = tubularSegments + 1;
+            for (var j = 1; j <= radialSegments; j++) {
+                for (var i = 1; i <= tubularSegments; i++) {
+                    var a = row * j + i - 1;
+                    var b = row * (j - 1) + i - 1;
+                    var c = row * (j - 1) + i;
+                    var d = row * j + i;
+                    data.indices.push(a, b, d, b, c, d);
+                }
+            }
+            return Primitives.createGeometry(data);
+        };
+        Primitives.createRing = function (innerRadius, outerRadius, thetaSegments, phiSegments) {
+            if (innerRadius === void 0) { innerRadius = 0.5; }
+            if (outerRadius === void 0) { outerRadius = 1; }
+            if (thetaSegments === void 0) { thetaSegments = 32; }
+            if (phiSegments === void 0) { phiSegments = 1; }
+            var data = Primitives.createData();
+            thetaSegments = Math.max(3, thetaSegments | 0);
+            phiSegments = Math.max(1, phiSegments | 0);
+            for (var j = 0; j <= phiSegments; j++) {
+                var radius = innerRadius + (outerRadius - innerRadius) * j / phiSegments;
+                for (var i = 0; i <= thetaSegments; i++) {
+                    var theta = i / thetaSegments * Math.PI * 2;
+                    var x = radius * Math.cos(theta);
+                    var y = radius * Math.sin(theta);
+                    data.positions.push(x, y, 0);
+                    data.normals.push(0, 0, 1);
+                    data.uvs.push((x / outerRadius + 1) / 2, (y / outerRadius + 1) / 2);
+                }
+            }
+            var row = thetaSegments + 1;
+            for (var j = 0; j < phiSegments; j++) {
+                for (var i = 0; i < thetaSegments; i++) {
+                    var a = j * row + i;
+                    var b = a + row;
+                    var c = a + row + 1;
+                    var d = a + 1;
+                    data.indices.push(a, b, d, b, c, d);
+                }
+            }
+            return Primitives.createGeometry(data);
+        };
+        Primitives.createData = function () {
+            return { positions: [], normals: [], uvs: [], indices: [] };
+        };
+        Primitives.createGeometry = function (data) {
+            return new Geometry_1.Geometry()
+                .setAttribute(Geometry_1.Geometry.POSITION, data.positions, 3)
+                .setAttribute(Geometry_1.Geometry.NORMAL, data.normals, 3)
+                .setAttribute(Geometry_1.Geometry.UV, data.uvs, 2)
+                .setIndex(data.indices);
+        };
+        Primitives.addPlane = function (data, u, v, w, uDirection, vDirection, width, height, depth, gridX, gridY) {
+            var start = data.positions.length / 3;
+            var position = [0, 0, 0];
+            var normal = [0, 0, 0];
+            normal[w] = depth < 0 ? -1 : 1;
+            for (var iy = 0; iy <= gridY; iy++) {
+                for (var ix = 0; ix <= gridX; ix++) {
+                    position[u] = (ix / gridX - 0.5) * width * uDirection;
+                    position[v] = (iy / gridY - 0.5) * height * vDirection;
+                    position[w] = depth / 2;
+                    data.positions.push(position[0], position[1], position[2]);
+                    data.normals.push(normal[0], normal[1], normal[2]);
+                    data.uvs.push(ix / gridX, 1 - iy / gridY);
+                }
+            }
+            var row = gridX + 1;
+            for (var iy = 0; iy < gridY; iy++) {
+                for (var ix = 0; ix < gridX; ix++) {
+                    var a = start + iy * row + ix;
+                    var b = start + (iy + 1) * row + ix;
+                    var c = start + (iy + 1) * row + ix + 1;
+                    var d = start + iy * row + ix + 1;
+                    data.indices.push(a, b, d, b, c, d);
+                }
+            }
+        };
+        Primitives.addCap = function (data, radius, halfHeight, sign, radialSegments) {
+            var centerStart = data.positions.length / 3;
+            for (var x = 0; x < radialSegments; x++) {
+                data.positions.push(0, halfHeight * sign, 0);
+                data.normals.push(0, sign, 0);
+                data.uvs.push(0.5, 0.5);
+            }
+            var edgeStart = data.positions.length / 3;
+            for (var x = 0; x <= radialSegments; x++) {
+                var theta = x / radialSegments * Math.PI * 2;
+                var sin = Math.sin(theta);
+                var cos = Math.cos(theta);
+                data.positions.push(radius * sin, halfHeight * sign, radius * cos);
+                data.normals.push(0, sign, 0);
+                data.uvs.push(cos * 0.5 + 0.5, sin * 0.5 * sign + 0.5);
+            }
+            for (var x = 0; x < radialSegments; x++) {
+                var center = centerStart + x;
+                var edge = edgeStart + x;
+                if (sign > 0) {
+                    data.indices.push(edge, edge + 1, center);
+                }
+                else {
+                    data.indices.push(edge + 1, edge, center);
+                }
+            }
+        };
+        Primitives.normalize = function (points, offset) {
+            var length = Math.sqrt(points[offset] * points[offset] + points[offset + 1] * points[offset + 1] + points[offset + 2] * points[offset + 2]);
+            points[offset] /= length;
+            points[offset + 1] /= length;
+            points[offset + 2] /= length;
+        };
+        return Primitives;
+    }());
+    exports.Primitives = Primitives;
+});
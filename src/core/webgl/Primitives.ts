@@ -0,0 +1,511 @@
+import {Geometry} from "./Geometry";
+
+// the arrays a generator fills before they are turned into a Geometry
+interface IPrimitiveData
+{
+	positions:Array<number>;
+	normals:Array<number>;
+	uvs:Array<number>;
+	indices:Array<number>;
+}
+
+/**
+ * Generates geometries with positions, normals, texture coordinates and indices. Sizes are in local units
+ * around the origin, y points up and triangles wind counter clockwise seen from the outside. The amount of
+ * segments sets how many vertices are used along each direction.
+ *
+ * <h4>Example</h4>
+ *
+ *      var sphere = Primitives.createSphere(1, 32, 16);
+ *      var buffer = new Buffer(gl, sphere);
+ *
+ *      program.bindVertexLayout(buffer, sphere.getLayout());
+ *
+ * @class Primitives
+ */
+export class Primitives
+{
+	/**
+	 * A plane in the xy plane facing +z.
+	 *
+	 * @method createPlane
+	 * @param {number} [width=1]
+	 * @param {number} [height=1]
+	 * @param {number} [widthSegments=1]
+	 * @param {number} [heightSegments=1]
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createPlane(width:number = 1, height:number = 1, widthSegments:number = 1, heightSegments:number = 1):Geometry
+	{
+		var data = Primitives.createData();
+
+		Primitives.addPlane(data, 0, 1, 2, 1, -1, width, height, 0, Math.max(1, widthSegments | 0), Math.max(1, heightSegments | 0));
+
+		return Primitives.createGeometry(data);
+	}
+
+	/**
+	 * A box made of six planes, every side has its own vertices so the normals are flat.
+	 *
+	 * @method createBox
+	 * @param {number} [width=1]
+	 * @param {number} [height=1]
+	 * @param {number} [depth=1]
+	 * @param {number} [widthSegments=1]
+	 * @param {number} [heightSegments=1]
+	 * @param {number} [depthSegments=1]
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createBox(width:number = 1, height:number = 1, depth:number = 1, widthSegments:number = 1, heightSegments:number = 1, depthSegments:number = 1):Geometry
+	{
+		var data = Primitives.createData();
+
+		widthSegments = Math.max(1, widthSegments | 0);
+		heightSegments = Math.max(1, heightSegments | 0);
+		depthSegments = Math.max(1, depthSegments | 0);
+
+		// +x, -x, +y, -y, +z, -z
+		Primitives.addPlane(data, 2, 1, 0, -1, -1, depth, height, width, depthSegments, heightSegments);
+		Primitives.addPlane(data, 2, 1, 0, 1, -1, depth, height, -width, depthSegments, heightSegments);
+		Primitives.addPlane(data, 0, 2, 1, 1, 1, width, depth, height, widthSegments, depthSegments);
+		Primitives.addPlane(data, 0, 2, 1, 1, -1, width, depth, -height, widthSegments, depthSegments);
+		Primitives.addPlane(data, 0, 1, 2, 1, -1, width, height, depth, widthSegments, heightSegments);
+		Primitives.addPlane(data, 0, 1, 2, -1, -1, width, height, -depth, widthSegments, heightSegments);
+
+		return Primitives.createGeometry(data);
+	}
+
+	/**
+	 * A sphere of rings from pole to pole, u goes around the y axis and v from the top to the bottom.
+	 *
+	 * @method createSphere
+	 * @param {number} [radius=1]
+	 * @param {number} [widthSegments=32] segments around the y axis
+	 * @param {number} [heightSegments=16] rings from pole to pole
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createSphere(radius:number = 1, widthSegments:number = 32, heightSegments:number = 16):Geometry
+	{
+		var data = Primitives.createData();
+
+		widthSegments = Math.max(3, widthSegments | 0);
+		heightSegments = Math.max(2, heightSegments | 0);
+
+		for(var iy = 0; iy <= heightSegments; iy++)
+		{
+			var v = iy / heightSegments;
+
+			for(var ix = 0; ix <= widthSegments; ix++)
+			{
+				var u = ix / widthSegments;
+				var x = -Math.cos(u * Math.PI * 2) * Math.sin(v * Math.PI);
+				var y = Math.cos(v * Math.PI);
+				var z = Math.sin(u * Math.PI * 2) * Math.sin(v * Math.PI);
+
+				data.positions.push(x * radius, y * radius, z * radius);
+				data.normals.push(x, y, z);
+				data.uvs.push(u, 1 - v);
+			}
+		}
+
+		var row = widthSegments + 1;
+
+		for(var iy = 0; iy < heightSegments; iy++)
+		{
+			for(var ix = 0; ix < widthSegments; ix++)
+			{
+				var a = iy * row + ix + 1;
+				var b = iy * row + ix;
+				var c = (iy + 1) * row + ix;
+				var d = (iy + 1) * row + ix + 1;
+
+				// the rows at the poles collapse to a point, they only need one triangle per segment
+				if(iy != 0) data.indices.push(a, b, d);
+				if(iy != heightSegments - 1) data.indices.push(b, c, d);
+			}
+		}
+
+		return Primitives.createGeometry(data);
+	}
+
+	/**
+	 * A sphere made by subdividing an icosahedron, the triangles are close to the same size everywhere. Every
+	 * subdivision splits each triangle in four. Texture coordinates are spherical and stretch at the seam.
+	 *
+	 * @method createIcosphere
+	 * @param {number} [radius=1]
+	 * @param {number} [subdivisions=2]
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createIcosphere(radius:number = 1, subdivisions:number = 2):Geometry
+	{
+		var t = (1 + Math.sqrt(5)) / 2;
+		var points = [
+			-1, t, 0,  1, t, 0,  -1, -t, 0,  1, -t, 0,
+			0, -1, t,  0, 1, t,  0, -1, -t,  0, 1, -t,
+			t, 0, -1,  t, 0, 1,  -t, 0, -1,  -t, 0, 1
+		];
+		var faces = [
+			0, 11, 5,  0, 5, 1,  0, 1, 7,  0, 7, 10,  0, 10, 11,
+			1, 5, 9,  5, 11, 4,  11, 10, 2,  10, 7, 6,  7, 1, 8,
+			3, 9, 4,  3, 4, 2,  3, 2, 6,  3, 6, 8,  3, 8, 9,
+			4, 9, 5,  2, 4, 11,  6, 2, 10,  8, 6, 7,  9, 8, 1
+		];
+
+		for(var i = 0; i < points.length; i += 3)
+		{
+			Primitives.normalize(points, i);
+		}
+
+		for(var s = 0; s < subdivisions; s++)
+		{
+			var next:Array<number> = [];
+			var midpoints:{[edge:string]:number} = {};
+
+			var midpoint = (a:number, b:number):number => {
+				var key = a < b ? a + '_' + b : b + '_' + a;
+
+				if(midpoints[key] === void 0)
+				{
+					midpoints[key] = points.length / 3;
+					points.push(
+						(points[a * 3] + points[b * 3]) / 2,
+						(points[a * 3 + 1] + points[b * 3 + 1]) / 2,
+						(points[a * 3 + 2] + points[b * 3 + 2]) / 2
+					);
+					Primitives.normalize(points, points.length - 3);
+				}
+
+				return midpoints[key];
+			};
+
+			for(var f = 0; f < faces.length; f += 3)
+			{
+				var a = faces[f], b = faces[f + 1], c = faces[f + 2];
+				var ab = midpoint(a, b), bc = midpoint(b, c), ca = midpoint(c, a);
+
+				next.push(a, ab, ca,  b, bc, ab,  c, ca, bc,  ab, bc, ca);
+			}
+
+			faces = next;
+		}
+
+		var data = Primitives.createData();
+
+		for(var i = 0; i < points.length; i += 3)
+		{
+			var x = points[i], y = points[i + 1], z = points[i + 2];
+
+			data.positions.push(x * radius, y * radius, z * radius);
+			data.normals.push(x, y, z);
+			data.uvs.push(0.5 - Math.atan2(z, x) / (Math.PI * 2), 1 - Math.acos(Math.max(-1, Math.min(1, y))) / Math.PI);
+		}
+
+		data.indices = faces;
+
+		return Primitives.createGeometry(data);
+	}
+
+	/**
+	 * A cylinder along the y axis, a different top and bottom radius makes a truncated cone.
+	 *
+	 * @method createCylinder
+	 * @param {number} [radiusTop=1]
+	 * @param {number} [radiusBottom=1]
+	 * @param {number} [height=1]
+	 * @param {number} [radialSegments=32]
+	 * @param {number} [heightSegments=1]
+	 * @param {boolean} [openEnded=false] leaves out the caps
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createCylinder(radiusTop:number = 1, radiusBottom:number = 1, height:number = 1, radialSegments:number = 32, heightSegments:number = 1, openEnded:boolean = false):Geometry
+	{
+		var data = Primitives.createData();
+		var halfHeight = height / 2;
+		var slope = (radiusBottom - radiusTop) / height;
+
+		radialSegments = Math.max(3, radialSegments | 0);
+		heightSegments = Math.max(1, heightSegments | 0);
+
+		for(var iy = 0; iy <= heightSegments; iy++)
+		{
+			var v = iy / heightSegments;
+			var radius = v * (radiusBottom - radiusTop) + radiusTop;
+
+			for(var ix = 0; ix <= radialSegments; ix++)
+			{
+				var u = ix / radialSegments;
+				var sin = Math.sin(u * Math.PI * 2);
+				var cos = Math.cos(u * Math.PI * 2);
+				var length = Math.sqrt(sin * sin + slope * slope + cos * cos);
+
+				data.positions.push(radius * sin, halfHeight - v * height, radius * cos);
+				data.normals.push(sin / length, slope / length, cos / length);
+				data.uvs.push(u, 1 - v);
+			}
+		}
+
+		var row = radialSegments + 1;
+
+		for(var iy = 0; iy < heightSegments; iy++)
+		{
+			for(var ix = 0; ix < radialSegments; ix++)
+			{
+				var a = iy * row + ix;
+				var b = (iy + 1) * row + ix;
+				var c = (iy + 1) * row + ix + 1;
+				var d = iy * row + ix + 1;
+
+				data.indices.push(a, b, d, b, c, d);
+			}
+		}
+
+		if(!openEnded)
+		{
+			if(radiusTop > 0) Primitives.addCap(data, radiusTop, halfHeight, 1, radialSegments);
+			if(radiusBottom > 0) Primitives.addCap(data, radiusBottom, halfHeight, -1, radialSegments);
+		}
+
+		return Primitives.createGeometry(data);
+	}
+
+	/**
+	 * A cone along the y axis with the tip at the top.
+	 *
+	 * @method createCone
+	 * @param {number} [radius=1]
+	 * @param {number} [height=1]
+	 * @param {number} [radialSegments=32]
+	 * @param {number} [heightSegments=1]
+	 * @param {boolean} [openEnded=false] leaves out the base
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createCone(radius:number = 1, height:number = 1, radialSegments:number = 32, heightSegments:number = 1, openEnded:boolean = false):Geometry
+	{
+		return Primitives.createCylinder(0, radius, height, radialSegments, heightSegments, openEnded);
+	}
+
+	/**
+	 * A torus around the z axis.
+	 *
+	 * @method createTorus
+	 * @param {number} [radius=1] from the center to the middle of the tube
+	 * @param {number} [tube=0.4] radius of the tube
+	 * @param {number} [radialSegments=12] segments around the tube
+	 * @param {number} [tubularSegments=48] segments around the center
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createTorus(radius:number = 1, tube:number = 0.4, radialSegments:number = 12, tubularSegments:number = 48):Geometry
+	{
+		var data = Primitives.createData();
+
+		radialSegments = Math.max(3, radialSegments | 0);
+		tubularSegments = Math.max(3, tubularSegments | 0);
+
+		for(var j = 0; j <= radialSegments; j++)
+		{
+			var v = j / radialSegments * Math.PI * 2;
+
+			for(var i = 0; i <= tubularSegments; i++)
+			{
+				var u = i / tubularSegments * Math.PI * 2;
+				var cosU = Math.cos(u), sinU = Math.sin(u);
+
+				data.positions.push((radius + tube * Math.cos(v)) * cosU, (radius + tube * Math.cos(v)) * sinU, tube * Math.sin(v));
+				data.normals.push(Math.cos(v) * cosU, Math.cos(v) * sinU, Math.sin(v));
+				data.uvs.push(i / tubularSegments, j / radialSegments);
+			}
+		}
+
+		var row = tubularSegments + 1;
+
+		for(var j = 1; j <= radialSegments; j++)
+		{
+			for(var i = 1; i <= tubularSegments; i++)
+			{
+				var a = row * j + i - 1;
+				var b = row * (j - 1) + i - 1;
+				var c = row * (j - 1) + i;
+				var d = row * j + i;
+
+				data.indices.push(a, b, d, b, c, d);
+			}
+		}
+
+		return Primitives.createGeometry(data);
+	}
+
+	/**
+	 * A flat ring in the xy plane facing +z, an inner radius of 0 makes a disc.
+	 *
+	 * @method createRing
+	 * @param {number} [innerRadius=0.5]
+	 * @param {number} [outerRadius=1]
+	 * @param {number} [thetaSegments=32] segments around the center
+	 * @param {number} [phiSegments=1] segments from the inside to the outside
+	 * @returns {Geometry}
+	 * @static
+	 */
+	public static createRing(innerRadius:number = 0.5, outerRadius:number = 1, thetaSegments:number = 32, phiSegments:number = 1):Geometry
+	{
+		var data = Primitives.createData();
+
+		thetaSegments = Math.max(3, thetaSegments | 0);
+		phiSegments = Math.max(1, phiSegments | 0);
+
+		for(var j = 0; j <= phiSegments; j++)
+		{
+			var radius = innerRadius + (outerRadius - innerRadius) * j / phiSegments;
+
+			for(var i = 0; i <= thetaSegments; i++)
+			{
+				var theta = i / thetaSegments * Math.PI * 2;
+				var x = radius * Math.cos(theta);
+				var y = radius * Math.sin(theta);
+
+				data.positions.push(x, y, 0);
+				data.normals.push(0, 0, 1);
+				data.uvs.push((x / outerRadius + 1) / 2, (y / outerRadius + 1) / 2);
+			}
+		}
+
+		var row = thetaSegments + 1;
+
+		for(var j = 0; j < phiSegments; j++)
+		{
+			for(var i = 0; i < thetaSegments; i++)
+			{
+				var a = j * row + i;
+				var b = a + row;
+				var c = a + row + 1;
+				var d = a + 1;
+
+				data.indices.push(a, b, d, b, c, d);
+			}
+		}
+
+		return Primitives.createGeometry(data);
+	}
+
+	protected static createData():IPrimitiveData
+	{
+		return {positions: [], normals: [], uvs: [], indices: []};
+	}
+
+	protected static createGeometry(data:IPrimitiveData):Geometry
+	{
+		return new Geometry()
+			.setAttribute(Geometry.POSITION, data.positions, 3)
+			.setAttribute(Geometry.NORMAL, data.normals, 3)
+			.setAttribute(Geometry.UV, data.uvs, 2)
+			.setIndex(data.indices);
+	}
+
+	/**
+	 * Adds a grid of vertices. u, v and w are the axes (0 = x, 1 = y, 2 = z) the grid spans and faces, the side
+	 * it faces is the sign of depth.
+	 *
+	 * @method addPlane
+	 * @static
+	 */
+	protected static addPlane(data:IPrimitiveData, u:number, v:number, w:number, uDirection:number, vDirection:number, width:number, height:number, depth:number, gridX:number, gridY:number):void
+	{
+		var start = data.positions.length / 3;
+		var position = [0, 0, 0];
+		var normal = [0, 0, 0];
+
+		normal[w] = depth < 0 ? -1 : 1;
+
+		for(var iy = 0; iy <= gridY; iy++)
+		{
+			for(var ix = 0; ix <= gridX; ix++)
+			{
+				position[u] = (ix / gridX - 0.5) * width * uDirection;
+				position[v] = (iy / gridY - 0.5) * height * vDirection;
+				position[w] = depth / 2;
+
+				data.positions.push(position[0], position[1], position[2]);
+				data.normals.push(normal[0], normal[1], normal[2]);
+				data.uvs.push(ix / gridX, 1 - iy / gridY);
+			}
+		}
+
+		var row = gridX + 1;
+
+		for(var iy = 0; iy < gridY; iy++)
+		{
+			for(var ix = 0; ix < gridX; ix++)
+			{
+				var a = start + iy * row + ix;
+				var b = start + (iy + 1) * row + ix;
+				var c = start + (iy + 1) * row + ix + 1;
+				var d = start + iy * row + ix + 1;
+
+				data.indices.push(a, b, d, b, c, d);
+			}
+		}
+	}
+
+	/**
+	 * Adds the cap of a cylinder, a fan around the center with a center vertex per segment so the texture does not
+	 * twist.
+	 *
+	 * @method addCap
+	 * @static
+	 */
+	protected static addCap(data:IPrimitiveData, radius:number, halfHeight:number, sign:number, radialSegments:number):void
+	{
+		var centerStart = data.positions.length / 3;
+
+		for(var x = 0; x < radialSegments; x++)
+		{
+			data.positions.push(0, halfHeight * sign, 0);
+			data.normals.push(0, sign, 0);
+			data.uvs.push(0.5, 0.5);
+		}
+
+		var edgeStart = data.positions.length / 3;
+
+		for(var x = 0; x <= radialSegments; x++)
+		{
+			var theta = x / radialSegments * Math.PI * 2;
+			var sin = Math.sin(theta);
+			var cos = Math.cos(theta);
+
+			data.positions.push(radius * sin, halfHeight * sign, radius * cos);
+			data.normals.push(0, sign, 0);
+			data.uvs.push(cos * 0.5 + 0.5, sin * 0.5 * sign + 0.5);
+		}
+
+		for(var x = 0; x < radialSegments; x++)
+		{
+			var center = centerStart + x;
+			var edge = edgeStart + x;
+
+			if(sign > 0)
+			{
+				data.indices.push(edge, edge + 1, center);
+			}
+			else
+			{
+				data.indices.push(edge + 1, edge, center);
+			}
+		}
+	}
+
+	protected static normalize(points:Array<number>, offset:number):void
+	{
+		var length = Math.sqrt(points[offset] * points[offset] + points[offset + 1] * points[offset + 1] + points[offset + 2] * points[offset + 2]);
+
+		points[offset] /= length;
+		points[offset + 1] /= length;
+		points[offset + 2] /= length;
+	}
+}
\ No newline at end of file
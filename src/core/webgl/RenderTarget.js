@@ -0,0 +1,120 @@
+define(["require", "exports", "../../visual/display/RenderTexture", "./GLState", "./GPUResources"], function (require, exports, RenderTexture_1, GLState_1, GPUResources_1) {
+    "use strict";
+    var RenderTarget = (function () {
+        function RenderTarget(gl, width, height, depth, stencil) {
+            var _this = this;
+            if (depth === void 0) { depth = false; }
+            if (stencil === void 0) { stencil = false; }
+            this.renderbuffer = null;
+            this._viewport = null;
+            this._resizeConnection = null;
+            this.handleResize = function (width, height) {
+                _this.setSize(width, height);
+            };
+            this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
+            this._depth = depth;
+            this._stencil = stencil;
+            this.texture = new RenderTexture_1.RenderTexture(width, height);
+            this.framebuffer = gl.createFramebuffer();
+            if (depth || stencil) {
+                this.renderbuffer = gl.createRenderbuffer();
+            }
+            this.setSize(width, height);
+            GPUResources_1.GPUResources.get(gl).add(this, GPUResources_1.GPUResources.PRIORITY_DEPENDENT);
+        }
+        RenderTarget.createFromCanvas = function (gl, canvas, depth, stencil) {
+            if (depth === void 0) { depth = false; }
+            if (stencil === void 0) { stencil = false; }
+            return new RenderTarget(gl, canvas.getWidth(), canvas.getHeight(), depth, stencil).follow(canvas);
+        };
+        RenderTarget.prototype.getWidth = function () {
+            return this._width;
+        };
+        RenderTarget.prototype.getHeight = function () {
+            return this._height;
+        };
+        RenderTarget.prototype.setSize = function (width, height) {
+            var gl = this._gl;
+            var previous = gl.getParameter(gl.FRAMEBUFFER_BINDING);
+            this._width = width = Math.max(1, width | 0);
+            this._height = height = Math.max(1, height | 0);
+            this.texture.allocate(gl, width, height);
+            this._state.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+            gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, this.texture.texture, 0);
+            if (this.renderbuffer) {
+                gl.bindRenderbuffer(gl.RENDERBUFFER, this.renderbuffer);
+                if (this._depth && this._stencil) {
+                    gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_STENCIL, width, height);
+                    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_STENCIL_ATTACHMENT, gl.RENDERBUFFER, this.renderbuffer);
+                }
+                else if (this._depth) {
+                    gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT16, width, height);
+                    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, this.renderbuffer);
+                }
+                else {
+                    gl.renderbufferStorage(gl.RENDERBUFFER, gl.STENCIL_INDEX8, width, height);
+                    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.STENCIL_ATTACHMENT, gl.RENDERBUFFER, this.renderbuffer);
+                }
+                gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+            }
+            var status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+            this._state.bindFramebuffer(gl.FRAMEBUFFER, previous);
+            if (status != gl.FRAMEBUFFER_COMPLETE) {
+                throw new Error('framebuffer is incomplete, status 0x' + status.toString(16));
+            }
+        };
+        RenderTarget.prototype.follow = function (canvas) {
+            if (this._resizeConnection) {
+                this._resizeConnection.dispose();
+            }
+            this._resizeConnection = canvas.onResize.connect(this.handleResize);
+            return this;
+        };
+        RenderTarget.prototype.bind = function () {
+            var gl = this._gl;
+            if (!this._viewport) {
+                this._viewport = this._state.getViewport();
+            }
+            this._state.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+            this._state.viewport(0, 0, this._width, this._height);
+            return this;
+        };
+        RenderTarget.prototype.unbind = function () {
+            var gl = this._gl;
+            var viewport = this._viewport;
+            this._state.bindFramebuffer(gl.FRAMEBUFFER, null);
+            if (viewport) {
+                this._state.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+                this._viewport = null;
+            }
+            return this;
+        };
+        RenderTarget.prototype.restore = function (gl) {
+            this.framebuffer = gl.createFramebuffer();
+            this.renderbuffer = this.renderbuffer ? gl.createRenderbuffer() : null;
+            this._viewport = null;
+            this.setSize(this._width, this._height);
+        };
+        RenderTarget.prototype.destruct = function () {
+            var gl = this._gl;
+            GPUResources_1.GPUResources.get(gl).remove(this);
+            if (this._resizeConnection) {
+                this._resizeConnection.dispose();
+                this._resizeConnection = null;
+            }
+            if (this.renderbuffer) {
+                gl.deleteRenderbuffer(this.renderbuffer);
+                this.renderbuffer = null;
+            }
+            this._state.deleteFramebuffer(this.framebuffer);
+            this.framebuffer = null;
+            this.texture.destruct(gl);
+            this.texture = null;
+            this._gl = null;
+            this._state = null;
+        };
+        return RenderTarget;
+    }());
+    exports.RenderTarget = RenderTarget;
+});
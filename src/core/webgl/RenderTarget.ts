@@ -0,0 +1,247 @@
+import {RenderTexture} from "../../visual/display/RenderTexture";
+import {Canvas} from "../../visual/renderer/element/Canvas";
+import {SignalConnection} from "../event/SignalConnection";
+import {GLState} from "./GLState";
+import {GPUResources} from "./GPUResources";
+import IGPUResource from "../interface/IGPUResource";
+
+/**
+ * Off-screen render target, a framebuffer with a colour texture and optionally a depth and/or stencil
+ * renderbuffer. The colour texture can be used anywhere an AbstractTexture is accepted.
+ *
+ * <h4>Example</h4>
+ *
+ *      var target = new RenderTarget(gl, 512, 512, true);
+ *      target.bind();
+ *      // draw the scene
+ *      target.unbind();
+ *      uTexture.setValue(target.texture);
+ *
+ * @class RenderTarget
+ * @param {WebGLRenderingContext} gl
+ * @param {number} width
+ * @param {number} height
+ * @param {boolean} [depth=false] attach a depth renderbuffer
+ * @param {boolean} [stencil=false] attach a stencil renderbuffer
+ */
+export class RenderTarget implements IGPUResource
+{
+	/**
+	 * Creates a render target the size of the canvas that resizes along with it.
+	 *
+	 * @method createFromCanvas
+	 * @param {WebGLRenderingContext} gl
+	 * @param {Canvas} canvas
+	 * @param {boolean} [depth=false]
+	 * @param {boolean} [stencil=false]
+	 * @returns {RenderTarget}
+	 */
+	public static createFromCanvas(gl:WebGLRenderingContext, canvas:Canvas, depth:boolean = false, stencil:boolean = false):RenderTarget
+	{
+		return new RenderTarget(gl, canvas.getWidth(), canvas.getHeight(), depth, stencil).follow(canvas);
+	}
+
+	public framebuffer:WebGLFramebuffer;
+	public renderbuffer:WebGLRenderbuffer = null;
+	public texture:RenderTexture;
+
+	protected _gl:WebGLRenderingContext;
+	protected _state:GLState;
+	protected _width:number;
+	protected _height:number;
+	protected _depth:boolean;
+	protected _stencil:boolean;
+	protected _viewport:Int32Array = null;
+	protected _resizeConnection:SignalConnection = null;
+
+	constructor(gl:WebGLRenderingContext, width:number, height:number, depth:boolean = false, stencil:boolean = false)
+	{
+		this._gl = gl;
+		this._state = GLState.get(gl);
+		this._depth = depth;
+		this._stencil = stencil;
+
+		this.texture = new RenderTexture(width, height);
+		this.framebuffer = gl.createFramebuffer();
+
+		if(depth || stencil)
+		{
+			this.renderbuffer = gl.createRenderbuffer();
+		}
+
+		this.setSize(width, height);
+
+		// restored after the texture, setSize binds it
+		GPUResources.get(gl).add(this, GPUResources.PRIORITY_DEPENDENT);
+	}
+
+	public getWidth():number
+	{
+		return this._width;
+	}
+
+	public getHeight():number
+	{
+		return this._height;
+	}
+
+	/**
+	 * Reallocates the attachments, the content of the target is lost. The framebuffer that was bound before stays
+	 * bound.
+	 *
+	 * @method setSize
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public setSize(width:number, height:number):void
+	{
+		var gl = this._gl;
+		var previous = gl.getParameter(gl.FRAMEBUFFER_BINDING);
+
+		this._width = width = Math.max(1, width | 0);
+		this._height = height = Math.max(1, height | 0);
+
+		this.texture.allocate(gl, width, height);
+
+		this._state.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+		gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, this.texture.texture, 0);
+
+		if(this.renderbuffer)
+		{
+			gl.bindRenderbuffer(gl.RENDERBUFFER, this.renderbuffer);
+
+			if(this._depth && this._stencil)
+			{
+				gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_STENCIL, width, height);
+				gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_STENCIL_ATTACHMENT, gl.RENDERBUFFER, this.renderbuffer);
+			}
+			else if(this._depth)
+			{
+				gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT16, width, height);
+				gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, this.renderbuffer);
+			}
+			else
+			{
+				gl.renderbufferStorage(gl.RENDERBUFFER, gl.STENCIL_INDEX8, width, height);
+				gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.STENCIL_ATTACHMENT, gl.RENDERBUFFER, this.renderbuffer);
+			}
+
+			gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+		}
+
+		var status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+		this._state.bindFramebuffer(gl.FRAMEBUFFER, previous);
+
+		if(status != gl.FRAMEBUFFER_COMPLETE)
+		{
+			throw new Error('framebuffer is incomplete, status 0x' + status.toString(16));
+		}
+	}
+
+	/**
+	 * Keeps the size of this target in sync with the canvas.
+	 *
+	 * @method follow
+	 * @param {Canvas} canvas
+	 * @returns {RenderTarget}
+	 */
+	public follow(canvas:Canvas):this
+	{
+		if(this._resizeConnection)
+		{
+			this._resizeConnection.dispose();
+		}
+
+		this._resizeConnection = canvas.onResize.connect(this.handleResize);
+		return this;
+	}
+
+	protected handleResize = (width:number, height:number) => {
+		this.setSize(width, height);
+	};
+
+	/**
+	 * Directs all drawing to this target and sets the viewport to its size.
+	 *
+	 * @method bind
+	 * @returns {RenderTarget}
+	 */
+	public bind():this
+	{
+		var gl = this._gl;
+
+		if(!this._viewport)
+		{
+			this._viewport = this._state.getViewport();
+		}
+
+		this._state.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+		this._state.viewport(0, 0, this._width, this._height);
+
+		return this;
+	}
+
+	/**
+	 * Directs drawing back to the canvas and restores the viewport that was active before bind.
+	 *
+	 * @method unbind
+	 * @returns {RenderTarget}
+	 */
+	public unbind():this
+	{
+		var gl = this._gl;
+		var viewport = this._viewport;
+
+		this._state.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+		if(viewport)
+		{
+			this._state.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+			this._viewport = null;
+		}
+
+		return this;
+	}
+
+	/**
+	 * Recreates the framebuffer and renderbuffer after the context was restored, the content is lost.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		this.framebuffer = gl.createFramebuffer();
+		this.renderbuffer = this.renderbuffer ? gl.createRenderbuffer() : null;
+		this._viewport = null;
+
+		this.setSize(this._width, this._height);
+	}
+
+	public destruct():void
+	{
+		var gl = this._gl;
+
+		GPUResources.get(gl).remove(this);
+
+		if(this._resizeConnection)
+		{
+			this._resizeConnection.dispose();
+			this._resizeConnection = null;
+		}
+
+		if(this.renderbuffer)
+		{
+			gl.deleteRenderbuffer(this.renderbuffer);
+			this.renderbuffer = null;
+		}
+
+		this._state.deleteFramebuffer(this.framebuffer);
+		this.framebuffer = null;
+
+		this.texture.destruct(gl);
+		this.texture = null;
+		this._gl = null;
+		this._state = null;
+	}
+}
\ No newline at end of file
@@ -1,12 +1,12 @@
-define(["require", "exports", "./ShaderType", "../../core/net/HttpRequest", "../../core/util/Promise"], function (require, exports, ShaderType_1, HttpRequest_1, Promise_1) {
+define(["require", "exports", "./ShaderType", "../../core/net/HttpRequest", "../../core/util/Promise", "./ShaderChunk", "./ShaderPreprocessor", "./ShaderError", "./GPUResources"], function (require, exports, ShaderType_1, HttpRequest_1, Promise_1, ShaderChunk_1, ShaderPreprocessor_1, ShaderError_1, GPUResources_1) {
     "use strict";
     var Shader = (function () {
         function Shader(type, data) {
             this._hasLoaded = false;
             this.type = type;
             if (data && typeof data == 'string') {
-                this._hasLoaded = true;
                 this._data = data;
+                this._hasLoaded = ShaderChunk_1.ShaderChunk.hasLoadedIncludes(this._data);
             }
             else {
                 this._hasLoaded = false;
@@ -15,7 +15,7 @@ define(["require", "exports", "./ShaderType", "../../core/net/HttpRequest", "../
         }
         Shader.createFromUrl = function (type, url) {
             return HttpRequest_1.HttpRequest.getString(url).then(function (data) {
-                return new Shader(type, data);
+                return new Shader(type, data).load();
             });
         };
         Shader.prototype.hasLoaded = function () {
@@ -26,44 +26,85 @@ define(["require", "exports", "./ShaderType", "../../core/net/HttpRequest", "../
             if (!this._data && !this._request) {
                 throw new Error('data has not been set so load has nothing to load.');
             }
-            else if (this._data) {
+            else if (this._hasLoaded) {
                 if (onProgress)
                     onProgress(1);
                 return Promise_1.Promise.resolve(this);
             }
             else {
                 if (!this._promise) {
-                    this._promise = new Promise_1.Promise(function (resolve) {
-                        _this._request.load().then(function (data) {
-                            _this._hasLoaded = true;
-                            _this._data = data;
-                            resolve(_this);
-                        });
+                    var data = this._data ? Promise_1.Promise.resolve(this._data) : this._request.load();
+                    this._promise = data.then(function (data) {
+                        _this._data = data;
+                        return ShaderChunk_1.ShaderChunk.loadIncludes(data, onProgress);
+                    }).then(function () {
+                        _this._hasLoaded = true;
+                        return _this;
                     });
                 }
                 return this._promise;
             }
-            return null;
+        };
+        Shader.prototype.reload = function () {
+            var _this = this;
+            var source = this._data;
+            var data = this._request ? this._request.reload() : Promise_1.Promise.resolve(this._data);
+            return data.then(function (data) {
+                _this._data = data;
+                return ShaderChunk_1.ShaderChunk.reloadIncludes(data);
+            }).then(function (changed) {
+                _this._hasLoaded = true;
+                return changed || _this._data != source;
+            });
+        };
+        Shader.prototype.getSource = function (defines) {
+            if (!this._hasLoaded) {
+                throw new Error('shader source is not loaded yet');
+            }
+            return ShaderPreprocessor_1.ShaderPreprocessor.process(this._data, defines);
+        };
+        Shader.prototype.getName = function () {
+            if (this._request) {
+                return this._request.path;
+            }
+            return this.type == ShaderType_1.default.VERTEX ? 'vertex' : 'fragment';
         };
         Shader.prototype.getShader = function (gl) {
             if (!this.shader) {
-                if (this.type == ShaderType_1.default.FRAGMENT) {
-                    this.shader = gl.createShader(gl.FRAGMENT_SHADER);
-                }
-                else if (this.type == ShaderType_1.default.VERTEX) {
-                    this.shader = gl.createShader(gl.VERTEX_SHADER);
-                }
-                gl.shaderSource(this.shader, this._data);
-                gl.compileShader(this.shader);
-                if (!gl.getShaderParameter(this.shader, gl.COMPILE_STATUS)) {
-                    throw new Error("An error occurred compiling the shaders: " + gl.getShaderInfoLog(this.shader));
-                }
+                this.shader = this.compile(gl);
+                GPUResources_1.GPUResources.get(gl).add(this);
             }
             return this.shader;
         };
+        Shader.prototype.compile = function (gl, defines) {
+            var shader;
+            if (!this._hasLoaded) {
+                throw new Error('shader source is not loaded yet');
+            }
+            var source = new ShaderPreprocessor_1.ShaderPreprocessor(this._data, defines, this.getName());
+            if (this.type == ShaderType_1.default.FRAGMENT) {
+                shader = gl.createShader(gl.FRAGMENT_SHADER);
+            }
+            else if (this.type == ShaderType_1.default.VERTEX) {
+                shader = gl.createShader(gl.VERTEX_SHADER);
+            }
+            gl.shaderSource(shader, source.code);
+            gl.compileShader(shader);
+            if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+                var log = gl.getShaderInfoLog(shader);
+                gl.deleteShader(shader);
+                throw ShaderError_1.ShaderError.fromCompileLog(log, source, this.getName());
+            }
+            return shader;
+        };
+        Shader.prototype.restore = function (gl) {
+            this.shader = void 0;
+            GPUResources_1.GPUResources.get(gl).remove(this);
+        };
         Shader.prototype.deleteShader = function (gl) {
             if (this.shader) {
                 gl.deleteShader(this.shader);
+                GPUResources_1.GPUResources.get(gl).remove(this);
                 this.shader = void 0;
             }
         };
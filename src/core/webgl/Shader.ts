@@ -2,16 +2,23 @@ import ShaderType from "./ShaderType";
 import {HttpRequest} from "../../core/net/HttpRequest";
 import {Promise} from "../../core/util/Promise";
 import {ILoadable} from "../interface/ILoadable";
+import IHashMap from "../interface/IHashMap";
+import {ShaderChunk} from "./ShaderChunk";
+import {ShaderPreprocessor} from "./ShaderPreprocessor";
+import {ShaderError} from "./ShaderError";
+import {GPUResources} from "./GPUResources";
+import IGPUResource from "../interface/IGPUResource";
 
 /**
- *
+ * Glsl source of one stage of a ShaderProgram. The source can include shared chunks with
+ * <code>#include "name"</code>, see ShaderChunk, these are loaded along with the shader.
  */
-export class Shader implements ILoadable<Shader>
+export class Shader implements ILoadable<Shader>, IGPUResource
 {
 	public static createFromUrl(type:ShaderType, url:string):Promise<Shader>
 	{
 		return HttpRequest.getString<string>(url).then((data:string) => {
-			return new Shader(type, data);
+			return new Shader(type, data).load();
 		})
 	}
 
@@ -28,8 +35,8 @@ export class Shader implements ILoadable<Shader>
 		this.type = type;
 
 		if(data && typeof data == 'string'){
-			this._hasLoaded = true;
 			this._data = <string> data;
+			this._hasLoaded = ShaderChunk.hasLoadedIncludes(this._data);
 		} else {
 			this._hasLoaded = false;
 			this._request = <HttpRequest<string>> data;
@@ -45,48 +52,143 @@ export class Shader implements ILoadable<Shader>
 	{
 		if(!this._data && !this._request){
 			throw new Error('data has not been set so load has nothing to load.')
-		} else if(this._data) {
+		} else if(this._hasLoaded) {
 			if(onProgress) onProgress(1);
 			return Promise.resolve<Shader>(this);
 		} else {
 			if(!this._promise){
-				this._promise = new Promise<Shader>((resolve) => {
-					this._request.load().then(data => {
-						this._hasLoaded = true;
-						this._data = data;
-						resolve(this);
-					})
-				})
+				var data = this._data ? Promise.resolve<string>(this._data) : this._request.load();
+
+				this._promise = data.then((data:string) => {
+					this._data = data;
+					return ShaderChunk.loadIncludes(data, onProgress);
+				}).then(() => {
+					this._hasLoaded = true;
+					return this;
+				});
 			}
 			return this._promise;
 		}
+	}
+
+	/**
+	 * Fetches the source again when the shader was loaded from an url, along with the chunks it includes.
+	 *
+	 * @method reload
+	 * @returns {Promise<boolean>} whether the source or any of the included chunks changed
+	 */
+	public reload():Promise<boolean>
+	{
+		var source = this._data;
+		var data = this._request ? this._request.reload() : Promise.resolve<string>(this._data);
+
+		return data.then((data:string) => {
+			this._data = data;
+			return ShaderChunk.reloadIncludes(data);
+		}).then((changed:boolean) => {
+			this._hasLoaded = true;
 
-		return null;
+			return changed || this._data != source;
+		});
+	}
+
+	/**
+	 * Source with the includes resolved and the defines added.
+	 *
+	 * @method getSource
+	 * @param {IHashMap<any>} [defines]
+	 * @returns {string}
+	 */
+	public getSource(defines?:IHashMap<any>):string
+	{
+		if(!this._hasLoaded)
+		{
+			throw new Error('shader source is not loaded yet');
+		}
+
+		return ShaderPreprocessor.process(this._data, defines);
+	}
+
+	/**
+	 * Name of the shader in error messages, the url when the shader was loaded.
+	 *
+	 * @method getName
+	 * @returns {string}
+	 */
+	public getName():string
+	{
+		if(this._request)
+		{
+			return this._request.path;
+		}
+
+		return this.type == ShaderType.VERTEX ? 'vertex' : 'fragment';
 	}
 
 	public getShader(gl:WebGLRenderingContext):WebGLShader
 	{
 		if(!this.shader)
 		{
-			if(this.type == ShaderType.FRAGMENT)
-			{
-				this.shader = gl.createShader(gl.FRAGMENT_SHADER);
-			}
-			else if(this.type == ShaderType.VERTEX)
-			{
-				this.shader = gl.createShader(gl.VERTEX_SHADER);
-			}
+			this.shader = this.compile(gl);
+			GPUResources.get(gl).add(this);
+		}
 
-			gl.shaderSource(this.shader, this._data);
-			gl.compileShader(this.shader);
+		return this.shader;
+	}
 
-			if(!gl.getShaderParameter(this.shader, gl.COMPILE_STATUS))
-			{
-				throw new Error("An error occurred compiling the shaders: " + gl.getShaderInfoLog(this.shader));
-			}
+	/**
+	 * Compiles a new WebGLShader, the caller is responsible for deleting it. Throws a ShaderError with the
+	 * messages of the compiler when compiling fails.
+	 *
+	 * @method compile
+	 * @param {WebGLRenderingContext} gl
+	 * @param {IHashMap<any>} [defines]
+	 * @returns {WebGLShader}
+	 */
+	public compile(gl:WebGLRenderingContext, defines?:IHashMap<any>):WebGLShader
+	{
+		var shader:WebGLShader;
+
+		if(!this._hasLoaded)
+		{
+			throw new Error('shader source is not loaded yet');
 		}
 
-		return this.shader;
+		var source = new ShaderPreprocessor(this._data, defines, this.getName());
+
+		if(this.type == ShaderType.FRAGMENT)
+		{
+			shader = gl.createShader(gl.FRAGMENT_SHADER);
+		}
+		else if(this.type == ShaderType.VERTEX)
+		{
+			shader = gl.createShader(gl.VERTEX_SHADER);
+		}
+
+		gl.shaderSource(shader, source.code);
+		gl.compileShader(shader);
+
+		if(!gl.getShaderParameter(shader, gl.COMPILE_STATUS))
+		{
+			var log = gl.getShaderInfoLog(shader);
+			gl.deleteShader(shader);
+
+			throw ShaderError.fromCompileLog(log, source, this.getName());
+		}
+
+		return shader;
+	}
+
+	/**
+	 * Forgets the shader of the lost context, it is compiled again on the next getShader.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		this.shader = void 0;
+		GPUResources.get(gl).remove(this);
 	}
 
 	public deleteShader(gl:WebGLRenderingContext):void
@@ -94,6 +196,7 @@ export class Shader implements ILoadable<Shader>
 		if(this.shader)
 		{
 			gl.deleteShader(this.shader);
+			GPUResources.get(gl).remove(this);
 			this.shader = void 0;
 		}
 
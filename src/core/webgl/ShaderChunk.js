@@ -0,0 +1,123 @@
+define(["require", "exports", "../../core/net/HttpRequest", "../../core/util/Promise", "../../core/util/PromiseUtil"], function (require, exports, HttpRequest_1, Promise_1, PromiseUtil_1) {
+    "use strict";
+    var ShaderChunk = (function () {
+        function ShaderChunk(name, data) {
+            this._hasLoaded = false;
+            this.name = name;
+            if (typeof data == 'string') {
+                this._hasLoaded = true;
+                this._data = data;
+            }
+            else {
+                this._request = data;
+            }
+        }
+        ShaderChunk.register = function (name, data) {
+            return ShaderChunk._chunks[name] = new ShaderChunk(name, data);
+        };
+        ShaderChunk.get = function (name) {
+            return ShaderChunk._chunks[name] || ShaderChunk.register(name, new HttpRequest_1.HttpRequest(name, null));
+        };
+        ShaderChunk.has = function (name) {
+            return !!ShaderChunk._chunks[name];
+        };
+        ShaderChunk.getIncludes = function (source) {
+            var includes = [];
+            var regexp = /^[ \t]*#include[ \t]+"([^"]+)"/gm;
+            var match;
+            while (match = regexp.exec(source)) {
+                includes.push(match[1]);
+            }
+            return includes;
+        };
+        ShaderChunk.hasLoadedIncludes = function (source, checked) {
+            if (checked === void 0) { checked = []; }
+            var includes = ShaderChunk.getIncludes(source);
+            for (var i = 0; i < includes.length; i++) {
+                var name = includes[i];
+                if (checked.indexOf(name) == -1) {
+                    checked.push(name);
+                    if (!ShaderChunk.has(name)
+                        || !ShaderChunk.get(name).hasLoaded()
+                        || !ShaderChunk.hasLoadedIncludes(ShaderChunk.get(name).toString(), checked)) {
+                        return false;
+                    }
+                }
+            }
+            return true;
+        };
+        ShaderChunk.loadIncludes = function (source, onProgress, loaded) {
+            if (loaded === void 0) { loaded = []; }
+            var includes = ShaderChunk.getIncludes(source);
+            var chunks = [];
+            for (var i = 0; i < includes.length; i++) {
+                if (loaded.indexOf(includes[i]) == -1) {
+                    loaded.push(includes[i]);
+                    chunks.push(ShaderChunk.get(includes[i]));
+                }
+            }
+            if (chunks.length == 0) {
+                if (onProgress)
+                    onProgress(1);
+                return Promise_1.Promise.resolve(chunks);
+            }
+            return PromiseUtil_1.PromiseUtil.loadLoadable(chunks, onProgress).then(function (chunks) {
+                return Promise_1.Promise.all(chunks.map(function (chunk) { return ShaderChunk.loadIncludes(chunk.toString(), null, loaded); }))
+                    .then(function () { return chunks; });
+            });
+        };
+        ShaderChunk.reloadIncludes = function (source, reloaded) {
+            if (reloaded === void 0) { reloaded = []; }
+            var includes = ShaderChunk.getIncludes(source).filter(function (name) {
+                if (reloaded.indexOf(name) != -1) {
+                    return false;
+                }
+                reloaded.push(name);
+                return true;
+            });
+            return Promise_1.Promise.all(includes.map(function (name) {
+                var chunk = ShaderChunk.get(name);
+                return chunk.reload().then(function (changed) {
+                    return ShaderChunk.reloadIncludes(chunk.toString(), reloaded).then(function (includesChanged) { return changed || includesChanged; });
+                });
+            })).then(function (changed) { return changed.indexOf(true) != -1; });
+        };
+        ShaderChunk.prototype.hasLoaded = function () {
+            return this._hasLoaded;
+        };
+        ShaderChunk.prototype.load = function (onProgress) {
+            var _this = this;
+            if (this._hasLoaded) {
+                if (onProgress)
+                    onProgress(1);
+                return Promise_1.Promise.resolve(this);
+            }
+            if (!this._promise) {
+                this._promise = this._request.load(onProgress).then(function (data) {
+                    _this._hasLoaded = true;
+                    _this._data = data;
+                    return _this;
+                });
+            }
+            return this._promise;
+        };
+        ShaderChunk.prototype.reload = function () {
+            var _this = this;
+            if (!this._request) {
+                return Promise_1.Promise.resolve(false);
+            }
+            var source = this._data;
+            return this._request.reload().then(function (data) {
+                _this._hasLoaded = true;
+                _this._data = data;
+                return data != source;
+            });
+        };
+        ShaderChunk.prototype.toString = function () {
+            return this._data;
+        };
+        ShaderChunk._chunks = {};
+        return ShaderChunk;
+    }());
+    exports.ShaderChunk = ShaderChunk;
+});
@@ -0,0 +1,254 @@
+import {HttpRequest} from "../../core/net/HttpRequest";
+import {Promise} from "../../core/util/Promise";
+import {PromiseUtil} from "../../core/util/PromiseUtil";
+import {ILoadable} from "../interface/ILoadable";
+import IHashMap from "../interface/IHashMap";
+
+/**
+ * A piece of glsl that is shared between shaders through <code>#include "name"</code>. Chunks are registered by
+ * name, an include that is not registered is loaded as an url relative to the page.
+ *
+ * <h4>Example</h4>
+ *
+ *      ShaderChunk.register('noise', noiseSource);
+ *      ShaderChunk.register('lighting', new HttpRequest<string>('glsl/lighting.glsl', null));
+ *
+ * @class ShaderChunk
+ * @param {string} name
+ * @param {string|HttpRequest<string>} data glsl source or a request for it
+ */
+export class ShaderChunk implements ILoadable<ShaderChunk>
+{
+	protected static _chunks:IHashMap<ShaderChunk> = {};
+
+	/**
+	 * @method register
+	 * @param {string} name name used in #include
+	 * @param {string|HttpRequest<string>} data
+	 * @returns {ShaderChunk}
+	 * @static
+	 */
+	public static register(name:string, data:string|HttpRequest<string>):ShaderChunk
+	{
+		return ShaderChunk._chunks[name] = new ShaderChunk(name, data);
+	}
+
+	/**
+	 * Returns the registered chunk, an unknown name is registered as the url of the chunk.
+	 *
+	 * @method get
+	 * @param {string} name
+	 * @returns {ShaderChunk}
+	 * @static
+	 */
+	public static get(name:string):ShaderChunk
+	{
+		return ShaderChunk._chunks[name] || ShaderChunk.register(name, new HttpRequest<string>(name, null));
+	}
+
+	public static has(name:string):boolean
+	{
+		return !!ShaderChunk._chunks[name];
+	}
+
+	/**
+	 * Names of all chunks included in source, in order of appearance.
+	 *
+	 * @method getIncludes
+	 * @param {string} source
+	 * @returns {Array<string>}
+	 * @static
+	 */
+	public static getIncludes(source:string):Array<string>
+	{
+		var includes = [];
+		var regexp = /^[ \t]*#include[ \t]+"([^"]+)"/gm;
+		var match;
+
+		while(match = regexp.exec(source))
+		{
+			includes.push(match[1]);
+		}
+
+		return includes;
+	}
+
+	/**
+	 * Whether all chunks included by source, and the chunks they include, are registered and loaded.
+	 *
+	 * @method hasLoadedIncludes
+	 * @param {string} source
+	 * @returns {boolean}
+	 * @static
+	 */
+	public static hasLoadedIncludes(source:string, checked:Array<string> = []):boolean
+	{
+		var includes = ShaderChunk.getIncludes(source);
+
+		for(var i = 0; i < includes.length; i++)
+		{
+			var name = includes[i];
+
+			if(checked.indexOf(name) == -1)
+			{
+				checked.push(name);
+
+				if(!ShaderChunk.has(name)
+					|| !ShaderChunk.get(name).hasLoaded()
+					|| !ShaderChunk.hasLoadedIncludes(ShaderChunk.get(name).toString(), checked))
+				{
+					return false;
+				}
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Loads all chunks included by source, including the chunks they include themselves.
+	 *
+	 * @method loadIncludes
+	 * @param {string} source
+	 * @param {(progress:number) => any} [onProgress] progress of the chunks included directly by source
+	 * @returns {Promise<Array<ShaderChunk>>}
+	 * @static
+	 */
+	public static loadIncludes(source:string, onProgress?:(progress:number)=>any, loaded:Array<string> = []):Promise<Array<ShaderChunk>>
+	{
+		var includes = ShaderChunk.getIncludes(source);
+		var chunks:Array<ShaderChunk> = [];
+
+		for(var i = 0; i < includes.length; i++)
+		{
+			// every chunk is visited once, this also stops includes that include each other
+			if(loaded.indexOf(includes[i]) == -1)
+			{
+				loaded.push(includes[i]);
+				chunks.push(ShaderChunk.get(includes[i]));
+			}
+		}
+
+		if(chunks.length == 0)
+		{
+			if(onProgress) onProgress(1);
+			return Promise.resolve<Array<ShaderChunk>>(chunks);
+		}
+
+		return PromiseUtil.loadLoadable<ShaderChunk>(chunks, onProgress).then((chunks:Array<ShaderChunk>) => {
+			return Promise.all(chunks.map((chunk:ShaderChunk) => ShaderChunk.loadIncludes(chunk.toString(), null, loaded)))
+				.then(() => chunks);
+		});
+	}
+
+	/**
+	 * Fetches all chunks included by source that were loaded from an url again.
+	 *
+	 * @method reloadIncludes
+	 * @param {string} source
+	 * @returns {Promise<boolean>} whether the source of any of the chunks changed
+	 * @static
+	 */
+	public static reloadIncludes(source:string, reloaded:Array<string> = []):Promise<boolean>
+	{
+		var includes = ShaderChunk.getIncludes(source).filter((name:string) => {
+			if(reloaded.indexOf(name) != -1)
+			{
+				return false;
+			}
+
+			reloaded.push(name);
+			return true;
+		});
+
+		return Promise.all(includes.map((name:string) => {
+			var chunk = ShaderChunk.get(name);
+
+			return chunk.reload().then((changed:boolean) => {
+				return ShaderChunk.reloadIncludes(chunk.toString(), reloaded).then((includesChanged:boolean) => changed || includesChanged);
+			});
+		})).then((changed:Array<boolean>) => changed.indexOf(true) != -1);
+	}
+
+	public name:string;
+
+	protected _data:string;
+	protected _request:HttpRequest<string>;
+	protected _promise:Promise<ShaderChunk>;
+	protected _hasLoaded:boolean = false;
+
+	constructor(name:string, data:string|HttpRequest<string>)
+	{
+		this.name = name;
+
+		if(typeof data == 'string')
+		{
+			this._hasLoaded = true;
+			this._data = <string> data;
+		}
+		else
+		{
+			this._request = <HttpRequest<string>> data;
+		}
+	}
+
+	/**
+	 * Whether the source of this chunk is available, use ShaderChunk.loadIncludes to also load the chunks it
+	 * includes.
+	 *
+	 * @method hasLoaded
+	 * @returns {boolean}
+	 */
+	public hasLoaded():boolean
+	{
+		return this._hasLoaded;
+	}
+
+	public load(onProgress?:(progress:number)=>any):Promise<ShaderChunk>
+	{
+		if(this._hasLoaded)
+		{
+			if(onProgress) onProgress(1);
+			return Promise.resolve<ShaderChunk>(this);
+		}
+
+		if(!this._promise)
+		{
+			this._promise = this._request.load(onProgress).then((data:string) => {
+				this._hasLoaded = true;
+				this._data = data;
+				return this;
+			});
+		}
+
+		return this._promise;
+	}
+
+	/**
+	 * Fetches the source again when the chunk was loaded from an url.
+	 *
+	 * @method reload
+	 * @returns {Promise<boolean>} whether the source changed
+	 */
+	public reload():Promise<boolean>
+	{
+		if(!this._request)
+		{
+			return Promise.resolve<boolean>(false);
+		}
+
+		var source = this._data;
+
+		return this._request.reload().then((data:string) => {
+			this._hasLoaded = true;
+			this._data = data;
+
+			return data != source;
+		});
+	}
+
+	public toString():string
+	{
+		return this._data;
+	}
+}
\ No newline at end of file
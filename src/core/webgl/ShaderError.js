@@ -0,0 +1,95 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var ShaderError = (function (_super) {
+        __extends(ShaderError, _super);
+        function ShaderError(message, log, diagnostics, excerpt) {
+            if (diagnostics === void 0) { diagnostics = []; }
+            if (excerpt === void 0) { excerpt = ''; }
+            _super.call(this, message);
+            this.name = 'ShaderError';
+            this.message = message;
+            this.log = log;
+            this.diagnostics = diagnostics;
+            this.excerpt = excerpt;
+            this.stack = (new Error(message)).stack;
+        }
+        ShaderError.fromCompileLog = function (log, source, file) {
+            var diagnostics = ShaderError.parseLog(log, source);
+            var excerpt = ShaderError.getExcerpt(source, ShaderError.parseLog(log)
+                .filter(function (diagnostic) { return diagnostic.line > 0; })
+                .map(function (diagnostic) { return diagnostic.line; }));
+            var message = 'unable to compile ' + file + ':\n' + diagnostics.map(function (diagnostic) {
+                return diagnostic.line > 0
+                    ? diagnostic.file + ':' + diagnostic.line + (diagnostic.column > 0 ? ':' + diagnostic.column : '') + ' ' + diagnostic.severity + ': ' + diagnostic.message
+                    : diagnostic.severity + ': ' + diagnostic.message;
+            }).join('\n');
+            return new ShaderError(message + (excerpt ? '\n\n' + excerpt : ''), log, diagnostics, excerpt);
+        };
+        ShaderError.parseLog = function (log, source) {
+            var diagnostics = [];
+            var lines = (log || '').split('\n');
+            for (var i = 0; i < lines.length; i++) {
+                var text = lines[i].replace(/\0/g, '').trim();
+                var match;
+                var diagnostic;
+                if (text.length == 0) {
+                    continue;
+                }
+                if (match = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/i.exec(text)) {
+                    diagnostic = { file: null, line: +match[2], column: 0, severity: match[1].toLowerCase(), message: match[3] };
+                }
+                else if (match = /^\d+:(\d+)\((\d+)\):\s*(error|warning)[^:]*:\s*(.*)$/i.exec(text)) {
+                    diagnostic = { file: null, line: +match[1], column: +match[2], severity: match[3].toLowerCase(), message: match[4] };
+                }
+                else if (match = /^\d+\((\d+)\)\s*:\s*(error|warning)[^:]*:\s*(.*)$/i.exec(text)) {
+                    diagnostic = { file: null, line: +match[1], column: 0, severity: match[2].toLowerCase(), message: match[3] };
+                }
+                else {
+                    diagnostic = { file: null, line: 0, column: 0, severity: 'error', message: text };
+                }
+                if (source && diagnostic.line > 0) {
+                    var location = source.getLocation(diagnostic.line);
+                    if (location) {
+                        diagnostic.file = location.file;
+                        diagnostic.line = location.line;
+                    }
+                }
+                diagnostics.push(diagnostic);
+            }
+            return diagnostics;
+        };
+        ShaderError.getExcerpt = function (source, lines, context) {
+            if (context === void 0) { context = 2; }
+            var code = source.code.split('\n');
+            var shown = [];
+            for (var i = 0; i < lines.length; i++) {
+                for (var line = Math.max(1, lines[i] - context); line <= Math.min(code.length, lines[i] + context); line++) {
+                    if (shown.indexOf(line) == -1) {
+                        shown.push(line);
+                    }
+                }
+            }
+            shown.sort(function (a, b) { return a - b; });
+            var labels = shown.map(function (line) {
+                var location = source.getLocation(line);
+                return location.file + ':' + location.line;
+            });
+            var width = labels.reduce(function (width, label) { return Math.max(width, label.length); }, 0);
+            return shown.map(function (line, index) {
+                var label = labels[index];
+                while (label.length < width) {
+                    label += ' ';
+                }
+                var gap = index > 0 && shown[index - 1] != line - 1 ? '  ...\n' : '';
+                return gap + (lines.indexOf(line) != -1 ? '> ' : '  ') + label + ' | ' + code[line - 1];
+            }).join('\n');
+        };
+        return ShaderError;
+    }(Error));
+    exports.ShaderError = ShaderError;
+});
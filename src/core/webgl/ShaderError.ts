@@ -0,0 +1,196 @@
+import IShaderDiagnostic from "../interface/IShaderDiagnostic";
+import {ShaderPreprocessor} from "./ShaderPreprocessor";
+
+/**
+ * Thrown when a shader does not compile or a program does not link. Carries the info log of the driver, the
+ * messages in it mapped to the original files and an excerpt of the lines they point at.
+ *
+ * <h4>Example</h4>
+ *
+ *      try {
+ *          program.use();
+ *      } catch(error) {
+ *          if(error instanceof ShaderError) overlay.show(error.excerpt);
+ *      }
+ *
+ * @class ShaderError
+ * @param {string} message
+ * @param {string} log info log of the shader or program
+ * @param {Array<IShaderDiagnostic>} [diagnostics]
+ * @param {string} [excerpt]
+ */
+export class ShaderError extends Error
+{
+	/**
+	 * Creates the error for a shader that did not compile.
+	 *
+	 * @method fromCompileLog
+	 * @param {string} log result of getShaderInfoLog
+	 * @param {ShaderPreprocessor} source the source that was compiled
+	 * @param {string} file
+	 * @returns {ShaderError}
+	 * @static
+	 */
+	public static fromCompileLog(log:string, source:ShaderPreprocessor, file:string):ShaderError
+	{
+		var diagnostics = ShaderError.parseLog(log, source);
+
+		// the excerpt shows the compiled code, so it needs the unmapped lines
+		var excerpt = ShaderError.getExcerpt(source, ShaderError.parseLog(log)
+			.filter((diagnostic:IShaderDiagnostic) => diagnostic.line > 0)
+			.map((diagnostic:IShaderDiagnostic) => diagnostic.line));
+
+		var message = 'unable to compile ' + file + ':\n' + diagnostics.map((diagnostic:IShaderDiagnostic) => {
+				return diagnostic.line > 0
+					? diagnostic.file + ':' + diagnostic.line + (diagnostic.column > 0 ? ':' + diagnostic.column : '') + ' ' + diagnostic.severity + ': ' + diagnostic.message
+					: diagnostic.severity + ': ' + diagnostic.message;
+			}).join('\n');
+
+		return new ShaderError(message + (excerpt ? '\n\n' + excerpt : ''), log, diagnostics, excerpt);
+	}
+
+	/**
+	 * Parses the info log of a shader. The formats of ANGLE, Mesa and NVIDIA drivers are recognized, other lines
+	 * are kept as a message without a line. When the preprocessed source is given, lines are mapped to the file
+	 * and line they came from.
+	 *
+	 * @method parseLog
+	 * @param {string} log
+	 * @param {ShaderPreprocessor} [source]
+	 * @returns {Array<IShaderDiagnostic>}
+	 * @static
+	 */
+	public static parseLog(log:string, source?:ShaderPreprocessor):Array<IShaderDiagnostic>
+	{
+		var diagnostics:Array<IShaderDiagnostic> = [];
+		var lines = (log || '').split('\n');
+
+		for(var i = 0; i < lines.length; i++)
+		{
+			var text = lines[i].replace(/\0/g, '').trim();
+			var match:RegExpExecArray;
+			var diagnostic:IShaderDiagnostic;
+
+			if(text.length == 0)
+			{
+				continue;
+			}
+
+			// ANGLE, "ERROR: 0:12: 'foo' : undeclared identifier"
+			if(match = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/i.exec(text))
+			{
+				diagnostic = {file: null, line: +match[2], column: 0, severity: match[1].toLowerCase(), message: match[3]};
+			}
+			// Mesa, "0:12(5): error: 'foo' undeclared"
+			else if(match = /^\d+:(\d+)\((\d+)\):\s*(error|warning)[^:]*:\s*(.*)$/i.exec(text))
+			{
+				diagnostic = {file: null, line: +match[1], column: +match[2], severity: match[3].toLowerCase(), message: match[4]};
+			}
+			// NVIDIA, "0(12) : error C1008: undefined variable "foo""
+			else if(match = /^\d+\((\d+)\)\s*:\s*(error|warning)[^:]*:\s*(.*)$/i.exec(text))
+			{
+				diagnostic = {file: null, line: +match[1], column: 0, severity: match[2].toLowerCase(), message: match[3]};
+			}
+			else
+			{
+				diagnostic = {file: null, line: 0, column: 0, severity: 'error', message: text};
+			}
+
+			if(source && diagnostic.line > 0)
+			{
+				var location = source.getLocation(diagnostic.line);
+
+				if(location)
+				{
+					diagnostic.file = location.file;
+					diagnostic.line = location.line;
+				}
+			}
+
+			diagnostics.push(diagnostic);
+		}
+
+		return diagnostics;
+	}
+
+	/**
+	 * Lines of code around the given lines, each prefixed with the file and line it came from. The lines that
+	 * are reported are marked with an arrow.
+	 *
+	 * @method getExcerpt
+	 * @param {ShaderPreprocessor} source
+	 * @param {Array<number>} lines 1 based lines of code
+	 * @param {number} [context=2] amount of lines shown before and after
+	 * @returns {string}
+	 * @static
+	 */
+	public static getExcerpt(source:ShaderPreprocessor, lines:Array<number>, context:number = 2):string
+	{
+		var code = source.code.split('\n');
+		var shown:Array<number> = [];
+
+		for(var i = 0; i < lines.length; i++)
+		{
+			for(var line = Math.max(1, lines[i] - context); line <= Math.min(code.length, lines[i] + context); line++)
+			{
+				if(shown.indexOf(line) == -1)
+				{
+					shown.push(line);
+				}
+			}
+		}
+
+		shown.sort((a:number, b:number) => a - b);
+
+		var labels = shown.map((line:number) => {
+			var location = source.getLocation(line);
+			return location.file + ':' + location.line;
+		});
+
+		var width = labels.reduce((width:number, label:string) => Math.max(width, label.length), 0);
+
+		return shown.map((line:number, index:number) => {
+			var label = labels[index];
+
+			while(label.length < width)
+			{
+				label += ' ';
+			}
+
+			var gap = index > 0 && shown[index - 1] != line - 1 ? '  ...\n' : '';
+
+			return gap + (lines.indexOf(line) != -1 ? '> ' : '  ') + label + ' | ' + code[line - 1];
+		}).join('\n');
+	}
+
+	public name:string = 'ShaderError';
+	public message:string;
+	public stack:string;
+
+	/**
+	 * the info log as reported by the driver
+	 * @property log
+	 * @type {string}
+	 */
+	public log:string;
+
+	public diagnostics:Array<IShaderDiagnostic>;
+
+	/**
+	 * source lines around the reported lines, empty when no line was reported
+	 * @property excerpt
+	 * @type {string}
+	 */
+	public excerpt:string;
+
+	constructor(message:string, log:string, diagnostics:Array<IShaderDiagnostic> = [], excerpt:string = '')
+	{
+		super(message);
+
+		this.message = message;
+		this.log = log;
+		this.diagnostics = diagnostics;
+		this.excerpt = excerpt;
+		this.stack = (<any> new Error(message)).stack;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,90 @@
+define(["require", "exports", "./ShaderChunk"], function (require, exports, ShaderChunk_1) {
+    "use strict";
+    var ShaderPreprocessor = (function () {
+        function ShaderPreprocessor(source, defines, file) {
+            if (file === void 0) { file = 'source'; }
+            this.lines = [];
+            this._code = [];
+            this._included = [];
+            this.append(source, file, [file], false);
+            this.addDefines(defines);
+            this.code = this._code.join('\n');
+            this._code = null;
+            this._included = null;
+        }
+        ShaderPreprocessor.getDefinesKey = function (defines) {
+            if (!defines) {
+                return '';
+            }
+            return Object.keys(defines)
+                .filter(function (name) { return ShaderPreprocessor.isDefined(defines[name]); })
+                .sort()
+                .map(function (name) { return name + '=' + ShaderPreprocessor.toGLSL(defines[name]); })
+                .join(';');
+        };
+        ShaderPreprocessor.process = function (source, defines) {
+            return new ShaderPreprocessor(source, defines).code;
+        };
+        ShaderPreprocessor.isDefined = function (value) {
+            return value !== false && value !== void 0 && value !== null;
+        };
+        ShaderPreprocessor.toGLSL = function (value) {
+            if (value === true) {
+                return '1';
+            }
+            return String(value);
+        };
+        ShaderPreprocessor.prototype.getLocation = function (line) {
+            return this.lines[line - 1] || null;
+        };
+        ShaderPreprocessor.prototype.append = function (source, file, stack, conditional) {
+            var lines = source.split('\n');
+            var depth = 0;
+            for (var i = 0; i < lines.length; i++) {
+                var match = /^[ \t]*#include[ \t]+"([^"]+)"/.exec(lines[i]);
+                if (!match) {
+                    if (/^[ \t]*#[ \t]*if/.test(lines[i])) {
+                        depth++;
+                    }
+                    else if (/^[ \t]*#[ \t]*endif/.test(lines[i])) {
+                        depth--;
+                    }
+                    this._code.push(lines[i]);
+                    this.lines.push({ file: file, line: i + 1 });
+                    continue;
+                }
+                var name = match[1];
+                if (stack.indexOf(name) != -1) {
+                    throw new Error('circular shader include "' + name + '", included by ' + stack.join(' > '));
+                }
+                if (this._included.indexOf(name) != -1) {
+                    continue;
+                }
+                if (!ShaderChunk_1.ShaderChunk.has(name) || !ShaderChunk_1.ShaderChunk.get(name).hasLoaded()) {
+                    throw new Error('shader chunk "' + name + '" included by ' + file + ':' + (i + 1) + ' is not loaded');
+                }
+                if (!conditional && depth <= 0) {
+                    this._included.push(name);
+                }
+                this.append(ShaderChunk_1.ShaderChunk.get(name).toString(), name, stack.concat([name]), conditional || depth > 0);
+            }
+        };
+        ShaderPreprocessor.prototype.addDefines = function (defines) {
+            var index = 0;
+            var line = 1;
+            while (index < this._code.length && /^\s*$/.test(this._code[index])) {
+                index++;
+            }
+            index = index < this._code.length && /^\s*#version/.test(this._code[index]) ? index + 1 : 0;
+            for (var name in defines) {
+                if (ShaderPreprocessor.isDefined(defines[name])) {
+                    this._code.splice(index, 0, '#define ' + name + ' ' + ShaderPreprocessor.toGLSL(defines[name]));
+                    this.lines.splice(index, 0, { file: 'defines', line: line++ });
+                    index++;
+                }
+            }
+        };
+        return ShaderPreprocessor;
+    }());
+    exports.ShaderPreprocessor = ShaderPreprocessor;
+});
@@ -0,0 +1,199 @@
+import {ShaderChunk} from "./ShaderChunk";
+import IHashMap from "../interface/IHashMap";
+import ISourceLocation from "../interface/ISourceLocation";
+
+/**
+ * Turns shader source into the glsl that is compiled, by replacing <code>#include "name"</code> lines with the
+ * source of the chunk and adding defines. Every line of the result is mapped to the file and line it came from so
+ * compiler messages can be reported against the original source.
+ *
+ * @class ShaderPreprocessor
+ * @param {string} source
+ * @param {IHashMap<any>} [defines]
+ * @param {string} [file="source"] name of the source in messages
+ */
+export class ShaderPreprocessor
+{
+	/**
+	 * Key that is the same for define sets that give the same code, regardless of the order of the keys. Defines
+	 * that are not injected, false, null or undefined, are left out.
+	 *
+	 * @method getDefinesKey
+	 * @param {IHashMap<any>} defines
+	 * @returns {string}
+	 * @static
+	 */
+	public static getDefinesKey(defines:IHashMap<any>):string
+	{
+		if(!defines)
+		{
+			return '';
+		}
+
+		return Object.keys(defines)
+			.filter((name:string) => ShaderPreprocessor.isDefined(defines[name]))
+			.sort()
+			.map((name:string) => name + '=' + ShaderPreprocessor.toGLSL(defines[name]))
+			.join(';');
+	}
+
+	/**
+	 * @method process
+	 * @param {string} source
+	 * @param {IHashMap<any>} [defines]
+	 * @returns {string}
+	 * @static
+	 */
+	public static process(source:string, defines?:IHashMap<any>):string
+	{
+		return new ShaderPreprocessor(source, defines).code;
+	}
+
+	/**
+	 * Whether a define with this value is injected, false, null and undefined leave the name undefined.
+	 */
+	protected static isDefined(value:any):boolean
+	{
+		return value !== false && value !== void 0 && value !== null;
+	}
+
+	protected static toGLSL(value:any):string
+	{
+		if(value === true)
+		{
+			return '1';
+		}
+
+		return String(value);
+	}
+
+	/**
+	 * the glsl to compile
+	 * @property code
+	 * @type {string}
+	 */
+	public code:string;
+
+	/**
+	 * origin of every line of code, lines[0] is the first line
+	 * @property lines
+	 * @type {Array<ISourceLocation>}
+	 */
+	public lines:Array<ISourceLocation> = [];
+
+	protected _code:Array<string> = [];
+	protected _included:Array<string> = [];
+
+	constructor(source:string, defines?:IHashMap<any>, file:string = 'source')
+	{
+		this.append(source, file, [file], false);
+		this.addDefines(defines);
+
+		this.code = this._code.join('\n');
+		this._code = null;
+		this._included = null;
+	}
+
+	/**
+	 * Where the given line of code came from.
+	 *
+	 * @method getLocation
+	 * @param {number} line 1 based line of code
+	 * @returns {ISourceLocation} null for lines outside of the code
+	 */
+	public getLocation(line:number):ISourceLocation
+	{
+		return this.lines[line - 1] || null;
+	}
+
+	/**
+	 * Adds the lines of source, includes are replaced by the chunk. A chunk that was included outside of any
+	 * #if is not added again. Includes inside an #if are always added, as the branch with the first one may not be
+	 * compiled, chunks that can end up twice in the code need an #ifndef guard.
+	 *
+	 * @method append
+	 * @param {string} source
+	 * @param {string} file
+	 * @param {Array<string>} stack the files that are being included
+	 * @param {boolean} conditional whether source itself is included inside an #if
+	 */
+	protected append(source:string, file:string, stack:Array<string>, conditional:boolean):void
+	{
+		var lines = source.split('\n');
+		var depth = 0;
+
+		for(var i = 0; i < lines.length; i++)
+		{
+			var match = /^[ \t]*#include[ \t]+"([^"]+)"/.exec(lines[i]);
+
+			if(!match)
+			{
+				if(/^[ \t]*#[ \t]*if/.test(lines[i]))
+				{
+					depth++;
+				}
+				else if(/^[ \t]*#[ \t]*endif/.test(lines[i]))
+				{
+					depth--;
+				}
+
+				this._code.push(lines[i]);
+				this.lines.push({file: file, line: i + 1});
+				continue;
+			}
+
+			var name = match[1];
+
+			if(stack.indexOf(name) != -1)
+			{
+				throw new Error('circular shader include "' + name + '", included by ' + stack.join(' > '));
+			}
+
+			if(this._included.indexOf(name) != -1)
+			{
+				continue;
+			}
+
+			if(!ShaderChunk.has(name) || !ShaderChunk.get(name).hasLoaded())
+			{
+				throw new Error('shader chunk "' + name + '" included by ' + file + ':' + (i + 1) + ' is not loaded');
+			}
+
+			if(!conditional && depth <= 0)
+			{
+				this._included.push(name);
+			}
+
+			this.append(ShaderChunk.get(name).toString(), name, stack.concat([name]), conditional || depth > 0);
+		}
+	}
+
+	/**
+	 * Adds a #define for every key of defines, after the #version directive when there is one.
+	 *
+	 * @method addDefines
+	 * @param {IHashMap<any>} defines
+	 */
+	protected addDefines(defines:IHashMap<any>):void
+	{
+		var index = 0;
+		var line = 1;
+
+		while(index < this._code.length && /^\s*$/.test(this._code[index]))
+		{
+			index++;
+		}
+
+		index = index < this._code.length && /^\s*#version/.test(this._code[index]) ? index + 1 : 0;
+
+		for(var name in defines)
+		{
+			if(ShaderPreprocessor.isDefined(defines[name]))
+			{
+				this._code.splice(index, 0, '#define ' + name + ' ' + ShaderPreprocessor.toGLSL(defines[name]));
+				this.lines.splice(index, 0, {file: 'defines', line: line++});
+				index++;
+			}
+		}
+	}
+}
\ No newline at end of file
@@ -1,23 +1,37 @@
-define(["require", "exports", "./Shader", "./AttributeLocation", "./UniformLocation", "../util/PromiseUtil", "./ShaderType", "../net/HttpRequest"], function (require, exports, Shader_1, AttributeLocation_1, UniformLocation_1, PromiseUtil_1, ShaderType_1, HttpRequest_1) {
+define(["require", "exports", "./Shader", "./ShaderPreprocessor", "./ShaderError", "./AttributeLocation", "./GLState", "./GPUResources", "./UniformLocation", "./UniformStruct", "./GLCapabilities", "../util/Promise", "../util/PromiseUtil", "./ShaderType", "../net/HttpRequest", "../../visual/renderer/element/CanvasWebGL"], function (require, exports, Shader_1, ShaderPreprocessor_1, ShaderError_1, AttributeLocation_1, GLState_1, GPUResources_1, UniformLocation_1, UniformStruct_1, GLCapabilities_1, Promise_1, PromiseUtil_1, ShaderType_1, HttpRequest_1, CanvasWebGL_1) {
     "use strict";
     var ShaderProgram = (function () {
-        function ShaderProgram(gl, vertex, fragment) {
+        function ShaderProgram(gl, vertex, fragment, defines) {
+            if (defines === void 0) { defines = null; }
             this._isLinked = false;
             this._hasLoaded = false;
+            this._variants = {};
             this._uniforms = null;
-            this._attributes = {};
+            this._textureUnits = -1;
+            this._uniformBlocks = null;
+            this._uniformBuffers = {};
+            this._uniformBufferVersions = {};
+            this._attributes = null;
+            this._definedAttributes = {};
+            this._missingAttributes = {};
+            this._watchInterval = -1;
+            this._isReloading = false;
             this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
             this._program = gl.createProgram();
             this._vertex = vertex;
             this._fragment = fragment;
+            this._defines = defines;
+            GPUResources_1.GPUResources.get(gl).add(this, GPUResources_1.GPUResources.PRIORITY_DEPENDENT);
             if (this._vertex.hasLoaded() && this._fragment.hasLoaded()) {
                 this._hasLoaded = true;
                 if (!this._isLinked)
                     this.link();
             }
         }
-        ShaderProgram.createFromUrl = function (gl, vertexUrl, fragmentUrl) {
-            return new ShaderProgram(gl, new Shader_1.Shader(ShaderType_1.default.VERTEX, new HttpRequest_1.HttpRequest(vertexUrl, null)), new Shader_1.Shader(ShaderType_1.default.FRAGMENT, new HttpRequest_1.HttpRequest(fragmentUrl, null)));
+        ShaderProgram.createFromUrl = function (gl, vertexUrl, fragmentUrl, defines) {
+            if (defines === void 0) { defines = null; }
+            return new ShaderProgram(gl, new Shader_1.Shader(ShaderType_1.default.VERTEX, new HttpRequest_1.HttpRequest(vertexUrl, null)), new Shader_1.Shader(ShaderType_1.default.FRAGMENT, new HttpRequest_1.HttpRequest(fragmentUrl, null)), defines);
         };
         ShaderProgram.prototype.hasLoaded = function () {
             return this._hasLoaded;
@@ -25,7 +39,8 @@ define(["require", "exports", "./Shader", "./AttributeLocation", "./UniformLocat
         ShaderProgram.prototype.load = function (onProgress) {
             var _this = this;
             if (!this._promise) {
-                this._program = PromiseUtil_1.PromiseUtil.loadLoadable([this._vertex, this._fragment], onProgress).then(function () {
+                this._promise = PromiseUtil_1.PromiseUtil.loadLoadable([this._vertex, this._fragment], onProgress).then(function () {
+                    _this._hasLoaded = true;
                     _this.link();
                     return _this;
                 });
@@ -34,7 +49,7 @@ define(["require", "exports", "./Shader", "./AttributeLocation", "./UniformLocat
         };
         Object.defineProperty(ShaderProgram.prototype, "attributes", {
             get: function () {
-                return this._attributes;
+                return this.getAttributes();
             },
             enumerable: true,
             configurable: true
@@ -48,41 +63,225 @@ define(["require", "exports", "./Shader", "./AttributeLocation", "./UniformLocat
         });
         ShaderProgram.prototype.link = function () {
             if (!this._isLinked) {
-                var gl = this._gl;
-                gl.attachShader(this._program, this._vertex.getShader(gl));
-                gl.attachShader(this._program, this._fragment.getShader(gl));
-                gl.linkProgram(this._program);
-                this._vertex.deleteShader(gl);
-                this._fragment.deleteShader(gl);
-                this._vertex = null;
-                this._fragment = null;
-                if (!gl.getProgramParameter(this._program, gl.LINK_STATUS)) {
-                    alert("Unable to initialize the shader program.");
-                    throw new Error("Unable to initialize the shader program.");
-                }
+                this.build(this._program);
                 this._isLinked = true;
             }
             return this;
         };
+        ShaderProgram.prototype.build = function (program) {
+            var gl = this._gl;
+            var vertex = this._vertex.compile(gl, this._defines);
+            var fragment;
+            try {
+                fragment = this._fragment.compile(gl, this._defines);
+            }
+            catch (error) {
+                gl.deleteShader(vertex);
+                throw error;
+            }
+            gl.attachShader(program, vertex);
+            gl.attachShader(program, fragment);
+            gl.linkProgram(program);
+            gl.deleteShader(vertex);
+            gl.deleteShader(fragment);
+            if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+                var log = gl.getProgramInfoLog(program);
+                throw new ShaderError_1.ShaderError('unable to link ' + this._vertex.getName() + ' and ' + this._fragment.getName() + ':\n' + log, log, ShaderError_1.ShaderError.parseLog(log));
+            }
+        };
+        ShaderProgram.prototype.reload = function () {
+            var _this = this;
+            if (!this._isLinked) {
+                return this.load();
+            }
+            return Promise_1.Promise.all([this._vertex.reload(), this._fragment.reload()]).then(function (changed) {
+                if (changed.indexOf(true) != -1) {
+                    var error = null;
+                    var programs = [_this];
+                    for (var key in _this._variants) {
+                        if (_this._variants[key]._isLinked) {
+                            programs.push(_this._variants[key]);
+                        }
+                    }
+                    programs.forEach(function (program) {
+                        try {
+                            program.rebuild();
+                        }
+                        catch (e) {
+                            error = error || e;
+                        }
+                    });
+                    if (error) {
+                        throw error;
+                    }
+                }
+                return _this;
+            });
+        };
+        ShaderProgram.prototype.watch = function (interval) {
+            var _this = this;
+            if (interval === void 0) { interval = 1000; }
+            this.unwatch();
+            this._watchInterval = setInterval(function () {
+                if (!_this._isReloading) {
+                    _this._isReloading = true;
+                    _this.reload().then(function () {
+                        _this._isReloading = false;
+                    }, function (error) {
+                        _this._isReloading = false;
+                        console.error(error);
+                    });
+                }
+            }, interval);
+            return this;
+        };
+        ShaderProgram.prototype.unwatch = function () {
+            if (this._watchInterval != -1) {
+                clearInterval(this._watchInterval);
+                this._watchInterval = -1;
+            }
+            return this;
+        };
+        ShaderProgram.prototype.rebuild = function (deletePrevious) {
+            if (deletePrevious === void 0) { deletePrevious = true; }
+            var gl = this._gl;
+            var program = gl.createProgram();
+            try {
+                this.build(program);
+            }
+            catch (error) {
+                gl.deleteProgram(program);
+                throw error;
+            }
+            var previous = this._program;
+            var current = this._state.getProgram();
+            var uniforms = this._uniforms;
+            var attributes = this._attributes;
+            this._program = program;
+            if (uniforms) {
+                var nextUniforms = this.fetchUniformLocations();
+                for (var name in uniforms) {
+                    uniforms[name].relocate(nextUniforms[name] || null);
+                }
+                for (var name in nextUniforms) {
+                    if (!uniforms[name]) {
+                        uniforms[name] = nextUniforms[name];
+                    }
+                }
+            }
+            if (attributes) {
+                var nextAttributes = this.fetchAttributeLocations();
+                var enabled = [];
+                for (var name in attributes) {
+                    var attribute = attributes[name];
+                    if (deletePrevious && attribute.isEnabled() && attribute.getLocation() != -1) {
+                        attribute.disable();
+                        enabled.push(attribute);
+                    }
+                    attribute.setLocation(gl.getAttribLocation(program, name));
+                }
+                for (var i = 0; i < enabled.length; i++) {
+                    enabled[i].reapply();
+                }
+                for (var name in nextAttributes) {
+                    if (!attributes[name]) {
+                        attributes[name] = nextAttributes[name];
+                    }
+                }
+                this._missingAttributes = {};
+            }
+            this._state.useProgram(program);
+            if (uniforms) {
+                this.allocateTextureUnits();
+                for (var name in uniforms) {
+                    uniforms[name].reapply();
+                }
+            }
+            this._uniformBlocks = null;
+            this._uniformBufferVersions = {};
+            this.applyUniformBuffers();
+            this._state.useProgram(current === previous ? program : current);
+            if (deletePrevious) {
+                this._state.deleteProgram(previous);
+            }
+        };
+        ShaderProgram.prototype.restore = function (gl) {
+            if (!this._isLinked) {
+                this._program = gl.createProgram();
+                return;
+            }
+            this.rebuild(false);
+        };
+        ShaderProgram.prototype.getVariant = function (defines) {
+            var merged = {};
+            for (var name in this._defines) {
+                merged[name] = this._defines[name];
+            }
+            for (var name in defines) {
+                merged[name] = defines[name];
+            }
+            defines = merged;
+            var key = ShaderPreprocessor_1.ShaderPreprocessor.getDefinesKey(defines);
+            if (key == ShaderPreprocessor_1.ShaderPreprocessor.getDefinesKey(this._defines)) {
+                return this;
+            }
+            if (!this._variants[key]) {
+                this._variants[key] = new ShaderProgram(this._gl, this._vertex, this._fragment, defines);
+            }
+            return this._variants[key];
+        };
+        ShaderProgram.prototype.getDefines = function () {
+            return this._defines;
+        };
         ShaderProgram.prototype.use = function () {
             if (!this._isLinked)
                 this.link();
             if (!this.hasLoaded()) {
                 throw new Error('can not use program when shaders are not loaded yet');
             }
-            this._gl.useProgram(this._program);
+            this._state.useProgram(this._program);
+            if (this._textureUnits == -1) {
+                this.allocateTextureUnits();
+            }
+            this.applyUniformBuffers();
             return this;
         };
+        ShaderProgram.prototype.getTextureUnitCount = function () {
+            if (this._textureUnits == -1) {
+                this.allocateTextureUnits();
+            }
+            return this._textureUnits;
+        };
+        ShaderProgram.prototype.allocateTextureUnits = function () {
+            var uniforms = this.getUniforms();
+            var samplers = [];
+            var unit = 0;
+            for (var name in uniforms) {
+                var uniform = uniforms[name];
+                if (uniform.isSampler() && samplers.indexOf(uniform) == -1) {
+                    samplers.push(uniform);
+                    uniform.setTextureUnit(unit);
+                    unit += uniform.getSize();
+                }
+            }
+            var max = CanvasWebGL_1.CanvasWebGL.getContextSettings(this._gl).MAX_COMBINED_TEXTURE_IMAGE_UNITS;
+            if (unit > max) {
+                throw new Error('program needs ' + unit + ' texture units for the samplers '
+                    + samplers.map(function (uniform) { return uniform.getName(); }).join(', ')
+                    + ', this device only has ' + max);
+            }
+            this._textureUnits = unit;
+        };
         ShaderProgram.prototype.get = function () {
             return this._program;
         };
         ShaderProgram.prototype.getParameter = function (parameter) {
-            if (this._isLinked)
+            if (!this._isLinked)
                 this.link();
             return this._gl.getProgramParameter(this._program, parameter);
         };
         ShaderProgram.prototype.getAttribLocation = function (value) {
-            if (this._isLinked)
+            if (!this._isLinked)
                 this.link();
             return this._gl.getAttribLocation(this._program, value);
         };
@@ -91,26 +290,66 @@ define(["require", "exports", "./Shader", "./AttributeLocation", "./UniformLocat
             if (normalized === void 0) { normalized = false; }
             if (stride === void 0) { stride = 0; }
             if (offset === void 0) { offset = 0; }
-            if (this._isLinked)
-                this.link();
-            if (this._attributes[name]) {
-                throw new Error('attribute already defined');
+            var attributes = this.getAttributes();
+            if (this._definedAttributes[name]) {
+                throw new Error('attribute "' + name + '" already defined');
+            }
+            this._definedAttributes[name] = true;
+            if (attributes[name]) {
+                attributes[name].setPointer(size, type, normalized, stride, offset);
             }
-            var location = this.getAttribLocation(name);
-            this._attributes[name] = new AttributeLocation_1.AttributeLocation(this._gl, location, name, size, type, normalized, stride, offset);
-            return this._attributes[name];
+            else {
+                attributes[name] = new AttributeLocation_1.AttributeLocation(this._gl, this.getAttribLocation(name), name, size, type, normalized, stride, offset);
+            }
+            return attributes[name];
         };
         ShaderProgram.prototype.getAttribute = function (name) {
-            return this._attributes[name];
+            return this.getAttributes()[name];
+        };
+        ShaderProgram.prototype.getAttributes = function () {
+            if (!this._attributes) {
+                if (!this._isLinked)
+                    this.link();
+                this._attributes = this.fetchAttributeLocations();
+            }
+            return this._attributes;
+        };
+        ShaderProgram.prototype.bindVertexLayout = function (buffer, layout, divisor) {
+            if (divisor === void 0) { divisor = 0; }
+            var attributes = this.getAttributes();
+            var elements = layout.elements;
+            buffer.bind();
+            for (var i = 0; i < elements.length; i++) {
+                var element = elements[i];
+                var attribute = attributes[element.name];
+                if (attribute && attribute.getLocation() > -1) {
+                    attribute
+                        .setPointer(element.size, element.type, element.normalized, layout.stride, layout.offsets[element.name])
+                        .setDivisor(divisor)
+                        .point()
+                        .enable();
+                }
+            }
+            if (divisor > 0) {
+                return this;
+            }
+            for (var name in attributes) {
+                var attribute = attributes[name];
+                if (attribute.getLocation() > -1 && attribute.getDivisor() == 0 && !layout.getElement(name) && !this._missingAttributes[name]) {
+                    this._missingAttributes[name] = true;
+                    console.warn('ShaderProgram: attribute "' + name + '" is used by the shader but missing from the vertex layout');
+                }
+            }
+            return this;
         };
         ShaderProgram.prototype.getUniformLocation = function (value) {
-            if (this._isLinked)
+            if (!this._isLinked)
                 this.link();
             return this._gl.getUniformLocation(this._program, value);
         };
         ShaderProgram.prototype.getUniforms = function () {
             if (!this._uniforms) {
-                if (this._isLinked)
+                if (!this._isLinked)
                     this.link();
                 this._uniforms = this.fetchUniformLocations();
             }
@@ -119,6 +358,108 @@ define(["require", "exports", "./Shader", "./AttributeLocation", "./UniformLocat
         ShaderProgram.prototype.getUniform = function (name) {
             return this.getUniforms()[name];
         };
+        ShaderProgram.prototype.getUniformBlocks = function () {
+            if (!this._uniformBlocks) {
+                if (!this._isLinked)
+                    this.link();
+                this._uniformBlocks = this.fetchUniformBlocks();
+            }
+            return this._uniformBlocks;
+        };
+        ShaderProgram.prototype.getUniformBlock = function (name) {
+            return this.getUniformBlocks()[name] || null;
+        };
+        ShaderProgram.prototype.setUniformBuffer = function (name, buffer) {
+            if (buffer) {
+                this._uniformBuffers[name] = buffer;
+            }
+            else {
+                delete this._uniformBuffers[name];
+            }
+            delete this._uniformBufferVersions[name];
+            if (this._isLinked && this._state.getProgram() === this._program) {
+                this.applyUniformBuffers();
+            }
+            return this;
+        };
+        ShaderProgram.prototype.getUniformBuffer = function (name) {
+            return this._uniformBuffers[name] || null;
+        };
+        ShaderProgram.prototype.applyUniformBuffers = function () {
+            var native = GLCapabilities_1.GLCapabilities.get(this._gl).hasUniformBuffers();
+            for (var name in this._uniformBuffers) {
+                var buffer = this._uniformBuffers[name];
+                if (native) {
+                    var block = this.getUniformBlock(name);
+                    if (block) {
+                        buffer.bind(block);
+                    }
+                }
+                else if (this._uniformBufferVersions[name] !== buffer.version) {
+                    var values = buffer.getValues();
+                    var uniforms = this.getUniforms();
+                    this._uniformBufferVersions[name] = buffer.version;
+                    for (var member in values) {
+                        if (uniforms[member]) {
+                            uniforms[member].setValue(values[member]);
+                        }
+                    }
+                }
+            }
+        };
+        ShaderProgram.prototype.fetchUniformBlocks = function () {
+            var blocks = {};
+            if (!GLCapabilities_1.GLCapabilities.get(this._gl).hasUniformBuffers()) {
+                return blocks;
+            }
+            var gl = this._gl;
+            var program = this._program;
+            var count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORM_BLOCKS);
+            for (var index = 0; index < count; index++) {
+                var name = gl.getActiveUniformBlockName(program, index);
+                gl.uniformBlockBinding(program, index, index);
+                blocks[name] = {
+                    name: name,
+                    index: index,
+                    binding: index,
+                    size: gl.getActiveUniformBlockParameter(program, index, gl.UNIFORM_BLOCK_DATA_SIZE),
+                    members: {}
+                };
+            }
+            var uniformCount = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS);
+            var indices = [];
+            for (var i = 0; i < uniformCount; i++) {
+                indices.push(i);
+            }
+            var blockIndices = gl.getActiveUniforms(program, indices, gl.UNIFORM_BLOCK_INDEX);
+            var offsets = gl.getActiveUniforms(program, indices, gl.UNIFORM_OFFSET);
+            var arrayStrides = gl.getActiveUniforms(program, indices, gl.UNIFORM_ARRAY_STRIDE);
+            var matrixStrides = gl.getActiveUniforms(program, indices, gl.UNIFORM_MATRIX_STRIDE);
+            for (var name in blocks) {
+                var block = blocks[name];
+                for (var i = 0; i < uniformCount; i++) {
+                    if (blockIndices[i] != block.index) {
+                        continue;
+                    }
+                    var info = gl.getActiveUniform(program, i);
+                    var path = info.name;
+                    if (path.indexOf(name + '.') == 0) {
+                        path = path.substr(name.length + 1);
+                    }
+                    if (path.lastIndexOf('[0]') != -1 && path.lastIndexOf('[0]') == path.length - 3) {
+                        path = path.substr(0, path.length - 3);
+                    }
+                    block.members[path] = {
+                        type: info.type,
+                        size: info.size,
+                        offset: offsets[i],
+                        arrayStride: arrayStrides[i],
+                        matrixStride: matrixStrides[i]
+                    };
+                }
+            }
+            return blocks;
+        };
         ShaderProgram.prototype.fetchUniformLocations = function () {
             var uniforms = {};
             var program = this._program;
@@ -127,16 +468,72 @@ define(["require", "exports", "./Shader", "./AttributeLocation", "./UniformLocat
             for (var i = 0; i < n; i++) {
                 var info = gl.getActiveUniform(program, i);
                 var name = info.name;
-                var type = info.type;
                 var location = this.getUniformLocation(name);
-                uniforms[name] = new UniformLocation_1.UniformLocation(this._gl, name, location, type);
+                if (location === null) {
+                    continue;
+                }
+                var uniform = new UniformLocation_1.UniformLocation(gl, name, location, info.type, info.size);
+                uniforms[name] = uniform;
+                var path = name;
+                var suffixPos = name.lastIndexOf('[0]');
+                if (suffixPos !== -1 && suffixPos === name.length - 3) {
+                    path = name.substr(0, suffixPos);
+                }
+                if (path.indexOf('.') == -1 && path.indexOf('[') == -1) {
+                    uniforms[path] = uniform;
+                }
+                else {
+                    this.addStructMember(uniforms, path, uniform);
+                }
             }
             return uniforms;
         };
+        ShaderProgram.prototype.addStructMember = function (uniforms, path, uniform) {
+            var keys = path.split(/[\[\]\.]+/).filter(function (key) { return key.length > 0; });
+            var name = keys[0];
+            var struct = uniforms[name];
+            if (!struct) {
+                struct = new UniformStruct_1.UniformStruct(this._gl, name);
+                uniforms[name] = struct;
+            }
+            for (var i = 1; i < keys.length - 1; i++) {
+                var key = keys[i];
+                name += isNaN(key) ? '.' + key : '[' + key + ']';
+                if (!struct.members[key]) {
+                    struct.members[key] = new UniformStruct_1.UniformStruct(this._gl, name);
+                }
+                struct = struct.members[key];
+            }
+            struct.members[keys[keys.length - 1]] = uniform;
+        };
+        ShaderProgram.prototype.fetchAttributeLocations = function () {
+            var attributes = {};
+            var program = this._program;
+            var gl = this._gl;
+            var n = this.getParameter(gl.ACTIVE_ATTRIBUTES);
+            for (var i = 0; i < n; i++) {
+                var info = gl.getActiveAttrib(program, i);
+                var name = info.name;
+                var location = this.getAttribLocation(name);
+                attributes[name] = new AttributeLocation_1.AttributeLocation(gl, location, name, AttributeLocation_1.AttributeLocation.getComponentCount(gl, info.type));
+            }
+            return attributes;
+        };
         ShaderProgram.prototype.destruct = function () {
+            this.unwatch();
+            GPUResources_1.GPUResources.get(this._gl).remove(this);
+            if (this._vertex)
+                this._vertex.deleteShader(this._gl);
+            if (this._fragment)
+                this._fragment.deleteShader(this._gl);
             this._vertex = null;
-            this._fragment.deleteShader(this._gl);
-            this._gl.deleteProgram(this._program);
+            this._fragment = null;
+            for (var key in this._variants) {
+                this._variants[key].destruct();
+            }
+            this._variants = null;
+            this._uniformBuffers = null;
+            this._state.deleteProgram(this._program);
             this._program = void 0;
             this._gl = void 0;
         };
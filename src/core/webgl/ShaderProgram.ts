@@ -2,44 +2,74 @@
 import IHashMap from "../../core/interface/IHashMap";
 import GUI = dat.GUI;
 import {Shader} from "./Shader";
+import {ShaderPreprocessor} from "./ShaderPreprocessor";
+import {ShaderError} from "./ShaderError";
 import {AttributeLocation} from "./AttributeLocation";
+import {VertexLayout} from "./VertexLayout";
+import {Buffer} from "./Buffer";
+import {GLState} from "./GLState";
+import {GPUResources} from "./GPUResources";
+import IGPUResource from "../interface/IGPUResource";
 import {UniformLocation} from "./UniformLocation"
+import {UniformStruct} from "./UniformStruct";
+import {UniformBuffer} from "./UniformBuffer";
+import {GLCapabilities} from "./GLCapabilities";
+import IUniformBlock from "../interface/IUniformBlock";
+import IUniformBlockMember from "../interface/IUniformBlockMember";
+import IWebGL2RenderingContext from "../interface/IWebGL2RenderingContext";
 import {ILoadable} from "../interface/ILoadable";
 import {Promise} from "../util/Promise";
 import {PromiseUtil} from "../util/PromiseUtil";
 import ShaderType from "./ShaderType";
 import {HttpRequest} from "../net/HttpRequest";
+import {CanvasWebGL} from "../../visual/renderer/element/CanvasWebGL";
 
-export class ShaderProgram implements ILoadable<ShaderProgram>
+export class ShaderProgram implements ILoadable<ShaderProgram>, IGPUResource
 {
-	public static createFromUrl(gl:WebGLRenderingContext, vertexUrl:string, fragmentUrl:string):ShaderProgram
+	public static createFromUrl(gl:WebGLRenderingContext, vertexUrl:string, fragmentUrl:string, defines:IHashMap<any> = null):ShaderProgram
 	{
 		return new ShaderProgram(
 			gl,
 			new Shader(ShaderType.VERTEX, new HttpRequest<string>(vertexUrl, null)),
-			new Shader(ShaderType.FRAGMENT, new HttpRequest<string>(fragmentUrl, null))
+			new Shader(ShaderType.FRAGMENT, new HttpRequest<string>(fragmentUrl, null)),
+			defines
 		);
 	}
 
 	protected _gl:WebGLRenderingContext;
+	protected _state:GLState;
 	protected _program:WebGLProgram;
 	protected _vertex:Shader;
 	protected _fragment:Shader;
+	protected _defines:IHashMap<any>;
 
 	private _isLinked:boolean = false;
 	private _hasLoaded:boolean = false;
-	private _promise:Promise<this>;
+	private _promise:Promise<ShaderProgram>;
+	private _variants:IHashMap<ShaderProgram> = {};
 
 	private _uniforms:any = null;
-	private _attributes:IHashMap<AttributeLocation> = {};
-
-	constructor(gl:WebGLRenderingContext, vertex:Shader, fragment:Shader)
+	private _textureUnits:number = -1;
+	private _uniformBlocks:IHashMap<IUniformBlock> = null;
+	private _uniformBuffers:IHashMap<UniformBuffer> = {};
+	private _uniformBufferVersions:IHashMap<number> = {};
+	private _attributes:IHashMap<AttributeLocation> = null;
+	private _definedAttributes:IHashMap<boolean> = {};
+	private _missingAttributes:IHashMap<boolean> = {};
+	private _watchInterval:number = -1;
+	private _isReloading:boolean = false;
+
+	constructor(gl:WebGLRenderingContext, vertex:Shader, fragment:Shader, defines:IHashMap<any> = null)
 	{
 		this._gl = gl;
+		this._state = GLState.get(gl);
 		this._program = gl.createProgram();
 
 		this._vertex = <Shader> vertex;
 		this._fragment = <Shader> fragment;
+		this._defines = defines;
+
+		GPUResources.get(gl).add(this, GPUResources.PRIORITY_DEPENDENT);
 
 		if(this._vertex.hasLoaded() && this._fragment.hasLoaded()){
 			this._hasLoaded = true;
@@ -55,7 +85,8 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 	public load(onProgress?:(progress:number)=>any):Promise<ShaderProgram>
 	{
 		if(!this._promise){
-			this._program = PromiseUtil.loadLoadable<Shader>([this._vertex, this._fragment], onProgress).then<ShaderProgram>(() => {
+			this._promise = PromiseUtil.loadLoadable<Shader>([this._vertex, this._fragment], onProgress).then<ShaderProgram>(() => {
+				this._hasLoaded = true;
 				this.link();
 				return this;
 			});
@@ -70,7 +101,7 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 	 */
 	public get attributes()
 	{
-		return this._attributes;
+		return this.getAttributes();
 	}
 
 	/**
@@ -86,30 +117,303 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 	{
 		if(!this._isLinked)
 		{
-			var gl = this._gl;
-			// Create the shader program
-			gl.attachShader(this._program, this._vertex.getShader(gl));
-			gl.attachShader(this._program, this._fragment.getShader(gl));
-			gl.linkProgram(this._program);
+			this.build(this._program);
+			this._isLinked = true;
+		}
+
+		return this;
+	}
+
+	/**
+	 * Compiles the shaders and links them into program, throws a ShaderError when either fails.
+	 *
+	 * @method build
+	 * @param {WebGLProgram} program
+	 */
+	protected build(program:WebGLProgram):void
+	{
+		var gl = this._gl;
+		// Create the shader program
+		var vertex = this._vertex.compile(gl, this._defines);
+		var fragment:WebGLShader;
+
+		try {
+			fragment = this._fragment.compile(gl, this._defines);
+		} catch(error) {
+			gl.deleteShader(vertex);
+			throw error;
+		}
 
-			this._vertex.deleteShader(gl);
-			this._fragment.deleteShader(gl);
+		gl.attachShader(program, vertex);
+		gl.attachShader(program, fragment);
+		gl.linkProgram(program);
 
-			this._vertex = null;
-			this._fragment = null;
+		// the shaders are not needed anymore once the program is linked
+		gl.deleteShader(vertex);
+		gl.deleteShader(fragment);
 
-			// If creating the shader program failed, alert
-			if (!gl.getProgramParameter(this._program, gl.LINK_STATUS)) {
-				alert("Unable to initialize the shader program.");
-				throw new Error("Unable to initialize the shader program.");
+		if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+			var log = gl.getProgramInfoLog(program);
+			throw new ShaderError('unable to link ' + this._vertex.getName() + ' and ' + this._fragment.getName() + ':\n' + log, log, ShaderError.parseLog(log));
+		}
+	}
+
+	/**
+	 * Fetches the shaders again and, when their source changed, relinks this program and its variants. Rejects
+	 * with the ShaderError when the new source does not compile, the program keeps running on the old source.
+	 * Variants that were never used are left alone, they are linked from the new source when they are first used.
+	 *
+	 * @method reload
+	 * @returns {Promise<ShaderProgram>}
+	 */
+	public reload():Promise<ShaderProgram>
+	{
+		if(!this._isLinked)
+		{
+			return this.load();
+		}
+
+		return Promise.all([this._vertex.reload(), this._fragment.reload()]).then((changed:Array<boolean>) => {
+			if(changed.indexOf(true) != -1)
+			{
+				var error = null;
+				var programs:Array<ShaderProgram> = [this];
+
+				for(var key in this._variants)
+				{
+					if(this._variants[key]._isLinked)
+					{
+						programs.push(this._variants[key]);
+					}
+				}
+
+				programs.forEach((program:ShaderProgram) => {
+					try {
+						program.rebuild();
+					} catch(e) {
+						error = error || e;
+					}
+				});
+
+				if(error)
+				{
+					throw error;
+				}
 			}
 
-			this._isLinked = true;
+			return this;
+		});
+	}
+
+	/**
+	 * Reloads the shaders on an interval while tuning them, errors are logged to the console.
+	 *
+	 * @method watch
+	 * @param {number} [interval=1000] milliseconds between reloads
+	 * @returns {ShaderProgram}
+	 */
+	public watch(interval:number = 1000):this
+	{
+		this.unwatch();
+
+		this._watchInterval = setInterval(() => {
+			if(!this._isReloading)
+			{
+				this._isReloading = true;
+				this.reload().then(() => {
+					this._isReloading = false;
+				}, (error:any) => {
+					this._isReloading = false;
+					console.error(error);
+				});
+			}
+		}, interval);
+
+		return this;
+	}
+
+	public unwatch():this
+	{
+		if(this._watchInterval != -1)
+		{
+			clearInterval(this._watchInterval);
+			this._watchInterval = -1;
 		}
 
 		return this;
 	}
 
+	/**
+	 * Links the current source into a new WebGLProgram and swaps it with the old one. The UniformLocation and
+	 * AttributeLocation objects handed out before stay valid, they are pointed to the new program and the uniform
+	 * values are set again. Attributes that were enabled are pointed at their buffer and enabled at their new
+	 * location, except after a lost context where the buffers they pointed at are gone.
+	 *
+	 * @method rebuild
+	 * @param {boolean} [deletePrevious=true] false when the old program belongs to a lost context
+	 */
+	protected rebuild(deletePrevious:boolean = true):void
+	{
+		var gl = this._gl;
+		var program = gl.createProgram();
+
+		try {
+			this.build(program);
+		} catch(error) {
+			gl.deleteProgram(program);
+			throw error;
+		}
+
+		var previous = this._program;
+		var current = this._state.getProgram();
+		var uniforms:IHashMap<UniformLocation> = this._uniforms;
+		var attributes = this._attributes;
+
+		this._program = program;
+
+		if(uniforms)
+		{
+			var nextUniforms = this.fetchUniformLocations();
+
+			for(var name in uniforms)
+			{
+				uniforms[name].relocate(nextUniforms[name] || null);
+			}
+
+			for(var name in nextUniforms)
+			{
+				if(!uniforms[name])
+				{
+					uniforms[name] = nextUniforms[name];
+				}
+			}
+		}
+
+		if(attributes)
+		{
+			var nextAttributes = this.fetchAttributeLocations();
+			var enabled:Array<AttributeLocation> = [];
+
+			for(var name in attributes)
+			{
+				var attribute = attributes[name];
+
+				// the old locations are all released before any is enabled, another attribute may get one of them
+				if(deletePrevious && attribute.isEnabled() && attribute.getLocation() != -1)
+				{
+					attribute.disable();
+					enabled.push(attribute);
+				}
+
+				attribute.setLocation(gl.getAttribLocation(program, name));
+			}
+
+			for(var i = 0; i < enabled.length; i++)
+			{
+				enabled[i].reapply();
+			}
+
+			for(var name in nextAttributes)
+			{
+				if(!attributes[name])
+				{
+					attributes[name] = nextAttributes[name];
+				}
+			}
+
+			this._missingAttributes = {};
+		}
+
+		this._state.useProgram(program);
+
+		if(uniforms)
+		{
+			this.allocateTextureUnits();
+
+			for(var name in uniforms)
+			{
+				uniforms[name].reapply();
+			}
+		}
+
+		// the new program needs its block bindings, and the values of the buffers when they are set as uniforms
+		this._uniformBlocks = null;
+		this._uniformBufferVersions = {};
+		this.applyUniformBuffers();
+
+		this._state.useProgram(current === previous ? program : current);
+
+		if(deletePrevious)
+		{
+			this._state.deleteProgram(previous);
+		}
+	}
+
+	/**
+	 * Compiles and links the program again after the context was restored.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		if(!this._isLinked)
+		{
+			this._program = gl.createProgram();
+			return;
+		}
+
+		this.rebuild(false);
+	}
+
+	/**
+	 * Returns the program compiled from the same shaders with the given defines added to the defines of this
+	 * program, variants are created once per define set. A define set to false removes it.
+	 *
+	 * <h4>Example</h4>
+	 *
+	 *      var fog = program.getVariant({USE_FOG: 1, MAX_LIGHTS: 4}).use();
+	 *
+	 * @method getVariant
+	 * @param {IHashMap<any>} defines
+	 * @returns {ShaderProgram}
+	 */
+	public getVariant(defines:IHashMap<any>):ShaderProgram
+	{
+		var merged:IHashMap<any> = {};
+
+		for(var name in this._defines)
+		{
+			merged[name] = this._defines[name];
+		}
+
+		for(var name in defines)
+		{
+			merged[name] = defines[name];
+		}
+
+		defines = merged;
+
+		var key = ShaderPreprocessor.getDefinesKey(defines);
+
+		if(key == ShaderPreprocessor.getDefinesKey(this._defines))
+		{
+			return this;
+		}
+
+		if(!this._variants[key])
+		{
+			this._variants[key] = new ShaderProgram(this._gl, this._vertex, this._fragment, defines);
+		}
+
+		return this._variants[key];
+	}
+
+	public getDefines():IHashMap<any>
+	{
+		return this._defines;
+	}
+
 	/**
 	 * WebGL start using this program
 	 * @method use
@@ -123,10 +427,71 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 			throw new Error('can not use program when shaders are not loaded yet')
 		}
 
-		this._gl.useProgram(this._program);
+		this._state.useProgram(this._program);
+
+		if(this._textureUnits == -1)
+		{
+			this.allocateTextureUnits();
+		}
+
+		this.applyUniformBuffers();
+
 		return this;
 	}
 
+	/**
+	 * Amount of texture units used by the samplers of this program.
+	 *
+	 * @method getTextureUnitCount
+	 * @returns {number}
+	 */
+	public getTextureUnitCount():number
+	{
+		if(this._textureUnits == -1)
+		{
+			this.allocateTextureUnits();
+		}
+
+		return this._textureUnits;
+	}
+
+	/**
+	 * Gives every sampler uniform its own texture unit, starting at 0. Programs are used one at a time, so every
+	 * program can start counting at 0.
+	 *
+	 * @method allocateTextureUnits
+	 */
+	protected allocateTextureUnits():void
+	{
+		var uniforms = this.getUniforms();
+		var samplers:Array<UniformLocation> = [];
+		var unit = 0;
+
+		for(var name in uniforms)
+		{
+			var uniform = uniforms[name];
+
+			// arrays and struct members are registered under more than one name
+			if(uniform.isSampler() && samplers.indexOf(uniform) == -1)
+			{
+				samplers.push(uniform);
+				uniform.setTextureUnit(unit);
+				unit += uniform.getSize();
+			}
+		}
+
+		var max = CanvasWebGL.getContextSettings(this._gl).MAX_COMBINED_TEXTURE_IMAGE_UNITS;
+
+		if(unit > max)
+		{
+			throw new Error('program needs ' + unit + ' texture units for the samplers '
+				+ samplers.map((uniform:UniformLocation) => uniform.getName()).join(', ')
+				+ ', this device only has ' + max);
+		}
+
+		this._textureUnits = unit;
+	}
+
 	/**
 	 * Returns WebGLProgram program
 	 *
@@ -140,41 +505,120 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 
 	public getParameter(parameter:number):any
 	{
-		if(this._isLinked) this.link();
+		if(!this._isLinked) this.link();
 
 		return this._gl.getProgramParameter( this._program, parameter );
 	}
 
 	public getAttribLocation(value:string):number
 	{
-		if(this._isLinked) this.link();
+		if(!this._isLinked) this.link();
 
 		return this._gl.getAttribLocation(this._program, value);
 	}
 
+	/**
+	 * Sets how an attribute reads from the buffer that is bound when it is pointed, active attributes are already
+	 * known to the program so this only changes their pointer settings.
+	 *
+	 * @method defineAttribute
+	 * @returns {AttributeLocation}
+	 */
 	public defineAttribute(name:string, size: number, type:number = this._gl.FLOAT, normalized: boolean = false, stride: number = 0, offset: number = 0):AttributeLocation
 	{
-		if(this._isLinked) this.link();
+		var attributes = this.getAttributes();
 
-		if(this._attributes[name])
+		if(this._definedAttributes[name])
 		{
-			throw new Error('attribute already defined');
+			throw new Error('attribute "' + name + '" already defined');
 		}
 
-		var location = this.getAttribLocation(name)
-		this._attributes[name] = new AttributeLocation(this._gl, location, name, size, type, normalized, stride, offset);
+		this._definedAttributes[name] = true;
 
-		return this._attributes[name];
+		if(attributes[name])
+		{
+			attributes[name].setPointer(size, type, normalized, stride, offset);
+		}
+		else
+		{
+			attributes[name] = new AttributeLocation(this._gl, this.getAttribLocation(name), name, size, type, normalized, stride, offset);
+		}
+
+		return attributes[name];
 	}
 
 	public getAttribute(name:string):AttributeLocation
 	{
-		return this._attributes[name];
+		return this.getAttributes()[name];
+	}
+
+	public getAttributes():IHashMap<AttributeLocation>
+	{
+		if(!this._attributes)
+		{
+			if(!this._isLinked) this.link();
+
+			this._attributes = this.fetchAttributeLocations();
+		}
+
+		return this._attributes;
+	}
+
+	/**
+	 * Binds the buffer and points and enables every attribute that is described by the layout. Attributes the
+	 * shader uses that are missing from the layout are reported once, per instance attributes are expected in
+	 * their own layout that is bound before the per vertex layout.
+	 *
+	 * @method bindVertexLayout
+	 * @param {Buffer} buffer interleaved vertex buffer
+	 * @param {VertexLayout} layout
+	 * @param {number} [divisor=0] 1 when the buffer holds a value per instance
+	 * @returns {ShaderProgram}
+	 */
+	public bindVertexLayout(buffer:Buffer, layout:VertexLayout, divisor:number = 0):this
+	{
+		var attributes = this.getAttributes();
+		var elements = layout.elements;
+
+		buffer.bind();
+
+		for(var i = 0; i < elements.length; i++)
+		{
+			var element = elements[i];
+			var attribute = attributes[element.name];
+
+			if(attribute && attribute.getLocation() > -1)
+			{
+				attribute
+					.setPointer(element.size, element.type, element.normalized, layout.stride, layout.offsets[element.name])
+					.setDivisor(divisor)
+					.point()
+					.enable();
+			}
+		}
+
+		if(divisor > 0)
+		{
+			return this;
+		}
+
+		for(var name in attributes)
+		{
+			var attribute = attributes[name];
+
+			if(attribute.getLocation() > -1 && attribute.getDivisor() == 0 && !layout.getElement(name) && !this._missingAttributes[name])
+			{
+				this._missingAttributes[name] = true;
+				console.warn('ShaderProgram: attribute "' + name + '" is used by the shader but missing from the vertex layout');
+			}
+		}
+
+		return this;
 	}
 
 	public getUniformLocation(value:string):WebGLUniformLocation
 	{
-		if(this._isLinked) this.link();
+		if(!this._isLinked) this.link();
 
 		return this._gl.getUniformLocation(this._program, value);
 	}
@@ -183,7 +627,7 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 	{
 		if(!this._uniforms)
 		{
-			if(this._isLinked) this.link();
+			if(!this._isLinked) this.link();
 
 			this._uniforms = this.fetchUniformLocations();
 		}
@@ -196,6 +640,199 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 		return this.getUniforms()[name];
 	}
 
+	/**
+	 * The uniform blocks of the program, always empty on WebGL 1.
+	 *
+	 * @method getUniformBlocks
+	 * @returns {IHashMap<IUniformBlock>}
+	 */
+	public getUniformBlocks():IHashMap<IUniformBlock>
+	{
+		if(!this._uniformBlocks)
+		{
+			if(!this._isLinked) this.link();
+
+			this._uniformBlocks = this.fetchUniformBlocks();
+		}
+
+		return this._uniformBlocks;
+	}
+
+	public getUniformBlock(name:string):IUniformBlock
+	{
+		return this.getUniformBlocks()[name] || null;
+	}
+
+	/**
+	 * Sets the values of the uniform block with the given name. On WebGL 2 the buffer is bound to the block every
+	 * time the program is used, on WebGL 1 the values are set as plain uniforms with the same names when they
+	 * changed, so the shader can declare them without a block.
+	 *
+	 * <h4>Example</h4>
+	 *
+	 *      #if __VERSION__ >= 300
+	 *      layout(std140) uniform Material { vec4 uColor; };
+	 *      #else
+	 *      uniform vec4 uColor;
+	 *      #endif
+	 *
+	 * @method setUniformBuffer
+	 * @param {string} name name of the block
+	 * @param {UniformBuffer} buffer null to remove the buffer
+	 * @returns {ShaderProgram}
+	 */
+	public setUniformBuffer(name:string, buffer:UniformBuffer):this
+	{
+		if(buffer)
+		{
+			this._uniformBuffers[name] = buffer;
+		}
+		else
+		{
+			delete this._uniformBuffers[name];
+		}
+
+		delete this._uniformBufferVersions[name];
+
+		if(this._isLinked && this._state.getProgram() === this._program)
+		{
+			this.applyUniformBuffers();
+		}
+
+		return this;
+	}
+
+	public getUniformBuffer(name:string):UniformBuffer
+	{
+		return this._uniformBuffers[name] || null;
+	}
+
+	/**
+	 * Binds the uniform buffers to their blocks, or sets their values as uniforms on WebGL 1. Expects the program
+	 * to be in use.
+	 *
+	 * @method applyUniformBuffers
+	 */
+	protected applyUniformBuffers():void
+	{
+		var native = GLCapabilities.get(this._gl).hasUniformBuffers();
+
+		for(var name in this._uniformBuffers)
+		{
+			var buffer = this._uniformBuffers[name];
+
+			if(native)
+			{
+				var block = this.getUniformBlock(name);
+
+				if(block)
+				{
+					buffer.bind(block);
+				}
+			}
+			else if(this._uniformBufferVersions[name] !== buffer.version)
+			{
+				var values = buffer.getValues();
+				var uniforms = this.getUniforms();
+
+				this._uniformBufferVersions[name] = buffer.version;
+
+				for(var member in values)
+				{
+					if(uniforms[member])
+					{
+						uniforms[member].setValue(values[member]);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Reads the layout of every uniform block and gives each block its own binding point, starting at 0.
+	 *
+	 * @method fetchUniformBlocks
+	 * @returns {IHashMap<IUniformBlock>}
+	 */
+	protected fetchUniformBlocks():IHashMap<IUniformBlock>
+	{
+		var blocks:IHashMap<IUniformBlock> = {};
+
+		if(!GLCapabilities.get(this._gl).hasUniformBuffers())
+		{
+			return blocks;
+		}
+
+		var gl = <IWebGL2RenderingContext> this._gl;
+		var program = this._program;
+		var count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORM_BLOCKS);
+
+		for(var index = 0; index < count; index++)
+		{
+			var name:string = gl.getActiveUniformBlockName(program, index);
+
+			gl.uniformBlockBinding(program, index, index);
+
+			blocks[name] = {
+				name: name,
+				index: index,
+				binding: index,
+				size: gl.getActiveUniformBlockParameter(program, index, gl.UNIFORM_BLOCK_DATA_SIZE),
+				members: {}
+			};
+		}
+
+		var uniformCount = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS);
+		var indices:Array<number> = [];
+
+		for(var i = 0; i < uniformCount; i++)
+		{
+			indices.push(i);
+		}
+
+		var blockIndices:Array<number> = gl.getActiveUniforms(program, indices, gl.UNIFORM_BLOCK_INDEX);
+		var offsets:Array<number> = gl.getActiveUniforms(program, indices, gl.UNIFORM_OFFSET);
+		var arrayStrides:Array<number> = gl.getActiveUniforms(program, indices, gl.UNIFORM_ARRAY_STRIDE);
+		var matrixStrides:Array<number> = gl.getActiveUniforms(program, indices, gl.UNIFORM_MATRIX_STRIDE);
+
+		for(var name in blocks)
+		{
+			var block = blocks[name];
+
+			for(var i = 0; i < uniformCount; i++)
+			{
+				if(blockIndices[i] != block.index)
+				{
+					continue;
+				}
+
+				var info = gl.getActiveUniform(program, i);
+				var path:string = info.name;
+
+				// members of a block with an instance name are reported as Block.member, arrays as member[0]
+				if(path.indexOf(name + '.') == 0)
+				{
+					path = path.substr(name.length + 1);
+				}
+
+				if(path.lastIndexOf('[0]') != -1 && path.lastIndexOf('[0]') == path.length - 3)
+				{
+					path = path.substr(0, path.length - 3);
+				}
+
+				block.members[path] = <IUniformBlockMember> {
+					type: info.type,
+					size: info.size,
+					offset: offsets[i],
+					arrayStride: arrayStrides[i],
+					matrixStride: matrixStrides[i]
+				};
+			}
+		}
+
+		return blocks;
+	}
+
 	protected fetchUniformLocations():IHashMap<UniformLocation>
 	{
 		var uniforms:IHashMap<UniformLocation> = {};
@@ -208,51 +845,114 @@ export class ShaderProgram implements ILoadable<ShaderProgram>
 
 			var info = gl.getActiveUniform( program, i );
 			var name = info.name;
-			var type = info.type;
 			var location = this.getUniformLocation( name );
 
-			// console.log("ACTIVE UNIFORM:", name);
+			// members of uniform blocks have no location, their values come from a UniformBuffer
+			if(location === null)
+			{
+				continue;
+			}
+
+			var uniform = new UniformLocation(gl, name, location, info.type, info.size);
 
-			//var suffixPos = name.lastIndexOf( '[0]' );
-			//if ( suffixPos !== - 1 && suffixPos === name.length - 3 ) {
-			//
-			//	uniforms[ name.substr( 0, suffixPos ) ] = location;
-			//}
+			uniforms[ name ] = uniform;
 
-			uniforms[ name ] = new UniformLocation(this._gl, name, location, type);
+			// arrays are reported as name[0], they are addressed by their base name
+			var path = name;
+			var suffixPos = name.lastIndexOf( '[0]' );
+			if ( suffixPos !== - 1 && suffixPos === name.length - 3 ) {
+				path = name.substr( 0, suffixPos );
+			}
+
+			if(path.indexOf('.') == -1 && path.indexOf('[') == -1)
+			{
+				uniforms[ path ] = uniform;
+			}
+			else
+			{
+				this.addStructMember(uniforms, path, uniform);
+			}
 		}
 
 		return uniforms;
 	}
 
-	//protected fetchAttributeLocations():IHashMap<number>
-	//{
-	//	var attributes:IHashMap<number> = {};
-	//
-	//	var n = this.getParameter( this.gl.ACTIVE_ATTRIBUTES );
-	//	var program = this.program;
-	//	var gl = this.gl;
-	//
-	//	for ( var i = 0; i < n; i ++ ) {
-	//
-	//		var info = gl.getActiveAttrib( program, i );
-	//		var name = info.name;
-	//		var type = info.type;
-	//		var location = this.getAttribLocation(name);
-	//
-	//		attributes[name] = new AttributeLocation(gl, name, location, type);
-	//
-	//	}
-	//
-	//	return attributes;
-	//}
+	/**
+	 * Adds a member of a struct, like uLights[1].color, to the UniformStruct registered under the base name.
+	 *
+	 * @method addStructMember
+	 * @param {IHashMap<UniformLocation>} uniforms
+	 * @param {string} path
+	 * @param {UniformLocation} uniform
+	 */
+	protected addStructMember(uniforms:IHashMap<UniformLocation>, path:string, uniform:UniformLocation):void
+	{
+		var keys = path.split(/[\[\]\.]+/).filter((key:string) => key.length > 0);
+		var name = keys[0];
+		var struct = <UniformStruct> uniforms[name];
+
+		if(!struct)
+		{
+			struct = new UniformStruct(this._gl, name);
+			uniforms[name] = struct;
+		}
+
+		for(var i = 1; i < keys.length - 1; i++)
+		{
+			var key = keys[i];
+			name += isNaN(<any> key) ? '.' + key : '[' + key + ']';
+
+			if(!struct.members[key])
+			{
+				struct.members[key] = new UniformStruct(this._gl, name);
+			}
+
+			struct = <UniformStruct> struct.members[key];
+		}
+
+		struct.members[keys[keys.length - 1]] = uniform;
+	}
+
+	protected fetchAttributeLocations():IHashMap<AttributeLocation>
+	{
+		var attributes:IHashMap<AttributeLocation> = {};
+		var program = this._program;
+		var gl = this._gl;
+
+		var n = this.getParameter( gl.ACTIVE_ATTRIBUTES );
+
+		for ( var i = 0; i < n; i ++ ) {
+
+			var info = gl.getActiveAttrib( program, i );
+			var name = info.name;
+			var location = this.getAttribLocation(name);
+
+			attributes[name] = new AttributeLocation(gl, location, name, AttributeLocation.getComponentCount(gl, info.type));
+		}
+
+		return attributes;
+	}
 
 	public destruct():void
 	{
+		this.unwatch();
+		GPUResources.get(this._gl).remove(this);
+
+		if(this._vertex) this._vertex.deleteShader(this._gl);
+		if(this._fragment) this._fragment.deleteShader(this._gl);
+
 		this._vertex = null;
-		this._fragment.deleteShader(this._gl);
+		this._fragment = null;
+
+		for(var key in this._variants)
+		{
+			this._variants[key].destruct();
+		}
+
+		this._variants = null;
+		this._uniformBuffers = null;
 
-		this._gl.deleteProgram(this._program);
+		this._state.deleteProgram(this._program);
 		this._program = void 0;
 		this._gl = void 0;
 	}
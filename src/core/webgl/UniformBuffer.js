@@ -0,0 +1,165 @@
+define(["require", "exports", "./GLState", "./GPUResources"], function (require, exports, GLState_1, GPUResources_1) {
+    "use strict";
+    var UniformBuffer = (function () {
+        function UniformBuffer(gl) {
+            this._buffer = null;
+            this._block = null;
+            this._data = null;
+            this._floats = null;
+            this._integers = null;
+            this._values = {};
+            this._needsUpdate = false;
+            this.version = 0;
+            this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
+        }
+        UniformBuffer.getDimensions = function (type) {
+            switch (type) {
+                case 0x1406:
+                case 0x1404:
+                case 0x1405:
+                case 0x8B56: {
+                    return [1, 1];
+                }
+                case 0x8B50:
+                case 0x8B53:
+                case 0x8DC6:
+                case 0x8B57: {
+                    return [1, 2];
+                }
+                case 0x8B51:
+                case 0x8B54:
+                case 0x8DC7:
+                case 0x8B58: {
+                    return [1, 3];
+                }
+                case 0x8B52:
+                case 0x8B55:
+                case 0x8DC8:
+                case 0x8B59: {
+                    return [1, 4];
+                }
+                case 0x8B5A: return [2, 2];
+                case 0x8B65: return [2, 3];
+                case 0x8B66: return [2, 4];
+                case 0x8B67: return [3, 2];
+                case 0x8B5B: return [3, 3];
+                case 0x8B68: return [3, 4];
+                case 0x8B69: return [4, 2];
+                case 0x8B6A: return [4, 3];
+                case 0x8B5C: return [4, 4];
+            }
+            throw new TypeError('unknown uniform block member type 0x' + type.toString(16));
+        };
+        UniformBuffer.isInteger = function (type) {
+            return [0x1404, 0x1405, 0x8B56, 0x8B53, 0x8DC6, 0x8B57, 0x8B54, 0x8DC7, 0x8B58, 0x8B55, 0x8DC8, 0x8B59].indexOf(type) != -1;
+        };
+        UniformBuffer.isSameLayout = function (a, b) {
+            if (a.size != b.size) {
+                return false;
+            }
+            for (var name in b.members) {
+                if (!a.members[name] || a.members[name].offset != b.members[name].offset || a.members[name].type != b.members[name].type) {
+                    return false;
+                }
+            }
+            return true;
+        };
+        UniformBuffer.prototype.setValue = function (name, value) {
+            this._values[name] = value;
+            this.version++;
+            if (this._block) {
+                this.write(name, value);
+            }
+            return this;
+        };
+        UniformBuffer.prototype.getValue = function (name) {
+            return this._values[name];
+        };
+        UniformBuffer.prototype.getValues = function () {
+            return this._values;
+        };
+        UniformBuffer.prototype.bind = function (block) {
+            var gl = this._gl;
+            if (block !== this._block) {
+                this.setLayout(block);
+            }
+            if (!this._buffer) {
+                this._buffer = gl.createBuffer();
+                this._state.bindBuffer(UniformBuffer.UNIFORM_BUFFER, this._buffer);
+                gl.bufferData(UniformBuffer.UNIFORM_BUFFER, this._data, gl.DYNAMIC_DRAW);
+                this._needsUpdate = false;
+                GPUResources_1.GPUResources.get(gl).add(this);
+            }
+            else if (this._needsUpdate) {
+                this._state.bindBuffer(UniformBuffer.UNIFORM_BUFFER, this._buffer);
+                gl.bufferSubData(UniformBuffer.UNIFORM_BUFFER, 0, this._data);
+                this._needsUpdate = false;
+            }
+            this._state.bindBufferBase(UniformBuffer.UNIFORM_BUFFER, block.binding, this._buffer);
+            return this;
+        };
+        UniformBuffer.prototype.setLayout = function (block) {
+            var previous = this._block;
+            this._block = block;
+            if (previous && UniformBuffer.isSameLayout(previous, block)) {
+                return;
+            }
+            if (!this._data || this._data.byteLength != block.size) {
+                this._data = new ArrayBuffer(block.size);
+                this._floats = new Float32Array(this._data);
+                this._integers = new Int32Array(this._data);
+                if (this._buffer) {
+                    GPUResources_1.GPUResources.get(this._gl).remove(this);
+                    this._state.deleteBuffer(this._buffer);
+                    this._buffer = null;
+                }
+            }
+            for (var name in this._values) {
+                this.write(name, this._values[name]);
+            }
+        };
+        UniformBuffer.prototype.write = function (name, value) {
+            var member = this._block.members[name];
+            if (!member) {
+                return;
+            }
+            var dimensions = UniformBuffer.getDimensions(member.type);
+            var columns = dimensions[0];
+            var rows = dimensions[1];
+            var view = UniformBuffer.isInteger(member.type) ? this._integers : this._floats;
+            var values = typeof value == 'object' ? value : [value];
+            if (values.length != columns * rows * member.size) {
+                throw new TypeError('uniform block member "' + name + '" expects ' + (columns * rows * member.size) + ' values, got ' + values.length);
+            }
+            for (var element = 0; element < member.size; element++) {
+                for (var column = 0; column < columns; column++) {
+                    var offset = (member.offset + element * member.arrayStride + column * member.matrixStride) / 4;
+                    for (var row = 0; row < rows; row++) {
+                        view[offset + row] = +values[(element * columns + column) * rows + row];
+                    }
+                }
+            }
+            this._needsUpdate = true;
+        };
+        UniformBuffer.prototype.restore = function (gl) {
+            this._buffer = null;
+            GPUResources_1.GPUResources.get(gl).remove(this);
+        };
+        UniformBuffer.prototype.destruct = function () {
+            if (this._buffer) {
+                GPUResources_1.GPUResources.get(this._gl).remove(this);
+                this._state.deleteBuffer(this._buffer);
+            }
+            this._buffer = null;
+            this._block = null;
+            this._data = null;
+            this._floats = null;
+            this._integers = null;
+            this._values = null;
+        };
+        UniformBuffer.UNIFORM_BUFFER = 0x8A11;
+        return UniformBuffer;
+    }());
+    exports.UniformBuffer = UniformBuffer;
+});
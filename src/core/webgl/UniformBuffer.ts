@@ -0,0 +1,325 @@
+import IHashMap from "../interface/IHashMap";
+import IUniformBlock from "../interface/IUniformBlock";
+import IUniformBlockMember from "../interface/IUniformBlockMember";
+import IGPUResource from "../interface/IGPUResource";
+import {GLState} from "./GLState";
+import {GPUResources} from "./GPUResources";
+
+/**
+ * Values for the members of a uniform block. On WebGL 2 they are written to a uniform buffer object that can be
+ * shared by programs, on WebGL 1 ShaderProgram sets them as plain uniforms with the same names. The layout of
+ * the buffer is taken from the first block it is bound to.
+ *
+ * <h4>Example</h4>
+ *
+ *      // layout(std140) uniform Material { vec4 uColor; float uShininess; };
+ *      var material = new UniformBuffer(gl)
+ *          .setValue('uColor', [1, 0, 0, 1])
+ *          .setValue('uShininess', 30);
+ *
+ *      program.setUniformBuffer('Material', material);
+ *
+ * @class UniformBuffer
+ * @param {WebGLRenderingContext} gl
+ */
+export class UniformBuffer implements IGPUResource
+{
+	/**
+	 * gl.UNIFORM_BUFFER, not part of the WebGL 1 typings
+	 * @property UNIFORM_BUFFER
+	 * @type {number}
+	 * @static
+	 */
+	public static UNIFORM_BUFFER:number = 0x8A11;
+
+	/**
+	 * Columns and rows of a member of the given type, a vector is a single column.
+	 *
+	 * @method getDimensions
+	 * @param {number} type
+	 * @returns {Array<number>} columns, rows
+	 * @static
+	 */
+	public static getDimensions(type:number):Array<number>
+	{
+		switch(type)
+		{
+			// FLOAT, INT, UNSIGNED_INT, BOOL
+			case 0x1406:
+			case 0x1404:
+			case 0x1405:
+			case 0x8B56:{
+				return [1, 1];
+			}
+
+			// FLOAT_VEC2, INT_VEC2, UNSIGNED_INT_VEC2, BOOL_VEC2
+			case 0x8B50:
+			case 0x8B53:
+			case 0x8DC6:
+			case 0x8B57:{
+				return [1, 2];
+			}
+
+			// FLOAT_VEC3, INT_VEC3, UNSIGNED_INT_VEC3, BOOL_VEC3
+			case 0x8B51:
+			case 0x8B54:
+			case 0x8DC7:
+			case 0x8B58:{
+				return [1, 3];
+			}
+
+			// FLOAT_VEC4, INT_VEC4, UNSIGNED_INT_VEC4, BOOL_VEC4
+			case 0x8B52:
+			case 0x8B55:
+			case 0x8DC8:
+			case 0x8B59:{
+				return [1, 4];
+			}
+
+			// FLOAT_MAT2, FLOAT_MAT2x3, FLOAT_MAT2x4
+			case 0x8B5A: return [2, 2];
+			case 0x8B65: return [2, 3];
+			case 0x8B66: return [2, 4];
+
+			// FLOAT_MAT3x2, FLOAT_MAT3, FLOAT_MAT3x4
+			case 0x8B67: return [3, 2];
+			case 0x8B5B: return [3, 3];
+			case 0x8B68: return [3, 4];
+
+			// FLOAT_MAT4x2, FLOAT_MAT4x3, FLOAT_MAT4
+			case 0x8B69: return [4, 2];
+			case 0x8B6A: return [4, 3];
+			case 0x8B5C: return [4, 4];
+		}
+
+		throw new TypeError('unknown uniform block member type 0x' + type.toString(16));
+	}
+
+	/**
+	 * Whether the members of a block of the given type are stored as integers.
+	 *
+	 * @method isInteger
+	 * @param {number} type
+	 * @returns {boolean}
+	 * @static
+	 */
+	public static isInteger(type:number):boolean
+	{
+		return [0x1404, 0x1405, 0x8B56, 0x8B53, 0x8DC6, 0x8B57, 0x8B54, 0x8DC7, 0x8B58, 0x8B55, 0x8DC8, 0x8B59].indexOf(type) != -1;
+	}
+
+	protected static isSameLayout(a:IUniformBlock, b:IUniformBlock):boolean
+	{
+		if(a.size != b.size)
+		{
+			return false;
+		}
+
+		for(var name in b.members)
+		{
+			if(!a.members[name] || a.members[name].offset != b.members[name].offset || a.members[name].type != b.members[name].type)
+			{
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	protected _gl:WebGLRenderingContext;
+	protected _state:GLState;
+	protected _buffer:WebGLBuffer = null;
+	protected _block:IUniformBlock = null;
+	protected _data:ArrayBuffer = null;
+	protected _floats:Float32Array = null;
+	protected _integers:Int32Array = null;
+	protected _values:IHashMap<any> = {};
+	protected _needsUpdate:boolean = false;
+
+	/**
+	 * increased on every change, used to set the values on WebGL 1 only when they changed
+	 * @property version
+	 * @type {number}
+	 */
+	public version:number = 0;
+
+	constructor(gl:WebGLRenderingContext)
+	{
+		this._gl = gl;
+		this._state = GLState.get(gl);
+	}
+
+	public setValue(name:string, value:any):this
+	{
+		this._values[name] = value;
+		this.version++;
+
+		if(this._block)
+		{
+			this.write(name, value);
+		}
+
+		return this;
+	}
+
+	public getValue(name:string):any
+	{
+		return this._values[name];
+	}
+
+	/**
+	 * @method getValues
+	 * @returns {IHashMap<any>} the values by member name, do not modify
+	 */
+	public getValues():IHashMap<any>
+	{
+		return this._values;
+	}
+
+	/**
+	 * Uploads the values when they changed and binds the buffer to the binding point of the block. Used by
+	 * ShaderProgram on WebGL 2.
+	 *
+	 * @method bind
+	 * @param {IUniformBlock} block
+	 * @returns {UniformBuffer}
+	 */
+	public bind(block:IUniformBlock):this
+	{
+		var gl = this._gl;
+
+		if(block !== this._block)
+		{
+			this.setLayout(block);
+		}
+
+		if(!this._buffer)
+		{
+			this._buffer = gl.createBuffer();
+			this._state.bindBuffer(UniformBuffer.UNIFORM_BUFFER, this._buffer);
+			gl.bufferData(UniformBuffer.UNIFORM_BUFFER, this._data, gl.DYNAMIC_DRAW);
+			this._needsUpdate = false;
+
+			GPUResources.get(gl).add(this);
+		}
+		else if(this._needsUpdate)
+		{
+			this._state.bindBuffer(UniformBuffer.UNIFORM_BUFFER, this._buffer);
+			gl.bufferSubData(UniformBuffer.UNIFORM_BUFFER, 0, this._data);
+			this._needsUpdate = false;
+		}
+
+		this._state.bindBufferBase(UniformBuffer.UNIFORM_BUFFER, block.binding, this._buffer);
+
+		return this;
+	}
+
+	/**
+	 * Takes the layout of block, the values are written again when the layout differs from the current one. A
+	 * bigger block gets a new buffer.
+	 *
+	 * @method setLayout
+	 * @param {IUniformBlock} block
+	 */
+	protected setLayout(block:IUniformBlock):void
+	{
+		var previous = this._block;
+
+		this._block = block;
+
+		if(previous && UniformBuffer.isSameLayout(previous, block))
+		{
+			return;
+		}
+
+		if(!this._data || this._data.byteLength != block.size)
+		{
+			this._data = new ArrayBuffer(block.size);
+			this._floats = new Float32Array(this._data);
+			this._integers = new Int32Array(this._data);
+
+			if(this._buffer)
+			{
+				GPUResources.get(this._gl).remove(this);
+				this._state.deleteBuffer(this._buffer);
+				this._buffer = null;
+			}
+		}
+
+		for(var name in this._values)
+		{
+			this.write(name, this._values[name]);
+		}
+	}
+
+	/**
+	 * Writes the value at the position of the member in the buffer, names the block does not have are ignored.
+	 *
+	 * @method write
+	 * @param {string} name
+	 * @param {any} value a number, boolean or array like of numbers
+	 */
+	protected write(name:string, value:any):void
+	{
+		var member:IUniformBlockMember = this._block.members[name];
+
+		if(!member)
+		{
+			return;
+		}
+
+		var dimensions = UniformBuffer.getDimensions(member.type);
+		var columns = dimensions[0];
+		var rows = dimensions[1];
+		var view:any = UniformBuffer.isInteger(member.type) ? this._integers : this._floats;
+		var values = typeof value == 'object' ? value : [value];
+
+		if(values.length != columns * rows * member.size)
+		{
+			throw new TypeError('uniform block member "' + name + '" expects ' + (columns * rows * member.size) + ' values, got ' + values.length);
+		}
+
+		for(var element = 0; element < member.size; element++)
+		{
+			for(var column = 0; column < columns; column++)
+			{
+				var offset = (member.offset + element * member.arrayStride + column * member.matrixStride) / 4;
+
+				for(var row = 0; row < rows; row++)
+				{
+					view[offset + row] = +values[(element * columns + column) * rows + row];
+				}
+			}
+		}
+
+		this._needsUpdate = true;
+	}
+
+	/**
+	 * The buffer is created and filled again on the next bind.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		this._buffer = null;
+		GPUResources.get(gl).remove(this);
+	}
+
+	public destruct():void
+	{
+		if(this._buffer)
+		{
+			GPUResources.get(this._gl).remove(this);
+			this._state.deleteBuffer(this._buffer);
+		}
+
+		this._buffer = null;
+		this._block = null;
+		this._data = null;
+		this._floats = null;
+		this._integers = null;
+		this._values = null;
+	}
+}
\ No newline at end of file
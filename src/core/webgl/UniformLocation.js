@@ -1,75 +1,291 @@
-define(["require", "exports", "../../visual/display/AbstractTexture"], function (require, exports, AbstractTexture_1) {
+define(["require", "exports", "../../visual/display/AbstractTexture", "./GLState"], function (require, exports, AbstractTexture_1, GLState_1) {
     "use strict";
     var UniformLocation = (function () {
-        function UniformLocation(gl, name, location, type) {
+        function UniformLocation(gl, name, location, type, size) {
+            if (size === void 0) { size = 1; }
             this._gl = null;
+            this._unit = 0;
             this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
             this._name = name;
             this._location = location;
             this._type = type;
+            this._size = size;
         }
+        UniformLocation.isSamplerType = function (type) {
+            return UniformLocation.SAMPLERS.indexOf(type) != -1;
+        };
+        UniformLocation.getComponentCount = function (gl, type) {
+            if (UniformLocation.isSamplerType(type)) {
+                return 1;
+            }
+            switch (type) {
+                case gl.FLOAT:
+                case gl.INT:
+                case 0x1405:
+                case gl.BOOL: {
+                    return 1;
+                }
+                case gl.FLOAT_VEC2:
+                case gl.INT_VEC2:
+                case 0x8DC6:
+                case gl.BOOL_VEC2: {
+                    return 2;
+                }
+                case gl.FLOAT_VEC3:
+                case gl.INT_VEC3:
+                case 0x8DC7:
+                case gl.BOOL_VEC3: {
+                    return 3;
+                }
+                case gl.FLOAT_VEC4:
+                case gl.INT_VEC4:
+                case 0x8DC8:
+                case gl.BOOL_VEC4:
+                case gl.FLOAT_MAT2: {
+                    return 4;
+                }
+                case 0x8B65:
+                case 0x8B67: {
+                    return 6;
+                }
+                case 0x8B66:
+                case 0x8B69: {
+                    return 8;
+                }
+                case gl.FLOAT_MAT3: {
+                    return 9;
+                }
+                case 0x8B68:
+                case 0x8B6A: {
+                    return 12;
+                }
+                case gl.FLOAT_MAT4: {
+                    return 16;
+                }
+            }
+            throw new TypeError('unknown uniform type 0x' + type.toString(16));
+        };
         UniformLocation.prototype.getName = function () {
             return this._name;
         };
         UniformLocation.prototype.getType = function () {
             return this._type;
         };
+        UniformLocation.prototype.getSize = function () {
+            return this._size;
+        };
         UniformLocation.prototype.getValue = function () {
             return this._value;
         };
+        UniformLocation.prototype.isSampler = function () {
+            return UniformLocation.isSamplerType(this._type);
+        };
+        UniformLocation.prototype.setTextureUnit = function (unit) {
+            this._unit = unit;
+            return this;
+        };
+        UniformLocation.prototype.getTextureUnit = function () {
+            return this._unit;
+        };
         UniformLocation.prototype.setValue = function (value) {
             var gl = this._gl;
-            if (this._value !== value || (this._type != gl.FLOAT && this._type != gl.INT)) {
+            var type = this._type;
+            var isScalar = this._size == 1 && UniformLocation.getComponentCount(gl, type) == 1;
+            if (isScalar && this._value === value && !(value instanceof AbstractTexture_1.AbstractTexture)) {
+                return this;
+            }
+            if (this.isSampler()) {
+                this.setSamplerValue(value);
+                this._value = value;
+                return this;
+            }
+            if (isScalar && (typeof value == 'number' || typeof value == 'boolean')) {
+                if (type == gl.FLOAT) {
+                    gl.uniform1f(this._location, value);
+                }
+                else if (type == 0x1405) {
+                    gl.uniform1ui(this._location, +value);
+                }
+                else {
+                    gl.uniform1i(this._location, +value);
+                }
                 this._value = value;
-                switch (this._type) {
-                    case gl.FLOAT: {
-                        gl.uniform1f(this._location, value);
-                        break;
-                    }
-                    case gl.INT: {
-                        gl.uniform1i(this._location, value);
-                        break;
-                    }
-                    case gl.FLOAT_VEC2: {
-                        gl.uniform2fv(this._location, value);
-                        break;
-                    }
-                    case gl.FLOAT_MAT2: {
-                        gl.uniformMatrix2fv(this._location, false, value);
-                        break;
-                    }
-                    case gl.FLOAT_MAT3: {
-                        gl.uniformMatrix3fv(this._location, false, value);
-                        break;
-                    }
-                    case gl.FLOAT_MAT4: {
-                        gl.uniformMatrix4fv(this._location, false, value);
-                        break;
-                    }
-                    case gl.FLOAT_VEC2: {
-                        gl.uniform2fv(this._location, value);
-                        break;
-                    }
-                    case gl.FLOAT_VEC3: {
-                        gl.uniform3fv(this._location, value);
-                        break;
-                    }
-                    case gl.FLOAT_VEC4: {
-                        gl.uniform4fv(this._location, value);
-                        break;
-                    }
-                    case gl.SAMPLER_2D: {
-                        if (value >= 0 && value < 16) {
-                            gl.uniform1i(this._location, value);
-                        }
-                        else if (value instanceof AbstractTexture_1.AbstractTexture) {
-                        }
-                        break;
-                    }
+                return this;
+            }
+            this.validateLength(value);
+            this._value = value;
+            switch (type) {
+                case gl.FLOAT: {
+                    gl.uniform1fv(this._location, value);
+                    break;
+                }
+                case gl.FLOAT_VEC2: {
+                    gl.uniform2fv(this._location, value);
+                    break;
+                }
+                case gl.FLOAT_VEC3: {
+                    gl.uniform3fv(this._location, value);
+                    break;
+                }
+                case gl.FLOAT_VEC4: {
+                    gl.uniform4fv(this._location, value);
+                    break;
+                }
+                case gl.INT:
+                case gl.BOOL: {
+                    gl.uniform1iv(this._location, value);
+                    break;
+                }
+                case gl.INT_VEC2:
+                case gl.BOOL_VEC2: {
+                    gl.uniform2iv(this._location, value);
+                    break;
+                }
+                case gl.INT_VEC3:
+                case gl.BOOL_VEC3: {
+                    gl.uniform3iv(this._location, value);
+                    break;
+                }
+                case gl.INT_VEC4:
+                case gl.BOOL_VEC4: {
+                    gl.uniform4iv(this._location, value);
+                    break;
+                }
+                case gl.FLOAT_MAT2: {
+                    gl.uniformMatrix2fv(this._location, false, value);
+                    break;
+                }
+                case gl.FLOAT_MAT3: {
+                    gl.uniformMatrix3fv(this._location, false, value);
+                    break;
+                }
+                case gl.FLOAT_MAT4: {
+                    gl.uniformMatrix4fv(this._location, false, value);
+                    break;
+                }
+                default: {
+                    this.setWebGL2Value(value);
                 }
             }
             return this;
         };
+        UniformLocation.prototype.relocate = function (uniform) {
+            if (uniform) {
+                this._location = uniform._location;
+                this._type = uniform._type;
+                this._size = uniform._size;
+            }
+            else {
+                this._location = null;
+            }
+        };
+        UniformLocation.prototype.reapply = function () {
+            var value = this._value;
+            if (value !== void 0 && this._location) {
+                this._value = void 0;
+                try {
+                    this.setValue(value);
+                }
+                catch (error) {
+                    this._value = void 0;
+                }
+            }
+            return this;
+        };
+        UniformLocation.prototype.setWebGL2Value = function (value) {
+            var gl = this._gl;
+            switch (this._type) {
+                case 0x1405: {
+                    gl.uniform1uiv(this._location, value);
+                    break;
+                }
+                case 0x8DC6: {
+                    gl.uniform2uiv(this._location, value);
+                    break;
+                }
+                case 0x8DC7: {
+                    gl.uniform3uiv(this._location, value);
+                    break;
+                }
+                case 0x8DC8: {
+                    gl.uniform4uiv(this._location, value);
+                    break;
+                }
+                case 0x8B65: {
+                    gl.uniformMatrix2x3fv(this._location, false, value);
+                    break;
+                }
+                case 0x8B66: {
+                    gl.uniformMatrix2x4fv(this._location, false, value);
+                    break;
+                }
+                case 0x8B67: {
+                    gl.uniformMatrix3x2fv(this._location, false, value);
+                    break;
+                }
+                case 0x8B68: {
+                    gl.uniformMatrix3x4fv(this._location, false, value);
+                    break;
+                }
+                case 0x8B69: {
+                    gl.uniformMatrix4x2fv(this._location, false, value);
+                    break;
+                }
+                case 0x8B6A: {
+                    gl.uniformMatrix4x3fv(this._location, false, value);
+                    break;
+                }
+            }
+        };
+        UniformLocation.prototype.setSamplerValue = function (value) {
+            var gl = this._gl;
+            var size = this._size;
+            if (size == 1 && typeof value == 'number') {
+                gl.uniform1i(this._location, value);
+                return;
+            }
+            if (size == 1 && value instanceof AbstractTexture_1.AbstractTexture) {
+                this.bindTexture(this._unit, value);
+                gl.uniform1i(this._location, this._unit);
+                return;
+            }
+            this.validateLength(value);
+            var units = new Int32Array(size);
+            for (var i = 0; i < size; i++) {
+                if (value[i] instanceof AbstractTexture_1.AbstractTexture) {
+                    units[i] = this._unit + i;
+                    this.bindTexture(units[i], value[i]);
+                }
+                else if (typeof value[i] == 'number') {
+                    units[i] = value[i];
+                }
+                else {
+                    throw new TypeError('uniform "' + this._name + '" expects a texture or texture unit at index ' + i);
+                }
+            }
+            gl.uniform1iv(this._location, units);
+        };
+        UniformLocation.prototype.bindTexture = function (unit, texture) {
+            var gl = this._gl;
+            if (UniformLocation.TEXTURE_2D_SAMPLERS.indexOf(this._type) == -1) {
+                throw new TypeError('uniform "' + this._name + '" does not sample a 2d texture, only a texture unit can be set');
+            }
+            this._state.activeTexture(gl.TEXTURE0 + unit);
+            AbstractTexture_1.AbstractTexture.bind(gl, texture);
+            if (texture.needsUpdate) {
+                AbstractTexture_1.AbstractTexture.update(gl, texture);
+            }
+        };
+        UniformLocation.prototype.validateLength = function (value) {
+            var expected = UniformLocation.getComponentCount(this._gl, this._type) * this._size;
+            if (value == null || typeof value.length != 'number') {
+                throw new TypeError('uniform "' + this._name + '" expects an array of ' + expected + ' values, got ' + value);
+            }
+            if (value.length != expected) {
+                throw new TypeError('uniform "' + this._name + '" expects ' + expected + ' values, got ' + value.length);
+            }
+        };
         Object.defineProperty(UniformLocation.prototype, "name", {
             get: function () {
                 return this._name;
@@ -88,62 +304,23 @@ define(["require", "exports", "../../visual/display/AbstractTexture"], function
             configurable: true
         });
         UniformLocation.prototype.activate = function () {
-            var value = this._value;
-            if (this._type != this._gl.SAMPLER_2D) {
-                throw new TypeError('activate can only be triggerd with a sampler2d uniform');
-            }
-            if (value < 0 || value > 15 || value === void 0) {
-                throw new TypeError('value can only be 0 - 15');
-            }
-            if (value === 0) {
-                this._gl.activeTexture(this._gl.TEXTURE0);
-            }
-            else if (value === 1) {
-                this._gl.activeTexture(this._gl.TEXTURE1);
-            }
-            else if (value === 2) {
-                this._gl.activeTexture(this._gl.TEXTURE2);
-            }
-            else if (value === 3) {
-                this._gl.activeTexture(this._gl.TEXTURE3);
-            }
-            else if (value === 4) {
-                this._gl.activeTexture(this._gl.TEXTURE4);
-            }
-            else if (value === 5) {
-                this._gl.activeTexture(this._gl.TEXTURE5);
-            }
-            else if (value === 6) {
-                this._gl.activeTexture(this._gl.TEXTURE6);
-            }
-            else if (value === 7) {
-                this._gl.activeTexture(this._gl.TEXTURE7);
-            }
-            else if (value === 8) {
-                this._gl.activeTexture(this._gl.TEXTURE8);
-            }
-            else if (value === 9) {
-                this._gl.activeTexture(this._gl.TEXTURE9);
-            }
-            else if (value === 10) {
-                this._gl.activeTexture(this._gl.TEXTURE10);
-            }
-            else if (value === 11) {
-                this._gl.activeTexture(this._gl.TEXTURE11);
-            }
-            else if (value === 12) {
-                this._gl.activeTexture(this._gl.TEXTURE12);
-            }
-            else if (value === 13) {
-                this._gl.activeTexture(this._gl.TEXTURE13);
-            }
-            else if (value === 14) {
-                this._gl.activeTexture(this._gl.TEXTURE14);
+            var gl = this._gl;
+            var value = typeof this._value == 'number' ? this._value : this._unit;
+            if (!this.isSampler()) {
+                throw new TypeError('uniform "' + this._name + '" is not a sampler, only samplers can be activated');
             }
-            else if (value === 15) {
-                this._gl.activeTexture(this._gl.TEXTURE15);
+            if (value < 0) {
+                throw new RangeError('uniform "' + this._name + '" has an invalid texture unit ' + value);
             }
+            this._state.activeTexture(gl.TEXTURE0 + value);
+            return this;
         };
+        UniformLocation.TEXTURE_2D_SAMPLERS = [0x8B5E, 0x8B62, 0x8DCA, 0x8DD2];
+        UniformLocation.SAMPLERS = UniformLocation.TEXTURE_2D_SAMPLERS.concat([
+            0x8B60, 0x8B5F, 0x8DC1, 0x8DC4, 0x8DC5,
+            0x8DCB, 0x8DCC, 0x8DCF,
+            0x8DD3, 0x8DD4, 0x8DD7
+        ]);
         return UniformLocation;
     }());
     exports.UniformLocation = UniformLocation;
@@ -1,20 +1,138 @@
 
 import {AbstractTexture} from "../../visual/display/AbstractTexture";
+import {GLState} from "./GLState";
+import IWebGL2RenderingContext from "../interface/IWebGL2RenderingContext";
 
 export class UniformLocation
 {
+	/**
+	 * sampler types that take a TEXTURE_2D texture, SAMPLER_2D, SAMPLER_2D_SHADOW, INT_SAMPLER_2D and
+	 * UNSIGNED_INT_SAMPLER_2D
+	 * @property TEXTURE_2D_SAMPLERS
+	 * @type {Array<number>}
+	 * @static
+	 */
+	public static TEXTURE_2D_SAMPLERS:Array<number> = [0x8B5E, 0x8B62, 0x8DCA, 0x8DD2];
+
+	/**
+	 * all sampler types of WebGL 1 and 2, the ones of other textures than TEXTURE_2D can only be set to a texture unit
+	 * @property SAMPLERS
+	 * @type {Array<number>}
+	 * @static
+	 */
+	public static SAMPLERS:Array<number> = UniformLocation.TEXTURE_2D_SAMPLERS.concat([
+		// SAMPLER_CUBE, SAMPLER_3D, SAMPLER_2D_ARRAY, SAMPLER_2D_ARRAY_SHADOW, SAMPLER_CUBE_SHADOW
+		0x8B60, 0x8B5F, 0x8DC1, 0x8DC4, 0x8DC5,
+		// INT_SAMPLER_3D, INT_SAMPLER_CUBE, INT_SAMPLER_2D_ARRAY
+		0x8DCB, 0x8DCC, 0x8DCF,
+		// UNSIGNED_INT_SAMPLER_3D, UNSIGNED_INT_SAMPLER_CUBE, UNSIGNED_INT_SAMPLER_2D_ARRAY
+		0x8DD3, 0x8DD4, 0x8DD7
+	]);
+
+	/**
+	 * @method isSamplerType
+	 * @param {number} type
+	 * @returns {boolean}
+	 * @static
+	 */
+	public static isSamplerType(type:number):boolean
+	{
+		return UniformLocation.SAMPLERS.indexOf(type) != -1;
+	}
+
+	/**
+	 * Amount of values a uniform of the given type takes, WebGL 2 types included.
+	 *
+	 * @method getComponentCount
+	 * @param {WebGLRenderingContext} gl
+	 * @param {number} type
+	 * @returns {number}
+	 */
+	public static getComponentCount(gl:WebGLRenderingContext, type:number):number
+	{
+		if(UniformLocation.isSamplerType(type))
+		{
+			return 1;
+		}
+
+		switch(type)
+		{
+			case gl.FLOAT:
+			case gl.INT:
+			case 0x1405: // UNSIGNED_INT
+			case gl.BOOL:{
+				return 1;
+			}
+
+			case gl.FLOAT_VEC2:
+			case gl.INT_VEC2:
+			case 0x8DC6: // UNSIGNED_INT_VEC2
+			case gl.BOOL_VEC2:{
+				return 2;
+			}
+
+			case gl.FLOAT_VEC3:
+			case gl.INT_VEC3:
+			case 0x8DC7: // UNSIGNED_INT_VEC3
+			case gl.BOOL_VEC3:{
+				return 3;
+			}
+
+			case gl.FLOAT_VEC4:
+			case gl.INT_VEC4:
+			case 0x8DC8: // UNSIGNED_INT_VEC4
+			case gl.BOOL_VEC4:
+			case gl.FLOAT_MAT2:{
+				return 4;
+			}
+
+			// FLOAT_MAT2x3, FLOAT_MAT3x2
+			case 0x8B65:
+			case 0x8B67:{
+				return 6;
+			}
+
+			// FLOAT_MAT2x4, FLOAT_MAT4x2
+			case 0x8B66:
+			case 0x8B69:{
+				return 8;
+			}
+
+			case gl.FLOAT_MAT3:{
+				return 9;
+			}
+
+			// FLOAT_MAT3x4, FLOAT_MAT4x3
+			case 0x8B68:
+			case 0x8B6A:{
+				return 12;
+			}
+
+			case gl.FLOAT_MAT4:{
+				return 16;
+			}
+		}
+
+		throw new TypeError('unknown uniform type 0x' + type.toString(16));
+	}
+
 	protected _gl:WebGLRenderingContext = null;
+	protected _state:GLState;
 	protected _name:string;
 	protected _type:number;
+	protected _size:number;
 	protected _location:WebGLUniformLocation;
 	protected _value:any;
+	protected _unit:number = 0;
 
-	constructor(gl:WebGLRenderingContext, name:string, location:WebGLUniformLocation, type:number)
+	constructor(gl:WebGLRenderingContext, name:string, location:WebGLUniformLocation, type:number, size:number = 1)
 	{
 		this._gl = gl;
+		this._state = GLState.get(gl);
 		this._name = name;
 		this._location = location;
 		this._type = type;
+		this._size = size;
 	}
 
 	public getName():string
@@ -27,84 +145,350 @@ export class UniformLocation
 		return this._type;
 	}
 
+	/**
+	 * Amount of elements when the uniform is declared as an array, 1 otherwise.
+	 *
+	 * @method getSize
+	 * @returns {number}
+	 */
+	public getSize():number
+	{
+		return this._size;
+	}
+
 	public getValue():any
 	{
 		return this._value;
 	}
 
+	public isSampler():boolean
+	{
+		return UniformLocation.isSamplerType(this._type);
+	}
+
+	/**
+	 * First texture unit used when a texture is set on this sampler, arrays of samplers use the units following it.
+	 * Units are handed out by the ShaderProgram when it is used for the first time.
+	 *
+	 * @method setTextureUnit
+	 * @param {number} unit
+	 * @returns {UniformLocation}
+	 */
+	public setTextureUnit(unit:number):this
+	{
+		this._unit = unit;
+		return this;
+	}
+
+	public getTextureUnit():number
+	{
+		return this._unit;
+	}
+
 	public setValue(value):this
 	{
 		var gl = this._gl;
+		var type = this._type;
+		var isScalar = this._size == 1 && UniformLocation.getComponentCount(gl, type) == 1;
 
-		if( this._value !== value || ( this._type != gl.FLOAT && this._type != gl.INT ))
+		if(isScalar && this._value === value && !(value instanceof AbstractTexture))
 		{
-			this._value = value;
+			return this;
+		}
 
+		// the value is kept only once it was accepted, reapply sends it again after a relink
 
-			switch(this._type)
+		if(this.isSampler())
+		{
+			this.setSamplerValue(value);
+			this._value = value;
+			return this;
+		}
+
+		if(isScalar && (typeof value == 'number' || typeof value == 'boolean'))
+		{
+			if(type == gl.FLOAT)
+			{
+				gl.uniform1f(this._location, value);
+			}
+			else if(type == 0x1405) // UNSIGNED_INT
 			{
-				case gl.FLOAT:{
-					gl.uniform1f(this._location, value);
-					break;
-				}
+				(<IWebGL2RenderingContext> gl).uniform1ui(this._location, +value);
+			}
+			else
+			{
+				gl.uniform1i(this._location, +value);
+			}
 
-				case gl.INT:{
-					gl.uniform1i(this._location, value);
-					break;
-				}
+			this._value = value;
+			return this;
+		}
 
-				case gl.FLOAT_VEC2:{
-					gl.uniform2fv(this._location, value);
-					break;
-				}
+		this.validateLength(value);
+		this._value = value;
 
-				case gl.FLOAT_MAT2:{
-					gl.uniformMatrix2fv(this._location, false, value);
-					break;
-				}
+		switch(type)
+		{
+			case gl.FLOAT:{
+				gl.uniform1fv(this._location, value);
+				break;
+			}
 
-				case gl.FLOAT_MAT3:{
-					gl.uniformMatrix3fv(this._location, false, value);
-					break;
-				}
+			case gl.FLOAT_VEC2:{
+				gl.uniform2fv(this._location, value);
+				break;
+			}
 
-				case gl.FLOAT_MAT4:{
-					gl.uniformMatrix4fv(this._location, false, value);
-					break;
-				}
+			case gl.FLOAT_VEC3:{
+				gl.uniform3fv(this._location, value);
+				break;
+			}
 
-				case gl.FLOAT_VEC2:{
-					gl.uniform2fv(this._location, value);
-					break;
-				}
+			case gl.FLOAT_VEC4:{
+				gl.uniform4fv(this._location, value);
+				break;
+			}
 
-				case gl.FLOAT_VEC3:{
-					gl.uniform3fv(this._location, value);
-					break;
-				}
+			case gl.INT:
+			case gl.BOOL:{
+				gl.uniform1iv(this._location, value);
+				break;
+			}
+
+			case gl.INT_VEC2:
+			case gl.BOOL_VEC2:{
+				gl.uniform2iv(this._location, value);
+				break;
+			}
+
+			case gl.INT_VEC3:
+			case gl.BOOL_VEC3:{
+				gl.uniform3iv(this._location, value);
+				break;
+			}
+
+			case gl.INT_VEC4:
+			case gl.BOOL_VEC4:{
+				gl.uniform4iv(this._location, value);
+				break;
+			}
+
+			case gl.FLOAT_MAT2:{
+				gl.uniformMatrix2fv(this._location, false, value);
+				break;
+			}
+
+			case gl.FLOAT_MAT3:{
+				gl.uniformMatrix3fv(this._location, false, value);
+				break;
+			}
 
-				case gl.FLOAT_VEC4:{
-					gl.uniform4fv(this._location, value);
-					break;
-				}
+			case gl.FLOAT_MAT4:{
+				gl.uniformMatrix4fv(this._location, false, value);
+				break;
+			}
 
-				case gl.SAMPLER_2D:{
+			default:{
+				this.setWebGL2Value(value);
+			}
+		}
 
-					if(value >= 0 && value < 16){
-						gl.uniform1i(this._location, value);
-					} else if(value instanceof AbstractTexture ){
+		return this;
+	}
 
-					}
+	/**
+	 * Points this uniform to the same uniform in a relinked program, values that were set are kept so they can be
+	 * applied again with reapply.
+	 *
+	 * @method relocate
+	 * @param {UniformLocation} uniform the uniform of the new program, null when it is not used anymore
+	 */
+	public relocate(uniform:UniformLocation):void
+	{
+		if(uniform)
+		{
+			this._location = uniform._location;
+			this._type = uniform._type;
+			this._size = uniform._size;
+		}
+		else
+		{
+			this._location = null;
+		}
+	}
 
-					break;
-				}
+	/**
+	 * Sends the last value to the program again.
+	 *
+	 * @method reapply
+	 * @returns {UniformLocation}
+	 */
+	public reapply():this
+	{
+		var value = this._value;
 
+		if(value !== void 0 && this._location)
+		{
+			this._value = void 0;
 
+			try {
+				this.setValue(value);
+			} catch(error) {
+				// the declaration changed, the old value does not fit anymore
+				this._value = void 0;
 			}
 		}
+
 		return this;
 	}
 
+	/**
+	 * Sets the value of a type that only exists in WebGL 2, unsigned integers and the matrices that are not square.
+	 * A WebGL 1 program has no uniforms of these types.
+	 *
+	 * @method setWebGL2Value
+	 * @param value
+	 */
+	protected setWebGL2Value(value:any):void
+	{
+		var gl = <IWebGL2RenderingContext> this._gl;
+
+		switch(this._type)
+		{
+			case 0x1405:{ // UNSIGNED_INT
+				gl.uniform1uiv(this._location, value);
+				break;
+			}
+
+			case 0x8DC6:{ // UNSIGNED_INT_VEC2
+				gl.uniform2uiv(this._location, value);
+				break;
+			}
+
+			case 0x8DC7:{ // UNSIGNED_INT_VEC3
+				gl.uniform3uiv(this._location, value);
+				break;
+			}
+
+			case 0x8DC8:{ // UNSIGNED_INT_VEC4
+				gl.uniform4uiv(this._location, value);
+				break;
+			}
+
+			case 0x8B65:{ // FLOAT_MAT2x3
+				gl.uniformMatrix2x3fv(this._location, false, value);
+				break;
+			}
+
+			case 0x8B66:{ // FLOAT_MAT2x4
+				gl.uniformMatrix2x4fv(this._location, false, value);
+				break;
+			}
+
+			case 0x8B67:{ // FLOAT_MAT3x2
+				gl.uniformMatrix3x2fv(this._location, false, value);
+				break;
+			}
+
+			case 0x8B68:{ // FLOAT_MAT3x4
+				gl.uniformMatrix3x4fv(this._location, false, value);
+				break;
+			}
+
+			case 0x8B69:{ // FLOAT_MAT4x2
+				gl.uniformMatrix4x2fv(this._location, false, value);
+				break;
+			}
+
+			case 0x8B6A:{ // FLOAT_MAT4x3
+				gl.uniformMatrix4x3fv(this._location, false, value);
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Samplers take a texture unit or a texture, textures are bound to the unit of this uniform and uploaded when
+	 * they need an update.
+	 *
+	 * @method setSamplerValue
+	 * @param value
+	 */
+	protected setSamplerValue(value:any):void
+	{
+		var gl = this._gl;
+		var size = this._size;
+
+		if(size == 1 && typeof value == 'number')
+		{
+			gl.uniform1i(this._location, value);
+			return;
+		}
+
+		if(size == 1 && value instanceof AbstractTexture)
+		{
+			this.bindTexture(this._unit, value);
+			gl.uniform1i(this._location, this._unit);
+			return;
+		}
+
+		this.validateLength(value);
+
+		var units = new Int32Array(size);
+
+		for(var i = 0; i < size; i++)
+		{
+			if(value[i] instanceof AbstractTexture)
+			{
+				units[i] = this._unit + i;
+				this.bindTexture(units[i], value[i]);
+			}
+			else if(typeof value[i] == 'number')
+			{
+				units[i] = value[i];
+			}
+			else
+			{
+				throw new TypeError('uniform "' + this._name + '" expects a texture or texture unit at index ' + i);
+			}
+		}
+
+		gl.uniform1iv(this._location, units);
+	}
+
+	protected bindTexture(unit:number, texture:AbstractTexture):void
+	{
+		var gl = this._gl;
+
+		if(UniformLocation.TEXTURE_2D_SAMPLERS.indexOf(this._type) == -1)
+		{
+			throw new TypeError('uniform "' + this._name + '" does not sample a 2d texture, only a texture unit can be set');
+		}
+
+		this._state.activeTexture(gl.TEXTURE0 + unit);
+		AbstractTexture.bind(gl, texture);
+
+		if(texture.needsUpdate)
+		{
+			AbstractTexture.update(gl, texture);
+		}
+	}
+
+	protected validateLength(value:any):void
+	{
+		var expected = UniformLocation.getComponentCount(this._gl, this._type) * this._size;
+
+		if(value == null || typeof value.length != 'number')
+		{
+			throw new TypeError('uniform "' + this._name + '" expects an array of ' + expected + ' values, got ' + value);
+		}
+
+		if(value.length != expected)
+		{
+			throw new TypeError('uniform "' + this._name + '" expects ' + expected + ' values, got ' + value.length);
+		}
+	}
+
 	public get name()
 	{
 		return this._name;
@@ -120,48 +504,28 @@ export class UniformLocation
 		this.setValue(value);
 	}
 
-	public activate(){
-		var value = this._value;
-		if(this._type != this._gl.SAMPLER_2D){
-			throw new TypeError('activate can only be triggerd with a sampler2d uniform');
-		}
-
-		if(value < 0 || value > 15 || value === void 0){
-			throw new TypeError('value can only be 0 - 15');
-		}
-
-		if(value === 0){
-			this._gl.activeTexture(this._gl.TEXTURE0);
-		} else if(value === 1){
-			this._gl.activeTexture(this._gl.TEXTURE1);
-		} else if(value === 2){
-			this._gl.activeTexture(this._gl.TEXTURE2);
-		} else if(value === 3){
-			this._gl.activeTexture(this._gl.TEXTURE3);
-		} else if(value === 4){
-			this._gl.activeTexture(this._gl.TEXTURE4);
-		} else if(value === 5){
-			this._gl.activeTexture(this._gl.TEXTURE5);
-		} else if(value === 6){
-			this._gl.activeTexture(this._gl.TEXTURE6);
-		} else if(value === 7){
-			this._gl.activeTexture(this._gl.TEXTURE7);
-		} else if(value === 8){
-			this._gl.activeTexture(this._gl.TEXTURE8);
-		} else if(value === 9){
-			this._gl.activeTexture(this._gl.TEXTURE9);
-		} else if(value === 10){
-			this._gl.activeTexture(this._gl.TEXTURE10);
-		} else if(value === 11){
-			this._gl.activeTexture(this._gl.TEXTURE11);
-		} else if(value === 12){
-			this._gl.activeTexture(this._gl.TEXTURE12);
-		} else if(value === 13){
-			this._gl.activeTexture(this._gl.TEXTURE13);
-		} else if(value === 14){
-			this._gl.activeTexture(this._gl.TEXTURE14);
-		} else if(value === 15) {
-			this._gl.activeTexture(this._gl.TEXTURE15);
+	/**
+	 * Makes the texture unit of this sampler the active one.
+	 *
+	 * @method activate
+	 * @returns {UniformLocation}
+	 */
+	public activate():this
+	{
+		var gl = this._gl;
+		var value = typeof this._value == 'number' ? this._value : this._unit;
+
+		if(!this.isSampler())
+		{
+			throw new TypeError('uniform "' + this._name + '" is not a sampler, only samplers can be activated');
 		}
+
+		if(value < 0)
+		{
+			throw new RangeError('uniform "' + this._name + '" has an invalid texture unit ' + value);
+		}
+
+		this._state.activeTexture(gl.TEXTURE0 + value);
+		return this;
 	}
 }
\ No newline at end of file
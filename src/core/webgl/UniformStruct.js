@@ -0,0 +1,48 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./UniformLocation"], function (require, exports, UniformLocation_1) {
+    "use strict";
+    var UniformStruct = (function (_super) {
+        __extends(UniformStruct, _super);
+        function UniformStruct(gl, name) {
+            _super.call(this, gl, name, null, null, 1);
+            this.members = {};
+        }
+        UniformStruct.prototype.setValue = function (value) {
+            if (value == null || typeof value != 'object') {
+                throw new TypeError('uniform "' + this._name + '" is a struct, expects an object or array, got ' + value);
+            }
+            this._value = value;
+            for (var name in this.members) {
+                if (value[name] !== void 0) {
+                    this.members[name].setValue(value[name]);
+                }
+            }
+            return this;
+        };
+        UniformStruct.prototype.relocate = function (uniform) {
+            var struct = uniform instanceof UniformStruct ? uniform : null;
+            for (var name in this.members) {
+                this.members[name].relocate(struct ? struct.members[name] : null);
+            }
+            if (struct) {
+                for (var name in struct.members) {
+                    if (!this.members[name]) {
+                        this.members[name] = struct.members[name];
+                    }
+                }
+            }
+        };
+        UniformStruct.prototype.reapply = function () {
+            return this;
+        };
+        UniformStruct.prototype.isSampler = function () {
+            return false;
+        };
+        return UniformStruct;
+    }(UniformLocation_1.UniformLocation));
+    exports.UniformStruct = UniformStruct;
+});
@@ -0,0 +1,86 @@
+import IHashMap from "../interface/IHashMap";
+import {UniformLocation} from "./UniformLocation";
+
+/**
+ * Groups the uniforms of a glsl struct or array of structs so they can be set with one object. Members are keyed by
+ * their field name, elements of an array of structs by their index.
+ *
+ * <h4>Example</h4>
+ *
+ *      // uniform Light uLights[2];
+ *      program.getUniform('uLights').setValue([
+ *          {color: [1, 0, 0], intensity: 1},
+ *          {color: [0, 0, 1], intensity: .5}
+ *      ]);
+ *
+ * @class UniformStruct
+ * @param {WebGLRenderingContext} gl
+ * @param {string} name
+ */
+export class UniformStruct extends UniformLocation
+{
+	public members:IHashMap<UniformLocation> = {};
+
+	constructor(gl:WebGLRenderingContext, name:string)
+	{
+		super(gl, name, null, null, 1);
+	}
+
+	/**
+	 * Sets every member that is present in value, members that are not active in the program are ignored.
+	 *
+	 * @method setValue
+	 * @param {any} value
+	 * @returns {UniformStruct}
+	 */
+	public setValue(value:any):this
+	{
+		if(value == null || typeof value != 'object')
+		{
+			throw new TypeError('uniform "' + this._name + '" is a struct, expects an object or array, got ' + value);
+		}
+
+		this._value = value;
+
+		for(var name in this.members)
+		{
+			if(value[name] !== void 0)
+			{
+				this.members[name].setValue(value[name]);
+			}
+		}
+
+		return this;
+	}
+
+	public relocate(uniform:UniformLocation):void
+	{
+		var struct = uniform instanceof UniformStruct ? <UniformStruct> uniform : null;
+
+		for(var name in this.members)
+		{
+			this.members[name].relocate(struct ? struct.members[name] : null);
+		}
+
+		if(struct)
+		{
+			for(var name in struct.members)
+			{
+				if(!this.members[name])
+				{
+					this.members[name] = struct.members[name];
+				}
+			}
+		}
+	}
+
+	public reapply():this
+	{
+		return this;
+	}
+
+	public isSampler():boolean
+	{
+		return false;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+define(["require", "exports", "./GLState", "./GLCapabilities", "./GPUResources"], function (require, exports, GLState_1, GLCapabilities_1, GPUResources_1) {
+    "use strict";
+    var VertexArray = (function () {
+        function VertexArray(gl, setup) {
+            this._vertexArray = null;
+            this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
+            this._setup = setup;
+            GPUResources_1.GPUResources.get(gl).add(this);
+        }
+        VertexArray.prototype.isNative = function () {
+            return GLCapabilities_1.GLCapabilities.get(this._gl).hasVertexArrays();
+        };
+        VertexArray.prototype.bind = function () {
+            if (!this.isNative()) {
+                this._setup();
+                return this;
+            }
+            if (!this._vertexArray) {
+                this._vertexArray = GLCapabilities_1.GLCapabilities.get(this._gl).createVertexArray();
+                this._state.bindVertexArray(this._vertexArray);
+                this._setup();
+            }
+            else {
+                this._state.bindVertexArray(this._vertexArray);
+            }
+            return this;
+        };
+        VertexArray.prototype.unbind = function () {
+            if (this.isNative()) {
+                this._state.bindVertexArray(null);
+            }
+            return this;
+        };
+        VertexArray.prototype.invalidate = function () {
+            if (this._vertexArray) {
+                this._state.deleteVertexArray(this._vertexArray);
+                this._vertexArray = null;
+            }
+        };
+        VertexArray.prototype.restore = function (gl) {
+            this._vertexArray = null;
+        };
+        VertexArray.prototype.destruct = function () {
+            GPUResources_1.GPUResources.get(this._gl).remove(this);
+            this.invalidate();
+            this._setup = null;
+            this._state = null;
+            this._gl = null;
+        };
+        return VertexArray;
+    }());
+    exports.VertexArray = VertexArray;
+});
@@ -0,0 +1,125 @@
+import {GLState} from "./GLState";
+import {GLCapabilities} from "./GLCapabilities";
+import {GPUResources} from "./GPUResources";
+import IGPUResource from "../interface/IGPUResource";
+
+/**
+ * Remembers the buffers and attribute pointers set up by a function in a vertex array object, so they are restored
+ * with a single bind. Without support for vertex arrays the function is called on every bind instead, code that
+ * uses a VertexArray runs the same either way.
+ *
+ * <h4>Example</h4>
+ *
+ *      var vertexArray = new VertexArray(gl, () => {
+ *          program.bindVertexLayout(vertexBuffer, layout);
+ *          indexBuffer.bind();
+ *      });
+ *
+ *      vertexArray.bind();
+ *      gl.drawElements(gl.TRIANGLES, count, gl.UNSIGNED_SHORT, 0);
+ *      vertexArray.unbind();
+ *
+ * @class VertexArray
+ * @param {WebGLRenderingContext} gl
+ * @param {() => void} setup binds the buffers and points the attributes
+ */
+export class VertexArray implements IGPUResource
+{
+	protected _gl:WebGLRenderingContext;
+	protected _state:GLState;
+	protected _setup:() => void;
+	protected _vertexArray:any = null;
+
+	constructor(gl:WebGLRenderingContext, setup:() => void)
+	{
+		this._gl = gl;
+		this._state = GLState.get(gl);
+		this._setup = setup;
+
+		GPUResources.get(gl).add(this);
+	}
+
+	/**
+	 * Whether the state is kept in a vertex array object, false when the setup is replayed on every bind.
+	 *
+	 * @method isNative
+	 * @returns {boolean}
+	 */
+	public isNative():boolean
+	{
+		return GLCapabilities.get(this._gl).hasVertexArrays();
+	}
+
+	public bind():this
+	{
+		if(!this.isNative())
+		{
+			this._setup();
+			return this;
+		}
+
+		if(!this._vertexArray)
+		{
+			this._vertexArray = GLCapabilities.get(this._gl).createVertexArray();
+			this._state.bindVertexArray(this._vertexArray);
+			this._setup();
+		}
+		else
+		{
+			this._state.bindVertexArray(this._vertexArray);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Binds the default vertex array again, so buffers bound afterwards do not end up in this one.
+	 *
+	 * @method unbind
+	 * @returns {VertexArray}
+	 */
+	public unbind():this
+	{
+		if(this.isNative())
+		{
+			this._state.bindVertexArray(null);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Runs the setup again on the next bind, needed when the buffers or the layout changed.
+	 *
+	 * @method invalidate
+	 */
+	public invalidate():void
+	{
+		if(this._vertexArray)
+		{
+			this._state.deleteVertexArray(this._vertexArray);
+			this._vertexArray = null;
+		}
+	}
+
+	/**
+	 * The vertex array object is created again with the setup on the next bind.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		this._vertexArray = null;
+	}
+
+	public destruct():void
+	{
+		GPUResources.get(this._gl).remove(this);
+		this.invalidate();
+
+		this._setup = null;
+		this._state = null;
+		this._gl = null;
+	}
+}
\ No newline at end of file
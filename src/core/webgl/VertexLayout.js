@@ -0,0 +1,50 @@
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var VertexLayout = (function () {
+        function VertexLayout(elements) {
+            this.elements = [];
+            this.offsets = {};
+            this.stride = 0;
+            for (var i = 0; i < elements.length; i++) {
+                var element = elements[i];
+                this.elements.push({
+                    name: element.name,
+                    size: element.size,
+                    type: element.type === void 0 ? VertexLayout.FLOAT : element.type,
+                    normalized: !!element.normalized
+                });
+                this.offsets[element.name] = this.stride;
+                this.stride += element.size * VertexLayout.getByteSize(this.elements[i].type);
+            }
+        }
+        VertexLayout.getByteSize = function (type) {
+            switch (type) {
+                case 0x1400:
+                case 0x1401: {
+                    return 1;
+                }
+                case 0x1402:
+                case 0x1403: {
+                    return 2;
+                }
+                case 0x1404:
+                case 0x1405:
+                case 0x1406: {
+                    return 4;
+                }
+            }
+            throw new TypeError('unknown vertex component type 0x' + type.toString(16));
+        };
+        VertexLayout.prototype.getElement = function (name) {
+            for (var i = 0; i < this.elements.length; i++) {
+                if (this.elements[i].name == name) {
+                    return this.elements[i];
+                }
+            }
+            return null;
+        };
+        VertexLayout.FLOAT = 0x1406;
+        return VertexLayout;
+    }());
+    exports.VertexLayout = VertexLayout;
+});
@@ -0,0 +1,117 @@
+import IVertexElement from "../interface/IVertexElement";
+import IHashMap from "../interface/IHashMap";
+
+/**
+ * Describes how the attributes of a vertex are interleaved in a buffer. Offsets and the stride are calculated from
+ * the order and the sizes of the elements.
+ *
+ * <h4>Example</h4>
+ *
+ *      var layout = new VertexLayout([
+ *          {name: 'aVertexPosition', size: 3},
+ *          {name: 'aTexcoord', size: 2},
+ *          {name: 'aColor', size: 4, type: gl.UNSIGNED_BYTE, normalized: true}
+ *      ]);
+ *
+ *      program.bindVertexLayout(buffer, layout);
+ *
+ * @class VertexLayout
+ * @param {Array<IVertexElement>} elements
+ */
+export class VertexLayout
+{
+	/**
+	 * Size in bytes of one component of the given type.
+	 *
+	 * @method getByteSize
+	 * @param {number} type gl.BYTE, gl.UNSIGNED_BYTE, gl.SHORT, gl.UNSIGNED_SHORT, gl.INT, gl.UNSIGNED_INT or gl.FLOAT
+	 * @returns {number}
+	 * @static
+	 */
+	public static getByteSize(type:number):number
+	{
+		switch(type)
+		{
+			// BYTE, UNSIGNED_BYTE
+			case 0x1400:
+			case 0x1401:{
+				return 1;
+			}
+
+			// SHORT, UNSIGNED_SHORT
+			case 0x1402:
+			case 0x1403:{
+				return 2;
+			}
+
+			// INT, UNSIGNED_INT, FLOAT
+			case 0x1404:
+			case 0x1405:
+			case 0x1406:{
+				return 4;
+			}
+		}
+
+		throw new TypeError('unknown vertex component type 0x' + type.toString(16));
+	}
+
+	/**
+	 * gl.FLOAT
+	 * @property FLOAT
+	 * @type {number}
+	 * @static
+	 */
+	public static FLOAT:number = 0x1406;
+
+	public elements:Array<IVertexElement> = [];
+
+	/**
+	 * byte offset of each element in a vertex
+	 * @property offsets
+	 * @type {IHashMap<number>}
+	 */
+	public offsets:IHashMap<number> = {};
+
+	/**
+	 * size in bytes of one vertex
+	 * @property stride
+	 * @type {number}
+	 */
+	public stride:number = 0;
+
+	constructor(elements:Array<IVertexElement>)
+	{
+		for(var i = 0; i < elements.length; i++)
+		{
+			var element = elements[i];
+
+			this.elements.push({
+				name: element.name,
+				size: element.size,
+				type: element.type === void 0 ? VertexLayout.FLOAT : element.type,
+				normalized: !!element.normalized
+			});
+
+			this.offsets[element.name] = this.stride;
+			this.stride += element.size * VertexLayout.getByteSize(this.elements[i].type);
+		}
+	}
+
+	/**
+	 * @method getElement
+	 * @param {string} name
+	 * @returns {IVertexElement} null when the layout has no element with that name
+	 */
+	public getElement(name:string):IVertexElement
+	{
+		for(var i = 0; i < this.elements.length; i++)
+		{
+			if(this.elements[i].name == name)
+			{
+				return this.elements[i];
+			}
+		}
+
+		return null;
+	}
+}
\ No newline at end of file
@@ -1,10 +1,14 @@
-define(["require", "exports", "./ShaderProgram"], function (require, exports, ShaderProgram_1) {
+define(["require", "exports", "./ShaderProgram", "./GLCapabilities"], function (require, exports, ShaderProgram_1, GLCapabilities_1) {
     "use strict";
     var WebGL = (function () {
         function WebGL(element) {
             this.el = element;
             this.gl = element.getContext();
+            this.capabilities = GLCapabilities_1.GLCapabilities.get(this.gl);
         }
+        WebGL.prototype.isWebGL2 = function () {
+            return this.capabilities.isWebGL2;
+        };
         WebGL.prototype.createProgram = function (vertex, fragment) {
             return new ShaderProgram_1.ShaderProgram(this.gl, vertex, fragment);
         };
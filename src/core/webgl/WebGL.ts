@@ -1,15 +1,23 @@
 import {CanvasWebGL} from "../../visual/renderer/element/CanvasWebGL";
 import {ShaderProgram} from "./ShaderProgram";
 import {Shader} from "./Shader";
+import {GLCapabilities} from "./GLCapabilities";
 
 export class WebGL {
 
 	el:CanvasWebGL;
 	gl:WebGLRenderingContext;
+	capabilities:GLCapabilities;
 
 	constructor(element:CanvasWebGL){
 		this.el = element;
 		this.gl = element.getContext();
+		this.capabilities = GLCapabilities.get(this.gl);
+	}
+
+	public isWebGL2():boolean
+	{
+		return this.capabilities.isWebGL2;
 	}
 
 	public createProgram(vertex:Shader, fragment:Shader):ShaderProgram
@@ -0,0 +1,84 @@
+define(["require", "exports", "./ShaderPass", "../RenderTarget", "../Buffer", "../Geometry", "../GLState", "../../util/Time"], function (require, exports, ShaderPass_1, RenderTarget_1, Buffer_1, Geometry_1, GLState_1, Time_1) {
+    "use strict";
+    var EffectComposer = (function () {
+        function EffectComposer(canvas, depth) {
+            if (depth === void 0) { depth = true; }
+            this.passes = [];
+            this._resolution = new Float32Array(2);
+            var gl = canvas.getContext();
+            this._canvas = canvas;
+            this._gl = gl;
+            this._readTarget = RenderTarget_1.RenderTarget.createFromCanvas(gl, canvas, depth);
+            this._writeTarget = RenderTarget_1.RenderTarget.createFromCanvas(gl, canvas, depth);
+            this._quad = new Buffer_1.Buffer(gl, Geometry_1.Geometry.QUAD);
+            this._copyPass = ShaderPass_1.ShaderPass.createFromFragment(gl, ShaderPass_1.ShaderPass.COPY_SHADER);
+        }
+        EffectComposer.prototype.addPass = function (pass) {
+            this.passes.push(pass);
+            return pass;
+        };
+        EffectComposer.prototype.insertPass = function (pass, index) {
+            this.passes.splice(index, 0, pass);
+            return pass;
+        };
+        EffectComposer.prototype.removePass = function (pass) {
+            var index = this.passes.indexOf(pass);
+            if (index == -1) {
+                return false;
+            }
+            this.passes.splice(index, 1);
+            return true;
+        };
+        EffectComposer.prototype.begin = function () {
+            this._readTarget.bind();
+        };
+        EffectComposer.prototype.end = function (time) {
+            if (time === void 0) { time = Time_1.default.getSafeFromStart() / 1000; }
+            var gl = this._gl;
+            var state = GLState_1.GLState.get(gl);
+            var passes = this.passes.filter(function (pass) { return pass.enabled; });
+            this._readTarget.unbind();
+            if (passes.length == 0) {
+                passes.push(this._copyPass);
+            }
+            var depthTest = state.isEnabled(gl.DEPTH_TEST);
+            state.disable(gl.DEPTH_TEST);
+            this._resolution[0] = this._canvas.getWidth();
+            this._resolution[1] = this._canvas.getHeight();
+            for (var i = 0, l = passes.length; i < l; i++) {
+                var last = i == l - 1;
+                if (!last) {
+                    this._writeTarget.bind();
+                }
+                passes[i].render(gl, this._quad, Geometry_1.Geometry.QUAD.length, this._readTarget.texture, this._resolution, time);
+                if (!last) {
+                    this._writeTarget.unbind();
+                    this.swap();
+                }
+            }
+            if (depthTest) {
+                state.enable(gl.DEPTH_TEST);
+            }
+        };
+        EffectComposer.prototype.swap = function () {
+            var target = this._readTarget;
+            this._readTarget = this._writeTarget;
+            this._writeTarget = target;
+        };
+        EffectComposer.prototype.destruct = function () {
+            this._readTarget.destruct();
+            this._writeTarget.destruct();
+            this._copyPass.destruct();
+            this._quad.destruct();
+            this._readTarget = null;
+            this._writeTarget = null;
+            this._copyPass = null;
+            this._quad = null;
+            this.passes = null;
+            this._canvas = null;
+            this._gl = null;
+        };
+        return EffectComposer;
+    }());
+    exports.EffectComposer = EffectComposer;
+});
@@ -0,0 +1,173 @@
+import {ShaderPass} from "./ShaderPass";
+import {RenderTarget} from "../RenderTarget";
+import {Buffer} from "../Buffer";
+import {Geometry} from "../Geometry";
+import {GLState} from "../GLState";
+import {CanvasWebGL} from "../../../visual/renderer/element/CanvasWebGL";
+import Time from "../../util/Time";
+
+/**
+ * Runs an ordered list of full-screen passes. The scene is drawn into an off-screen target between begin and end,
+ * after which every enabled pass reads the result of the previous one. The composer ping-pongs between two targets
+ * and the last enabled pass draws to the back buffer of the canvas.
+ *
+ * <h4>Example</h4>
+ *
+ *      var composer = new EffectComposer(canvas);
+ *      composer.addPass(ShaderPass.createFromFragment(gl, blurSource));
+ *
+ *      composer.begin();
+ *      // draw the scene
+ *      composer.end();
+ *
+ * @class EffectComposer
+ * @param {CanvasWebGL} canvas
+ * @param {boolean} [depth=true] whether the targets have a depth buffer, needed when the scene uses depth testing
+ */
+export class EffectComposer
+{
+	public passes:Array<ShaderPass> = [];
+
+	protected _canvas:CanvasWebGL;
+	protected _gl:WebGLRenderingContext;
+	protected _readTarget:RenderTarget;
+	protected _writeTarget:RenderTarget;
+	protected _quad:Buffer;
+	protected _copyPass:ShaderPass;
+	protected _resolution:Float32Array = new Float32Array(2);
+
+	constructor(canvas:CanvasWebGL, depth:boolean = true)
+	{
+		var gl = canvas.getContext();
+
+		this._canvas = canvas;
+		this._gl = gl;
+		this._readTarget = RenderTarget.createFromCanvas(gl, canvas, depth);
+		this._writeTarget = RenderTarget.createFromCanvas(gl, canvas, depth);
+		this._quad = new Buffer(gl, Geometry.QUAD);
+		this._copyPass = ShaderPass.createFromFragment(gl, ShaderPass.COPY_SHADER);
+	}
+
+	/**
+	 * @method addPass
+	 * @param {ShaderPass} pass
+	 * @returns {ShaderPass}
+	 */
+	public addPass(pass:ShaderPass):ShaderPass
+	{
+		this.passes.push(pass);
+		return pass;
+	}
+
+	/**
+	 * @method insertPass
+	 * @param {ShaderPass} pass
+	 * @param {number} index
+	 * @returns {ShaderPass}
+	 */
+	public insertPass(pass:ShaderPass, index:number):ShaderPass
+	{
+		this.passes.splice(index, 0, pass);
+		return pass;
+	}
+
+	/**
+	 * @method removePass
+	 * @param {ShaderPass} pass
+	 * @returns {boolean} false when the pass was not part of this composer
+	 */
+	public removePass(pass:ShaderPass):boolean
+	{
+		var index = this.passes.indexOf(pass);
+
+		if(index == -1)
+		{
+			return false;
+		}
+
+		this.passes.splice(index, 1);
+		return true;
+	}
+
+	/**
+	 * Directs drawing to the off-screen target that serves as input of the first pass.
+	 *
+	 * @method begin
+	 */
+	public begin():void
+	{
+		this._readTarget.bind();
+	}
+
+	/**
+	 * Runs all enabled passes, the last one draws to the canvas.
+	 *
+	 * @method end
+	 * @param {number} [time] value of the uTime uniform in seconds
+	 */
+	public end(time:number = Time.getSafeFromStart() / 1000):void
+	{
+		var gl = this._gl;
+		var state = GLState.get(gl);
+		var passes = this.passes.filter((pass:ShaderPass) => pass.enabled);
+
+		this._readTarget.unbind();
+
+		if(passes.length == 0)
+		{
+			passes.push(this._copyPass);
+		}
+
+		var depthTest = state.isEnabled(gl.DEPTH_TEST);
+		state.disable(gl.DEPTH_TEST);
+
+		this._resolution[0] = this._canvas.getWidth();
+		this._resolution[1] = this._canvas.getHeight();
+
+		for(var i = 0, l = passes.length; i < l; i++)
+		{
+			var last = i == l - 1;
+
+			if(!last)
+			{
+				this._writeTarget.bind();
+			}
+
+			passes[i].render(gl, this._quad, Geometry.QUAD.length, this._readTarget.texture, this._resolution, time);
+
+			if(!last)
+			{
+				this._writeTarget.unbind();
+				this.swap();
+			}
+		}
+
+		if(depthTest)
+		{
+			state.enable(gl.DEPTH_TEST);
+		}
+	}
+
+	protected swap():void
+	{
+		var target = this._readTarget;
+		this._readTarget = this._writeTarget;
+		this._writeTarget = target;
+	}
+
+	public destruct():void
+	{
+		this._readTarget.destruct();
+		this._writeTarget.destruct();
+		this._copyPass.destruct();
+		this._quad.destruct();
+
+		this._readTarget = null;
+		this._writeTarget = null;
+		this._copyPass = null;
+		this._quad = null;
+		this.passes = null;
+		this._canvas = null;
+		this._gl = null;
+	}
+}
\ No newline at end of file
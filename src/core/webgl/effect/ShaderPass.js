@@ -0,0 +1,44 @@
+define(["require", "exports", "../ShaderProgram", "../Shader", "../ShaderType"], function (require, exports, ShaderProgram_1, Shader_1, ShaderType_1) {
+    "use strict";
+    var ShaderPass = (function () {
+        function ShaderPass(program) {
+            this.enabled = true;
+            this.values = {};
+            this.program = program;
+        }
+        ShaderPass.createFromFragment = function (gl, fragment) {
+            return new ShaderPass(new ShaderProgram_1.ShaderProgram(gl, new Shader_1.Shader(ShaderType_1.default.VERTEX, ShaderPass.VERTEX_SHADER), new Shader_1.Shader(ShaderType_1.default.FRAGMENT, fragment)));
+        };
+        ShaderPass.prototype.render = function (gl, quad, length, input, resolution, time) {
+            var program = this.program;
+            var uniforms = program.use().getUniforms();
+            if (uniforms['uTexture']) {
+                uniforms['uTexture'].setValue(input);
+            }
+            if (uniforms['uResolution']) {
+                uniforms['uResolution'].setValue(resolution);
+            }
+            if (uniforms['uTime']) {
+                uniforms['uTime'].setValue(time);
+            }
+            for (var name in this.values) {
+                if (uniforms[name]) {
+                    uniforms[name].setValue(this.values[name]);
+                }
+            }
+            var position = program.getAttribute('aVertexPosition') || program.defineAttribute('aVertexPosition', 3);
+            quad.bind();
+            position.point().enable();
+            gl.drawElements(gl.TRIANGLES, length, gl.UNSIGNED_SHORT, 0);
+        };
+        ShaderPass.prototype.destruct = function () {
+            this.program.destruct();
+            this.program = null;
+            this.values = null;
+        };
+        ShaderPass.VERTEX_SHADER = "\nattribute vec3 aVertexPosition;\n\nvarying vec2 vUv;\n\nvoid main(void) {\n\tvUv = aVertexPosition.xy * 0.5 + 0.5;\n\tgl_Position = vec4(aVertexPosition, 1.0);\n}\n";
+        ShaderPass.COPY_SHADER = "\nprecision mediump float;\n\nuniform sampler2D uTexture;\n\nvarying vec2 vUv;\n\nvoid main(void) {\n\tgl_FragColor = texture2D(uTexture, vUv);\n}\n";
+        return ShaderPass;
+    }());
+    exports.ShaderPass = ShaderPass;
+});
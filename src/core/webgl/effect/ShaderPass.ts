@@ -0,0 +1,148 @@
+import {ShaderProgram} from "../ShaderProgram";
+import {Shader} from "../Shader";
+import ShaderType from "../ShaderType";
+import {Buffer} from "../Buffer";
+import {AttributeLocation} from "../AttributeLocation";
+import {AbstractTexture} from "../../../visual/display/AbstractTexture";
+import IHashMap from "../../interface/IHashMap";
+
+/**
+ * A full-screen effect, the program is drawn over Geometry.QUAD. The uniforms uTexture (the result of the previous
+ * pass), uResolution and uTime are set by the EffectComposer when the program declares them.
+ *
+ * <h4>Example</h4>
+ *
+ *      var vignette = ShaderPass.createFromFragment(gl, `
+ *      precision mediump float;
+ *      uniform sampler2D uTexture;
+ *      varying vec2 vUv;
+ *      void main(void) {
+ *          gl_FragColor = texture2D(uTexture, vUv) * (1.0 - length(vUv - 0.5));
+ *      }`);
+ *
+ * @class ShaderPass
+ * @param {ShaderProgram} program
+ */
+export class ShaderPass
+{
+	/**
+	 * Vertex shader that passes the uv coordinates of the quad to the fragment shader as vUv.
+	 * @property VERTEX_SHADER
+	 * @type {string}
+	 * @static
+	 */
+	public static VERTEX_SHADER:string = `
+attribute vec3 aVertexPosition;
+
+varying vec2 vUv;
+
+void main(void) {
+	vUv = aVertexPosition.xy * 0.5 + 0.5;
+	gl_Position = vec4(aVertexPosition, 1.0);
+}
+`;
+
+	public static COPY_SHADER:string = `
+precision mediump float;
+
+uniform sampler2D uTexture;
+
+varying vec2 vUv;
+
+void main(void) {
+	gl_FragColor = texture2D(uTexture, vUv);
+}
+`;
+
+	/**
+	 * Creates a pass from only a fragment shader, combined with the standard pass vertex shader.
+	 *
+	 * @method createFromFragment
+	 * @param {WebGLRenderingContext} gl
+	 * @param {string} fragment glsl source
+	 * @returns {ShaderPass}
+	 */
+	public static createFromFragment(gl:WebGLRenderingContext, fragment:string):ShaderPass
+	{
+		return new ShaderPass(new ShaderProgram(
+			gl,
+			new Shader(ShaderType.VERTEX, ShaderPass.VERTEX_SHADER),
+			new Shader(ShaderType.FRAGMENT, fragment)
+		));
+	}
+
+	public program:ShaderProgram;
+
+	/**
+	 * disabled passes are skipped by the composer
+	 * @property enabled
+	 * @type {boolean}
+	 */
+	public enabled:boolean = true;
+
+	/**
+	 * Additional uniform values, applied each time the pass is rendered.
+	 * @property values
+	 * @type {IHashMap<any>}
+	 */
+	public values:IHashMap<any> = {};
+
+	constructor(program:ShaderProgram)
+	{
+		this.program = program;
+	}
+
+	/**
+	 * Draws the quad with the input texture bound to uTexture.
+	 *
+	 * @method render
+	 * @param {WebGLRenderingContext} gl
+	 * @param {Buffer} quad buffer of Geometry.QUAD
+	 * @param {number} length amount of indices of the quad
+	 * @param {AbstractTexture} input
+	 * @param {Float32Array} resolution
+	 * @param {number} time
+	 */
+	public render(gl:WebGLRenderingContext, quad:Buffer, length:number, input:AbstractTexture, resolution:Float32Array, time:number):void
+	{
+		var program = this.program;
+		var uniforms = program.use().getUniforms();
+
+		if(uniforms['uTexture'])
+		{
+			uniforms['uTexture'].setValue(input);
+		}
+
+		if(uniforms['uResolution'])
+		{
+			uniforms['uResolution'].setValue(resolution);
+		}
+
+		if(uniforms['uTime'])
+		{
+			uniforms['uTime'].setValue(time);
+		}
+
+		for(var name in this.values)
+		{
+			if(uniforms[name])
+			{
+				uniforms[name].setValue(this.values[name]);
+			}
+		}
+
+		var position:AttributeLocation = program.getAttribute('aVertexPosition') || program.defineAttribute('aVertexPosition', 3);
+
+		quad.bind();
+		position.point().enable();
+
+		gl.drawElements(gl.TRIANGLES, length, gl.UNSIGNED_SHORT, 0);
+	}
+
+	public destruct():void
+	{
+		this.program.destruct();
+		this.program = null;
+		this.values = null;
+	}
+}
\ No newline at end of file
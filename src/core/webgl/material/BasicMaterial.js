@@ -0,0 +1,73 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./Material"], function (require, exports, Material_1) {
+    "use strict";
+    var BasicMaterial = (function (_super) {
+        __extends(BasicMaterial, _super);
+        function BasicMaterial(color, map) {
+            if (color === void 0) { color = [1, 1, 1]; }
+            if (map === void 0) { map = null; }
+            _super.call(this, null, { uColor: color, uOpacity: 1 });
+            this.type = 'BasicMaterial';
+            this.map = map;
+        }
+        Object.defineProperty(BasicMaterial.prototype, "color", {
+            get: function () {
+                return this.uniforms['uColor'];
+            },
+            set: function (value) {
+                this.uniforms['uColor'] = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(BasicMaterial.prototype, "opacity", {
+            get: function () {
+                return this.uniforms['uOpacity'];
+            },
+            set: function (value) {
+                this.uniforms['uOpacity'] = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(BasicMaterial.prototype, "map", {
+            get: function () {
+                return this.uniforms['uMap'] || null;
+            },
+            set: function (value) {
+                if (value) {
+                    this.uniforms['uMap'] = value;
+                }
+                else {
+                    delete this.uniforms['uMap'];
+                }
+            },
+            enumerable: true,
+            configurable: true
+        });
+        BasicMaterial.prototype.getProgram = function (gl) {
+            if (this.program) {
+                return this.program;
+            }
+            return this.getSharedProgram(gl).getVariant(this.getDefines());
+        };
+        BasicMaterial.prototype.getSharedProgram = function (gl) {
+            return Material_1.Material.getSharedProgram(gl, BasicMaterial.VERTEX_SHADER, BasicMaterial.FRAGMENT_SHADER);
+        };
+        BasicMaterial.prototype.getDefines = function () {
+            var defines = {};
+            if (this.map) {
+                defines['USE_MAP'] = 1;
+            }
+            return defines;
+        };
+        BasicMaterial.VERTEX_SHADER = "\nattribute vec3 aVertexPosition;\n\nuniform mat4 uModelMatrix;\nuniform mat4 uViewMatrix;\nuniform mat4 uProjectionMatrix;\n\n#ifdef USE_MAP\nattribute vec2 aTexcoord;\nvarying vec2 vUv;\n#endif\n\nvoid main(void) {\n#ifdef USE_MAP\n\tvUv = aTexcoord;\n#endif\n\tgl_Position = uProjectionMatrix * uViewMatrix * uModelMatrix * vec4(aVertexPosition, 1.0);\n}\n";
+        BasicMaterial.FRAGMENT_SHADER = "\nprecision mediump float;\n\nuniform vec3 uColor;\nuniform float uOpacity;\n\n#ifdef USE_MAP\nuniform sampler2D uMap;\nvarying vec2 vUv;\n#endif\n\nvoid main(void) {\n\tvec4 color = vec4(uColor, uOpacity);\n#ifdef USE_MAP\n\tcolor *= texture2D(uMap, vUv);\n#endif\n\tgl_FragColor = color;\n}\n";
+        return BasicMaterial;
+    }(Material_1.Material));
+    exports.BasicMaterial = BasicMaterial;
+});
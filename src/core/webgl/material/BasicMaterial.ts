@@ -0,0 +1,156 @@
+import {Material} from "./Material";
+import {ShaderProgram} from "../ShaderProgram";
+import {AbstractTexture} from "../../../visual/display/AbstractTexture";
+import IHashMap from "../../interface/IHashMap";
+
+/**
+ * Unlit material, a color that is multiplied by the texture when it has one. The matrices uModelMatrix,
+ * uViewMatrix and uProjectionMatrix are set by the renderer.
+ *
+ * <h4>Example</h4>
+ *
+ *      var sky = new BasicMaterial([1, 1, 1], skyTexture);
+ *      sky.cullFace = Material.CULL_FRONT;
+ *
+ * @class BasicMaterial
+ * @extends Material
+ * @param {Array<number>} [color=[1, 1, 1]] rgb
+ * @param {AbstractTexture} [map]
+ */
+export class BasicMaterial extends Material
+{
+	public static VERTEX_SHADER:string = `
+attribute vec3 aVertexPosition;
+
+uniform mat4 uModelMatrix;
+uniform mat4 uViewMatrix;
+uniform mat4 uProjectionMatrix;
+
+#ifdef USE_MAP
+attribute vec2 aTexcoord;
+varying vec2 vUv;
+#endif
+
+void main(void) {
+#ifdef USE_MAP
+	vUv = aTexcoord;
+#endif
+	gl_Position = uProjectionMatrix * uViewMatrix * uModelMatrix * vec4(aVertexPosition, 1.0);
+}
+`;
+
+	public static FRAGMENT_SHADER:string = `
+precision mediump float;
+
+uniform vec3 uColor;
+uniform float uOpacity;
+
+#ifdef USE_MAP
+uniform sampler2D uMap;
+varying vec2 vUv;
+#endif
+
+void main(void) {
+	vec4 color = vec4(uColor, uOpacity);
+#ifdef USE_MAP
+	color *= texture2D(uMap, vUv);
+#endif
+	gl_FragColor = color;
+}
+`;
+
+	public type:string = 'BasicMaterial';
+
+	constructor(color:Array<number> = [1, 1, 1], map:AbstractTexture = null)
+	{
+		super(null, {uColor: color, uOpacity: 1});
+
+		this.map = map;
+	}
+
+	/**
+	 * rgb from 0 to 1
+	 * @property color
+	 * @type {Array<number>}
+	 */
+	public get color():Array<number>
+	{
+		return this.uniforms['uColor'];
+	}
+
+	public set color(value:Array<number>)
+	{
+		this.uniforms['uColor'] = value;
+	}
+
+	/**
+	 * alpha, set transparent as well to blend a value below 1
+	 * @property opacity
+	 * @type {number}
+	 */
+	public get opacity():number
+	{
+		return this.uniforms['uOpacity'];
+	}
+
+	public set opacity(value:number)
+	{
+		this.uniforms['uOpacity'] = value;
+	}
+
+	/**
+	 * texture multiplied with the color, null for none
+	 * @property map
+	 * @type {AbstractTexture}
+	 */
+	public get map():AbstractTexture
+	{
+		return this.uniforms['uMap'] || null;
+	}
+
+	public set map(value:AbstractTexture)
+	{
+		if(value)
+		{
+			this.uniforms['uMap'] = value;
+		}
+		else
+		{
+			delete this.uniforms['uMap'];
+		}
+	}
+
+	/**
+	 * The shared program of this material type, the variant that matches the textures that are set.
+	 *
+	 * @method getProgram
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {ShaderProgram}
+	 */
+	public getProgram(gl:WebGLRenderingContext):ShaderProgram
+	{
+		if(this.program)
+		{
+			return this.program;
+		}
+
+		return this.getSharedProgram(gl).getVariant(this.getDefines());
+	}
+
+	protected getSharedProgram(gl:WebGLRenderingContext):ShaderProgram
+	{
+		return Material.getSharedProgram(gl, BasicMaterial.VERTEX_SHADER, BasicMaterial.FRAGMENT_SHADER);
+	}
+
+	protected getDefines():IHashMap<any>
+	{
+		var defines:IHashMap<any> = {};
+
+		if(this.map)
+		{
+			defines['USE_MAP'] = 1;
+		}
+
+		return defines;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./BasicMaterial", "./Material"], function (require, exports, BasicMaterial_1, Material_1) {
+    "use strict";
+    var LambertMaterial = (function (_super) {
+        __extends(LambertMaterial, _super);
+        function LambertMaterial(color, map) {
+            if (color === void 0) { color = [1, 1, 1]; }
+            if (map === void 0) { map = null; }
+            _super.call(this, color, map);
+            this.type = 'LambertMaterial';
+            this.uniforms['uEmissive'] = [0, 0, 0];
+            this.uniforms['uAmbientColor'] = [0.2, 0.2, 0.2];
+            this.uniforms['uLightColor'] = [1, 1, 1];
+            this.uniforms['uLightDirection'] = [0.5, 1, 0.75];
+        }
+        Object.defineProperty(LambertMaterial.prototype, "emissive", {
+            get: function () {
+                return this.uniforms['uEmissive'];
+            },
+            set: function (value) {
+                this.uniforms['uEmissive'] = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        LambertMaterial.prototype.getSharedProgram = function (gl) {
+            return Material_1.Material.getSharedProgram(gl, LambertMaterial.VERTEX_SHADER, LambertMaterial.FRAGMENT_SHADER);
+        };
+        LambertMaterial.VERTEX_SHADER = "\nattribute vec3 aVertexPosition;\nattribute vec3 aVertexNormal;\n\nuniform mat4 uModelMatrix;\nuniform mat4 uViewMatrix;\nuniform mat4 uProjectionMatrix;\nuniform mat3 uNormalMatrix;\n\nvarying vec3 vPosition;\nvarying vec3 vNormal;\n\n#ifdef USE_MAP\nattribute vec2 aTexcoord;\nvarying vec2 vUv;\n#endif\n\nvoid main(void) {\n\tvec4 position = uModelMatrix * vec4(aVertexPosition, 1.0);\n\n#ifdef USE_MAP\n\tvUv = aTexcoord;\n#endif\n\tvPosition = position.xyz;\n\tvNormal = uNormalMatrix * aVertexNormal;\n\tgl_Position = uProjectionMatrix * uViewMatrix * position;\n}\n";
+        LambertMaterial.FRAGMENT_SHADER = "\nprecision mediump float;\n\nuniform vec3 uColor;\nuniform float uOpacity;\nuniform vec3 uEmissive;\n\nuniform vec3 uAmbientColor;\nuniform vec3 uLightColor;\nuniform vec3 uLightDirection;\n\nvarying vec3 vNormal;\n\n#ifdef USE_MAP\nuniform sampler2D uMap;\nvarying vec2 vUv;\n#endif\n\nvoid main(void) {\n\tvec4 color = vec4(uColor, uOpacity);\n#ifdef USE_MAP\n\tcolor *= texture2D(uMap, vUv);\n#endif\n\n\t// the back of a face that is not culled is lit from the other side\n\tvec3 normal = normalize(vNormal) * (gl_FrontFacing ? 1.0 : -1.0);\n\tfloat diffuse = max(dot(normal, normalize(uLightDirection)), 0.0);\n\n\tgl_FragColor = vec4(color.rgb * (uAmbientColor + uLightColor * diffuse) + uEmissive, color.a);\n}\n";
+        return LambertMaterial;
+    }(BasicMaterial_1.BasicMaterial));
+    exports.LambertMaterial = LambertMaterial;
+});
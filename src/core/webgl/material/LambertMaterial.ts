@@ -0,0 +1,115 @@
+import {BasicMaterial} from "./BasicMaterial";
+import {Material} from "./Material";
+import {ShaderProgram} from "../ShaderProgram";
+import {AbstractTexture} from "../../../visual/display/AbstractTexture";
+
+/**
+ * Diffuse material lit by an ambient color and one directional light, without highlights. The light is set with
+ * the uniforms uAmbientColor, uLightColor and uLightDirection, the direction points towards the light in world
+ * space. uNormalMatrix is set by the renderer along with the other matrices.
+ *
+ * <h4>Example</h4>
+ *
+ *      var clay = new LambertMaterial([0.8, 0.5, 0.3]);
+ *      clay.uniforms['uLightDirection'] = [0, 1, 0];
+ *
+ * @class LambertMaterial
+ * @extends BasicMaterial
+ * @param {Array<number>} [color=[1, 1, 1]] rgb
+ * @param {AbstractTexture} [map]
+ */
+export class LambertMaterial extends BasicMaterial
+{
+	public static VERTEX_SHADER:string = `
+attribute vec3 aVertexPosition;
+attribute vec3 aVertexNormal;
+
+uniform mat4 uModelMatrix;
+uniform mat4 uViewMatrix;
+uniform mat4 uProjectionMatrix;
+uniform mat3 uNormalMatrix;
+
+varying vec3 vPosition;
+varying vec3 vNormal;
+
+#ifdef USE_MAP
+attribute vec2 aTexcoord;
+varying vec2 vUv;
+#endif
+
+void main(void) {
+	vec4 position = uModelMatrix * vec4(aVertexPosition, 1.0);
+
+#ifdef USE_MAP
+	vUv = aTexcoord;
+#endif
+	vPosition = position.xyz;
+	vNormal = uNormalMatrix * aVertexNormal;
+	gl_Position = uProjectionMatrix * uViewMatrix * position;
+}
+`;
+
+	public static FRAGMENT_SHADER:string = `
+precision mediump float;
+
+uniform vec3 uColor;
+uniform float uOpacity;
+uniform vec3 uEmissive;
+
+uniform vec3 uAmbientColor;
+uniform vec3 uLightColor;
+uniform vec3 uLightDirection;
+
+varying vec3 vNormal;
+
+#ifdef USE_MAP
+uniform sampler2D uMap;
+varying vec2 vUv;
+#endif
+
+void main(void) {
+	vec4 color = vec4(uColor, uOpacity);
+#ifdef USE_MAP
+	color *= texture2D(uMap, vUv);
+#endif
+
+	// the back of a face that is not culled is lit from the other side
+	vec3 normal = normalize(vNormal) * (gl_FrontFacing ? 1.0 : -1.0);
+	float diffuse = max(dot(normal, normalize(uLightDirection)), 0.0);
+
+	gl_FragColor = vec4(color.rgb * (uAmbientColor + uLightColor * diffuse) + uEmissive, color.a);
+}
+`;
+
+	public type:string = 'LambertMaterial';
+
+	constructor(color:Array<number> = [1, 1, 1], map:AbstractTexture = null)
+	{
+		super(color, map);
+
+		this.uniforms['uEmissive'] = [0, 0, 0];
+		this.uniforms['uAmbientColor'] = [0.2, 0.2, 0.2];
+		this.uniforms['uLightColor'] = [1, 1, 1];
+		this.uniforms['uLightDirection'] = [0.5, 1, 0.75];
+	}
+
+	/**
+	 * light given off by the surface itself, rgb
+	 * @property emissive
+	 * @type {Array<number>}
+	 */
+	public get emissive():Array<number>
+	{
+		return this.uniforms['uEmissive'];
+	}
+
+	public set emissive(value:Array<number>)
+	{
+		this.uniforms['uEmissive'] = value;
+	}
+
+	protected getSharedProgram(gl:WebGLRenderingContext):ShaderProgram
+	{
+		return Material.getSharedProgram(gl, LambertMaterial.VERTEX_SHADER, LambertMaterial.FRAGMENT_SHADER);
+	}
+}
\ No newline at end of file
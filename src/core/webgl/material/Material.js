@@ -0,0 +1,109 @@
+define(["require", "exports", "../ShaderProgram", "../Shader", "../ShaderType", "../GLState", "../../../visual/display/AbstractTexture", "../../util/UID"], function (require, exports, ShaderProgram_1, Shader_1, ShaderType_1, GLState_1, AbstractTexture_1, UID_1) {
+    "use strict";
+    var Material = (function () {
+        function Material(program, uniforms) {
+            if (program === void 0) { program = null; }
+            if (uniforms === void 0) { uniforms = {}; }
+            this.uuid = UID_1.default.get();
+            this.name = '';
+            this.type = 'Material';
+            this.transparent = false;
+            this.blend = false;
+            this.blendSource = 0x0302;
+            this.blendDestination = 0x0303;
+            this.depthTest = true;
+            this.depthWrite = true;
+            this.cullFace = Material.CULL_BACK;
+            this.program = program;
+            this.uniforms = uniforms;
+        }
+        Material.getSharedProgram = function (gl, vertex, fragment) {
+            var programs = Material._programs;
+            for (var i = 0; i < programs.length; i++) {
+                if (programs[i].gl === gl && programs[i].vertex === vertex && programs[i].fragment === fragment) {
+                    return programs[i].program;
+                }
+            }
+            var program = new ShaderProgram_1.ShaderProgram(gl, new Shader_1.Shader(ShaderType_1.default.VERTEX, vertex), new Shader_1.Shader(ShaderType_1.default.FRAGMENT, fragment));
+            programs.push({ gl: gl, vertex: vertex, fragment: fragment, program: program });
+            return program;
+        };
+        Material.removeSharedPrograms = function (gl) {
+            Material._programs = Material._programs.filter(function (entry) {
+                if (entry.gl === gl) {
+                    entry.program.destruct();
+                    return false;
+                }
+                return true;
+            });
+        };
+        Material.prototype.getProgram = function (gl) {
+            if (!this.program) {
+                throw new Error('material "' + this.name + '" has no program');
+            }
+            return this.program;
+        };
+        Material.prototype.apply = function (gl) {
+            var state = GLState_1.GLState.get(gl);
+            var program = this.getProgram(gl).use();
+            var uniforms = program.getUniforms();
+            if (this.blend || this.transparent) {
+                state.enable(gl.BLEND);
+                state.blendFunc(this.blendSource, this.blendDestination);
+            }
+            else {
+                state.disable(gl.BLEND);
+            }
+            if (this.depthTest) {
+                state.enable(gl.DEPTH_TEST);
+            }
+            else {
+                state.disable(gl.DEPTH_TEST);
+            }
+            state.depthMask(this.depthWrite);
+            if (this.cullFace == Material.CULL_NONE) {
+                state.disable(gl.CULL_FACE);
+            }
+            else {
+                state.enable(gl.CULL_FACE);
+                state.cullFace(this.cullFace);
+            }
+            for (var name in this.uniforms) {
+                if (uniforms[name]) {
+                    uniforms[name].setValue(this.uniforms[name]);
+                }
+            }
+            return program;
+        };
+        Material.prototype.toJSON = function (meta) {
+            var uniforms = {};
+            for (var name in this.uniforms) {
+                var value = this.uniforms[name];
+                if (!(value instanceof AbstractTexture_1.AbstractTexture)) {
+                    uniforms[name] = value && value.length !== void 0 ? Array.prototype.slice.call(value) : value;
+                }
+            }
+            var output = {
+                uuid: this.uuid,
+                type: this.type,
+                uniforms: uniforms,
+                transparent: this.transparent,
+                blend: this.blend,
+                depthTest: this.depthTest,
+                depthWrite: this.depthWrite,
+                cullFace: this.cullFace
+            };
+            if (this.name !== '') {
+                output.name = this.name;
+            }
+            return output;
+        };
+        Material.CULL_NONE = 0;
+        Material.CULL_FRONT = 0x0404;
+        Material.CULL_BACK = 0x0405;
+        Material.CULL_FRONT_AND_BACK = 0x0408;
+        Material._programs = [];
+        return Material;
+    }());
+    exports.Material = Material;
+});
@@ -0,0 +1,240 @@
+import {ShaderProgram} from "../ShaderProgram";
+import {Shader} from "../Shader";
+import ShaderType from "../ShaderType";
+import {GLState} from "../GLState";
+import {AbstractTexture} from "../../../visual/display/AbstractTexture";
+import IHashMap from "../../interface/IHashMap";
+import UID from "../../util/UID";
+
+/**
+ * How a surface is drawn, the program with its uniform values and the blend, depth and cull state. A material
+ * applies itself before a draw, uniforms the program does not declare are skipped so one material can be shared by
+ * programs that use a part of its values.
+ *
+ * <h4>Example</h4>
+ *
+ *      var glow = new Material(program, {uColor: [1, 0.5, 0], uIntensity: 2});
+ *      glow.transparent = true;
+ *      glow.depthWrite = false;
+ *
+ *      glow.apply(gl);
+ *      mesh.draw();
+ *
+ * @class Material
+ * @param {ShaderProgram} [program] the program, subclasses create their own
+ * @param {IHashMap<any>} [uniforms] uniform values by name
+ */
+export class Material
+{
+	public static CULL_NONE:number = 0;
+	public static CULL_FRONT:number = 0x0404;
+	public static CULL_BACK:number = 0x0405;
+	public static CULL_FRONT_AND_BACK:number = 0x0408;
+
+	// programs of the built in materials, one per context and source
+	protected static _programs:Array<{gl:WebGLRenderingContext, vertex:string, fragment:string, program:ShaderProgram}> = [];
+
+	/**
+	 * A program for the sources that is shared by every material on the context.
+	 *
+	 * @method getSharedProgram
+	 * @param {WebGLRenderingContext} gl
+	 * @param {string} vertex
+	 * @param {string} fragment
+	 * @returns {ShaderProgram}
+	 * @static
+	 */
+	public static getSharedProgram(gl:WebGLRenderingContext, vertex:string, fragment:string):ShaderProgram
+	{
+		var programs = Material._programs;
+
+		for(var i = 0; i < programs.length; i++)
+		{
+			if(programs[i].gl === gl && programs[i].vertex === vertex && programs[i].fragment === fragment)
+			{
+				return programs[i].program;
+			}
+		}
+
+		var program = new ShaderProgram(gl, new Shader(ShaderType.VERTEX, vertex), new Shader(ShaderType.FRAGMENT, fragment));
+		programs.push({gl: gl, vertex: vertex, fragment: fragment, program: program});
+
+		return program;
+	}
+
+	/**
+	 * Forgets the shared programs of a context, for when the context is destroyed.
+	 *
+	 * @method removeSharedPrograms
+	 * @param {WebGLRenderingContext} gl
+	 * @static
+	 */
+	public static removeSharedPrograms(gl:WebGLRenderingContext):void
+	{
+		Material._programs = Material._programs.filter((entry) => {
+			if(entry.gl === gl)
+			{
+				entry.program.destruct();
+				return false;
+			}
+
+			return true;
+		});
+	}
+
+	public uuid:number = UID.get();
+	public name:string = '';
+	public type:string = 'Material';
+
+	public program:ShaderProgram;
+
+	/**
+	 * uniform values by name, applied with the material
+	 * @property uniforms
+	 * @type {IHashMap<any>}
+	 */
+	public uniforms:IHashMap<any>;
+
+	/**
+	 * Transparent materials are drawn after the opaque ones, back to front, and are blended.
+	 * @property transparent
+	 * @type {boolean}
+	 */
+	public transparent:boolean = false;
+
+	/**
+	 * whether to blend with blendSource and blendDestination, always true for transparent materials
+	 * @property blend
+	 * @type {boolean}
+	 */
+	public blend:boolean = false;
+	public blendSource:number = 0x0302; // SRC_ALPHA
+	public blendDestination:number = 0x0303; // ONE_MINUS_SRC_ALPHA
+
+	public depthTest:boolean = true;
+	public depthWrite:boolean = true;
+
+	/**
+	 * faces that are not drawn, Material.CULL_BACK, CULL_FRONT, CULL_FRONT_AND_BACK or CULL_NONE
+	 * @property cullFace
+	 * @type {number}
+	 */
+	public cullFace:number = Material.CULL_BACK;
+
+	constructor(program:ShaderProgram = null, uniforms:IHashMap<any> = {})
+	{
+		this.program = program;
+		this.uniforms = uniforms;
+	}
+
+	/**
+	 * The program this material draws with on a context.
+	 *
+	 * @method getProgram
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {ShaderProgram}
+	 */
+	public getProgram(gl:WebGLRenderingContext):ShaderProgram
+	{
+		if(!this.program)
+		{
+			throw new Error('material "' + this.name + '" has no program');
+		}
+
+		return this.program;
+	}
+
+	/**
+	 * Uses the program, sets the blend, depth and cull state and the uniform values.
+	 *
+	 * @method apply
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {ShaderProgram} the program in use, for the uniforms that are set per draw
+	 */
+	public apply(gl:WebGLRenderingContext):ShaderProgram
+	{
+		var state = GLState.get(gl);
+		var program = this.getProgram(gl).use();
+		var uniforms = program.getUniforms();
+
+		if(this.blend || this.transparent)
+		{
+			state.enable(gl.BLEND);
+			state.blendFunc(this.blendSource, this.blendDestination);
+		}
+		else
+		{
+			state.disable(gl.BLEND);
+		}
+
+		if(this.depthTest)
+		{
+			state.enable(gl.DEPTH_TEST);
+		}
+		else
+		{
+			state.disable(gl.DEPTH_TEST);
+		}
+
+		state.depthMask(this.depthWrite);
+
+		if(this.cullFace == Material.CULL_NONE)
+		{
+			state.disable(gl.CULL_FACE);
+		}
+		else
+		{
+			state.enable(gl.CULL_FACE);
+			state.cullFace(this.cullFace);
+		}
+
+		for(var name in this.uniforms)
+		{
+			if(uniforms[name])
+			{
+				uniforms[name].setValue(this.uniforms[name]);
+			}
+		}
+
+		return program;
+	}
+
+	/**
+	 * Plain data for Object3D.toJSON, textures are left out.
+	 *
+	 * @method toJSON
+	 * @returns {any}
+	 */
+	public toJSON(meta?:any):any
+	{
+		var uniforms = {};
+
+		for(var name in this.uniforms)
+		{
+			var value = this.uniforms[name];
+
+			if(!(value instanceof AbstractTexture))
+			{
+				uniforms[name] = value && value.length !== void 0 ? Array.prototype.slice.call(value) : value;
+			}
+		}
+
+		var output:any = {
+			uuid: this.uuid,
+			type: this.type,
+			uniforms: uniforms,
+			transparent: this.transparent,
+			blend: this.blend,
+			depthTest: this.depthTest,
+			depthWrite: this.depthWrite,
+			cullFace: this.cullFace
+		};
+
+		if(this.name !== '')
+		{
+			output.name = this.name;
+		}
+
+		return output;
+	}
+}
\ No newline at end of file
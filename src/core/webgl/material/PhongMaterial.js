@@ -0,0 +1,68 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./LambertMaterial", "./Material"], function (require, exports, LambertMaterial_1, Material_1) {
+    "use strict";
+    var PhongMaterial = (function (_super) {
+        __extends(PhongMaterial, _super);
+        function PhongMaterial(color, map) {
+            if (color === void 0) { color = [1, 1, 1]; }
+            if (map === void 0) { map = null; }
+            _super.call(this, color, map);
+            this.type = 'PhongMaterial';
+            this.uniforms['uSpecular'] = [0.5, 0.5, 0.5];
+            this.uniforms['uShininess'] = 30;
+        }
+        PhongMaterial.createFromMtl = function (mtl) {
+            var material = new PhongMaterial(mtl.color, mtl.map);
+            material.name = mtl.name;
+            material.opacity = mtl.opacity;
+            material.transparent = mtl.opacity < 1;
+            material.specular = mtl.specular;
+            material.emissive = mtl.emissive;
+            material.shininess = Math.max(mtl.shininess, 1);
+            return material;
+        };
+        PhongMaterial.createFromGltf = function (gltf) {
+            var material = new PhongMaterial(gltf.color.slice(0, 3), gltf.map);
+            var roughness = Math.max(gltf.roughness, 0.05);
+            var reflectance = 1 - roughness;
+            material.name = gltf.name;
+            material.opacity = gltf.color[3];
+            material.transparent = gltf.alphaMode == 'BLEND';
+            material.emissive = gltf.emissive;
+            material.cullFace = gltf.doubleSided ? Material_1.Material.CULL_NONE : Material_1.Material.CULL_BACK;
+            material.shininess = Math.min(2 / Math.pow(roughness, 4) - 2, 1000);
+            material.specular = gltf.color.slice(0, 3).map(function (channel) { return (0.04 + (channel - 0.04) * gltf.metallic) * reflectance; });
+            return material;
+        };
+        Object.defineProperty(PhongMaterial.prototype, "specular", {
+            get: function () {
+                return this.uniforms['uSpecular'];
+            },
+            set: function (value) {
+                this.uniforms['uSpecular'] = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(PhongMaterial.prototype, "shininess", {
+            get: function () {
+                return this.uniforms['uShininess'];
+            },
+            set: function (value) {
+                this.uniforms['uShininess'] = value;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        PhongMaterial.prototype.getSharedProgram = function (gl) {
+            return Material_1.Material.getSharedProgram(gl, LambertMaterial_1.LambertMaterial.VERTEX_SHADER, PhongMaterial.FRAGMENT_SHADER);
+        };
+        PhongMaterial.FRAGMENT_SHADER = "\nprecision mediump float;\n\nuniform vec3 uColor;\nuniform float uOpacity;\nuniform vec3 uEmissive;\nuniform vec3 uSpecular;\nuniform float uShininess;\n\nuniform vec3 uAmbientColor;\nuniform vec3 uLightColor;\nuniform vec3 uLightDirection;\nuniform vec3 uCameraPosition;\n\nvarying vec3 vPosition;\nvarying vec3 vNormal;\n\n#ifdef USE_MAP\nuniform sampler2D uMap;\nvarying vec2 vUv;\n#endif\n\nvoid main(void) {\n\tvec4 color = vec4(uColor, uOpacity);\n#ifdef USE_MAP\n\tcolor *= texture2D(uMap, vUv);\n#endif\n\n\tvec3 normal = normalize(vNormal) * (gl_FrontFacing ? 1.0 : -1.0);\n\tvec3 light = normalize(uLightDirection);\n\tvec3 halfway = normalize(light + normalize(uCameraPosition - vPosition));\n\n\tfloat diffuse = max(dot(normal, light), 0.0);\n\tfloat specular = diffuse > 0.0 ? pow(max(dot(normal, halfway), 0.0), uShininess) : 0.0;\n\n\tgl_FragColor = vec4(color.rgb * (uAmbientColor + uLightColor * diffuse) + uSpecular * uLightColor * specular + uEmissive, color.a);\n}\n";
+        return PhongMaterial;
+    }(LambertMaterial_1.LambertMaterial));
+    exports.PhongMaterial = PhongMaterial;
+});
@@ -0,0 +1,158 @@
+import {LambertMaterial} from "./LambertMaterial";
+import {Material} from "./Material";
+import {ShaderProgram} from "../ShaderProgram";
+import {AbstractTexture} from "../../../visual/display/AbstractTexture";
+import IMtlMaterial from "../../interface/IMtlMaterial";
+import IGltfMaterial from "../../interface/IGltfMaterial";
+
+/**
+ * Lit material with specular highlights, Blinn-Phong shading with the light of LambertMaterial. The highlights
+ * need the position of the camera in uCameraPosition, which is set by the renderer.
+ *
+ * <h4>Example</h4>
+ *
+ *      var plastic = new PhongMaterial([0.1, 0.3, 0.9]);
+ *      plastic.specular = [0.5, 0.5, 0.5];
+ *      plastic.shininess = 60;
+ *
+ * @class PhongMaterial
+ * @extends LambertMaterial
+ * @param {Array<number>} [color=[1, 1, 1]] rgb
+ * @param {AbstractTexture} [map]
+ */
+export class PhongMaterial extends LambertMaterial
+{
+	public static FRAGMENT_SHADER:string = `
+precision mediump float;
+
+uniform vec3 uColor;
+uniform float uOpacity;
+uniform vec3 uEmissive;
+uniform vec3 uSpecular;
+uniform float uShininess;
+
+uniform vec3 uAmbientColor;
+uniform vec3 uLightColor;
+uniform vec3 uLightDirection;
+uniform vec3 uCameraPosition;
+
+varying vec3 vPosition;
+varying vec3 vNormal;
+
+#ifdef USE_MAP
+uniform sampler2D uMap;
+varying vec2 vUv;
+#endif
+
+void main(void) {
+	vec4 color = vec4(uColor, uOpacity);
+#ifdef USE_MAP
+	color *= texture2D(uMap, vUv);
+#endif
+
+	vec3 normal = normalize(vNormal) * (gl_FrontFacing ? 1.0 : -1.0);
+	vec3 light = normalize(uLightDirection);
+	vec3 halfway = normalize(light + normalize(uCameraPosition - vPosition));
+
+	float diffuse = max(dot(normal, light), 0.0);
+	float specular = diffuse > 0.0 ? pow(max(dot(normal, halfway), 0.0), uShininess) : 0.0;
+
+	gl_FragColor = vec4(color.rgb * (uAmbientColor + uLightColor * diffuse) + uSpecular * uLightColor * specular + uEmissive, color.a);
+}
+`;
+
+	/**
+	 * Material for a material read from an .mtl file, transparent when it is not fully opaque.
+	 *
+	 * @method createFromMtl
+	 * @param {IMtlMaterial} mtl
+	 * @returns {PhongMaterial}
+	 * @static
+	 */
+	public static createFromMtl(mtl:IMtlMaterial):PhongMaterial
+	{
+		var material = new PhongMaterial(mtl.color, mtl.map);
+
+		material.name = mtl.name;
+		material.opacity = mtl.opacity;
+		material.transparent = mtl.opacity < 1;
+		material.specular = mtl.specular;
+		material.emissive = mtl.emissive;
+
+		// an exponent of 0 lights every pixel, that is never what an .mtl without Ns means
+		material.shininess = Math.max(mtl.shininess, 1);
+
+		return material;
+	}
+
+	/**
+	 * Approximation of a glTF metallic roughness material, rough surfaces get wide and dim highlights and metals
+	 * reflect their own color.
+	 *
+	 * @method createFromGltf
+	 * @param {IGltfMaterial} gltf
+	 * @returns {PhongMaterial}
+	 * @static
+	 */
+	public static createFromGltf(gltf:IGltfMaterial):PhongMaterial
+	{
+		var material = new PhongMaterial(gltf.color.slice(0, 3), gltf.map);
+		var roughness = Math.max(gltf.roughness, 0.05);
+		var reflectance = 1 - roughness;
+
+		material.name = gltf.name;
+		material.opacity = gltf.color[3];
+		material.transparent = gltf.alphaMode == 'BLEND';
+		material.emissive = gltf.emissive;
+		material.cullFace = gltf.doubleSided ? Material.CULL_NONE : Material.CULL_BACK;
+		material.shininess = Math.min(2 / Math.pow(roughness, 4) - 2, 1000);
+		material.specular = gltf.color.slice(0, 3).map((channel:number) => (0.04 + (channel - 0.04) * gltf.metallic) * reflectance);
+
+		return material;
+	}
+
+	public type:string = 'PhongMaterial';
+
+	constructor(color:Array<number> = [1, 1, 1], map:AbstractTexture = null)
+	{
+		super(color, map);
+
+		this.uniforms['uSpecular'] = [0.5, 0.5, 0.5];
+		this.uniforms['uShininess'] = 30;
+	}
+
+	/**
+	 * color of the highlights, rgb
+	 * @property specular
+	 * @type {Array<number>}
+	 */
+	public get specular():Array<number>
+	{
+		return this.uniforms['uSpecular'];
+	}
+
+	public set specular(value:Array<number>)
+	{
+		this.uniforms['uSpecular'] = value;
+	}
+
+	/**
+	 * exponent of the highlights, higher is smaller and sharper
+	 * @property shininess
+	 * @type {number}
+	 */
+	public get shininess():number
+	{
+		return this.uniforms['uShininess'];
+	}
+
+	public set shininess(value:number)
+	{
+		this.uniforms['uShininess'] = value;
+	}
+
+	protected getSharedProgram(gl:WebGLRenderingContext):ShaderProgram
+	{
+		return Material.getSharedProgram(gl, LambertMaterial.VERTEX_SHADER, PhongMaterial.FRAGMENT_SHADER);
+	}
+}
\ No newline at end of file
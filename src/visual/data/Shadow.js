@@ -0,0 +1,24 @@
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var Shadow = (function () {
+        function Shadow(color, offsetX, offsetY, blur) {
+            if (color === void 0) { color = "black"; }
+            if (offsetX === void 0) { offsetX = 0; }
+            if (offsetY === void 0) { offsetY = 0; }
+            if (blur === void 0) { blur = 0; }
+            this.color = color;
+            this.offsetX = offsetX;
+            this.offsetY = offsetY;
+            this.blur = blur;
+        }
+        Shadow.prototype.clone = function () {
+            return new Shadow(this.color, this.offsetX, this.offsetY, this.blur);
+        };
+        Shadow.prototype.toString = function () {
+            return "[Shadow]";
+        };
+        Shadow.identity = new Shadow("transparent", 0, 0, 0);
+        return Shadow;
+    }());
+    exports.Shadow = Shadow;
+});
@@ -0,0 +1,52 @@
+import RGBA from "./RGBA";
+
+/**
+ * This class encapsulates the properties required to define a shadow to apply to a
+ * {{#crossLink "DisplayObject"}}{{/crossLink}} via its <code>shadow</code> property.
+ *
+ * <h4>Example</h4>
+ *
+ *      myImage.shadow = new Shadow("#000000", 5, 5, 10);
+ *
+ * @class Shadow
+ * @param {String|RGBA} color The color of the shadow.
+ * @param {Number} offsetX The x offset of the shadow in pixels.
+ * @param {Number} offsetY The y offset of the shadow in pixels.
+ * @param {Number} blur The size of the blurring effect.
+ * @constructor
+ **/
+export class Shadow
+{
+	/**
+	 * An identity shadow object (all properties are set to 0).
+	 * @property identity
+	 * @type {Shadow}
+	 * @static
+	 * @readonly
+	 **/
+	public static identity:Shadow = new Shadow("transparent", 0, 0, 0);
+
+	constructor(public color:string|RGBA = "black", public offsetX:number = 0, public offsetY:number = 0, public blur:number = 0)
+	{
+	}
+
+	/**
+	 * Returns a clone of this Shadow instance.
+	 * @method clone
+	 * @return {Shadow} A clone of the current Shadow instance.
+	 **/
+	public clone():Shadow
+	{
+		return new Shadow(this.color, this.offsetX, this.offsetY, this.blur);
+	}
+
+	/**
+	 * Returns a string representation of this object.
+	 * @method toString
+	 * @return {String} a string representation of the instance.
+	 **/
+	public toString():string
+	{
+		return "[Shadow]";
+	}
+}
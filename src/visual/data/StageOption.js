@@ -7,12 +7,13 @@ define(["require", "exports"], function (require, exports) {
             this.transparent = true;
             this.autoClear = true;
             this.autoClearColor = '#000000';
+            this.quality = 0;
             for (var name in option) {
                 if (this.hasOwnProperty(name)) {
                     var value;
                     switch (name) {
                         case 'pixelRatio': {
-                            value = option[name] | 0;
+                            value = +option[name];
                             break;
                         }
                         default: {
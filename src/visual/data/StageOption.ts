@@ -1,5 +1,6 @@
 import {IStageOption} from "../interface/IStageOption";
 import RGBA from "./RGBA";
+import QualityType from "../enum/QualityType";
 
 export class StageOption implements IStageOption
 {
@@ -30,6 +31,14 @@ export class StageOption implements IStageOption
 	public autoClear:boolean = true;
 	public autoClearColor:string|RGBA = '#000000';
 
+	/**
+	 * Image smoothing used when drawing scaled bitmaps.
+	 * @property quality
+	 * @type {QualityType}
+	 * @default QualityType.NORMAL
+	 */
+	public quality:QualityType = QualityType.NORMAL;
+
 	constructor(option:IStageOption)
 	{
 		for(var name in option)
@@ -40,7 +49,7 @@ export class StageOption implements IStageOption
 				switch (name)
 				{
 					case 'pixelRatio':{
-						value = option[name]|0;
+						value = +option[name];
 						break;
 					}
 
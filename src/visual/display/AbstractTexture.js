@@ -1,36 +1,50 @@
-define(["require", "exports"], function (require, exports) {
+define(["require", "exports", "../../core/webgl/GLState", "../../core/webgl/GPUResources"], function (require, exports, GLState_1, GPUResources_1) {
     "use strict";
     var AbstractTexture = (function () {
         function AbstractTexture(source) {
             this.id = AbstractTexture.getID();
             this.source = source;
+            this.needsUpdate = !!source;
         }
         AbstractTexture.getID = function () {
             return AbstractTexture._id++;
         };
         AbstractTexture.bind = function (gl, texture) {
-            gl.bindTexture(gl.TEXTURE_2D, AbstractTexture.getTexture(gl, texture));
+            GLState_1.GLState.get(gl).bindTexture(gl.TEXTURE_2D, AbstractTexture.getTexture(gl, texture));
         };
         AbstractTexture.unbind = function (gl, texture) {
-            gl.bindTexture(gl.TEXTURE_2D, null);
+            GLState_1.GLState.get(gl).bindTexture(gl.TEXTURE_2D, null);
         };
         AbstractTexture.update = function (gl, texture) {
+            texture.needsUpdate = false;
+            if (!texture.source) {
+                return;
+            }
             gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, texture.source);
             gl.generateMipmap(gl.TEXTURE_2D);
         };
         AbstractTexture.getTexture = function (gl, texture) {
             if (!texture.texture) {
                 texture.texture = gl.createTexture();
-                gl.bindTexture(gl.TEXTURE_2D, texture.texture);
+                GPUResources_1.GPUResources.get(gl).add(texture);
+                GLState_1.GLState.get(gl).bindTexture(gl.TEXTURE_2D, texture.texture);
                 gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 1);
                 gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
                 gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
                 gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
                 gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-                gl.bindTexture(gl.TEXTURE_2D, null);
             }
             return texture.texture;
         };
+        AbstractTexture.prototype.restore = function (gl) {
+            var uploaded = !this.needsUpdate;
+            this.texture = null;
+            GPUResources_1.GPUResources.get(gl).remove(this);
+            if (uploaded && this.source) {
+                AbstractTexture.bind(gl, this);
+                AbstractTexture.update(gl, this);
+            }
+        };
         AbstractTexture.prototype.isPowerOf2 = function (value) {
             return (value & (value - 1)) == 0;
         };
@@ -1,5 +1,8 @@
+import {GLState} from "../../core/webgl/GLState";
+import {GPUResources} from "../../core/webgl/GPUResources";
+import IGPUResource from "../../core/interface/IGPUResource";
 
-export abstract class AbstractTexture
+export abstract class AbstractTexture implements IGPUResource
 {
 	private static _id:number = 0;
 	public static getID():number
@@ -9,16 +12,30 @@ export abstract class AbstractTexture
 
 	public static bind(gl:WebGLRenderingContext, texture:AbstractTexture):void
 	{
-		gl.bindTexture(gl.TEXTURE_2D, AbstractTexture.getTexture(gl, texture));
+		GLState.get(gl).bindTexture(gl.TEXTURE_2D, AbstractTexture.getTexture(gl, texture));
 	}
 
 	public static unbind(gl:WebGLRenderingContext, texture?:AbstractTexture):void
 	{
-		gl.bindTexture(gl.TEXTURE_2D, null);
+		GLState.get(gl).bindTexture(gl.TEXTURE_2D, null);
 	}
 
+	/**
+	 * Uploads the source of the texture that is currently bound, textures without a source are left alone.
+	 *
+	 * @method update
+	 * @param {WebGLRenderingContext} gl
+	 * @param {AbstractTexture} texture
+	 */
 	public static update(gl:WebGLRenderingContext, texture:AbstractTexture):void
 	{
+		texture.needsUpdate = false;
+
+		if(!texture.source)
+		{
+			return;
+		}
+
 		gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, <any> texture.source);
 		gl.generateMipmap(gl.TEXTURE_2D);
 	}
@@ -28,7 +45,8 @@ export abstract class AbstractTexture
 		if(!texture.texture)
 		{
 			texture.texture = gl.createTexture();
-			gl.bindTexture(gl.TEXTURE_2D, texture.texture);
+			GPUResources.get(gl).add(texture);
+			GLState.get(gl).bindTexture(gl.TEXTURE_2D, texture.texture);
 			gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 1);
 
 
@@ -38,7 +56,6 @@ export abstract class AbstractTexture
 			gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
 			gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
 			gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-			gl.bindTexture(gl.TEXTURE_2D, null);
 
 		}
 
@@ -49,9 +66,39 @@ export abstract class AbstractTexture
 	public source:ImageData | HTMLImageElement | HTMLCanvasElement | HTMLVideoElement;
 	public texture:WebGLTexture;
 
+	/**
+	 * Set when the source has to be (re)uploaded the next time the texture is bound to a sampler, for example
+	 * after drawing to a canvas source or for every frame of a video.
+	 * @property needsUpdate
+	 * @type {boolean}
+	 */
+	public needsUpdate:boolean;
+
 	constructor(source:ImageData | HTMLImageElement | HTMLCanvasElement | HTMLVideoElement)
 	{
 		this.source = source;
+		this.needsUpdate = !!source;
+	}
+
+	/**
+	 * Creates the texture again after the context was restored, textures that were uploaded are uploaded again
+	 * from their source.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		var uploaded = !this.needsUpdate;
+
+		this.texture = null;
+		GPUResources.get(gl).remove(this);
+
+		if(uploaded && this.source)
+		{
+			AbstractTexture.bind(gl, this);
+			AbstractTexture.update(gl, this);
+		}
 	}
 
 	protected isPowerOf2(value:number):boolean
@@ -0,0 +1,49 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./DisplayObject", "./Texture"], function (require, exports, DisplayObject_1, Texture_1) {
+    "use strict";
+    var Bitmap = (function (_super) {
+        __extends(Bitmap, _super);
+        function Bitmap(source, sourceRect) {
+            if (sourceRect === void 0) { sourceRect = null; }
+            _super.call(this);
+            this.type = 32;
+            this.sourceRect = null;
+            if (source instanceof Texture_1.Texture) {
+                this.image = source.source;
+            }
+            else {
+                this.image = source;
+            }
+            this.sourceRect = sourceRect;
+        }
+        Bitmap.prototype.isVisible = function () {
+            var image = this.image;
+            var hasContent = image && (image.complete || image.readyState >= 2 || image.nodeName.toLowerCase() == 'canvas');
+            return !!(hasContent && _super.prototype.isVisible.call(this));
+        };
+        Bitmap.prototype.draw = function (ctx, ignoreCache) {
+            var rect = this.sourceRect;
+            if (rect) {
+                ctx.drawImage(this.image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+            }
+            else {
+                ctx.drawImage(this.image, 0, 0);
+            }
+            return true;
+        };
+        Bitmap.prototype.toString = function () {
+            return "[Bitmap (name=" + this.name + ")]";
+        };
+        Bitmap.prototype.destruct = function () {
+            this.image = null;
+            this.sourceRect = null;
+            _super.prototype.destruct.call(this);
+        };
+        return Bitmap;
+    }(DisplayObject_1.DisplayObject));
+    exports.Bitmap = Bitmap;
+});
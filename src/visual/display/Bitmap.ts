@@ -0,0 +1,113 @@
+import {DisplayObject} from "./DisplayObject";
+import {Texture} from "./Texture";
+import {Rectangle} from "../data/Rectangle";
+import DisplayType from "../enum/DisplayType";
+
+/**
+ * A Bitmap represents an Image, Canvas, or Video in the display list. A Bitmap can be instantiated using an existing
+ * HTML element or a {{#crossLink "Texture"}}{{/crossLink}}.
+ *
+ * <h4>Example</h4>
+ *
+ *      var bitmap = new Bitmap(Texture.createFromUrl("imagePath.jpg"));
+ *
+ * @class Bitmap
+ * @extends DisplayObject
+ * @param {Texture|HTMLImageElement|HTMLCanvasElement|HTMLVideoElement} source The source object or a texture
+ * wrapping it.
+ * @constructor
+ **/
+export class Bitmap extends DisplayObject
+{
+	public type:DisplayType = DisplayType.BITMAP;
+
+	/**
+	 * The image to render. This can be an Image, a Canvas, or a Video.
+	 * @property image
+	 * @type {HTMLImageElement|HTMLCanvasElement|HTMLVideoElement}
+	 **/
+	public image:HTMLImageElement|HTMLCanvasElement|HTMLVideoElement;
+
+	/**
+	 * Specifies an area of the source image to draw. If omitted, the whole image will be drawn.
+	 * @property sourceRect
+	 * @type {Rectangle}
+	 * @default null
+	 */
+	public sourceRect:Rectangle = null;
+
+	constructor(source:Texture|HTMLImageElement|HTMLCanvasElement|HTMLVideoElement, sourceRect:Rectangle = null)
+	{
+		super();
+
+		if(source instanceof Texture)
+		{
+			this.image = <HTMLImageElement|HTMLCanvasElement|HTMLVideoElement> source.source;
+		}
+		else
+		{
+			this.image = <HTMLImageElement|HTMLCanvasElement|HTMLVideoElement> source;
+		}
+
+		this.sourceRect = sourceRect;
+	}
+
+	/**
+	 * Returns true or false indicating whether the display object would be visible if drawn to a canvas.
+	 * This does not account for whether it would be visible within the boundaries of the stage.
+	 *
+	 * @method isVisible
+	 * @return {Boolean} Boolean indicating whether the display object would be visible if drawn to a canvas
+	 **/
+	public isVisible():boolean
+	{
+		var image = this.image;
+		var hasContent = image && ((<HTMLImageElement> image).complete || (<HTMLVideoElement> image).readyState >= 2 || image.nodeName.toLowerCase() == 'canvas');
+
+		return !!(hasContent && super.isVisible());
+	}
+
+	/**
+	 * Draws the display object into the specified context ignoring its visible, alpha, shadow, and transform.
+	 * Returns true if the draw was handled (useful for overriding functionality).
+	 *
+	 * @method draw
+	 * @param {CanvasRenderingContext2D} ctx The canvas 2D context object to draw into.
+	 * @param {Boolean} [ignoreCache=false] Indicates whether the draw operation should ignore any current cache.
+	 * @return {Boolean}
+	 **/
+	public draw(ctx:CanvasRenderingContext2D, ignoreCache?:boolean):boolean
+	{
+		var rect = this.sourceRect;
+
+		if(rect)
+		{
+			ctx.drawImage(<HTMLImageElement> this.image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+		}
+		else
+		{
+			ctx.drawImage(<HTMLImageElement> this.image, 0, 0);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Returns a string representation of this object.
+	 *
+	 * @method toString
+	 * @return {String} a string representation of the instance.
+	 **/
+	public toString():string
+	{
+		return "[Bitmap (name=" + this.name + ")]";
+	}
+
+	public destruct():void
+	{
+		this.image = null;
+		this.sourceRect = null;
+
+		super.destruct();
+	}
+}
@@ -0,0 +1,139 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./DisplayObject"], function (require, exports, DisplayObject_1) {
+    "use strict";
+    var Container = (function (_super) {
+        __extends(Container, _super);
+        function Container() {
+            _super.call(this);
+            this.type = 8;
+            this.children = [];
+        }
+        Container.prototype.getNumChildren = function () {
+            return this.children.length;
+        };
+        Container.prototype.addChild = function () {
+            var children = [];
+            for (var _i = 0; _i < arguments.length; _i++) {
+                children[_i - 0] = arguments[_i];
+            }
+            var child = null;
+            for (var i = 0; i < children.length; i++) {
+                child = this.addChildAt(children[i], this.children.length);
+            }
+            return child;
+        };
+        Container.prototype.addChildAt = function (child, index) {
+            for (var ancestor = this; ancestor; ancestor = ancestor.parent) {
+                if (ancestor === child) {
+                    throw new Error(child === this ? 'a container can not be added as a child of itself' : 'a container can not be added as a child of its descendant');
+                }
+            }
+            if (index < 0 || index > this.children.length) {
+                throw new RangeError('index ' + index + ' is out of bounds');
+            }
+            if (child.parent) {
+                if (child.parent === this && this.children.indexOf(child) < index) {
+                    index--;
+                }
+                child.parent.removeChild(child);
+            }
+            child.parent = this;
+            this.children.splice(index, 0, child);
+            child.dispatchEvent('added');
+            return child;
+        };
+        Container.prototype.removeChild = function (child) {
+            return this.removeChildAt(this.children.indexOf(child));
+        };
+        Container.prototype.removeChildAt = function (index) {
+            if (index < 0 || index > this.children.length - 1) {
+                return false;
+            }
+            var child = this.children[index];
+            this.children.splice(index, 1);
+            child.parent = null;
+            child.dispatchEvent('removed');
+            return true;
+        };
+        Container.prototype.removeAllChildren = function () {
+            var children = this.children;
+            while (children.length) {
+                this.removeChildAt(children.length - 1);
+            }
+        };
+        Container.prototype.getChildAt = function (index) {
+            return this.children[index] || null;
+        };
+        Container.prototype.getChildByName = function (name) {
+            var children = this.children;
+            for (var i = 0, l = children.length; i < l; i++) {
+                if (children[i].name == name) {
+                    return children[i];
+                }
+            }
+            return null;
+        };
+        Container.prototype.getChildIndex = function (child) {
+            return this.children.indexOf(child);
+        };
+        Container.prototype.setChildIndex = function (child, index) {
+            var children = this.children;
+            var l = children.length;
+            if (child.parent != this || index < 0 || index >= l) {
+                return;
+            }
+            var current = children.indexOf(child);
+            if (current == -1 || current == index) {
+                return;
+            }
+            children.splice(current, 1);
+            children.splice(index, 0, child);
+        };
+        Container.prototype.swapChildrenAt = function (index1, index2) {
+            var children = this.children;
+            var o1 = children[index1];
+            var o2 = children[index2];
+            if (!o1 || !o2) {
+                return;
+            }
+            children[index1] = o2;
+            children[index2] = o1;
+        };
+        Container.prototype.swapChildren = function (child1, child2) {
+            var children = this.children;
+            var index1 = children.indexOf(child1);
+            var index2 = children.indexOf(child2);
+            if (index1 == -1 || index2 == -1) {
+                return;
+            }
+            children[index1] = child2;
+            children[index2] = child1;
+        };
+        Container.prototype.contains = function (child) {
+            while (child) {
+                if (child == this) {
+                    return true;
+                }
+                child = child.parent;
+            }
+            return false;
+        };
+        Container.prototype.toString = function () {
+            return "[Container (name=" + this.name + ")]";
+        };
+        Container.prototype.destruct = function () {
+            var children = this.children.slice(0);
+            this.removeAllChildren();
+            for (var i = 0; i < children.length; i++) {
+                children[i].destruct();
+            }
+            _super.prototype.destruct.call(this);
+        };
+        return Container;
+    }(DisplayObject_1.DisplayObject));
+    exports.Container = Container;
+});
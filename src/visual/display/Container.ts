@@ -0,0 +1,332 @@
+import {DisplayObject} from "./DisplayObject";
+import DisplayType from "../enum/DisplayType";
+
+/**
+ * A Container is a nestable display list that allows you to work with compound display elements. For  example you
+ * could group arm, leg, torso and head {{#crossLink "DisplayObject"}}{{/crossLink}} instances together into a Person
+ * Container, and transform them as a group, while still being able to move the individual parts relative to each
+ * other. Children of containers have their <code>transform</code> and <code>alpha</code> properties concatenated with
+ * their parent Container.
+ *
+ * Children are drawn in the order of the children array, so the child at index 0 is drawn at the bottom.
+ *
+ * <h4>Example</h4>
+ *
+ *      var container = new Container();
+ *      container.addChild(bitmapInstance, shapeInstance);
+ *      container.x = 100;
+ *
+ * @class Container
+ * @extends DisplayObject
+ * @constructor
+ **/
+export class Container extends DisplayObject
+{
+	public type:DisplayType = DisplayType.CONTAINER;
+
+	/**
+	 * The array of children in the display list. You should usually use the child management methods such as
+	 * {{#crossLink "Container/addChild"}}{{/crossLink}}, {{#crossLink "Container/removeChild"}}{{/crossLink}},
+	 * {{#crossLink "Container/swapChildren"}}{{/crossLink}}, etc, rather than accessing this directly.
+	 * @property children
+	 * @type {Array<DisplayObject>}
+	 * @default []
+	 **/
+	public children:Array<DisplayObject> = [];
+
+	constructor()
+	{
+		super();
+	}
+
+	/**
+	 * Returns the number of children in the display list.
+	 * @method getNumChildren
+	 * @return {Number} The number of children in the display list.
+	 **/
+	public getNumChildren():number
+	{
+		return this.children.length;
+	}
+
+	/**
+	 * Adds a child to the top of the display list. When adding multiple children they are added in the order
+	 * they are passed. If a child already has a parent it is removed from that parent first.
+	 *
+	 * <h4>Example</h4>
+	 *
+	 *      container.addChild(bitmapInstance);
+	 *      container.addChild(bitmapInstance, shapeInstance, textInstance);
+	 *
+	 * @method addChild
+	 * @param {DisplayObject} child The display object to add.
+	 * @return {DisplayObject} The child that was added, or the last child if multiple children were added.
+	 **/
+	public addChild(...children:Array<DisplayObject>):DisplayObject
+	{
+		var child:DisplayObject = null;
+
+		for(var i = 0; i < children.length; i++)
+		{
+			child = this.addChildAt(children[i], this.children.length);
+		}
+
+		return child;
+	}
+
+	/**
+	 * Adds a child to the display list at the specified index, bumping children at equal or greater indexes up one,
+	 * and setting its parent to this Container.
+	 *
+	 * @method addChildAt
+	 * @param {DisplayObject} child The display object to add.
+	 * @param {Number} index The index to add the child at.
+	 * @return {DisplayObject} Returns the child that was added.
+	 **/
+	public addChildAt(child:DisplayObject, index:number):DisplayObject
+	{
+		// adding itself or an ancestor would make the display list a cycle
+		for(var ancestor:DisplayObject = this; ancestor; ancestor = ancestor.parent)
+		{
+			if(ancestor === child)
+			{
+				throw new Error(child === <DisplayObject> this ? 'a container can not be added as a child of itself' : 'a container can not be added as a child of its descendant');
+			}
+		}
+
+		if(index < 0 || index > this.children.length)
+		{
+			throw new RangeError('index ' + index + ' is out of bounds');
+		}
+
+		if(child.parent)
+		{
+			// removing from the old parent shifts our own indexes when it is this container
+			if(child.parent === this && this.children.indexOf(child) < index)
+			{
+				index--;
+			}
+
+			child.parent.removeChild(child);
+		}
+
+		child.parent = this;
+		this.children.splice(index, 0, child);
+		child.dispatchEvent('added');
+
+		return child;
+	}
+
+	/**
+	 * Removes the specified child from the display list. Note that it is faster to use removeChildAt() if the index is
+	 * already known.
+	 *
+	 * @method removeChild
+	 * @param {DisplayObject} child The child to remove.
+	 * @return {Boolean} true if the child was removed, or false if it was not in the display list.
+	 **/
+	public removeChild(child:DisplayObject):boolean
+	{
+		return this.removeChildAt(this.children.indexOf(child));
+	}
+
+	/**
+	 * Removes the child at the specified index from the display list, and sets its parent to null.
+	 *
+	 * @method removeChildAt
+	 * @param {Number} index The index of the child to remove.
+	 * @return {Boolean} true if the child was removed, false if the index was out of range.
+	 **/
+	public removeChildAt(index:number):boolean
+	{
+		if(index < 0 || index > this.children.length - 1)
+		{
+			return false;
+		}
+
+		var child = this.children[index];
+		this.children.splice(index, 1);
+		child.parent = null;
+		child.dispatchEvent('removed');
+
+		return true;
+	}
+
+	/**
+	 * Removes all children from the display list.
+	 *
+	 * @method removeAllChildren
+	 **/
+	public removeAllChildren():void
+	{
+		var children = this.children;
+		while(children.length)
+		{
+			this.removeChildAt(children.length - 1);
+		}
+	}
+
+	/**
+	 * Returns the child at the specified index.
+	 *
+	 * @method getChildAt
+	 * @param {Number} index The index of the child to return.
+	 * @return {DisplayObject} The child at the specified index. Returns null if there is no child at the index.
+	 **/
+	public getChildAt(index:number):DisplayObject
+	{
+		return this.children[index] || null;
+	}
+
+	/**
+	 * Returns the first child with the specified name.
+	 *
+	 * @method getChildByName
+	 * @param {String} name The name of the child to return.
+	 * @return {DisplayObject} The first child with the specified name.
+	 **/
+	public getChildByName(name:string):DisplayObject
+	{
+		var children = this.children;
+		for(var i = 0, l = children.length; i < l; i++)
+		{
+			if(children[i].name == name)
+			{
+				return children[i];
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the index of the specified child in the display list, or -1 if it is not in the display list.
+	 *
+	 * @method getChildIndex
+	 * @param {DisplayObject} child The child to return the index of.
+	 * @return {Number} The index of the specified child. -1 if the child is not found.
+	 **/
+	public getChildIndex(child:DisplayObject):number
+	{
+		return this.children.indexOf(child);
+	}
+
+	/**
+	 * Changes the depth of the specified child. Fails silently if the child is not a child of this container, or the
+	 * index is out of range.
+	 *
+	 * @method setChildIndex
+	 * @param {DisplayObject} child
+	 * @param {Number} index
+	 **/
+	public setChildIndex(child:DisplayObject, index:number):void
+	{
+		var children = this.children;
+		var l = children.length;
+
+		if(child.parent != this || index < 0 || index >= l)
+		{
+			return;
+		}
+
+		var current = children.indexOf(child);
+
+		if(current == -1 || current == index)
+		{
+			return;
+		}
+
+		children.splice(current, 1);
+		children.splice(index, 0, child);
+	}
+
+	/**
+	 * Swaps the children at the specified indexes. Fails silently if either index is out of range.
+	 *
+	 * @method swapChildrenAt
+	 * @param {Number} index1
+	 * @param {Number} index2
+	 **/
+	public swapChildrenAt(index1:number, index2:number):void
+	{
+		var children = this.children;
+		var o1 = children[index1];
+		var o2 = children[index2];
+
+		if(!o1 || !o2)
+		{
+			return;
+		}
+
+		children[index1] = o2;
+		children[index2] = o1;
+	}
+
+	/**
+	 * Swaps the specified children's depth in the display list. Fails silently if either child is not a child of this
+	 * Container.
+	 *
+	 * @method swapChildren
+	 * @param {DisplayObject} child1
+	 * @param {DisplayObject} child2
+	 **/
+	public swapChildren(child1:DisplayObject, child2:DisplayObject):void
+	{
+		var children = this.children;
+		var index1 = children.indexOf(child1);
+		var index2 = children.indexOf(child2);
+
+		if(index1 == -1 || index2 == -1)
+		{
+			return;
+		}
+
+		children[index1] = child2;
+		children[index2] = child1;
+	}
+
+	/**
+	 * Returns true if the specified display object either is this container or is a descendent (child, grandchild, etc)
+	 * of this container.
+	 *
+	 * @method contains
+	 * @param {DisplayObject} child The DisplayObject to be checked.
+	 * @return {Boolean} true if the specified display object either is this container or is a descendent.
+	 **/
+	public contains(child:DisplayObject):boolean
+	{
+		while(child)
+		{
+			if(child == this)
+			{
+				return true;
+			}
+			child = child.parent;
+		}
+		return false;
+	}
+
+	/**
+	 * Returns a string representation of this object.
+	 *
+	 * @method toString
+	 * @return {String} a string representation of the instance.
+	 **/
+	public toString():string
+	{
+		return "[Container (name=" + this.name + ")]";
+	}
+
+	public destruct():void
+	{
+		var children = this.children.slice(0);
+
+		this.removeAllChildren();
+
+		for(var i = 0; i < children.length; i++)
+		{
+			children[i].destruct();
+		}
+
+		super.destruct();
+	}
+}
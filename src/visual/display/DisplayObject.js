@@ -0,0 +1,105 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "../../core/event/EventDispatcher", "../geom/Matrix2", "../../core/util/UID"], function (require, exports, EventDispatcher_1, Matrix2_1, UID_1) {
+    "use strict";
+    var DisplayObject = (function (_super) {
+        __extends(DisplayObject, _super);
+        function DisplayObject() {
+            _super.call(this);
+            this.type = 2;
+            this.id = UID_1.default.get();
+            this.name = null;
+            this.parent = null;
+            this.x = 0;
+            this.y = 0;
+            this.scaleX = 1;
+            this.scaleY = 1;
+            this.rotation = 0;
+            this.skewX = 0;
+            this.skewY = 0;
+            this.regX = 0;
+            this.regY = 0;
+            this.alpha = 1;
+            this.visible = true;
+            this.shadow = null;
+            this.compositeOperation = null;
+            this._matrix = new Matrix2_1.default();
+        }
+        DisplayObject.prototype.getStage = function () {
+            var o = this;
+            while (o.parent) {
+                o = o.parent;
+            }
+            if (o.type == 4) {
+                return o;
+            }
+            return null;
+        };
+        DisplayObject.prototype.isVisible = function () {
+            return !!(this.visible && this.alpha > 0 && this.scaleX != 0 && this.scaleY != 0);
+        };
+        DisplayObject.prototype.draw = function (ctx, ignoreCache) {
+            return false;
+        };
+        DisplayObject.prototype.setTransform = function (x, y, scaleX, scaleY, rotation, skewX, skewY, regX, regY) {
+            if (x === void 0) { x = 0; }
+            if (y === void 0) { y = 0; }
+            if (scaleX === void 0) { scaleX = 1; }
+            if (scaleY === void 0) { scaleY = 1; }
+            if (rotation === void 0) { rotation = 0; }
+            if (skewX === void 0) { skewX = 0; }
+            if (skewY === void 0) { skewY = 0; }
+            if (regX === void 0) { regX = 0; }
+            if (regY === void 0) { regY = 0; }
+            this.x = x;
+            this.y = y;
+            this.scaleX = scaleX;
+            this.scaleY = scaleY;
+            this.rotation = rotation;
+            this.skewX = skewX;
+            this.skewY = skewY;
+            this.regX = regX;
+            this.regY = regY;
+            return this;
+        };
+        DisplayObject.prototype.getMatrix = function (matrix) {
+            var m = matrix ? matrix.identity() : new Matrix2_1.default();
+            m.appendTransform(this.x, this.y, this.scaleX, this.scaleY, this.rotation, this.skewX, this.skewY, this.regX, this.regY);
+            m.appendProperties(this.alpha, this.shadow, this.compositeOperation, this.visible);
+            return m;
+        };
+        DisplayObject.prototype.getConcatenatedMatrix = function (matrix) {
+            var o = this;
+            var mtx = this.getMatrix(matrix);
+            while (o = o.parent) {
+                mtx.prependMatrix(o.getMatrix(o._matrix));
+            }
+            return mtx;
+        };
+        DisplayObject.prototype.localToGlobal = function (x, y, pt) {
+            return this.getConcatenatedMatrix(this._matrix).transformPoint(x, y, pt);
+        };
+        DisplayObject.prototype.globalToLocal = function (x, y, pt) {
+            return this.getConcatenatedMatrix(this._matrix).invert().transformPoint(x, y, pt);
+        };
+        DisplayObject.prototype.localToLocal = function (x, y, target, pt) {
+            pt = this.localToGlobal(x, y, pt);
+            return target.globalToLocal(pt.x, pt.y, pt);
+        };
+        DisplayObject.prototype.toString = function () {
+            return "[DisplayObject (name=" + this.name + ")]";
+        };
+        DisplayObject.prototype.destruct = function () {
+            if (this.parent) {
+                this.parent.removeChild(this);
+            }
+            this._matrix = null;
+            _super.prototype.destruct.call(this);
+        };
+        return DisplayObject;
+    }(EventDispatcher_1.default));
+    exports.DisplayObject = DisplayObject;
+});
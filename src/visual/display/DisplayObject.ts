@@ -0,0 +1,360 @@
+import EventDispatcher from "../../core/event/EventDispatcher";
+import Matrix2 from "../geom/Matrix2";
+import Point from "../geom/Point";
+import DisplayType from "../enum/DisplayType";
+import IDisplayType from "../interface/IDisplayType";
+import IDisplayObjectGeometry from "../interface/IDisplayObjectGeometry";
+import UID from "../../core/util/UID";
+import {Shadow} from "../data/Shadow";
+import {Container} from "./Container";
+import {Stage} from "./Stage";
+
+/**
+ * DisplayObject is an abstract class that should not be constructed directly. Instead construct subclasses such as
+ * {{#crossLink "Container"}}{{/crossLink}}. It is the base class for all display classes and defines the core
+ * transform and visibility properties shared by everything on the display list.
+ *
+ * @class DisplayObject
+ * @extends EventDispatcher
+ * @constructor
+ **/
+export class DisplayObject extends EventDispatcher implements IDisplayType, IDisplayObjectGeometry
+{
+	/**
+	 * @property type
+	 * @type {DisplayType}
+	 */
+	public type:DisplayType = DisplayType.DISPLAYOBJECT;
+
+	/**
+	 * Unique ID for this display object. Makes display objects easier for some uses.
+	 * @property id
+	 * @type {Number}
+	 */
+	public id:number = UID.get();
+
+	/**
+	 * An optional name for this display object. Included in toString(). Useful for debugging.
+	 * @property name
+	 * @type {String}
+	 */
+	public name:string = null;
+
+	/**
+	 * A reference to the Container or Stage object that contains this display object, or null if it has not been
+	 * added to one.
+	 * @property parent
+	 * @type {Container}
+	 * @readonly
+	 */
+	public parent:Container = null;
+
+	/**
+	 * The x (horizontal) position of the display object, relative to its parent.
+	 * @property x
+	 * @type {Number}
+	 * @default 0
+	 */
+	public x:number = 0;
+
+	/**
+	 * The y (vertical) position of the display object, relative to its parent.
+	 * @property y
+	 * @type {Number}
+	 * @default 0
+	 */
+	public y:number = 0;
+
+	/**
+	 * The factor to stretch this display object horizontally.
+	 * @property scaleX
+	 * @type {Number}
+	 * @default 1
+	 */
+	public scaleX:number = 1;
+
+	/**
+	 * The factor to stretch this display object vertically.
+	 * @property scaleY
+	 * @type {Number}
+	 * @default 1
+	 */
+	public scaleY:number = 1;
+
+	/**
+	 * The rotation in degrees for this display object.
+	 * @property rotation
+	 * @type {Number}
+	 * @default 0
+	 */
+	public rotation:number = 0;
+
+	/**
+	 * The factor to skew this display object horizontally.
+	 * @property skewX
+	 * @type {Number}
+	 * @default 0
+	 */
+	public skewX:number = 0;
+
+	/**
+	 * The factor to skew this display object vertically.
+	 * @property skewY
+	 * @type {Number}
+	 * @default 0
+	 */
+	public skewY:number = 0;
+
+	/**
+	 * The left offset for this display object's registration point. For example, to make a 100x100px Bitmap rotate
+	 * around its center, you would set regX and {{#crossLink "DisplayObject/regY:property"}}{{/crossLink}} to 50.
+	 * @property regX
+	 * @type {Number}
+	 * @default 0
+	 */
+	public regX:number = 0;
+
+	/**
+	 * The y offset for this display object's registration point.
+	 * @property regY
+	 * @type {Number}
+	 * @default 0
+	 */
+	public regY:number = 0;
+
+	/**
+	 * The alpha (transparency) for this display object. 0 is fully transparent, 1 is fully opaque.
+	 * @property alpha
+	 * @type {Number}
+	 * @default 1
+	 */
+	public alpha:number = 1;
+
+	/**
+	 * Indicates whether this display object should be rendered to the canvas.
+	 * @property visible
+	 * @type {Boolean}
+	 * @default true
+	 */
+	public visible:boolean = true;
+
+	/**
+	 * A shadow object that defines the shadow to render on this display object. Set to `null` to remove a shadow.
+	 * @property shadow
+	 * @type {Shadow}
+	 * @default null
+	 */
+	public shadow:Shadow = null;
+
+	/**
+	 * The composite operation indicates how the pixels of this display object will be composited with the elements
+	 * behind it. If `null`, this property is inherited from the parent container.
+	 * @property compositeOperation
+	 * @type {String}
+	 * @default null
+	 */
+	public compositeOperation:string = null;
+
+	/**
+	 * @property _matrix
+	 * @type {Matrix2}
+	 * @protected
+	 */
+	protected _matrix:Matrix2 = new Matrix2();
+
+	constructor()
+	{
+		super();
+	}
+
+	/**
+	 * Returns the stage that this display object will be rendered on, or null if it has not been added to one.
+	 *
+	 * @method getStage
+	 * @return {Stage} The Stage instance that the display object is a descendent of. null if the DisplayObject has not
+	 * been added to a Stage.
+	 */
+	public getStage():Stage
+	{
+		var o:DisplayObject = this;
+		while(o.parent)
+		{
+			o = o.parent;
+		}
+
+		if(o.type == DisplayType.STAGE)
+		{
+			return <Stage> o;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Returns true or false indicating whether the display object would be visible if drawn to a canvas.
+	 * This does not account for whether it would be visible within the boundaries of the stage.
+	 *
+	 * @method isVisible
+	 * @return {Boolean} Boolean indicating whether the display object would be visible if drawn to a canvas
+	 */
+	public isVisible():boolean
+	{
+		return !!(this.visible && this.alpha > 0 && this.scaleX != 0 && this.scaleY != 0);
+	}
+
+	/**
+	 * Draws the display object into the specified context ignoring its visible, alpha, shadow, and transform.
+	 * Returns <code>true</code> if the draw was handled (useful for overriding functionality).
+	 *
+	 * @method draw
+	 * @param {CanvasRenderingContext2D} ctx The canvas 2D context object to draw into.
+	 * @param {Boolean} [ignoreCache=false] Indicates whether the draw operation should ignore any current cache.
+	 * @return {Boolean}
+	 */
+	public draw(ctx:CanvasRenderingContext2D, ignoreCache?:boolean):boolean
+	{
+		return false;
+	}
+
+	/**
+	 * Shortcut method to quickly set the transform properties on the display object. All parameters are optional.
+	 * Omitted parameters will have the default value set.
+	 *
+	 * @method setTransform
+	 * @param {Number} [x=0] The horizontal translation (x position) in pixels
+	 * @param {Number} [y=0] The vertical translation (y position) in pixels
+	 * @param {Number} [scaleX=1] The horizontal scale, as a percentage of 1
+	 * @param {Number} [scaleY=1] the vertical scale, as a percentage of 1
+	 * @param {Number} [rotation=0] The rotation, in degrees
+	 * @param {Number} [skewX=0] The horizontal skew factor
+	 * @param {Number} [skewY=0] The vertical skew factor
+	 * @param {Number} [regX=0] The horizontal registration point in pixels
+	 * @param {Number} [regY=0] The vertical registration point in pixels
+	 * @return {DisplayObject} Returns this instance. Useful for chaining commands.
+	 */
+	public setTransform(x:number = 0, y:number = 0, scaleX:number = 1, scaleY:number = 1, rotation:number = 0, skewX:number = 0, skewY:number = 0, regX:number = 0, regY:number = 0):this
+	{
+		this.x = x;
+		this.y = y;
+		this.scaleX = scaleX;
+		this.scaleY = scaleY;
+		this.rotation = rotation;
+		this.skewX = skewX;
+		this.skewY = skewY;
+		this.regX = regX;
+		this.regY = regY;
+		return this;
+	}
+
+	/**
+	 * Returns a matrix based on this object's current transform.
+	 *
+	 * @method getMatrix
+	 * @param {Matrix2} matrix Optional. A Matrix2 object to populate with the calculated values. If null, a new
+	 * Matrix object is returned.
+	 * @return {Matrix2} A matrix representing this display object's transform.
+	 */
+	public getMatrix(matrix?:Matrix2):Matrix2
+	{
+		var m = matrix ? matrix.identity() : new Matrix2();
+		m.appendTransform(this.x, this.y, this.scaleX, this.scaleY, this.rotation, this.skewX, this.skewY, this.regX, this.regY);
+		m.appendProperties(this.alpha, this.shadow, this.compositeOperation, this.visible);
+		return m;
+	}
+
+	/**
+	 * Generates a Matrix2 object representing the combined transform of the display object and all of its
+	 * parent Containers up to the highest level ancestor (usually the {{#crossLink "Stage"}}{{/crossLink}}). This can
+	 * be used to transform positions between coordinate spaces, such as with {{#crossLink "DisplayObject/localToGlobal"}}{{/crossLink}}
+	 * and {{#crossLink "DisplayObject/globalToLocal"}}{{/crossLink}}.
+	 *
+	 * @method getConcatenatedMatrix
+	 * @param {Matrix2} [matrix] A {{#crossLink "Matrix2"}}{{/crossLink}} object to populate with the calculated values.
+	 * If null, a new Matrix2 object is returned.
+	 * @return {Matrix2} The combined matrix.
+	 */
+	public getConcatenatedMatrix(matrix?:Matrix2):Matrix2
+	{
+		var o:DisplayObject = this;
+		var mtx = this.getMatrix(matrix);
+
+		while(o = o.parent)
+		{
+			mtx.prependMatrix(o.getMatrix(o._matrix));
+		}
+
+		return mtx;
+	}
+
+	/**
+	 * Transforms the specified x and y position from the coordinate space of the display object to the global
+	 * (stage) coordinate space.
+	 *
+	 * @method localToGlobal
+	 * @param {Number} x The x position in the source display object to transform.
+	 * @param {Number} y The y position in the source display object to transform.
+	 * @param {Point} [pt] An object to copy the result into.
+	 * @return {Point} A Point instance with x and y properties correlating to the transformed coordinates
+	 * on the stage.
+	 */
+	public localToGlobal(x:number, y:number, pt?:Point):Point
+	{
+		return this.getConcatenatedMatrix(this._matrix).transformPoint(x, y, pt);
+	}
+
+	/**
+	 * Transforms the specified x and y position from the global (stage) coordinate space to the coordinate space of
+	 * the display object.
+	 *
+	 * @method globalToLocal
+	 * @param {Number} x The x position on the stage to transform.
+	 * @param {Number} y The y position on the stage to transform.
+	 * @param {Point} [pt] An object to copy the result into.
+	 * @return {Point} A Point instance with x and y properties correlating to the transformed position in the
+	 * display object's coordinate space.
+	 */
+	public globalToLocal(x:number, y:number, pt?:Point):Point
+	{
+		return this.getConcatenatedMatrix(this._matrix).invert().transformPoint(x, y, pt);
+	}
+
+	/**
+	 * Transforms the specified x and y position from the coordinate space of this display object to the coordinate
+	 * space of the target display object.
+	 *
+	 * @method localToLocal
+	 * @param {Number} x The x position in the source display object to transform.
+	 * @param {Number} y The y position on the source display object to transform.
+	 * @param {DisplayObject} target The target display object to which the coordinates will be transformed.
+	 * @param {Point} [pt] An object to copy the result into.
+	 * @return {Point} Returns a Point instance with x and y properties correlating to the transformed position
+	 * in the target's coordinate space.
+	 */
+	public localToLocal(x:number, y:number, target:DisplayObject, pt?:Point):Point
+	{
+		pt = this.localToGlobal(x, y, pt);
+		return target.globalToLocal(pt.x, pt.y, pt);
+	}
+
+	/**
+	 * Returns a string representation of this object.
+	 *
+	 * @method toString
+	 * @return {String} a string representation of the instance.
+	 */
+	public toString():string
+	{
+		return "[DisplayObject (name=" + this.name + ")]";
+	}
+
+	public destruct():void
+	{
+		if(this.parent)
+		{
+			this.parent.removeChild(this);
+		}
+
+		this._matrix = null;
+		super.destruct();
+	}
+}
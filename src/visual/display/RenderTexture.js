@@ -0,0 +1,38 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./AbstractTexture", "../../core/webgl/GLState", "../../core/webgl/GPUResources"], function (require, exports, AbstractTexture_1, GLState_1, GPUResources_1) {
+    "use strict";
+    var RenderTexture = (function (_super) {
+        __extends(RenderTexture, _super);
+        function RenderTexture(width, height) {
+            _super.call(this, null);
+            this.width = width;
+            this.height = height;
+        }
+        RenderTexture.prototype.allocate = function (gl, width, height) {
+            this.width = width;
+            this.height = height;
+            AbstractTexture_1.AbstractTexture.bind(gl, this);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+            AbstractTexture_1.AbstractTexture.unbind(gl, this);
+        };
+        RenderTexture.prototype.restore = function (gl) {
+            this.texture = null;
+            this.allocate(gl, this.width, this.height);
+        };
+        RenderTexture.prototype.destruct = function (gl) {
+            if (this.texture) {
+                GPUResources_1.GPUResources.get(gl).remove(this);
+                GLState_1.GLState.get(gl).deleteTexture(this.texture);
+                this.texture = null;
+            }
+        };
+        return RenderTexture;
+    }(AbstractTexture_1.AbstractTexture));
+    exports.RenderTexture = RenderTexture;
+});
@@ -0,0 +1,67 @@
+import {AbstractTexture} from "./AbstractTexture";
+import {GLState} from "../../core/webgl/GLState";
+import {GPUResources} from "../../core/webgl/GPUResources";
+
+/**
+ * Texture without an image source, its content is drawn by the gpu. Used as the colour attachment of a
+ * {{#crossLink "RenderTarget"}}{{/crossLink}}.
+ *
+ * @class RenderTexture
+ * @param {number} width
+ * @param {number} height
+ */
+export class RenderTexture extends AbstractTexture
+{
+	public width:number;
+	public height:number;
+
+	constructor(width:number, height:number)
+	{
+		super(null);
+
+		this.width = width;
+		this.height = height;
+	}
+
+	/**
+	 * (Re)allocates the storage of the texture, the content is undefined afterwards.
+	 *
+	 * @method allocate
+	 * @param {WebGLRenderingContext} gl
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public allocate(gl:WebGLRenderingContext, width:number, height:number):void
+	{
+		this.width = width;
+		this.height = height;
+
+		AbstractTexture.bind(gl, this);
+		gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+		gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+		gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+		AbstractTexture.unbind(gl, this);
+	}
+
+	/**
+	 * Allocates the storage again after the context was restored, the content is lost.
+	 *
+	 * @method restore
+	 * @param {WebGLRenderingContext} gl
+	 */
+	public restore(gl:WebGLRenderingContext):void
+	{
+		this.texture = null;
+		this.allocate(gl, this.width, this.height);
+	}
+
+	public destruct(gl:WebGLRenderingContext):void
+	{
+		if(this.texture)
+		{
+			GPUResources.get(gl).remove(this);
+			GLState.get(gl).deleteTexture(this.texture);
+			this.texture = null;
+		}
+	}
+}
\ No newline at end of file
@@ -1,12 +1,45 @@
-define(["require", "exports"], function (require, exports) {
+define(["require", "exports", "./Texture", "../data/Rectangle"], function (require, exports, Texture_1, Rectangle_1) {
     "use strict";
     var Sprite = (function () {
         function Sprite(sheet, rectangle) {
+            if (rectangle === void 0) { rectangle = null; }
+            this.x = 0;
+            this.y = 0;
+            this.scaleX = 1;
+            this.scaleY = 1;
+            this.rotation = 0;
+            this.regX = 0;
+            this.regY = 0;
+            this.tint = 0xffffff;
+            this.alpha = 1;
+            this.visible = true;
+            this.blendMode = 0;
             this.texture = sheet;
             this.rectangle = rectangle;
         }
+        Object.defineProperty(Sprite.prototype, "width", {
+            get: function () {
+                return this.rectangle ? this.rectangle.width : this.texture.width;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Object.defineProperty(Sprite.prototype, "height", {
+            get: function () {
+                return this.rectangle ? this.rectangle.height : this.texture.height;
+            },
+            enumerable: true,
+            configurable: true
+        });
+        Sprite.prototype.getUV = function () {
+            if (!this.uv) {
+                var texture = this.texture;
+                this.uv = Texture_1.Texture.getUVFromRect(texture, this.rectangle || new Rectangle_1.Rectangle(0, 0, texture.width, texture.height));
+            }
+            return this.uv;
+        };
         Sprite.prototype.hasLoaded = function () {
-            return null;
+            return this.texture.hasLoaded();
         };
         return Sprite;
     }());
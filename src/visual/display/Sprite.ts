@@ -1,20 +1,80 @@
 import {Texture} from "./Texture";
 import {Rectangle} from "../data/Rectangle";
+import BlendType from "../enum/BlendType";
 
+/**
+ * A textured quad drawn by the {{#crossLink "SpriteBatch"}}{{/crossLink}}. The rectangle selects the part of the
+ * sheet that is drawn, when omitted the whole texture is used.
+ *
+ * @class Sprite
+ * @param {Texture} sheet
+ * @param {Rectangle} [rectangle]
+ */
 export class Sprite
 {
 	public texture:Texture;
 	public rectangle:Rectangle;
 	public uv:Float32Array;
 
-	constructor(sheet:Texture, rectangle:Rectangle)
+	public x:number = 0;
+	public y:number = 0;
+	public scaleX:number = 1;
+	public scaleY:number = 1;
+
+	/**
+	 * rotation in degrees
+	 * @property rotation
+	 * @type {number}
+	 */
+	public rotation:number = 0;
+	public regX:number = 0;
+	public regY:number = 0;
+
+	/**
+	 * color multiplied with the texture, as 0xRRGGBB
+	 * @property tint
+	 * @type {number}
+	 */
+	public tint:number = 0xffffff;
+	public alpha:number = 1;
+	public visible:boolean = true;
+	public blendMode:BlendType = BlendType.NORMAL;
+
+	constructor(sheet:Texture, rectangle:Rectangle = null)
 	{
 		this.texture = sheet;
 		this.rectangle = rectangle;
 	}
 
+	public get width():number
+	{
+		return this.rectangle ? this.rectangle.width : this.texture.width;
+	}
+
+	public get height():number
+	{
+		return this.rectangle ? this.rectangle.height : this.texture.height;
+	}
+
+	/**
+	 * Returns the uv coordinates of the four corners, calculated once the texture has loaded.
+	 *
+	 * @method getUV
+	 * @returns {Float32Array}
+	 */
+	public getUV():Float32Array
+	{
+		if(!this.uv)
+		{
+			var texture = this.texture;
+			this.uv = Texture.getUVFromRect(texture, this.rectangle || new Rectangle(0, 0, texture.width, texture.height));
+		}
+
+		return this.uv;
+	}
+
 	hasLoaded():boolean
 	{
-		return null;
+		return this.texture.hasLoaded();
 	}
 }
\ No newline at end of file
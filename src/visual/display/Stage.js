@@ -0,0 +1,78 @@
+var __extends = (this && this.__extends) || function (d, b) {
+    for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p];
+    function __() { this.constructor = d; }
+    d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+};
+define(["require", "exports", "./Container", "../data/StageOption", "../../core/event/Signal2", "../renderer/canvas/RendererCanvas"], function (require, exports, Container_1, StageOption_1, Signal2_1, RendererCanvas_1) {
+    "use strict";
+    var Stage = (function (_super) {
+        __extends(Stage, _super);
+        function Stage(canvas, option) {
+            var _this = this;
+            if (option === void 0) { option = {}; }
+            _super.call(this);
+            this.type = 4;
+            this.onResize = new Signal2_1.default();
+            this._width = 0;
+            this._height = 0;
+            this.onWindowResize = function () {
+                var parent = _this.canvas.domElement.parentElement;
+                if (parent) {
+                    _this.setSize(parent.clientWidth, parent.clientHeight);
+                }
+                else {
+                    _this.setSize(window.innerWidth, window.innerHeight);
+                }
+            };
+            this.canvas = canvas;
+            this.option = new StageOption_1.StageOption(option);
+            if (!(this.option.pixelRatio >= 1)) {
+                this.option.pixelRatio = 1;
+            }
+            this.renderer = new RendererCanvas_1.default(canvas, this.option.pixelRatio, this.option.quality);
+            this.setSize(canvas.width, canvas.height);
+            if (this.option.autoResize) {
+                window.addEventListener('resize', this.onWindowResize);
+            }
+        }
+        Stage.prototype.getWidth = function () {
+            return this._width;
+        };
+        Stage.prototype.getHeight = function () {
+            return this._height;
+        };
+        Stage.prototype.setSize = function (width, height) {
+            var pixelRatio = this.option.pixelRatio;
+            this._width = width;
+            this._height = height;
+            this.canvas.setSize(Math.round(width * pixelRatio), Math.round(height * pixelRatio));
+            this.canvas.domElement.style.width = width + 'px';
+            this.canvas.domElement.style.height = height + 'px';
+            this.onResize.emit(width, height);
+        };
+        Stage.prototype.clear = function () {
+            var option = this.option;
+            this.renderer.clear(option.transparent ? null : option.autoClearColor.toString());
+        };
+        Stage.prototype.update = function () {
+            if (this.option.autoClear) {
+                this.clear();
+            }
+            this.renderer.render(this);
+        };
+        Stage.prototype.toString = function () {
+            return "[Stage (name=" + this.name + ")]";
+        };
+        Stage.prototype.destruct = function () {
+            window.removeEventListener('resize', this.onWindowResize);
+            this.renderer.destruct();
+            this.renderer = null;
+            this.onResize = null;
+            this.canvas = null;
+            this.option = null;
+            _super.prototype.destruct.call(this);
+        };
+        return Stage;
+    }(Container_1.Container));
+    exports.Stage = Stage;
+});
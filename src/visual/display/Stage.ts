@@ -0,0 +1,190 @@
+import {Container} from "./Container";
+import DisplayType from "../enum/DisplayType";
+import {Canvas2d} from "../renderer/element/Canvas2d";
+import {StageOption} from "../data/StageOption";
+import {IStageOption} from "../interface/IStageOption";
+import Signal2 from "../../core/event/Signal2";
+import RendererCanvas from "../renderer/canvas/RendererCanvas";
+
+/**
+ * A stage is the root level {{#crossLink "Container"}}{{/crossLink}} for a display list. Each time its
+ * {{#crossLink "Stage/update"}}{{/crossLink}} method is called, it will render its display list to its target
+ * canvas. How it clears, scales and resizes is driven by its {{#crossLink "StageOption"}}{{/crossLink}}.
+ *
+ * <h4>Example</h4>
+ *
+ *      var stage = new Stage(new Canvas2d(void 0, 800, 600), {pixelRatio: window.devicePixelRatio});
+ *      stage.addChild(container);
+ *      stage.update();
+ *
+ * @class Stage
+ * @extends Container
+ * @param {Canvas2d} canvas The canvas the stage will render to, its size is used as the initial stage size.
+ * @param {IStageOption} [option] options that drive clearing, resolution and resizing.
+ * @constructor
+ **/
+export class Stage extends Container
+{
+	public type:DisplayType = DisplayType.STAGE;
+
+	/**
+	 * The canvas the stage will render to.
+	 * @property canvas
+	 * @type {Canvas2d}
+	 */
+	public canvas:Canvas2d;
+
+	/**
+	 * @property option
+	 * @type {StageOption}
+	 */
+	public option:StageOption;
+
+	/**
+	 * The renderer that draws the display list of this stage onto its canvas.
+	 * @property renderer
+	 * @type {RendererCanvas}
+	 */
+	public renderer:RendererCanvas;
+
+	/**
+	 * Emitted with the new width and height, in css pixels, each time the stage is resized.
+	 * @property onResize
+	 * @type {Signal2}
+	 */
+	public onResize:Signal2<number, number> = new Signal2<number, number>();
+
+	protected _width:number = 0;
+	protected _height:number = 0;
+
+	constructor(canvas:Canvas2d, option:IStageOption = {})
+	{
+		super();
+
+		this.canvas = canvas;
+		this.option = new StageOption(option);
+
+		// also catches a pixelRatio that is not a number
+		if(!(this.option.pixelRatio >= 1))
+		{
+			this.option.pixelRatio = 1;
+		}
+
+		this.renderer = new RendererCanvas(canvas, this.option.pixelRatio, this.option.quality);
+
+		this.setSize(canvas.width, canvas.height);
+
+		if(this.option.autoResize)
+		{
+			window.addEventListener('resize', this.onWindowResize);
+		}
+	}
+
+	/**
+	 * Width of the stage in css pixels, the canvas itself is <code>width * pixelRatio</code> wide.
+	 *
+	 * @method getWidth
+	 * @returns {number}
+	 */
+	public getWidth():number
+	{
+		return this._width;
+	}
+
+	/**
+	 * Height of the stage in css pixels, the canvas itself is <code>height * pixelRatio</code> high.
+	 *
+	 * @method getHeight
+	 * @returns {number}
+	 */
+	public getHeight():number
+	{
+		return this._height;
+	}
+
+	/**
+	 * Resizes the stage, the backing canvas is scaled by the pixelRatio while its css size stays at width and height.
+	 *
+	 * @method setSize
+	 * @param {number} width
+	 * @param {number} height
+	 */
+	public setSize(width:number, height:number):void
+	{
+		var pixelRatio = this.option.pixelRatio;
+
+		this._width = width;
+		this._height = height;
+
+		// fractional ratios like 1.5 give fractional sizes, a canvas only has whole pixels
+		this.canvas.setSize(Math.round(width * pixelRatio), Math.round(height * pixelRatio));
+		this.canvas.domElement.style.width = width + 'px';
+		this.canvas.domElement.style.height = height + 'px';
+
+		this.onResize.emit(width, height);
+	}
+
+	/**
+	 * Clears the target canvas. When the stage is not transparent it is filled with the autoClearColor.
+	 *
+	 * @method clear
+	 */
+	public clear():void
+	{
+		var option = this.option;
+
+		this.renderer.clear(option.transparent ? null : option.autoClearColor.toString());
+	}
+
+	/**
+	 * Draws the stage to the canvas. If autoClear is true, it will clear the canvas first.
+	 *
+	 * @method update
+	 */
+	public update():void
+	{
+		if(this.option.autoClear)
+		{
+			this.clear();
+		}
+
+		this.renderer.render(this);
+	}
+
+	protected onWindowResize = () => {
+		var parent = this.canvas.domElement.parentElement;
+
+		if(parent)
+		{
+			this.setSize(parent.clientWidth, parent.clientHeight);
+		}
+		else
+		{
+			this.setSize(window.innerWidth, window.innerHeight);
+		}
+	};
+
+	/**
+	 * Returns a string representation of this object.
+	 *
+	 * @method toString
+	 * @return {String} a string representation of the instance.
+	 **/
+	public toString():string
+	{
+		return "[Stage (name=" + this.name + ")]";
+	}
+
+	public destruct():void
+	{
+		window.removeEventListener('resize', this.onWindowResize);
+
+		this.renderer.destruct();
+		this.renderer = null;
+		this.onResize = null;
+		this.canvas = null;
+		this.option = null;
+
+		super.destruct();
+	}
+}
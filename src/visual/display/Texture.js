@@ -20,6 +20,7 @@ define(["require", "exports", "./AbstractTexture", "../../core/event/Signal", ".
                 if (!img.complete) {
                     var load = function () {
                         _this._hasLoaded = true;
+                        _this.needsUpdate = true;
                         img.removeEventListener('load', load);
                         _this.width = img.naturalWidth;
                         _this.height = img.naturalHeight;
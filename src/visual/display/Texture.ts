@@ -72,6 +72,7 @@ export class Texture extends AbstractTexture implements ILoadable<Texture>
 				var load = () =>
 				{
 					this._hasLoaded = true;
+					this.needsUpdate = true;
 					img.removeEventListener('load', load);
 					this.width = img.naturalWidth;
 					this.height = img.naturalHeight;
@@ -0,0 +1,12 @@
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var BlendType;
+    (function (BlendType) {
+        BlendType[BlendType["NORMAL"] = 0] = "NORMAL";
+        BlendType[BlendType["ADD"] = 1] = "ADD";
+        BlendType[BlendType["MULTIPLY"] = 2] = "MULTIPLY";
+        BlendType[BlendType["SCREEN"] = 3] = "SCREEN";
+    })(BlendType || (BlendType = {}));
+    Object.defineProperty(exports, "__esModule", { value: true });
+    exports.default = BlendType;
+});
@@ -0,0 +1,11 @@
+/**
+ * @enum BlendType
+ */
+const enum BlendType {
+	NORMAL,
+	ADD,
+	MULTIPLY,
+	SCREEN
+}
+
+export default BlendType;
\ No newline at end of file
@@ -1,4 +1,5 @@
 import RGBA from "../data/RGBA";
+import QualityType from "../enum/QualityType";
 
 export interface IStageOption
 {
@@ -7,4 +8,5 @@ export interface IStageOption
 	autoClearColor?:string|RGBA;
 	transparent?:boolean;
 	pixelRatio?:number;
+	quality?:QualityType;
 }
\ No newline at end of file
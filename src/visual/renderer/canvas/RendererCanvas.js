@@ -1,9 +1,70 @@
-define(["require", "exports"], function (require, exports) {
+define(["require", "exports", "../../display/Container", "../../data/Shadow", "../../geom/Matrix2", "./util/CanvasMaskManager"], function (require, exports, Container_1, Shadow_1, Matrix2_1, CanvasMaskManager_1) {
     "use strict";
     var RendererCanvas = (function () {
-        function RendererCanvas(width, height, options) {
+        function RendererCanvas(canvas, resolution, quality) {
+            if (resolution === void 0) { resolution = 1; }
+            if (quality === void 0) { quality = 0; }
+            this.maskManager = new CanvasMaskManager_1.default();
+            this._matrixStack = [new Matrix2_1.default()];
+            this._matrix = new Matrix2_1.default();
+            this.canvas = canvas;
+            this.context = canvas.getContext();
+            this.resolution = resolution;
+            this.setQuality(quality);
         }
+        RendererCanvas.prototype.setQuality = function (quality) {
+            this.canvas.setQuality(quality);
+        };
+        RendererCanvas.prototype.clear = function (color) {
+            if (color === void 0) { color = null; }
+            this.canvas.clearColor = color;
+            this.canvas.reset();
+        };
         RendererCanvas.prototype.render = function (item) {
+            var ctx = this.context;
+            ctx.save();
+            this._matrixStack[0].identity();
+            this.renderItem(item, 1);
+            ctx.restore();
+        };
+        RendererCanvas.prototype.renderItem = function (item, depth) {
+            if (!item.isVisible()) {
+                return;
+            }
+            var stack = this._matrixStack;
+            var mtx = stack[depth] || (stack[depth] = new Matrix2_1.default());
+            mtx.copy(stack[depth - 1]).appendMatrix(item.getMatrix(this._matrix));
+            if (!mtx.visible || mtx.alpha <= 0) {
+                return;
+            }
+            this.updateContext(mtx);
+            item.draw(this.context, false);
+            if (item instanceof Container_1.Container) {
+                var children = item.children.slice(0);
+                for (var i = 0, l = children.length; i < l; i++) {
+                    this.renderItem(children[i], depth + 1);
+                }
+            }
+        };
+        RendererCanvas.prototype.updateContext = function (mtx) {
+            var ctx = this.context;
+            var resolution = this.resolution;
+            var shadow = mtx.shadow || Shadow_1.Shadow.identity;
+            ctx.setTransform(mtx.a * resolution, mtx.b * resolution, mtx.c * resolution, mtx.d * resolution, mtx.tx * resolution, mtx.ty * resolution);
+            ctx.globalAlpha = mtx.alpha;
+            ctx.globalCompositeOperation = mtx.compositeOperation || 'source-over';
+            ctx.shadowColor = shadow.color.toString();
+            ctx.shadowOffsetX = shadow.offsetX * resolution;
+            ctx.shadowOffsetY = shadow.offsetY * resolution;
+            ctx.shadowBlur = shadow.blur * resolution;
+        };
+        RendererCanvas.prototype.destruct = function () {
+            this.maskManager.destruct();
+            this.maskManager = null;
+            this._matrixStack = null;
+            this._matrix = null;
+            this.context = null;
+            this.canvas = null;
         };
         return RendererCanvas;
     }());
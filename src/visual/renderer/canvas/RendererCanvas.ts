@@ -1,16 +1,153 @@
+import {Canvas2d} from "../element/Canvas2d";
+import {DisplayObject} from "../../display/DisplayObject";
+import {Container} from "../../display/Container";
+import {Shadow} from "../../data/Shadow";
+import Matrix2 from "../../geom/Matrix2";
+import QualityType from "../../enum/QualityType";
+import CanvasMaskManager from "./util/CanvasMaskManager";
 
-
-
+/**
+ * Draws a display list onto a {{#crossLink "Canvas2d"}}{{/crossLink}}. Every node gets the transform of its
+ * concatenated {{#crossLink "Matrix2"}}{{/crossLink}} set on the context, together with the concatenated alpha,
+ * compositeOperation, shadow and visibility.
+ *
+ * <h4>Example</h4>
+ *
+ *      var renderer = new RendererCanvas(new Canvas2d(void 0, 800, 600), window.devicePixelRatio);
+ *      renderer.render(container);
+ *
+ * @class RendererCanvas
+ * @param {Canvas2d} canvas the canvas to render to.
+ * @param {number} [resolution=1] pixel ratio of the canvas, all transforms are multiplied by it.
+ * @param {QualityType} [quality=QualityType.NORMAL] image smoothing setting.
+ */
 class RendererCanvas
 {
-	constructor(width:number, height:number, options)
+	public canvas:Canvas2d;
+	public context:CanvasRenderingContext2D;
+	public resolution:number;
+	public maskManager:CanvasMaskManager = new CanvasMaskManager();
+
+	/**
+	 * One concatenated matrix per depth of the display list, reused each render.
+	 * @property _matrixStack
+	 * @type {Array<Matrix2>}
+	 * @protected
+	 */
+	protected _matrixStack:Array<Matrix2> = [new Matrix2()];
+	protected _matrix:Matrix2 = new Matrix2();
+
+	constructor(canvas:Canvas2d, resolution:number = 1, quality:QualityType = QualityType.NORMAL)
+	{
+		this.canvas = canvas;
+		this.context = canvas.getContext();
+		this.resolution = resolution;
+
+		this.setQuality(quality);
+	}
+
+	/**
+	 * @method setQuality
+	 * @param {QualityType} quality
+	 */
+	public setQuality(quality:QualityType):void
+	{
+		this.canvas.setQuality(quality);
+	}
+
+	/**
+	 * Clears the canvas, when a color is given the canvas is filled with it.
+	 *
+	 * @method clear
+	 * @param {string} [color]
+	 */
+	public clear(color:string = null):void
+	{
+		this.canvas.clearColor = color;
+		this.canvas.reset();
+	}
+
+	/**
+	 * Renders the item and all of its descendants.
+	 *
+	 * @method render
+	 * @param {DisplayObject} item
+	 */
+	public render(item:DisplayObject):void
+	{
+		var ctx = this.context;
+
+		ctx.save();
+		this._matrixStack[0].identity();
+		this.renderItem(item, 1);
+		ctx.restore();
+	}
+
+	protected renderItem(item:DisplayObject, depth:number):void
 	{
+		if(!item.isVisible())
+		{
+			return;
+		}
+
+		var stack = this._matrixStack;
+		var mtx = stack[depth] || (stack[depth] = new Matrix2());
+
+		mtx.copy(stack[depth - 1]).appendMatrix(item.getMatrix(this._matrix));
+
+		if(!mtx.visible || mtx.alpha <= 0)
+		{
+			return;
+		}
+
+		this.updateContext(mtx);
+		item.draw(this.context, false);
+
+		if(item instanceof Container)
+		{
+			// this ensures we don't have issues with display list changes that occur during a render:
+			var children = item.children.slice(0);
+
+			for(var i = 0, l = children.length; i < l; i++)
+			{
+				this.renderItem(children[i], depth + 1);
+			}
+		}
+	}
+
+	protected updateContext(mtx:Matrix2):void
+	{
+		var ctx = this.context;
+		var resolution = this.resolution;
+		var shadow:Shadow = mtx.shadow || Shadow.identity;
+
+		ctx.setTransform(
+			mtx.a * resolution,
+			mtx.b * resolution,
+			mtx.c * resolution,
+			mtx.d * resolution,
+			mtx.tx * resolution,
+			mtx.ty * resolution
+		);
+
+		ctx.globalAlpha = mtx.alpha;
+		ctx.globalCompositeOperation = mtx.compositeOperation || 'source-over';
+
+		ctx.shadowColor = shadow.color.toString();
+		ctx.shadowOffsetX = shadow.offsetX * resolution;
+		ctx.shadowOffsetY = shadow.offsetY * resolution;
+		ctx.shadowBlur = shadow.blur * resolution;
 	}
 
-	public render(item):void
+	public destruct():void
 	{
-		// item.draw(this.context);
+		this.maskManager.destruct();
+		this.maskManager = null;
+		this._matrixStack = null;
+		this._matrix = null;
+		this.context = null;
+		this.canvas = null;
 	}
 }
 
-export default RendererCanvas;
\ No newline at end of file
+export default RendererCanvas;
@@ -1,21 +1,25 @@
-var CanvasMaskManager = (function () {
-    function CanvasMaskManager() {
-    }
-    CanvasMaskManager.prototype.pushMask = function (maskData, renderer) {
-        renderer.context.save();
-        var cacheAlpha = maskData.alpha;
-        var transform = maskData.worldTransform;
-        var resolution = renderer.resolution;
-        renderer.context.setTransform(transform.a * resolution, transform.b * resolution, transform.c * resolution, transform.d * resolution, transform.tx * resolution, transform.ty * resolution);
-        if (!maskData.texture) {
-            renderer.context.clip();
+define(["require", "exports"], function (require, exports) {
+    "use strict";
+    var CanvasMaskManager = (function () {
+        function CanvasMaskManager() {
         }
-        maskData.worldAlpha = cacheAlpha;
-    };
-    CanvasMaskManager.prototype.popMask = function (renderer) {
-        renderer.context.restore();
-    };
-    CanvasMaskManager.prototype.destruct = function () { };
-    ;
-    return CanvasMaskManager;
-}());
+        CanvasMaskManager.prototype.pushMask = function (maskData, renderer) {
+            var context = renderer.context;
+            context.save();
+            var transform = maskData.getConcatenatedMatrix();
+            var resolution = renderer.resolution;
+            context.setTransform(transform.a * resolution, transform.b * resolution, transform.c * resolution, transform.d * resolution, transform.tx * resolution, transform.ty * resolution);
+            context.beginPath();
+            maskData.draw(context);
+            context.clip();
+        };
+        CanvasMaskManager.prototype.popMask = function (renderer) {
+            renderer.context.restore();
+        };
+        CanvasMaskManager.prototype.destruct = function () { };
+        ;
+        return CanvasMaskManager;
+    }());
+    Object.defineProperty(exports, "__esModule", { value: true });
+    exports.default = CanvasMaskManager;
+});
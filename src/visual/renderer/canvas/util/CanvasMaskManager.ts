@@ -1,24 +1,30 @@
-//var CanvasGraphics = require('./CanvasGraphics');
+import RendererCanvas from "../RendererCanvas";
+import {DisplayObject} from "../../../display/DisplayObject";
 
 /**
  * A set of functions used to handle masking.
  *
- * @class
- * @memberof PIXI
+ * @class CanvasMaskManager
  */
 class CanvasMaskManager
 {
 	constructor(){}
 
-	pushMask(maskData, renderer)
+	/**
+	 * This method adds it to the current stack of masks. The mask is expected to trace its clipping path when drawn.
+	 *
+	 * @param maskData {DisplayObject} the maskData that will be pushed
+	 * @param renderer {RendererCanvas} The renderer context to use.
+	 */
+	pushMask(maskData:DisplayObject, renderer:RendererCanvas)
 	{
-		renderer.context.save();
+		var context = renderer.context;
+		context.save();
 
-		var cacheAlpha = maskData.alpha;
-		var transform = maskData.worldTransform;
+		var transform = maskData.getConcatenatedMatrix();
 		var resolution = renderer.resolution;
 
-		renderer.context.setTransform(
+		context.setTransform(
 				transform.a * resolution,
 				transform.b * resolution,
 				transform.c * resolution,
@@ -29,21 +35,17 @@ class CanvasMaskManager
 
 		//TODO suport sprite alpha masks??
 		//lots of effort required. If demand is great enough..
-		if(!maskData.texture)
-		{
-			// CanvasGraphics.renderGraphicsMask(maskData, renderer.context);
-			renderer.context.clip();
-		}
-
-		maskData.worldAlpha = cacheAlpha;
+		context.beginPath();
+		maskData.draw(context);
+		context.clip();
 	}
 
 	/**
 	 * Restores the current drawing context to the state it was before the mask was applied.
 	 *
-	 * @param renderer {PIXI.WebGLRenderer|PIXI.CanvasRenderer} The renderer context to use.
+	 * @param renderer {RendererCanvas} The renderer context to use.
 	 */
-	public popMask(renderer)
+	public popMask(renderer:RendererCanvas)
 	{
 		renderer.context.restore();
 	}
@@ -51,9 +53,4 @@ class CanvasMaskManager
 	destruct() {};
 }
 
-/**
- * This method adds it to the current stack of masks.
- *
- * @param maskData {object} the maskData that will be pushed
- * @param renderer {PIXI.WebGLRenderer|PIXI.CanvasRenderer} The renderer context to use.
- */
+export default CanvasMaskManager;
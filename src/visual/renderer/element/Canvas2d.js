@@ -12,6 +12,10 @@ define(["require", "exports", "./Canvas", "../../data/Rectangle"], function (req
             this._quality = 0;
             this.clearColor = null;
         }
+        Canvas2d.prototype.setSize = function (width, height) {
+            _super.prototype.setSize.call(this, width, height);
+            this.setQuality(this._quality);
+        };
         Canvas2d.prototype.setHeight = function (value) {
             _super.prototype.setHeight.call(this, value);
             this.setQuality(this._quality);
@@ -93,6 +97,9 @@ define(["require", "exports", "./Canvas", "../../data/Rectangle"], function (req
             }
             return this._context;
         };
+        Canvas2d.prototype.getQuality = function () {
+            return this._quality;
+        };
         Canvas2d.prototype.setQuality = function (name) {
             var ctx = this.getContext();
             switch (name) {
@@ -16,6 +16,12 @@ export class Canvas2d extends Canvas
 
 	public clearColor:string = null;
 
+	public setSize(width:number, height:number):void
+	{
+		super.setSize(width, height);
+		this.setQuality(this._quality);
+	}
+
 	public setHeight(value:number):void
 	{
 		super.setHeight(value);
@@ -162,6 +168,15 @@ export class Canvas2d extends Canvas
 	}
 
 
+	/**
+	 * @method getQuality
+	 * @returns {QualityType}
+	 */
+	public getQuality():QualityType
+	{
+		return this._quality;
+	}
+
 	/**
 	 * @method setQuality
 	 * @param {string} name
@@ -3,23 +3,33 @@ var __extends = (this && this.__extends) || function (d, b) {
     function __() { this.constructor = d; }
     d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
 };
-define(["require", "exports", "./Canvas"], function (require, exports, Canvas_1) {
+define(["require", "exports", "./Canvas", "../../../core/webgl/GLState", "../../../core/webgl/GPUResources", "../../../core/webgl/GLCapabilities", "../../../core/event/Signal"], function (require, exports, Canvas_1, GLState_1, GPUResources_1, GLCapabilities_1, Signal_1) {
     "use strict";
     var CanvasWebGL = (function (_super) {
         __extends(CanvasWebGL, _super);
-        function CanvasWebGL() {
-            _super.apply(this, arguments);
+        function CanvasWebGL(domElement, width, height, webgl2) {
+            if (webgl2 === void 0) { webgl2 = false; }
+            _super.call(this, domElement, width, height);
+            this._isContextLost = false;
+            this.onContextLost = new Signal_1.Signal();
+            this.onContextRestored = new Signal_1.Signal();
+            this._settings = null;
+            this._webgl2 = webgl2;
         }
         CanvasWebGL.prototype.updateViewport = function () {
             var gl = this.getContext();
-            gl.viewport(0, 0, this._width | 0, this._height | 0);
+            GLState_1.GLState.get(gl).viewport(0, 0, this._width | 0, this._height | 0);
         };
         CanvasWebGL.prototype.getContext = function () {
+            var _this = this;
             if (!this._gl) {
                 var gl = null;
                 var canvas = this.domElement;
                 try {
-                    gl = canvas.getContext("webgl") || canvas.getContext("experimental-webgl");
+                    if (this._webgl2) {
+                        gl = canvas.getContext("webgl2");
+                    }
+                    gl = gl || canvas.getContext("webgl") || canvas.getContext("experimental-webgl");
                 }
                 catch (e) { }
                 if (!gl) {
@@ -27,9 +37,39 @@ define(["require", "exports", "./Canvas"], function (require, exports, Canvas_1)
                     gl = null;
                 }
                 this._gl = gl;
+                if (gl) {
+                    this._contextLostListener = function (event) { return _this.handleContextLost(event); };
+                    this._contextRestoredListener = function () { return _this.handleContextRestored(); };
+                    canvas.addEventListener('webglcontextlost', this._contextLostListener, false);
+                    canvas.addEventListener('webglcontextrestored', this._contextRestoredListener, false);
+                }
             }
             return this._gl;
         };
+        CanvasWebGL.prototype.isWebGL2 = function () {
+            return GLCapabilities_1.GLCapabilities.get(this.getContext()).isWebGL2;
+        };
+        CanvasWebGL.prototype.isContextLost = function () {
+            return this._isContextLost;
+        };
+        CanvasWebGL.prototype.handleContextLost = function (event) {
+            event.preventDefault();
+            this._isContextLost = true;
+            this.onContextLost.emit();
+        };
+        CanvasWebGL.prototype.handleContextRestored = function () {
+            var gl = this._gl;
+            this._isContextLost = false;
+            GLState_1.GLState.get(gl).reset();
+            GLCapabilities_1.GLCapabilities.get(gl).reset();
+            try {
+                GPUResources_1.GPUResources.get(gl).restore();
+            }
+            finally {
+                this.updateViewport();
+                this.onContextRestored.emit();
+            }
+        };
         CanvasWebGL.prototype.setHeight = function (value) {
             _super.prototype.setHeight.call(this, value);
             this.updateViewport();
@@ -41,8 +81,7 @@ define(["require", "exports", "./Canvas"], function (require, exports, Canvas_1)
         CanvasWebGL.prototype.clear = function () {
             this._gl.clear(this._gl.COLOR_BUFFER_BIT);
         };
-        CanvasWebGL.prototype.getSettings = function () {
-            var gl = this._gl;
+        CanvasWebGL.getContextSettings = function (gl) {
             var obj = {};
             obj.MAX_COMBINED_TEXTURE_IMAGE_UNITS = gl.getParameter(gl.MAX_COMBINED_TEXTURE_IMAGE_UNITS);
             obj.MAX_CUBE_MAP_TEXTURE_SIZE = gl.getParameter(gl.MAX_CUBE_MAP_TEXTURE_SIZE);
@@ -57,7 +96,20 @@ define(["require", "exports", "./Canvas"], function (require, exports, Canvas_1)
             obj.MAX_VIEWPORT_DIMS = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
             return obj;
         };
+        CanvasWebGL.prototype.getSettings = function () {
+            if (!this._settings) {
+                this._settings = CanvasWebGL.getContextSettings(this.getContext());
+            }
+            return this._settings;
+        };
         CanvasWebGL.prototype.destruct = function () {
+            if (this._gl) {
+                this.domElement.removeEventListener('webglcontextlost', this._contextLostListener, false);
+                this.domElement.removeEventListener('webglcontextrestored', this._contextRestoredListener, false);
+                GLState_1.GLState.remove(this._gl);
+                GLCapabilities_1.GLCapabilities.remove(this._gl);
+                GPUResources_1.GPUResources.remove(this._gl);
+            }
             this._gl = null;
             this.domElement = null;
         };
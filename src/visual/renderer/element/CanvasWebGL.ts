@@ -1,21 +1,52 @@
 import {Canvas} from "./Canvas";
+import {GLState} from "../../../core/webgl/GLState";
+import {GPUResources} from "../../../core/webgl/GPUResources";
+import {GLCapabilities} from "../../../core/webgl/GLCapabilities";
+import {Signal} from "../../../core/event/Signal";
 
 /**
  * Creates a Canvas element of the given size.
  *
  * @class Canvas
+ * @param domElement {HTMLCanvasElement} optional canvas to use
  * @param width {number} the width for the newly created canvas
  * @param height {number} the height for the newly created canvas
+ * @param webgl2 {boolean} request a WebGL 2 context, WebGL 1 is used when it is not available
  */
 export class CanvasWebGL extends Canvas
 {
 	protected _gl:WebGLRenderingContext;
+	protected _webgl2:boolean;
+	protected _isContextLost:boolean = false;
+	protected _contextLostListener:(event:Event) => void;
+	protected _contextRestoredListener:() => void;
+
+	/**
+	 * emitted when the browser took the context away, nothing is drawn until it is restored
+	 * @property onContextLost
+	 * @type {Signal}
+	 */
+	public onContextLost:Signal = new Signal();
+
+	/**
+	 * emitted after the context was restored and all registered GPU resources were recreated
+	 * @property onContextRestored
+	 * @type {Signal}
+	 */
+	public onContextRestored:Signal = new Signal();
+
+	constructor(domElement?:HTMLCanvasElement, width?:number, height?:number, webgl2:boolean = false)
+	{
+		super(domElement, width, height);
+
+		this._webgl2 = webgl2;
+	}
 
 	protected updateViewport():void
 	{
 		var gl = this.getContext();
 
-		gl.viewport(0, 0, this._width | 0, this._height | 0);
+		GLState.get(gl).viewport(0, 0, this._width | 0, this._height | 0);
 	}
 
 	public getContext():WebGLRenderingContext
@@ -26,8 +57,14 @@ export class CanvasWebGL extends Canvas
 			var canvas = this.domElement;
 
 			try {
+				if(this._webgl2)
+				{
+					// a WebGL 2 context is used through the same interface, GLCapabilities knows the difference
+					gl = canvas.getContext("webgl2");
+				}
+
 				// Try to grab the standard context. If it fails, fallback to experimental.
-				gl = canvas.getContext("webgl") || canvas.getContext("experimental-webgl");
+				gl = gl || canvas.getContext("webgl") || canvas.getContext("experimental-webgl");
 			}
 			catch(e) {}
 
@@ -38,11 +75,61 @@ export class CanvasWebGL extends Canvas
 			}
 
 			this._gl = gl;
+
+			if(gl)
+			{
+				// the listeners are only needed once there is a context, so they are created with it
+				this._contextLostListener = (event:Event) => this.handleContextLost(event);
+				this._contextRestoredListener = () => this.handleContextRestored();
+
+				canvas.addEventListener('webglcontextlost', this._contextLostListener, false);
+				canvas.addEventListener('webglcontextrestored', this._contextRestoredListener, false);
+			}
 		}
 
 		return this._gl;
 	}
 
+	/**
+	 * @method isWebGL2
+	 * @returns {boolean} whether the context is a WebGL 2 context
+	 */
+	public isWebGL2():boolean
+	{
+		return GLCapabilities.get(this.getContext()).isWebGL2;
+	}
+
+	public isContextLost():boolean
+	{
+		return this._isContextLost;
+	}
+
+	protected handleContextLost(event:Event):void
+	{
+		// without preventDefault the context is never restored
+		event.preventDefault();
+
+		this._isContextLost = true;
+		this.onContextLost.emit();
+	}
+
+	protected handleContextRestored():void
+	{
+		var gl = this._gl;
+
+		this._isContextLost = false;
+
+		GLState.get(gl).reset();
+		GLCapabilities.get(gl).reset();
+		// a resource that fails to restore is thrown after the canvas is usable again
+		try {
+			GPUResources.get(gl).restore();
+		} finally {
+			this.updateViewport();
+			this.onContextRestored.emit();
+		}
+	}
+
 	public setHeight(value:number):void
 	{
 		super.setHeight(value);
@@ -62,9 +149,16 @@ export class CanvasWebGL extends Canvas
 		this._gl.clear(this._gl.COLOR_BUFFER_BIT);
 	}
 
-	public getSettings():any
+	/**
+	 * Reads the implementation limits of a context.
+	 *
+	 * @method getContextSettings
+	 * @param {WebGLRenderingContext} gl
+	 * @returns {any}
+	 * @static
+	 */
+	public static getContextSettings(gl:WebGLRenderingContext):any
 	{
-		var gl  = this._gl;
 		var obj:any = {};
 		obj.MAX_COMBINED_TEXTURE_IMAGE_UNITS = gl.getParameter(gl.MAX_COMBINED_TEXTURE_IMAGE_UNITS);
 		obj.MAX_CUBE_MAP_TEXTURE_SIZE = gl.getParameter(gl.MAX_CUBE_MAP_TEXTURE_SIZE);
@@ -80,8 +174,31 @@ export class CanvasWebGL extends Canvas
 		return obj;
 	}
 
+	protected _settings:any = null;
+
+	public getSettings():any
+	{
+		if(!this._settings)
+		{
+			this._settings = CanvasWebGL.getContextSettings(this.getContext());
+		}
+
+		return this._settings;
+	}
+
 	public destruct():void
 	{
+		if(this._gl)
+		{
+			this.domElement.removeEventListener('webglcontextlost', this._contextLostListener, false);
+			this.domElement.removeEventListener('webglcontextrestored', this._contextRestoredListener, false);
+
+			GLState.remove(this._gl);
+			GLCapabilities.remove(this._gl);
+			GPUResources.remove(this._gl);
+		}
+
+
 		this._gl = null;
 		this.domElement = null;
 	}
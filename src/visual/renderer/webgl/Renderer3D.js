@@ -0,0 +1,182 @@
+define(["require", "exports", "../../../core/math/Mesh3D", "../../../core/math/Frustum", "../../../core/webgl/Buffer", "../../../core/webgl/GLState"], function (require, exports, Mesh3D_1, Frustum_1, Buffer_1, GLState_1) {
+    "use strict";
+    var Renderer3D = (function () {
+        function Renderer3D(gl) {
+            this.autoClear = true;
+            this.clearColor = [0, 0, 0, 1];
+            this.drawCalls = 0;
+            this.culled = 0;
+            this._buffers = {};
+            this._opaque = [];
+            this._transparent = [];
+            this._cameraPosition = new Float32Array(3);
+            this._frustum = new Frustum_1.Frustum();
+            this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
+        }
+        Renderer3D.prototype.render = function (scene, camera) {
+            var gl = this._gl;
+            scene.updateMatrixWorld(false);
+            if (camera.parent === null) {
+                camera.updateMatrixWorld(false);
+            }
+            else {
+                camera.matrixWorldInverse.getInverse(camera.matrixWorld);
+            }
+            if (this.autoClear) {
+                this.clear();
+            }
+            this.drawCalls = 0;
+            this.culled = 0;
+            this._frustum.setFromCamera(camera);
+            this.collect(scene, camera);
+            this._opaque.sort(Renderer3D.sortOpaque);
+            this._transparent.sort(Renderer3D.sortTransparent);
+            var elements = camera.matrixWorld.elements;
+            this._cameraPosition[0] = elements[12];
+            this._cameraPosition[1] = elements[13];
+            this._cameraPosition[2] = elements[14];
+            this.renderList(this._opaque, camera);
+            this.renderList(this._transparent, camera);
+            this._opaque.length = 0;
+            this._transparent.length = 0;
+        };
+        Renderer3D.prototype.clear = function () {
+            var gl = this._gl;
+            var color = this.clearColor;
+            this._state.depthMask(true);
+            gl.clearColor(color[0], color[1], color[2], color[3]);
+            gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+        };
+        Renderer3D.prototype.releaseGeometry = function (geometry) {
+            var buffers = this._buffers[geometry.uuid];
+            if (buffers) {
+                buffers.vertexBuffer.destruct();
+                buffers.indexBuffer.destruct();
+                delete this._buffers[geometry.uuid];
+            }
+        };
+        Renderer3D.sortOpaque = function (a, b) {
+            if (a.object.renderOrder != b.object.renderOrder) {
+                return a.object.renderOrder - b.object.renderOrder;
+            }
+            if (a.depth != b.depth) {
+                return a.depth - b.depth;
+            }
+            return a.order - b.order;
+        };
+        Renderer3D.sortTransparent = function (a, b) {
+            if (a.object.renderOrder != b.object.renderOrder) {
+                return a.object.renderOrder - b.object.renderOrder;
+            }
+            if (a.depth != b.depth) {
+                return b.depth - a.depth;
+            }
+            return a.order - b.order;
+        };
+        Renderer3D.prototype.collect = function (scene, camera) {
+            var _this = this;
+            var view = camera.matrixWorldInverse.elements;
+            var mask = camera.channels.mask;
+            var order = 0;
+            scene.traverseVisible(function (object) {
+                if (!(object instanceof Mesh3D_1.Mesh3D)) {
+                    return;
+                }
+                var mesh = object;
+                if (!mesh.material || !mesh.geometry || mesh.geometry.getVertexCount() == 0 || (mesh.channels.mask & mask) == 0) {
+                    return;
+                }
+                if (mesh.frustumCulled && !_this._frustum.intersectsObject(mesh)) {
+                    _this.culled++;
+                    return;
+                }
+                var world = mesh.matrixWorld.elements;
+                var depth = -(view[2] * world[12] + view[6] * world[13] + view[10] * world[14] + view[14]);
+                var item = {
+                    object: mesh,
+                    depth: depth,
+                    order: order++
+                };
+                if (mesh.material.transparent) {
+                    _this._transparent.push(item);
+                }
+                else {
+                    _this._opaque.push(item);
+                }
+            });
+        };
+        Renderer3D.prototype.renderList = function (list, camera) {
+            for (var i = 0; i < list.length; i++) {
+                this.renderMesh(list[i].object, camera);
+            }
+        };
+        Renderer3D.prototype.renderMesh = function (mesh, camera) {
+            var gl = this._gl;
+            var program = mesh.material.apply(gl);
+            var uniforms = program.getUniforms();
+            var buffers = this.getBuffers(mesh.geometry);
+            if (uniforms['uModelViewMatrix']) {
+                mesh.modelViewMatrix.multiplyMatrices(camera.matrixWorldInverse, mesh.matrixWorld);
+                uniforms['uModelViewMatrix'].setValue(mesh.modelViewMatrix.elements);
+            }
+            if (uniforms['uNormalMatrix']) {
+                mesh.normalMatrix.getNormalMatrix(mesh.matrixWorld);
+                uniforms['uNormalMatrix'].setValue(mesh.normalMatrix.elements);
+            }
+            if (uniforms['uModelMatrix'])
+                uniforms['uModelMatrix'].setValue(mesh.matrixWorld.elements);
+            if (uniforms['uViewMatrix'])
+                uniforms['uViewMatrix'].setValue(camera.matrixWorldInverse.elements);
+            if (uniforms['uProjectionMatrix'])
+                uniforms['uProjectionMatrix'].setValue(camera.projectionMatrix.elements);
+            if (uniforms['uCameraPosition'])
+                uniforms['uCameraPosition'].setValue(this._cameraPosition);
+            program.bindVertexLayout(buffers.vertexBuffer, mesh.geometry.getLayout());
+            if (mesh.geometry.length > 0) {
+                buffers.indexBuffer.bind();
+                gl.drawElements(gl.TRIANGLES, mesh.geometry.length, buffers.indexBuffer.getIndexType(), 0);
+            }
+            else {
+                gl.drawArrays(gl.TRIANGLES, 0, mesh.geometry.getVertexCount());
+            }
+            this.drawCalls++;
+        };
+        Renderer3D.prototype.getBuffers = function (geometry) {
+            var gl = this._gl;
+            var buffers = this._buffers[geometry.uuid];
+            var vertex = geometry.vertex;
+            if (!buffers) {
+                buffers = this._buffers[geometry.uuid] = {
+                    geometry: geometry,
+                    vertex: vertex,
+                    index: geometry.index,
+                    vertexBuffer: new Buffer_1.Buffer(gl, vertex, gl.ARRAY_BUFFER, gl.STATIC_DRAW),
+                    indexBuffer: new Buffer_1.Buffer(gl, geometry.index, gl.ELEMENT_ARRAY_BUFFER, gl.STATIC_DRAW)
+                };
+            }
+            if (buffers.vertex !== vertex) {
+                buffers.vertex = vertex;
+                buffers.vertexBuffer.setData(vertex);
+            }
+            if (buffers.index !== geometry.index) {
+                buffers.index = geometry.index;
+                buffers.indexBuffer.setData(geometry.index);
+            }
+            return buffers;
+        };
+        Renderer3D.prototype.destruct = function () {
+            for (var uuid in this._buffers) {
+                this._buffers[uuid].vertexBuffer.destruct();
+                this._buffers[uuid].indexBuffer.destruct();
+            }
+            this._buffers = null;
+            this._opaque = null;
+            this._transparent = null;
+            this._frustum = null;
+            this._gl = null;
+        };
+        return Renderer3D;
+    }());
+    exports.Renderer3D = Renderer3D;
+});
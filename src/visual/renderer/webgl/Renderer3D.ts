@@ -0,0 +1,384 @@
+import {Object3D} from "../../../core/math/Object3D";
+import {Mesh3D} from "../../../core/math/Mesh3D";
+import Camera from "../../../core/math/camera/Camera";
+import {Frustum} from "../../../core/math/Frustum";
+import {Geometry} from "../../../core/webgl/Geometry";
+import {Buffer} from "../../../core/webgl/Buffer";
+import {GLState} from "../../../core/webgl/GLState";
+import IHashMap from "../../../core/interface/IHashMap";
+
+/**
+ * A mesh that is drawn this frame, with its distance to the camera for sorting.
+ */
+interface IRenderItem
+{
+	object:Mesh3D;
+	depth:number;
+	order:number;
+}
+
+/**
+ * Buffers of a geometry, uploaded again when the geometry was changed.
+ */
+interface IGeometryBuffers
+{
+	geometry:Geometry;
+	vertex:Float32Array;
+	index:Uint16Array|Uint32Array;
+	vertexBuffer:Buffer;
+	indexBuffer:Buffer;
+}
+
+/**
+ * Forward renderer for a scene graph. Every visible Mesh3D with a material, on a channel the camera sees, is
+ * drawn once. Meshes that are frustumCulled are skipped when their world bounding sphere is outside the view of
+ * the camera. Opaque meshes are drawn first, front to back so hidden pixels fail the depth test, then transparent
+ * meshes back to front so they blend over what is behind them. renderOrder goes before the distance in both.
+ * A geometry without indices is drawn as a list of triangles, every three vertices are one triangle.
+ *
+ * Before a mesh is drawn its material is applied, after that the renderer sets these uniforms when the program
+ * declares them:
+ *
+ * - uModelMatrix, uViewMatrix, uProjectionMatrix and uModelViewMatrix
+ * - uNormalMatrix, the normal matrix of the model matrix
+ * - uCameraPosition, the position of the camera in world space
+ *
+ * <h4>Example</h4>
+ *
+ *      var renderer = new Renderer3D(gl);
+ *      scene.add(new Mesh3D(Primitives.createBox(1, 1, 1), new LambertMaterial([1, 0, 0])));
+ *
+ *      renderer.render(scene, camera);
+ *
+ * @class Renderer3D
+ * @param {WebGLRenderingContext} gl
+ */
+export class Renderer3D
+{
+	/**
+	 * whether render clears the color and depth buffer first
+	 * @property autoClear
+	 * @type {boolean}
+	 */
+	public autoClear:boolean = true;
+
+	/**
+	 * rgba
+	 * @property clearColor
+	 * @type {Array<number>}
+	 */
+	public clearColor:Array<number> = [0, 0, 0, 1];
+
+	/**
+	 * amount of draw calls of the last render
+	 * @property drawCalls
+	 * @type {number}
+	 */
+	public drawCalls:number = 0;
+
+	/**
+	 * amount of meshes the last render skipped because they were outside the view of the camera
+	 * @property culled
+	 * @type {number}
+	 */
+	public culled:number = 0;
+
+	protected _gl:WebGLRenderingContext;
+	protected _state:GLState;
+	protected _buffers:IHashMap<IGeometryBuffers> = {};
+	protected _opaque:Array<IRenderItem> = [];
+	protected _transparent:Array<IRenderItem> = [];
+	protected _cameraPosition:Float32Array = new Float32Array(3);
+	protected _frustum:Frustum = new Frustum();
+
+	constructor(gl:WebGLRenderingContext)
+	{
+		this._gl = gl;
+		this._state = GLState.get(gl);
+	}
+
+	/**
+	 * Updates the world matrices of the scene and the camera and draws the scene.
+	 *
+	 * @method render
+	 * @param {Object3D} scene
+	 * @param {Camera} camera
+	 */
+	public render(scene:Object3D, camera:Camera):void
+	{
+		var gl = this._gl;
+
+		scene.updateMatrixWorld(false);
+
+		// a camera that is part of the scene was updated with it
+		if(camera.parent === null)
+		{
+			camera.updateMatrixWorld(false);
+		}
+		else
+		{
+			camera.matrixWorldInverse.getInverse(camera.matrixWorld);
+		}
+
+		if(this.autoClear)
+		{
+			this.clear();
+		}
+
+		this.drawCalls = 0;
+		this.culled = 0;
+		this._frustum.setFromCamera(camera);
+		this.collect(scene, camera);
+
+		this._opaque.sort(Renderer3D.sortOpaque);
+		this._transparent.sort(Renderer3D.sortTransparent);
+
+		var elements = camera.matrixWorld.elements;
+
+		this._cameraPosition[0] = elements[12];
+		this._cameraPosition[1] = elements[13];
+		this._cameraPosition[2] = elements[14];
+
+		this.renderList(this._opaque, camera);
+		this.renderList(this._transparent, camera);
+
+		// the lists are kept to reuse the arrays, not the meshes
+		this._opaque.length = 0;
+		this._transparent.length = 0;
+	}
+
+	/**
+	 * Clears the color buffer to clearColor and the depth buffer.
+	 *
+	 * @method clear
+	 */
+	public clear():void
+	{
+		var gl = this._gl;
+		var color = this.clearColor;
+
+		// depth is only cleared while writing to it is allowed
+		this._state.depthMask(true);
+
+		gl.clearColor(color[0], color[1], color[2], color[3]);
+		gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+	}
+
+	/**
+	 * Releases the buffers of a geometry that is not drawn anymore.
+	 *
+	 * @method releaseGeometry
+	 * @param {Geometry} geometry
+	 */
+	public releaseGeometry(geometry:Geometry):void
+	{
+		var buffers = this._buffers[geometry.uuid];
+
+		if(buffers)
+		{
+			buffers.vertexBuffer.destruct();
+			buffers.indexBuffer.destruct();
+			delete this._buffers[geometry.uuid];
+		}
+	}
+
+	/**
+	 * Opaque meshes by renderOrder, then front to back.
+	 */
+	protected static sortOpaque(a:IRenderItem, b:IRenderItem):number
+	{
+		if(a.object.renderOrder != b.object.renderOrder)
+		{
+			return a.object.renderOrder - b.object.renderOrder;
+		}
+
+		if(a.depth != b.depth)
+		{
+			return a.depth - b.depth;
+		}
+
+		return a.order - b.order;
+	}
+
+	/**
+	 * Transparent meshes by renderOrder, then back to front.
+	 */
+	protected static sortTransparent(a:IRenderItem, b:IRenderItem):number
+	{
+		if(a.object.renderOrder != b.object.renderOrder)
+		{
+			return a.object.renderOrder - b.object.renderOrder;
+		}
+
+		if(a.depth != b.depth)
+		{
+			return b.depth - a.depth;
+		}
+
+		return a.order - b.order;
+	}
+
+	/**
+	 * Fills the opaque and transparent lists with the meshes that are drawn.
+	 *
+	 * @method collect
+	 * @param {Object3D} scene
+	 * @param {Camera} camera
+	 */
+	protected collect(scene:Object3D, camera:Camera):void
+	{
+		var view = camera.matrixWorldInverse.elements;
+		var mask = camera.channels.mask;
+		var order = 0;
+
+		scene.traverseVisible((object:Object3D) => {
+			if(!(object instanceof Mesh3D))
+			{
+				return;
+			}
+
+			var mesh = <Mesh3D> object;
+
+			if(!mesh.material || !mesh.geometry || mesh.geometry.getVertexCount() == 0 || (mesh.channels.mask & mask) == 0)
+			{
+				return;
+			}
+
+			if(mesh.frustumCulled && !this._frustum.intersectsObject(mesh))
+			{
+				this.culled++;
+				return;
+			}
+
+			var world = mesh.matrixWorld.elements;
+
+			// distance along the view direction, the camera looks down -z
+			var depth = -(view[2] * world[12] + view[6] * world[13] + view[10] * world[14] + view[14]);
+
+			var item = {
+				object: mesh,
+				depth: depth,
+				order: order++
+			};
+
+			if(mesh.material.transparent)
+			{
+				this._transparent.push(item);
+			}
+			else
+			{
+				this._opaque.push(item);
+			}
+		});
+	}
+
+	protected renderList(list:Array<IRenderItem>, camera:Camera):void
+	{
+		for(var i = 0; i < list.length; i++)
+		{
+			this.renderMesh(list[i].object, camera);
+		}
+	}
+
+	/**
+	 * Applies the material, sets the matrices and draws the geometry of a mesh, with drawArrays when it has no
+	 * indices.
+	 *
+	 * @method renderMesh
+	 * @param {Mesh3D} mesh
+	 * @param {Camera} camera
+	 */
+	protected renderMesh(mesh:Mesh3D, camera:Camera):void
+	{
+		var gl = this._gl;
+		var program = mesh.material.apply(gl);
+		var uniforms = program.getUniforms();
+		var buffers = this.getBuffers(mesh.geometry);
+
+		if(uniforms['uModelViewMatrix'])
+		{
+			mesh.modelViewMatrix.multiplyMatrices(camera.matrixWorldInverse, mesh.matrixWorld);
+			uniforms['uModelViewMatrix'].setValue(mesh.modelViewMatrix.elements);
+		}
+
+		if(uniforms['uNormalMatrix'])
+		{
+			mesh.normalMatrix.getNormalMatrix(mesh.matrixWorld);
+			uniforms['uNormalMatrix'].setValue(mesh.normalMatrix.elements);
+		}
+
+		if(uniforms['uModelMatrix']) uniforms['uModelMatrix'].setValue(mesh.matrixWorld.elements);
+		if(uniforms['uViewMatrix']) uniforms['uViewMatrix'].setValue(camera.matrixWorldInverse.elements);
+		if(uniforms['uProjectionMatrix']) uniforms['uProjectionMatrix'].setValue(camera.projectionMatrix.elements);
+		if(uniforms['uCameraPosition']) uniforms['uCameraPosition'].setValue(this._cameraPosition);
+
+		program.bindVertexLayout(buffers.vertexBuffer, mesh.geometry.getLayout());
+
+		if(mesh.geometry.length > 0)
+		{
+			buffers.indexBuffer.bind();
+			gl.drawElements(gl.TRIANGLES, mesh.geometry.length, buffers.indexBuffer.getIndexType(), 0);
+		}
+		else
+		{
+			gl.drawArrays(gl.TRIANGLES, 0, mesh.geometry.getVertexCount());
+		}
+
+		this.drawCalls++;
+	}
+
+	/**
+	 * The buffers of a geometry, created on first use. The data is uploaded again when the geometry interleaved its
+	 * attributes again or got new indices.
+	 *
+	 * @method getBuffers
+	 * @param {Geometry} geometry
+	 * @returns {IGeometryBuffers}
+	 */
+	protected getBuffers(geometry:Geometry):IGeometryBuffers
+	{
+		var gl = this._gl;
+		var buffers = this._buffers[geometry.uuid];
+		var vertex = geometry.vertex;
+
+		if(!buffers)
+		{
+			buffers = this._buffers[geometry.uuid] = {
+				geometry: geometry,
+				vertex: vertex,
+				index: geometry.index,
+				vertexBuffer: new Buffer(gl, vertex, gl.ARRAY_BUFFER, gl.STATIC_DRAW),
+				indexBuffer: new Buffer(gl, geometry.index, gl.ELEMENT_ARRAY_BUFFER, gl.STATIC_DRAW)
+			};
+		}
+
+		if(buffers.vertex !== vertex)
+		{
+			buffers.vertex = vertex;
+			buffers.vertexBuffer.setData(vertex);
+		}
+
+		if(buffers.index !== geometry.index)
+		{
+			buffers.index = geometry.index;
+			buffers.indexBuffer.setData(geometry.index);
+		}
+
+		return buffers;
+	}
+
+	public destruct():void
+	{
+		for(var uuid in this._buffers)
+		{
+			this._buffers[uuid].vertexBuffer.destruct();
+			this._buffers[uuid].indexBuffer.destruct();
+		}
+
+		this._buffers = null;
+		this._opaque = null;
+		this._transparent = null;
+		this._frustum = null;
+		this._gl = null;
+	}
+}
\ No newline at end of file
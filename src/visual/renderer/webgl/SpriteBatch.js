@@ -0,0 +1,171 @@
+define(["require", "exports", "../../../core/webgl/Buffer", "../../../core/webgl/VertexLayout", "../../../core/webgl/GLState", "../../../core/webgl/Shader", "../../../core/webgl/ShaderType", "../../../core/webgl/ShaderProgram"], function (require, exports, Buffer_1, VertexLayout_1, GLState_1, Shader_1, ShaderType_1, ShaderProgram_1) {
+    "use strict";
+    var SpriteBatch = (function () {
+        function SpriteBatch(gl, size) {
+            if (size === void 0) { size = 2000; }
+            this._count = 0;
+            this._texture = null;
+            this._blendMode = null;
+            this._drawing = false;
+            this.drawCalls = 0;
+            if (size > SpriteBatch.MAX_SIZE) {
+                throw new RangeError('a SpriteBatch can hold ' + SpriteBatch.MAX_SIZE + ' sprites at most');
+            }
+            this._gl = gl;
+            this._state = GLState_1.GLState.get(gl);
+            this._size = size;
+            this._program = new ShaderProgram_1.ShaderProgram(gl, new Shader_1.Shader(ShaderType_1.default.VERTEX, SpriteBatch.VERTEX_SHADER), new Shader_1.Shader(ShaderType_1.default.FRAGMENT, SpriteBatch.FRAGMENT_SHADER));
+            this._layout = new VertexLayout_1.VertexLayout([
+                { name: 'aVertexPosition', size: 2 },
+                { name: 'aTexcoord', size: 2 },
+                { name: 'aColor', size: 4 }
+            ]);
+            this._uResolution = this._program.getUniform('uResolution');
+            this._uTexture = this._program.getUniform('uTexture');
+            this._vertices = new Float32Array(size * SpriteBatch.SPRITE_SIZE);
+            this._vertexBuffer = new Buffer_1.Buffer(gl, this._vertices, gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+            this._indexBuffer = new Buffer_1.Buffer(gl, SpriteBatch.createIndices(size), gl.ELEMENT_ARRAY_BUFFER, gl.STATIC_DRAW);
+        }
+        SpriteBatch.createIndices = function (size) {
+            var indices = new Uint16Array(size * 6);
+            for (var i = 0, j = 0; i < indices.length; i += 6, j += 4) {
+                indices[i] = j;
+                indices[i + 1] = j + 1;
+                indices[i + 2] = j + 2;
+                indices[i + 3] = j;
+                indices[i + 4] = j + 2;
+                indices[i + 5] = j + 3;
+            }
+            return indices;
+        };
+        SpriteBatch.prototype.begin = function (width, height) {
+            if (width === void 0) { width = this._gl.drawingBufferWidth; }
+            if (height === void 0) { height = this._gl.drawingBufferHeight; }
+            if (this._drawing) {
+                throw new Error('SpriteBatch.end must be called before begin.');
+            }
+            var gl = this._gl;
+            this._program.use();
+            this._uResolution.setValue(new Float32Array([width, height]));
+            this._indexBuffer.bind();
+            this._program.bindVertexLayout(this._vertexBuffer, this._layout);
+            this._state.enable(gl.BLEND);
+            this._state.disable(gl.DEPTH_TEST);
+            this._drawing = true;
+            this._count = 0;
+            this._texture = null;
+            this._blendMode = null;
+            this.drawCalls = 0;
+        };
+        SpriteBatch.prototype.draw = function (sprite) {
+            if (!this._drawing) {
+                throw new Error('SpriteBatch.begin must be called before draw.');
+            }
+            if (!sprite.visible || sprite.alpha <= 0 || !sprite.hasLoaded()) {
+                return;
+            }
+            if (sprite.texture !== this._texture || sprite.blendMode !== this._blendMode || this._count == this._size) {
+                this.flush();
+                this._texture = sprite.texture;
+                this._blendMode = sprite.blendMode;
+            }
+            var vertices = this._vertices;
+            var uv = sprite.getUV();
+            var offset = this._count * SpriteBatch.SPRITE_SIZE;
+            var r = (sprite.tint >> 16 & 0xff) / 255;
+            var g = (sprite.tint >> 8 & 0xff) / 255;
+            var b = (sprite.tint & 0xff) / 255;
+            var a = sprite.alpha;
+            var angle = sprite.rotation * Math.PI / 180;
+            var cos = Math.cos(angle);
+            var sin = Math.sin(angle);
+            var x0 = -sprite.regX * sprite.scaleX;
+            var y0 = -sprite.regY * sprite.scaleY;
+            var x1 = x0 + sprite.width * sprite.scaleX;
+            var y1 = y0 + sprite.height * sprite.scaleY;
+            var corners = [x0, y0, x1, y0, x1, y1, x0, y1];
+            for (var i = 0; i < 4; i++) {
+                var cx = corners[i * 2];
+                var cy = corners[i * 2 + 1];
+                vertices[offset++] = sprite.x + cx * cos - cy * sin;
+                vertices[offset++] = sprite.y + cx * sin + cy * cos;
+                vertices[offset++] = uv[i * 2];
+                vertices[offset++] = uv[i * 2 + 1];
+                vertices[offset++] = r;
+                vertices[offset++] = g;
+                vertices[offset++] = b;
+                vertices[offset++] = a;
+            }
+            this._count++;
+        };
+        SpriteBatch.prototype.flush = function () {
+            if (this._count == 0) {
+                return;
+            }
+            var gl = this._gl;
+            this._uTexture.setValue(this._texture);
+            this.applyBlendMode(this._blendMode);
+            this._vertexBuffer.setDirty(0, this._count * SpriteBatch.SPRITE_SIZE).update();
+            gl.drawElements(gl.TRIANGLES, this._count * 6, gl.UNSIGNED_SHORT, 0);
+            this.drawCalls++;
+            this._count = 0;
+        };
+        SpriteBatch.prototype.end = function () {
+            this.flush();
+            this._drawing = false;
+        };
+        SpriteBatch.prototype.render = function (sprites) {
+            this.begin();
+            for (var i = 0; i < sprites.length; i++) {
+                this.draw(sprites[i]);
+            }
+            this.end();
+        };
+        SpriteBatch.prototype.applyBlendMode = function (blendMode) {
+            var gl = this._gl;
+            var state = this._state;
+            switch (blendMode) {
+                case 1:
+                    {
+                        state.blendFunc(gl.SRC_ALPHA, gl.ONE);
+                        break;
+                    }
+                case 2:
+                    {
+                        state.blendFunc(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA);
+                        break;
+                    }
+                case 3:
+                    {
+                        state.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_COLOR);
+                        break;
+                    }
+                default:
+                    {
+                        state.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+                        break;
+                    }
+            }
+        };
+        SpriteBatch.prototype.destruct = function () {
+            this._program.destruct();
+            this._vertexBuffer.destruct();
+            this._indexBuffer.destruct();
+            this._program = null;
+            this._vertexBuffer = null;
+            this._layout = null;
+            this._indexBuffer = null;
+            this._vertices = null;
+            this._texture = null;
+            this._gl = null;
+            this._state = null;
+        };
+        SpriteBatch.VERTEX_SIZE = 8;
+        SpriteBatch.SPRITE_SIZE = SpriteBatch.VERTEX_SIZE * 4;
+        SpriteBatch.MAX_SIZE = 16383;
+        SpriteBatch.VERTEX_SHADER = "\nattribute vec2 aVertexPosition;\nattribute vec2 aTexcoord;\nattribute vec4 aColor;\n\nuniform vec2 uResolution;\n\nvarying vec2 vTexcoord;\nvarying vec4 vColor;\n\nvoid main(void) {\n\tvec2 position = aVertexPosition / uResolution * 2.0 - 1.0;\n\tgl_Position = vec4(position.x, -position.y, 0.0, 1.0);\n\n\t// textures are uploaded flipped\n\tvTexcoord = vec2(aTexcoord.x, 1.0 - aTexcoord.y);\n\tvColor = aColor;\n}\n";
+        SpriteBatch.FRAGMENT_SHADER = "\nprecision lowp float;\n\nuniform sampler2D uTexture;\n\nvarying vec2 vTexcoord;\nvarying vec4 vColor;\n\nvoid main(void) {\n\tgl_FragColor = texture2D(uTexture, vTexcoord) * vColor;\n}\n";
+        return SpriteBatch;
+    }());
+    exports.SpriteBatch = SpriteBatch;
+});
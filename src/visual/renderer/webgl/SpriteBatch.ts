@@ -0,0 +1,347 @@
+import {Sprite} from "../../display/Sprite";
+import {Texture} from "../../display/Texture";
+import {Buffer} from "../../../core/webgl/Buffer";
+import {VertexLayout} from "../../../core/webgl/VertexLayout";
+import {GLState} from "../../../core/webgl/GLState";
+import {Shader} from "../../../core/webgl/Shader";
+import ShaderType from "../../../core/webgl/ShaderType";
+import {ShaderProgram} from "../../../core/webgl/ShaderProgram";
+import {UniformLocation} from "../../../core/webgl/UniformLocation";
+import BlendType from "../../enum/BlendType";
+
+/**
+ * Packs sprites into one interleaved dynamic vertex buffer and draws them with as few draw calls as possible. The
+ * batch is only flushed when the texture or blend mode changes, or when it is full.
+ *
+ * <h4>Example</h4>
+ *
+ *      var batch = new SpriteBatch(gl);
+ *      batch.begin();
+ *      for(var i = 0; i < sprites.length; i++) batch.draw(sprites[i]);
+ *      batch.end();
+ *
+ * @class SpriteBatch
+ * @param {WebGLRenderingContext} gl
+ * @param {number} [size=2000] the amount of sprites that fit in one draw call.
+ */
+export class SpriteBatch
+{
+	/**
+	 * x, y, u, v, r, g, b, a
+	 * @property VERTEX_SIZE
+	 * @type {number}
+	 * @static
+	 */
+	public static VERTEX_SIZE:number = 8;
+	public static SPRITE_SIZE:number = SpriteBatch.VERTEX_SIZE * 4;
+
+	/**
+	 * 4 vertices per sprite addressed by a 16 bit index.
+	 * @property MAX_SIZE
+	 * @type {number}
+	 * @static
+	 */
+	public static MAX_SIZE:number = 16383;
+
+	public static VERTEX_SHADER:string = `
+attribute vec2 aVertexPosition;
+attribute vec2 aTexcoord;
+attribute vec4 aColor;
+
+uniform vec2 uResolution;
+
+varying vec2 vTexcoord;
+varying vec4 vColor;
+
+void main(void) {
+	vec2 position = aVertexPosition / uResolution * 2.0 - 1.0;
+	gl_Position = vec4(position.x, -position.y, 0.0, 1.0);
+
+	// textures are uploaded flipped
+	vTexcoord = vec2(aTexcoord.x, 1.0 - aTexcoord.y);
+	vColor = aColor;
+}
+`;
+
+	public static FRAGMENT_SHADER:string = `
+precision lowp float;
+
+uniform sampler2D uTexture;
+
+varying vec2 vTexcoord;
+varying vec4 vColor;
+
+void main(void) {
+	gl_FragColor = texture2D(uTexture, vTexcoord) * vColor;
+}
+`;
+
+	protected _gl:WebGLRenderingContext;
+	protected _state:GLState;
+	protected _size:number;
+	protected _program:ShaderProgram;
+	protected _vertices:Float32Array;
+	protected _vertexBuffer:Buffer;
+	protected _layout:VertexLayout;
+	protected _indexBuffer:Buffer;
+
+	protected _uResolution:UniformLocation;
+	protected _uTexture:UniformLocation;
+
+	protected _count:number = 0;
+	protected _texture:Texture = null;
+	protected _blendMode:BlendType = null;
+	protected _drawing:boolean = false;
+
+	/**
+	 * amount of drawElements calls since the last begin
+	 * @property drawCalls
+	 * @type {number}
+	 */
+	public drawCalls:number = 0;
+
+	constructor(gl:WebGLRenderingContext, size:number = 2000)
+	{
+		if(size > SpriteBatch.MAX_SIZE)
+		{
+			throw new RangeError('a SpriteBatch can hold ' + SpriteBatch.MAX_SIZE + ' sprites at most');
+		}
+
+		this._gl = gl;
+		this._state = GLState.get(gl);
+		this._size = size;
+
+		this._program = new ShaderProgram(
+			gl,
+			new Shader(ShaderType.VERTEX, SpriteBatch.VERTEX_SHADER),
+			new Shader(ShaderType.FRAGMENT, SpriteBatch.FRAGMENT_SHADER)
+		);
+
+		this._layout = new VertexLayout([
+			{name: 'aVertexPosition', size: 2},
+			{name: 'aTexcoord', size: 2},
+			{name: 'aColor', size: 4}
+		]);
+
+		this._uResolution = this._program.getUniform('uResolution');
+		this._uTexture = this._program.getUniform('uTexture');
+
+		this._vertices = new Float32Array(size * SpriteBatch.SPRITE_SIZE);
+		this._vertexBuffer = new Buffer(gl, this._vertices, gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+		this._indexBuffer = new Buffer(gl, SpriteBatch.createIndices(size), gl.ELEMENT_ARRAY_BUFFER, gl.STATIC_DRAW);
+	}
+
+	protected static createIndices(size:number):Uint16Array
+	{
+		var indices = new Uint16Array(size * 6);
+
+		for(var i = 0, j = 0; i < indices.length; i += 6, j += 4)
+		{
+			indices[i] = j;
+			indices[i + 1] = j + 1;
+			indices[i + 2] = j + 2;
+			indices[i + 3] = j;
+			indices[i + 4] = j + 2;
+			indices[i + 5] = j + 3;
+		}
+
+		return indices;
+	}
+
+	/**
+	 * Prepares the program and buffers, sprites can be drawn until end is called.
+	 *
+	 * @method begin
+	 * @param {number} [width] width of the target in pixels, defaults to the drawing buffer.
+	 * @param {number} [height] height of the target in pixels, defaults to the drawing buffer.
+	 */
+	public begin(width:number = this._gl.drawingBufferWidth, height:number = this._gl.drawingBufferHeight):void
+	{
+		if(this._drawing)
+		{
+			throw new Error('SpriteBatch.end must be called before begin.');
+		}
+
+		var gl = this._gl;
+
+		this._program.use();
+		this._uResolution.setValue(new Float32Array([width, height]));
+
+		this._indexBuffer.bind();
+		this._program.bindVertexLayout(this._vertexBuffer, this._layout);
+
+		this._state.enable(gl.BLEND);
+		this._state.disable(gl.DEPTH_TEST);
+
+		this._drawing = true;
+		this._count = 0;
+		this._texture = null;
+		this._blendMode = null;
+		this.drawCalls = 0;
+	}
+
+	/**
+	 * Adds a sprite to the batch.
+	 *
+	 * @method draw
+	 * @param {Sprite} sprite
+	 */
+	public draw(sprite:Sprite):void
+	{
+		if(!this._drawing)
+		{
+			throw new Error('SpriteBatch.begin must be called before draw.');
+		}
+
+		if(!sprite.visible || sprite.alpha <= 0 || !sprite.hasLoaded())
+		{
+			return;
+		}
+
+		if(sprite.texture !== this._texture || sprite.blendMode !== this._blendMode || this._count == this._size)
+		{
+			this.flush();
+			this._texture = sprite.texture;
+			this._blendMode = sprite.blendMode;
+		}
+
+		var vertices = this._vertices;
+		var uv = sprite.getUV();
+		var offset = this._count * SpriteBatch.SPRITE_SIZE;
+
+		var r = (sprite.tint >> 16 & 0xff) / 255;
+		var g = (sprite.tint >> 8 & 0xff) / 255;
+		var b = (sprite.tint & 0xff) / 255;
+		var a = sprite.alpha;
+
+		var angle = sprite.rotation * Math.PI / 180;
+		var cos = Math.cos(angle);
+		var sin = Math.sin(angle);
+
+		var x0 = -sprite.regX * sprite.scaleX;
+		var y0 = -sprite.regY * sprite.scaleY;
+		var x1 = x0 + sprite.width * sprite.scaleX;
+		var y1 = y0 + sprite.height * sprite.scaleY;
+
+		// corners in the same order as Texture.getUVFromRect: top left, top right, bottom right, bottom left
+		var corners = [x0, y0, x1, y0, x1, y1, x0, y1];
+
+		for(var i = 0; i < 4; i++)
+		{
+			var cx = corners[i * 2];
+			var cy = corners[i * 2 + 1];
+
+			vertices[offset++] = sprite.x + cx * cos - cy * sin;
+			vertices[offset++] = sprite.y + cx * sin + cy * cos;
+			vertices[offset++] = uv[i * 2];
+			vertices[offset++] = uv[i * 2 + 1];
+			vertices[offset++] = r;
+			vertices[offset++] = g;
+			vertices[offset++] = b;
+			vertices[offset++] = a;
+		}
+
+		this._count++;
+	}
+
+	/**
+	 * Draws all sprites that are waiting in the batch.
+	 *
+	 * @method flush
+	 */
+	public flush():void
+	{
+		if(this._count == 0)
+		{
+			return;
+		}
+
+		var gl = this._gl;
+
+		this._uTexture.setValue(this._texture);
+		this.applyBlendMode(this._blendMode);
+
+		this._vertexBuffer.setDirty(0, this._count * SpriteBatch.SPRITE_SIZE).update();
+		gl.drawElements(gl.TRIANGLES, this._count * 6, gl.UNSIGNED_SHORT, 0);
+
+		this.drawCalls++;
+		this._count = 0;
+	}
+
+	/**
+	 * Flushes the remaining sprites.
+	 *
+	 * @method end
+	 */
+	public end():void
+	{
+		this.flush();
+		this._drawing = false;
+	}
+
+	/**
+	 * Draws a list of sprites in one go.
+	 *
+	 * @method render
+	 * @param {Array<Sprite>} sprites
+	 */
+	public render(sprites:Array<Sprite>):void
+	{
+		this.begin();
+
+		for(var i = 0; i < sprites.length; i++)
+		{
+			this.draw(sprites[i]);
+		}
+
+		this.end();
+	}
+
+	protected applyBlendMode(blendMode:BlendType):void
+	{
+		var gl = this._gl;
+		var state = this._state;
+
+		switch(blendMode)
+		{
+			case BlendType.ADD:
+			{
+				state.blendFunc(gl.SRC_ALPHA, gl.ONE);
+				break;
+			}
+
+			case BlendType.MULTIPLY:
+			{
+				state.blendFunc(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA);
+				break;
+			}
+
+			case BlendType.SCREEN:
+			{
+				state.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_COLOR);
+				break;
+			}
+
+			default:
+			{
+				state.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+				break;
+			}
+		}
+	}
+
+	public destruct():void
+	{
+		this._program.destruct();
+		this._vertexBuffer.destruct();
+		this._indexBuffer.destruct();
+		this._program = null;
+		this._vertexBuffer = null;
+		this._layout = null;
+		this._indexBuffer = null;
+		this._vertices = null;
+		this._texture = null;
+		this._gl = null;
+		this._state = null;
+	}
+}
\ No newline at end of file
@@ -1,11 +1,11 @@
-define(["require", "exports", "../../../src/visual/renderer/element/CanvasWebGL", "../../../src/core/webgl/Geometry", "../../../src/core/webgl/ShaderProgram", "../../../src/core/webgl/Buffer", "../../../src/core/webgl/Camera", "../../../src/visual/display/Texture", "../../../src/core/util/PromiseUtil"], function (require, exports, CanvasWebGL_1, Geometry_1, ShaderProgram_1, Buffer_1, Camera_1, Texture_1, PromiseUtil_1) {
+define(["require", "exports", "../../../src/visual/renderer/element/CanvasWebGL", "../../../src/core/webgl/Geometry", "../../../src/core/webgl/ShaderProgram", "../../../src/core/webgl/Buffer", "../../../src/core/math/camera/PerspectiveCamera", "../../../src/visual/display/Texture", "../../../src/core/util/PromiseUtil"], function (require, exports, CanvasWebGL_1, Geometry_1, ShaderProgram_1, Buffer_1, PerspectiveCamera_1, Texture_1, PromiseUtil_1) {
     "use strict";
     var GUI = dat.GUI;
     var canvas = new CanvasWebGL_1.CanvasWebGL(void 0, 1024, 1024);
     canvas.appendTo(document.body.querySelector('[container="main"]'));
     var gl = canvas.getContext();
     var quad = Geometry_1.Geometry.QUAD;
-    var camera = new Camera_1.Camera(canvas);
+    var camera = new PerspectiveCamera_1.PerspectiveCamera(45, 1, 0.1, 100).follow(canvas);
     var pos = { x: 0, y: 0, z: -2 };
     var gui = new GUI();
     gui.add(pos, 'x', -50, 50);
@@ -8,7 +8,7 @@ import GUI = dat.GUI;
 import Interval from "../../../src/core/util/Interval";
 import Time from "../../../src/core/util/Time";
 import {mat4, vec3} from "../../../src/vendor/gl-matrix/gl-matrix";
-import {Camera} from "../../../src/core/webgl/Camera";
+import {PerspectiveCamera} from "../../../src/core/math/camera/PerspectiveCamera";
 import {Texture} from "../../../src/visual/display/Texture";
 import {PromiseUtil} from "../../../src/core/util/PromiseUtil";
 
@@ -16,7 +16,7 @@ var canvas = new CanvasWebGL(void 0, 1024, 1024);
 canvas.appendTo(document.body.querySelector('[container="main"]'));
 var gl = canvas.getContext();
 var quad = Geometry.QUAD;
-var camera = new Camera(canvas);
+var camera = new PerspectiveCamera(45, 1, 0.1, 100).follow(canvas);
 
 var pos = {x:0, y:0, z:-2};
 
@@ -21,10 +21,7 @@ define(["require", "exports", "../../../src/core/webgl/Shader", "../../../src/co
     var uPMatrix = program.getUniform("uPMatrix");
     var uTime = program.getUniform("uTime");
     texture.load().then(function () {
-        Texture_1.Texture.getTexture(gl, texture);
-        uTexture.setValue(0).activate();
-        Texture_1.Texture.bind(gl, texture);
-        Texture_1.Texture.update(gl, texture);
+        uTexture.setValue(texture);
     });
     gl.enable(gl.DEPTH_TEST);
     var DEGREE_RAD = Math.PI / 180;
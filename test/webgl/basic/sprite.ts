@@ -48,10 +48,7 @@ var uPMatrix = program.getUniform("uPMatrix");
 var uTime = program.getUniform("uTime");
 
 texture.load().then(() => {
-	Texture.getTexture(gl, texture);
-	uTexture.setValue(0).activate();
-	Texture.bind(gl, texture);
-	Texture.update(gl, texture);
+	uTexture.setValue(texture);
 })
 
 //var coord = program.getAttribLocation("coordinates");